@@ -6,6 +6,7 @@ import { Header } from './components/Header';
 import { useLanguage } from './hooks/useLanguage';
 import Spinner from './components/Spinner';
 import { supabase } from './services/supabaseClient';
+import { outboxService } from './services/outboxService';
 
 // Lazy loaded components
 const Login = lazy(() => import('./components/Login'));
@@ -59,6 +60,12 @@ const Dashboard = React.memo(() => {
   const { user } = useAuth();
   const { dir } = useLanguage();
 
+  // Replay visits recorded offline as soon as a signed-in session is available, only the signed-in user's own
+  useEffect(() => {
+    if (!user) return;
+    return outboxService.init(user.id);
+  }, [user]);
+
   if (!user) return null;
 
   return (
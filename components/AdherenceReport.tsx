@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { User, Doctor, VisitReport, WeeklyPlan, RepWeekAdherence } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { computeTeamWeekAdherence } from '../services/adherenceService';
+import { exportAdherenceToExcel } from '../services/exportService';
+import { getWeekStartKey, addWeeks, addDays, fromDateKey } from '../services/dateUtils';
+import { DownloadIcon, ChevronRightIcon, ChevronLeftIcon } from './icons';
+import Spinner from './Spinner';
+
+interface AdherenceReportProps {
+  reps: User[];
+  repIds?: string[]; // Limits the plans and visits fetched to a supervisor's team
+  doctors: Doctor[];
+}
+
+const getScoreColor = (score: number | null) => {
+  if (score === null) return 'bg-slate-100 text-slate-600';
+  if (score >= 80) return 'bg-green-100 text-green-800';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+const AdherenceReport: React.FC<AdherenceReportProps> = ({ reps, repIds, doctors }) => {
+  const { t } = useLanguage();
+  const [weekStart, setWeekStart] = useState<string>(() => getWeekStartKey());
+  const [plans, setPlans] = useState<{ [repId: string]: WeeklyPlan }>({});
+  const [reports, setReports] = useState<VisitReport[]>([]); // The week's visits
+  const [loading, setLoading] = useState(true);
+  const [expandedRepId, setExpandedRepId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchWeek = async () => {
+      setLoading(true);
+      try {
+        const [plansData, reportsData] = await Promise.all([
+          api.getAllPlans(weekStart, repIds),
+          api.getVisitReportsBetween(weekStart, addDays(weekStart, 6), repIds),
+        ]);
+        if (cancelled) return;
+        setPlans(plansData);
+        setReports(reportsData);
+      } catch (error) {
+        console.error(`Failed to fetch plans and visits for adherence week ${weekStart}`, error);
+        if (!cancelled) {
+          setPlans({});
+          setReports([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchWeek();
+    return () => { cancelled = true; };
+  }, [weekStart, repIds]);
+
+  const adherence = useMemo(
+    () => computeTeamWeekAdherence(reps, weekStart, plans, reports),
+    [reps, weekStart, plans, reports]
+  );
+
+  const teamTotals = useMemo(() => {
+    const planned = adherence.reduce((sum, a) => sum + a.plannedCount, 0);
+    const visited = adherence.reduce((sum, a) => sum + a.visitedPlannedCount, 0);
+    return {
+      planned,
+      visited,
+      missed: adherence.reduce((sum, a) => sum + a.missedCount, 0),
+      unplanned: adherence.reduce((sum, a) => sum + a.unplannedCount, 0),
+      score: planned > 0 ? Math.round((visited / planned) * 100) : null,
+    };
+  }, [adherence]);
+
+  const doctorMap = useMemo(() => new Map(doctors.map(d => [d.id, d.name])), [doctors]);
+  const repMap = useMemo(() => new Map(reps.map(r => [r.id, r.name])), [reps]);
+
+  const formatWeek = (key: string) => fromDateKey(key).toLocaleDateString(t('locale'), { day: 'numeric', month: 'long', year: 'numeric' });
+
+  const handleExport = () => {
+    exportAdherenceToExcel(adherence, reps, doctors, `plan_adherence_${weekStart}`, t);
+  };
+
+  const renderDoctorChips = (ids: number[], color: string) => (
+    ids.length > 0 ? (
+      <div className="flex flex-wrap gap-1">
+        {ids.map(id => (
+          <span key={id} className={`text-xs px-1.5 py-0.5 rounded-full ${color}`}>
+            {doctorMap.get(id) || t('unknown_doctor')}
+          </span>
+        ))}
+      </div>
+    ) : <span className="text-xs text-slate-400">-</span>
+  );
+
+  const renderDrillDown = (item: RepWeekAdherence) => (
+    <tr>
+      <td colSpan={7} className="px-4 py-4 bg-white/30">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-start">
+            <thead className="text-xs text-slate-600 uppercase">
+              <tr>
+                <th className="px-3 py-2">{t('date')}</th>
+                <th className="px-3 py-2">{t('planned_visited')}</th>
+                <th className="px-3 py-2">{t('planned_missed')}</th>
+                <th className="px-3 py-2">{t('unplanned_visited')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {item.days.map(day => (
+                <tr key={day.date} className="border-t border-white/40 align-top">
+                  <td className="px-3 py-2 whitespace-nowrap font-medium text-slate-700">
+                    {fromDateKey(day.date).toLocaleDateString(t('locale'), { weekday: 'long', day: 'numeric', month: 'numeric' })}
+                    {day.isUpcoming && day.plannedDoctorIds.length > 0 && (
+                      <span className="block text-xs text-slate-500">{t('adherence_day_open', day.plannedDoctorIds.length - day.visitedPlannedIds.length)}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">{renderDoctorChips(day.visitedPlannedIds, 'bg-green-100 text-green-800')}</td>
+                  <td className="px-3 py-2">{renderDoctorChips(day.missedIds, 'bg-red-100 text-red-800')}</td>
+                  <td className="px-3 py-2">{renderDoctorChips(day.unplannedVisitedIds, 'bg-blue-100 text-blue-800')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+      <div className="flex flex-col lg:flex-row justify-between items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-blue-800">{t('plan_adherence')}</h3>
+          <p className="text-sm text-slate-600">{t('plan_adherence_description')}</p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <button onClick={() => setWeekStart(prev => addWeeks(prev, -1))} className="p-2 text-slate-600 hover:text-orange-600 rounded-full hover:bg-slate-200/50 transition-colors" aria-label={t('previous_week')}>
+            <ChevronRightIcon className="w-5 h-5" />
+          </button>
+          <span className="font-semibold text-slate-700 min-w-[180px] text-center">{t('week_of', formatWeek(weekStart))}</span>
+          <button onClick={() => setWeekStart(prev => addWeeks(prev, 1))} className="p-2 text-slate-600 hover:text-orange-600 rounded-full hover:bg-slate-200/50 transition-colors" aria-label={t('next_week')}>
+            <ChevronLeftIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={loading}
+            className="flex items-center gap-2 text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-4 py-2 transition-colors disabled:bg-green-300"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      {loading ? <Spinner /> : (
+        <>
+          {/* Team summary */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('adherence_score')}</p>
+              <p className={`mt-1 inline-block text-xl font-bold px-3 py-0.5 rounded-full ${getScoreColor(teamTotals.score)}`}>{teamTotals.score === null ? '-' : `${teamTotals.score}%`}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('planned_visits')}</p>
+              <p className="text-2xl font-bold text-slate-800">{teamTotals.planned}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('planned_visited')}</p>
+              <p className="text-2xl font-bold text-green-700">{teamTotals.visited}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('planned_missed')}</p>
+              <p className="text-2xl font-bold text-red-700">{teamTotals.missed}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('unplanned_visited')}</p>
+              <p className="text-2xl font-bold text-blue-700">{teamTotals.unplanned}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-start">
+              <thead className="text-xs text-blue-800 uppercase bg-white/50">
+                <tr>
+                  <th scope="col" className="px-6 py-3">{t('rep_name')}</th>
+                  <th scope="col" className="px-4 py-3">{t('plan_status')}</th>
+                  <th scope="col" className="px-4 py-3 text-center">{t('planned_visits')}</th>
+                  <th scope="col" className="px-4 py-3 text-center">{t('planned_visited')}</th>
+                  <th scope="col" className="px-4 py-3 text-center">{t('planned_missed')}</th>
+                  <th scope="col" className="px-4 py-3 text-center">{t('unplanned_visited')}</th>
+                  <th scope="col" className="px-4 py-3 text-center">{t('adherence_score')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {adherence.map(item => (
+                  <React.Fragment key={item.repId}>
+                    <tr
+                      onClick={() => setExpandedRepId(prev => prev === item.repId ? null : item.repId)}
+                      className={`border-b border-white/30 cursor-pointer hover:bg-white/40 ${expandedRepId === item.repId ? 'bg-white/40' : 'bg-white/20'}`}
+                      title={t('click_for_daily_details')}
+                    >
+                      <td className="px-6 py-4 font-semibold text-slate-900 whitespace-nowrap">{repMap.get(item.repId) || t('unknown')}</td>
+                      <td className="px-4 py-4 text-slate-700">{item.planStatus ? t(`plan_status_${item.planStatus}`) : t('no_plan_submitted')}</td>
+                      <td className="px-4 py-4 text-center">{item.plannedCount}</td>
+                      <td className="px-4 py-4 text-center text-green-700 font-semibold">{item.visitedPlannedCount}</td>
+                      <td className="px-4 py-4 text-center text-red-700 font-semibold">{item.missedCount}</td>
+                      <td className="px-4 py-4 text-center text-blue-700 font-semibold">{item.unplannedCount}</td>
+                      <td className="px-4 py-4 text-center">
+                        <span className={`text-xs font-bold px-2.5 py-0.5 rounded-full ${getScoreColor(item.score)}`}>{item.score === null ? '-' : `${item.score}%`}</span>
+                      </td>
+                    </tr>
+                    {expandedRepId === item.repId && renderDrillDown(item)}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+            {adherence.length === 0 && <p className="text-center text-slate-600 py-8">{t('no_data')}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdherenceReport;
@@ -1,14 +1,14 @@
 import React, { useEffect, useRef } from 'react';
-import { VisitReport } from '../types';
+import { VisitReportStats } from '../types';
 import { useLanguage } from '../hooks/useLanguage';
 
 declare const Chart: any;
 
 interface AnalyticsChartsProps {
-  reports: VisitReport[];
+  stats: VisitReportStats; // Aggregated on the server over every report matching the filters
 }
 
-const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ reports }) => {
+const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ stats }) => {
   const { t } = useLanguage();
   const visitsByRepChartRef = useRef<HTMLCanvasElement>(null);
   const visitTypeChartRef = useRef<HTMLCanvasElement>(null);
@@ -23,7 +23,7 @@ const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ reports }) => {
     });
     chartInstances.current = {};
 
-    if (reports.length === 0) {
+    if (stats.total === 0) {
       return; // Don't render charts if there's no data
     }
 
@@ -31,13 +31,8 @@ const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ reports }) => {
     if (visitsByRepChartRef.current) {
       const ctx = visitsByRepChartRef.current.getContext('2d');
       if (ctx) {
-        const visitsByRep = reports.reduce((acc, report) => {
-          acc[report.repName] = (acc[report.repName] || 0) + 1;
-          return acc;
-        }, {} as { [key: string]: number });
-
-        const labels = Object.keys(visitsByRep);
-        const data = Object.values(visitsByRep);
+        const labels = stats.byRep.map(r => r.repName);
+        const data = stats.byRep.map(r => r.count);
 
         chartInstances.current.visitsByRep = new Chart(ctx, {
           type: 'bar',
@@ -76,15 +71,12 @@ const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ reports }) => {
     if (visitTypeChartRef.current) {
       const ctx = visitTypeChartRef.current.getContext('2d');
       if (ctx) {
-        const doctorVisits = reports.filter(r => r.type === 'DOCTOR_VISIT').length;
-        const pharmacyVisits = reports.filter(r => r.type === 'PHARMACY_VISIT').length;
-
         chartInstances.current.visitType = new Chart(ctx, {
           type: 'doughnut',
           data: {
             labels: [t('doctors'), t('pharmacies')],
             datasets: [{
-              data: [doctorVisits, pharmacyVisits],
+              data: [stats.doctorVisits, stats.pharmacyVisits],
               backgroundColor: [
                 'rgba(59, 130, 246, 0.7)',
                 'rgba(249, 115, 22, 0.7)',
@@ -109,12 +101,12 @@ const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ reports }) => {
       }
     }
 
-  }, [reports, t]);
+  }, [stats, t]);
 
   return (
     <div className="bg-white/40 backdrop-blur-lg p-6 rounded-2xl shadow-lg border border-white/50 mb-8 animate-fade-in-up" style={{ animationDelay: '200ms' }}>
        <h3 className="text-xl font-semibold mb-4 text-blue-700">{t('analytics_overview')}</h3>
-       {reports.length > 0 ? (
+       {stats.total > 0 ? (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8" style={{ minHeight: '300px' }}>
           <div>
             <h4 className="text-md font-semibold text-center text-slate-700 mb-2">{t('visits_by_rep')}</h4>
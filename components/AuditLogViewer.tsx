@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { AuditLogEntry, AuditAction, AUDIT_ACTIONS, User, UserRole } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { describeAuditTarget, summarizeAuditPayload } from '../services/auditLogService';
+import { exportAuditLog } from '../services/exportService';
+import { DownloadIcon } from './icons';
+import Spinner from './Spinner';
+
+const ACTION_BADGES: Record<AuditAction, string> = {
+  delete_user: 'bg-red-100 text-red-800',
+  reset_rep_data: 'bg-red-100 text-red-800',
+  review_plan: 'bg-blue-100 text-blue-800',
+  revoke_plan_approval: 'bg-yellow-100 text-yellow-800',
+  update_settings: 'bg-purple-100 text-purple-800',
+  import_clients: 'bg-green-100 text-green-800',
+};
+
+const AuditLogViewer: React.FC = () => {
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [actors, setActors] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [actorFilter, setActorFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState<AuditAction | 'all'>('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  useEffect(() => {
+    // Only managers and supervisors perform administrative actions
+    api.getUsers()
+      .then(users => setActors(users.filter(u => u.role !== UserRole.Rep)))
+      .catch(err => console.error("Failed to fetch users for the audit log filter", err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchEntries = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await api.getAuditLog({
+          actorId: actorFilter === 'all' ? undefined : actorFilter,
+          action: actionFilter === 'all' ? undefined : actionFilter,
+          startDate: startDate || undefined,
+          endDate: endDate || undefined,
+        });
+        if (!cancelled) setEntries(data);
+      } catch (err: any) {
+        console.error("Failed to fetch audit log", err);
+        if (!cancelled) setError(t(err.message === 'error_permission_denied' ? err.message : 'error_fetching_audit_log'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchEntries();
+    return () => { cancelled = true; };
+  }, [actorFilter, actionFilter, startDate, endDate, t]);
+
+  const handleExport = (format: 'xlsx' | 'csv') => {
+    exportAuditLog(entries, `audit_log_${new Date().toISOString().split('T')[0]}`, format, t);
+  };
+
+  const inputClass = "bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 p-2";
+
+  return (
+    <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+      <div className="flex flex-col lg:flex-row justify-between items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-blue-800">{t('audit_log')}</h3>
+          <p className="text-sm text-slate-600">{t('audit_log_description')}</p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <select value={actorFilter} onChange={e => setActorFilter(e.target.value)} className={inputClass}>
+            <option value="all">{t('audit_all_actors')}</option>
+            {actors.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+          <select value={actionFilter} onChange={e => setActionFilter(e.target.value as AuditAction | 'all')} className={inputClass}>
+            <option value="all">{t('audit_all_actions')}</option>
+            {AUDIT_ACTIONS.map(action => <option key={action} value={action}>{t(`audit_action_${action}`)}</option>)}
+          </select>
+          <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClass} aria-label={t('from_date')} />
+          <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className={inputClass} aria-label={t('to_date')} />
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={loading || entries.length === 0}
+            className="flex items-center gap-2 text-white bg-slate-600 hover:bg-slate-700 font-medium rounded-lg text-sm px-4 py-2 transition-colors disabled:bg-slate-300"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            disabled={loading || entries.length === 0}
+            className="flex items-center gap-2 text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-4 py-2 transition-colors disabled:bg-green-300"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      {loading ? <Spinner /> : error ? (
+        <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-start">
+            <thead className="text-xs text-blue-800 uppercase bg-white/50">
+              <tr>
+                <th scope="col" className="px-4 py-3">{t('date')}</th>
+                <th scope="col" className="px-4 py-3">{t('audit_actor')}</th>
+                <th scope="col" className="px-4 py-3">{t('audit_action')}</th>
+                <th scope="col" className="px-4 py-3">{t('audit_target')}</th>
+                <th scope="col" className="px-4 py-3">{t('audit_details')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id} className="bg-white/20 border-b border-white/30 hover:bg-white/40 align-top">
+                  <td className="px-4 py-3 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString(t('locale'), { dateStyle: 'medium', timeStyle: 'short' })}</td>
+                  <td className="px-4 py-3 font-medium text-slate-900">{entry.actorName || t('unknown')}</td>
+                  <td className="px-4 py-3">
+                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full whitespace-nowrap ${ACTION_BADGES[entry.action] || 'bg-slate-100 text-slate-700'}`}>{t(`audit_action_${entry.action}`)}</span>
+                  </td>
+                  <td className="px-4 py-3">{describeAuditTarget(entry, t)}</td>
+                  <td className="px-4 py-3 max-w-md">
+                    <p className="text-slate-700">{summarizeAuditPayload(entry, t) || '-'}</p>
+                    {entry.payload && (
+                      <details className="mt-1">
+                        <summary className="text-xs text-blue-700 cursor-pointer">{t('audit_show_payload')}</summary>
+                        <pre className="mt-1 p-2 bg-white/50 rounded text-xs text-slate-700 whitespace-pre-wrap break-all" dir="ltr">{JSON.stringify(entry.payload, null, 2)}</pre>
+                      </details>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {entries.length === 0 && <p className="text-center p-8 text-slate-600">{t('audit_no_entries')}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogViewer;
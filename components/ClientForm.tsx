@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Doctor, Pharmacy, Region, User, Specialization, ClientTier, CLIENT_TIERS, GeoPoint } from '../types';
+import { api } from '../services/api';
+import { getCurrentLocation } from '../services/geoService';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface ClientFormProps {
+  clientType: 'doctor' | 'pharmacy';
+  client: Doctor | Pharmacy | null; // null when adding a new client
+  defaultRepId: string;
+  reps: User[];
+  regions: Region[];
+  specializations: string[]; // Doctor specializations already in use, offered as suggestions
+  onSaved: (client: Doctor | Pharmacy) => void;
+  onCancel: () => void;
+}
+
+const ClientForm: React.FC<ClientFormProps> = ({ clientType, client, defaultRepId, reps, regions, specializations, onSaved, onCancel }) => {
+  const { t } = useLanguage();
+  const [name, setName] = useState('');
+  const [regionId, setRegionId] = useState('');
+  const [repId, setRepId] = useState('');
+  const [specialization, setSpecialization] = useState('');
+  const [tier, setTier] = useState<ClientTier | ''>('');
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setName(client?.name || '');
+    setRegionId(client ? String(client.regionId) : '');
+    setRepId(client?.repId || defaultRepId);
+    setSpecialization(client && clientType === 'doctor' ? client.specialization : Specialization.Pediatrics);
+    setTier(client?.tier || '');
+    setLatitude(client?.location ? String(client.location.latitude) : '');
+    setLongitude(client?.location ? String(client.location.longitude) : '');
+    setError('');
+  }, [client, clientType, defaultRepId]);
+
+  const handleUseCurrentLocation = async () => {
+    setLocating(true);
+    const current = await getCurrentLocation();
+    setLocating(false);
+    if (!current) {
+      setError(t('error_location_unavailable'));
+      return;
+    }
+    setLatitude(String(current.latitude));
+    setLongitude(String(current.longitude));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !regionId || !repId || (clientType === 'doctor' && !specialization.trim())) {
+      setError(t('error_all_fields_required'));
+      return;
+    }
+    // The reference position is optional, but both coordinates have to be given and valid
+    let location: GeoPoint | null = null;
+    if (latitude.trim() || longitude.trim()) {
+      const lat = Number(latitude);
+      const lng = Number(longitude);
+      if (!latitude.trim() || !longitude.trim() || !(Math.abs(lat) <= 90) || !(Math.abs(lng) <= 180)) {
+        setError(t('error_invalid_coordinates'));
+        return;
+      }
+      location = { latitude: lat, longitude: lng };
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const base = { name, regionId: parseInt(regionId), repId, tier: tier || null, location };
+      let saved: Doctor | Pharmacy;
+      if (clientType === 'doctor') {
+        const doctorInput = { ...base, specialization: specialization.trim() };
+        saved = client ? await api.updateDoctor(client.id, doctorInput) : await api.addDoctor(doctorInput);
+      } else {
+        saved = client ? await api.updatePharmacy(client.id, base) : await api.addPharmacy(base);
+      }
+      onSaved(saved);
+    } catch (err) {
+      console.error(`Failed to save ${clientType}`, err);
+      setError(t('error_unexpected'));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="clientName" className="block text-sm font-medium text-slate-800">{t('name')}</label>
+        <input type="text" id="clientName" value={name} onChange={e => setName(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+      </div>
+
+      {clientType === 'doctor' && (
+        <div>
+          <label htmlFor="clientSpecialization" className="block text-sm font-medium text-slate-800">{t('specialization')}</label>
+          <input type="text" id="clientSpecialization" list="clientSpecializations" value={specialization} onChange={e => setSpecialization(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+          <datalist id="clientSpecializations">
+            {specializations.map(s => <option key={s} value={s}>{t(s)}</option>)}
+          </datalist>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="clientRegion" className="block text-sm font-medium text-slate-800">{t('region')}</label>
+        <select id="clientRegion" value={regionId} onChange={e => setRegionId(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
+          <option value="" disabled>{t('choose_region')}</option>
+          {regions.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="clientRep" className="block text-sm font-medium text-slate-800">{t('rep_name')}</label>
+        <select id="clientRep" value={repId} onChange={e => setRepId(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
+          {reps.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="clientTier" className="block text-sm font-medium text-slate-800">{t('tier')}</label>
+        <select id="clientTier" value={tier} onChange={e => setTier(e.target.value as ClientTier | '')} className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
+          <option value="">{t('no_tier')}</option>
+          {CLIENT_TIERS.map(tierOption => <option key={tierOption} value={tierOption}>{t('tier_label', tierOption)}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center">
+          <span className="block text-sm font-medium text-slate-800">{t('client_location')}</span>
+          <button type="button" onClick={handleUseCurrentLocation} disabled={locating} className="text-sm font-semibold text-blue-600 hover:text-orange-600 disabled:text-slate-400 transition-colors">
+            {locating ? t('getting_location') : t('use_current_location')}
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2 mt-1">
+          <input type="text" inputMode="decimal" value={latitude} onChange={e => setLatitude(e.target.value)} placeholder={t('latitude')} aria-label={t('latitude')} className="block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+          <input type="text" inputMode="decimal" value={longitude} onChange={e => setLongitude(e.target.value)} placeholder={t('longitude')} aria-label={t('longitude')} className="block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+        </div>
+        <p className="text-xs text-slate-500 mt-1">{t('client_location_hint')}</p>
+      </div>
+
+      {error && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>}
+
+      <div className="flex items-center justify-end space-x-2 space-x-reverse pt-4 border-t border-slate-300/50">
+        <button type="button" onClick={onCancel} className="text-slate-700 bg-transparent hover:bg-slate-200/50 rounded-lg border border-slate-300 text-sm font-medium px-5 py-2.5 transition-colors">{t('cancel')}</button>
+        <button type="submit" disabled={submitting} className="text-white bg-blue-600 hover:bg-orange-500 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-blue-300 transition-colors">
+          {submitting ? t('saving') : t('save_changes')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ClientForm;
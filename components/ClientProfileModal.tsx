@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ClientRef, ClientProfile, ClientNote, SystemSettings } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { resolveTargetDays, DEFAULT_VISIT_TARGET_DAYS } from '../services/visitTargetService';
+import { clientVisitStatus, productDiscussionCounts } from '../services/clientProfileService';
+import { fromDateKey } from '../services/dateUtils';
+import { DoctorIcon, PharmacyIcon, CalendarIcon, UserIcon, MapPinIcon } from './icons';
+import Modal from './Modal';
+import Spinner from './Spinner';
+import ProductFeedbackList from './ProductFeedbackList';
+
+interface ClientProfileModalProps {
+  client: ClientRef | null; // The modal is open while a client is set
+  onClose: () => void;
+}
+
+const DAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const PLAN_STATUS_BADGES: Record<string, string> = {
+  draft: 'bg-slate-100 text-slate-700',
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const TIER_BADGES: Record<string, string> = {
+  A: 'bg-green-100 text-green-800',
+  B: 'bg-blue-100 text-blue-800',
+  C: 'bg-slate-100 text-slate-700',
+};
+
+// Calendar date of a plan day; plan weeks start on Saturday
+const planDayDate = (weekStart: string, dayIndex: number): Date => {
+  const date = fromDateKey(weekStart);
+  date.setDate(date.getDate() + (dayIndex + 1) % 7);
+  return date;
+};
+
+const ClientProfileModal: React.FC<ClientProfileModalProps> = ({ client, onClose }) => {
+  const { t } = useLanguage();
+  const [profile, setProfile] = useState<ClientProfile | null>(null);
+  const [notes, setNotes] = useState<ClientNote[]>([]);
+  const [settings, setSettings] = useState<SystemSettings | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [newNote, setNewNote] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+
+  useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError('');
+      setNewNote('');
+      try {
+        const [profileData, notesData, settingsData] = await Promise.all([
+          api.getClientProfile(client.type, client.id),
+          api.getClientNotes(client.type, client.id),
+          api.getSystemSettings(),
+        ]);
+        if (cancelled) return;
+        setProfile(profileData);
+        setNotes(notesData);
+        setSettings(settingsData);
+      } catch (err: any) {
+        console.error("Failed to load client profile", err);
+        if (!cancelled) setError(t(err.message === 'error_client_not_found' ? err.message : 'error_loading_client_profile'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [client, t]);
+
+  const specialization = profile?.client.specialization ?? '';
+
+  const visitStatus = useMemo(() => {
+    if (!profile) return null;
+    const targetDays = settings
+      ? resolveTargetDays(specialization, profile.client.tier, settings)
+      : DEFAULT_VISIT_TARGET_DAYS;
+    return clientVisitStatus(profile.visits, targetDays);
+  }, [profile, settings, specialization]);
+
+  const productCounts = useMemo(() => (profile ? productDiscussionCounts(profile.visits) : []), [profile]);
+  const coachingCount = useMemo(() => (profile ? profile.visits.filter(v => v.visitType === 'Coaching').length : 0), [profile]);
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!client || !newNote.trim()) return;
+    setSavingNote(true);
+    try {
+      await api.addClientNote(client.type, client.id, newNote.trim());
+      setNotes(await api.getClientNotes(client.type, client.id));
+      setNewNote('');
+    } catch (err) {
+      console.error("Failed to add client note", err);
+      setError(t('error_adding_client_note'));
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  if (!client) return null;
+
+  const formatDate = (date: string | Date) => new Date(date).toLocaleDateString(t('locale'), { dateStyle: 'medium' });
+
+  const recencyColor = !visitStatus || visitStatus.daysOverdue === null || visitStatus.daysOverdue > 0
+    ? 'text-red-700'
+    : visitStatus.daysOverdue > -7 ? 'text-yellow-700' : 'text-green-700';
+
+  return (
+    <Modal isOpen={!!client} onClose={onClose} title={profile ? profile.client.name : t('client_profile')} wide>
+      {loading ? <Spinner /> : error && !profile ? (
+        <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>
+      ) : profile && visitStatus && (
+        <div className="space-y-6">
+          {/* Basic data */}
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="flex items-center">
+              {profile.type === 'doctor' ? <DoctorIcon className="w-10 h-10 text-blue-500 me-3" /> : <PharmacyIcon className="w-10 h-10 text-orange-500 me-3" />}
+              <div>
+                <p className="text-lg font-bold text-slate-800 flex items-center flex-wrap gap-2">
+                  {profile.client.name}
+                  {profile.client.tier && <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${TIER_BADGES[profile.client.tier]}`}>{t('tier_label', profile.client.tier)}</span>}
+                  {profile.client.isArchived && <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-slate-200 text-slate-700">{t('archived')}</span>}
+                </p>
+                <p className="text-sm text-slate-600">{t(specialization)} · {profile.regionName}</p>
+                <p className="text-sm text-slate-600 flex items-center gap-1"><UserIcon className="w-4 h-4" />{t('responsible_rep')}: {profile.repName || '-'}</p>
+                {profile.client.location && (
+                  <p className="text-xs text-slate-500 flex items-center gap-1" dir="ltr"><MapPinIcon className="w-3.5 h-3.5" />{profile.client.location.latitude.toFixed(5)}, {profile.client.location.longitude.toFixed(5)}</p>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="bg-white/30 p-3 rounded-lg">
+                <p className="text-xs text-slate-600">{t('days_since_last_visit')}</p>
+                <p className={`text-2xl font-bold ${recencyColor}`}>{visitStatus.daysSinceLastVisit ?? '-'}</p>
+                <p className="text-xs text-slate-500">{t('target_days_value', visitStatus.targetDays)}</p>
+              </div>
+              <div className="bg-white/30 p-3 rounded-lg">
+                <p className="text-xs text-slate-600">{t('total_visits')}</p>
+                <p className="text-2xl font-bold text-slate-800">{profile.visits.length}</p>
+              </div>
+              <div className="bg-white/30 p-3 rounded-lg">
+                <p className="text-xs text-slate-600">{t('coaching_visits')}</p>
+                <p className="text-2xl font-bold text-purple-700">{coachingCount}</p>
+              </div>
+            </div>
+          </div>
+          {visitStatus.daysOverdue === null ? (
+            <p className="text-sm font-semibold text-red-700 bg-red-100/60 p-2 rounded-lg">{t('client_never_visited')}</p>
+          ) : visitStatus.daysOverdue > 0 && (
+            <p className="text-sm font-semibold text-red-700 bg-red-100/60 p-2 rounded-lg">{t('client_overdue_by', visitStatus.daysOverdue)}</p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Upcoming plans */}
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2 flex items-center"><CalendarIcon className="w-5 h-5 me-2" />{t('upcoming_plans')}</h4>
+              {profile.upcomingPlans.length > 0 ? (
+                <ul className="space-y-2">
+                  {profile.upcomingPlans.map(plan => (
+                    <li key={`${plan.weekStart}-${plan.dayIndex}-${plan.repId}`} className="flex items-center justify-between p-2 bg-white/30 rounded-lg text-sm">
+                      <span>{t(DAY_KEYS[plan.dayIndex])} · {formatDate(planDayDate(plan.weekStart, plan.dayIndex))}</span>
+                      <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${PLAN_STATUS_BADGES[plan.status]}`}>{t(`plan_status_${plan.status}`)}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : <p className="text-sm text-slate-500">{t('not_in_upcoming_plans')}</p>}
+            </div>
+
+            {/* Rep history */}
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2 flex items-center"><UserIcon className="w-5 h-5 me-2" />{t('rep_history')}</h4>
+              {profile.repHistory.length > 0 ? (
+                <ul className="space-y-2">
+                  {profile.repHistory.map(assignment => (
+                    <li key={`${assignment.repId}-${assignment.assignedAt}`} className="flex items-center justify-between p-2 bg-white/30 rounded-lg text-sm">
+                      <span className="font-medium text-slate-800">{assignment.repName}</span>
+                      <span className="text-xs text-slate-600">
+                        {formatDate(assignment.assignedAt)} – {assignment.unassignedAt ? formatDate(assignment.unassignedAt) : t('until_now')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : <p className="text-sm text-slate-500">{t('no_rep_history')}</p>}
+            </div>
+          </div>
+
+          {/* Products discussed */}
+          {productCounts.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2">{t('products_discussed')}</h4>
+              <div className="flex flex-wrap gap-2">
+                {productCounts.map(p => (
+                  <span key={p.productName} className="text-xs font-semibold px-2.5 py-1 rounded-full bg-blue-100 text-blue-800">{p.productName} × {p.count}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Visit timeline */}
+          <div>
+            <h4 className="font-semibold text-slate-700 mb-2">{t('visit_timeline')}</h4>
+            {profile.visits.length > 0 ? (
+              <ol className="relative border-s border-slate-300 ms-2 space-y-4 max-h-96 overflow-y-auto pe-2">
+                {profile.visits.map(visit => (
+                  <li key={visit.id} className="ms-4">
+                    <span className={`absolute -start-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${visit.visitType === 'Coaching' ? 'bg-purple-500' : 'bg-blue-500'}`}></span>
+                    <p className="text-xs text-slate-500">{new Date(visit.date).toLocaleString(t('locale'), { dateStyle: 'medium', timeStyle: 'short' })} · {visit.repName}</p>
+                    <p className="text-sm text-slate-800 flex items-center flex-wrap gap-2">
+                      {visit.visitType && <span className="text-xs bg-purple-100 text-purple-800 font-semibold px-2 py-0.5 rounded-full">{t(visit.visitType)}</span>}
+                      {visit.productName && !visit.productFeedback?.length && <span className="text-xs text-slate-600"><span className="font-semibold">{t('products_label')}</span> {visit.productName}</span>}
+                    </p>
+                    {visit.productFeedback && visit.productFeedback.length > 0 && <div className="mt-1"><ProductFeedbackList feedback={visit.productFeedback} /></div>}
+                    {visit.notes && <p className="text-sm text-slate-700 mt-1">{visit.notes}</p>}
+                  </li>
+                ))}
+              </ol>
+            ) : <p className="text-sm text-slate-500">{t('no_visits_yet')}</p>}
+          </div>
+
+          {/* Client notes */}
+          <div>
+            <h4 className="font-semibold text-slate-700 mb-2">{t('client_notes')}</h4>
+            <form onSubmit={handleAddNote} className="flex gap-2 mb-3">
+              <input
+                type="text"
+                value={newNote}
+                onChange={e => setNewNote(e.target.value)}
+                placeholder={t('add_client_note_placeholder')}
+                className="flex-grow p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500"
+              />
+              <button type="submit" disabled={savingNote || !newNote.trim()} className="text-white bg-blue-600 hover:bg-orange-500 font-medium rounded-lg text-sm px-4 py-2 disabled:bg-blue-300 transition-colors">
+                {savingNote ? t('saving') : t('add')}
+              </button>
+            </form>
+            {error && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg mb-2">{error}</p>}
+            {notes.length > 0 ? (
+              <ul className="space-y-2">
+                {notes.map(note => (
+                  <li key={note.id} className="p-3 bg-white/30 rounded-lg">
+                    <p className="text-sm text-slate-800 whitespace-pre-wrap">{note.body}</p>
+                    <p className="text-xs text-slate-500 mt-1">{note.authorName || t('unknown')} · {new Date(note.createdAt).toLocaleString(t('locale'), { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                  </li>
+                ))}
+              </ul>
+            ) : <p className="text-sm text-slate-500">{t('no_client_notes')}</p>}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ClientProfileModal;
@@ -1,40 +1,69 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Doctor, Pharmacy, VisitReport, User } from '../types';
+import { Doctor, Pharmacy, VisitReport, User, UserRole, ClientHistoryRange, ClientSearchHit, CLIENT_HISTORY_RANGES } from '../types';
 import { api } from '../services/api';
 import { useLanguage } from '../hooks/useLanguage';
+import { highlightMatches, tokenize } from '../services/searchService';
+import { clientKey } from '../services/clientUtils';
+import { clientTrendSummary } from '../services/clientProfileService';
+import { toDateKey } from '../services/dateUtils';
+import Spinner from './Spinner';
+import ProductFeedbackList from './ProductFeedbackList';
 import { SearchIcon, DoctorIcon, PharmacyIcon, ArrowRightIcon } from './icons';
 
 interface ClientSearchProps {
   user: User;
+  repIds?: string[]; // Managers and supervisors: limits the search to a team, omit for every rep
   onBack: () => void;
 }
 
-type Client = (Doctor & { clientType: 'doctor' }) | (Pharmacy & { clientType: 'pharmacy' });
+type Client = ((Doctor & { clientType: 'doctor' }) | (Pharmacy & { clientType: 'pharmacy' })) & { key: string; regionName: string };
 
-const ClientSearch: React.FC<ClientSearchProps> = ({ user, onBack }) => {
+const SEARCH_DELAY_MS = 300;
+
+const Highlighted: React.FC<{ text: string; query: string; full?: boolean }> = ({ text, query, full }) => (
+  <>
+    {highlightMatches(text, query, full).map((part, i) => part.highlight
+      ? <mark key={i} className="bg-yellow-200 text-slate-900 rounded px-0.5">{part.text}</mark>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+  </>
+);
+
+const ClientSearch: React.FC<ClientSearchProps> = ({ user, repIds, onBack }) => {
   const { t } = useLanguage();
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [allClients, setAllClients] = useState<Client[]>([]);
-  const [allVisits, setAllVisits] = useState<VisitReport[]>([]);
+  const [searchResults, setSearchResults] = useState<ClientSearchHit[]>([]);
+  const [searchLoading, setSearchLoading] = useState(false);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+  const [selectedQuery, setSelectedQuery] = useState(''); // Query that led to the client, highlighted in its history
+  const [historyRange, setHistoryRange] = useState<ClientHistoryRange>(90);
+  const [visitHistory, setVisitHistory] = useState<VisitReport[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
 
   useEffect(() => {
     const fetchData = async () => {
       setLoading(true);
       try {
-        const [doctors, pharmacies, visits] = await Promise.all([
-          api.getDoctorsForRep(user.id),
-          api.getPharmaciesForRep(user.id),
-          api.getVisitReportsForRep(user.id),
+        const isRep = user.role === UserRole.Rep;
+        const inScope = (repId: string) => !repIds || repIds.includes(repId);
+        const [doctors, pharmacies, regions] = await Promise.all([
+          isRep ? api.getDoctorsForRep(user.id) : api.getAllDoctors().then(all => all.filter(d => inScope(d.repId))),
+          isRep ? api.getPharmaciesForRep(user.id) : api.getAllPharmacies().then(all => all.filter(p => inScope(p.repId))),
+          api.getRegions(),
         ]);
-        
+
+        const regionNames = new Map(regions.map(r => [r.id, r.name]));
+        const withKey = <T extends { id: number; regionId: number }>(client: T, type: 'doctor' | 'pharmacy') => ({
+          ...client,
+          regionName: regionNames.get(client.regionId) || '',
+          key: clientKey(type, client.id),
+        });
         const combinedClients: Client[] = [
-            ...doctors.map(d => ({...d, clientType: 'doctor' as const})), 
-            ...pharmacies.map(p => ({...p, clientType: 'pharmacy' as const}))
+            ...doctors.map(d => ({ ...withKey(d, 'doctor'), clientType: 'doctor' as const })),
+            ...pharmacies.map(p => ({ ...withKey(p, 'pharmacy'), clientType: 'pharmacy' as const }))
         ];
         setAllClients(combinedClients);
-        setAllVisits(visits);
       } catch (e) {
         console.error("Error fetching data for client search", e);
       } finally {
@@ -42,29 +71,62 @@ const ClientSearch: React.FC<ClientSearchProps> = ({ user, onBack }) => {
       }
     };
     fetchData();
-  }, [user.id]);
-
-  const searchResults = useMemo(() => {
-    if (!searchTerm.trim()) return [];
-    return allClients.filter(client =>
-      client.name.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-  }, [searchTerm, allClients]);
-
-  const visitHistory = useMemo(() => {
-    if (!selectedClient) return [];
-    
-    const twoMonthsAgo = new Date();
-    twoMonthsAgo.setMonth(twoMonthsAgo.getMonth() - 2);
-
-    return allVisits
-      .filter(visit => visit.targetName === selectedClient.name)
-      .filter(visit => new Date(visit.date) >= twoMonthsAgo)
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [selectedClient, allVisits]);
+  }, [user.id, user.role, repIds]);
+
+  const isSearching = tokenize(searchTerm).length > 0;
+
+  // Searched on the server, a moment after the last keystroke
+  useEffect(() => {
+    if (!isSearching) {
+      setSearchResults([]);
+      return;
+    }
+    let cancelled = false;
+    setSearchLoading(true);
+    const timer = setTimeout(() => {
+      api.searchClients(searchTerm, user.role === UserRole.Rep ? [user.id] : repIds)
+        .then(results => { if (!cancelled) setSearchResults(results); })
+        .catch(error => {
+          console.error("Client search failed", error);
+          if (!cancelled) setSearchResults([]);
+        })
+        .finally(() => { if (!cancelled) setSearchLoading(false); });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isSearching, searchTerm, user.id, user.role, repIds]);
+
+  const clientsByKey = useMemo(() => new Map(allClients.map(client => [client.key, client])), [allClients]);
+
+  // A client's full history, loaded once the client is picked from the results
+  useEffect(() => {
+    if (!selectedClient) return;
+    let cancelled = false;
+    let startDate: string | undefined;
+    if (historyRange !== 'all') {
+      const since = new Date();
+      since.setDate(since.getDate() - historyRange);
+      startDate = toDateKey(since);
+    }
+    setHistoryLoading(true);
+    api.getClientVisits({ type: selectedClient.clientType, id: selectedClient.id }, startDate)
+      .then(visits => { if (!cancelled) setVisitHistory(visits); })
+      .catch(error => {
+        console.error("Failed to fetch client visit history", error);
+        if (!cancelled) setVisitHistory([]);
+      })
+      .finally(() => { if (!cancelled) setHistoryLoading(false); });
+    return () => { cancelled = true; };
+  }, [selectedClient, historyRange]);
+
+  const trend = useMemo(() => clientTrendSummary(visitHistory), [visitHistory]);
+  const busiestMonth = Math.max(1, ...trend.visitsPerMonth.map(m => m.count));
 
   const handleSelectClient = (client: Client) => {
     setSelectedClient(client);
+    setSelectedQuery(searchTerm);
     setSearchTerm('');
   };
 
@@ -98,7 +160,7 @@ const ClientSearch: React.FC<ClientSearchProps> = ({ user, onBack }) => {
           <div className="relative mb-4">
             <input
               type="text"
-              placeholder={t('search_placeholder')}
+              placeholder={t('search_clients_and_notes_placeholder')}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full p-3 ps-10 border border-slate-300/50 bg-white/50 rounded-lg focus:ring-orange-500 focus:border-orange-500"
@@ -110,21 +172,36 @@ const ClientSearch: React.FC<ClientSearchProps> = ({ user, onBack }) => {
           {searchTerm && (
             <ul className="space-y-2 max-h-96 overflow-y-auto">
               {searchResults.length > 0 ? (
-                searchResults.map(client => (
+                searchResults.map(result => {
+                  const client = clientsByKey.get(clientKey(result.client.type, result.client.id));
+                  if (!client) return null;
+                  return (
                   <li
-                    key={`${client.clientType}-${client.id}`}
+                    key={client.key}
                     onClick={() => handleSelectClient(client)}
-                    className="p-3 bg-white/30 rounded-lg hover:bg-white/60 transition-colors cursor-pointer flex items-center"
+                    className="p-3 bg-white/30 rounded-lg hover:bg-white/60 transition-colors cursor-pointer flex items-start"
                   >
-                    {client.clientType === 'doctor' ? <DoctorIcon className="w-6 h-6 text-blue-500 me-3"/> : <PharmacyIcon className="w-6 h-6 text-orange-500 me-3"/>}
-                    <div className="flex-grow">
-                        <span className="font-semibold">{client.name}</span>
-                        {client.specialization && <p className="text-xs text-slate-600">{t(client.specialization)}</p>}
+                    {client.clientType === 'doctor' ? <DoctorIcon className="w-6 h-6 text-blue-500 me-3 flex-shrink-0"/> : <PharmacyIcon className="w-6 h-6 text-orange-500 me-3 flex-shrink-0"/>}
+                    <div className="flex-grow min-w-0">
+                        <span className="font-semibold">{result.nameMatched ? <Highlighted text={client.name} query={searchTerm} full /> : client.name}</span>
+                        <p className="text-xs text-slate-600">
+                          {client.specialization && <>{t(client.specialization)} · </>}{client.regionName}
+                        </p>
+                        {result.noteMatches.map(match => (
+                          <p key={match.visitId} className="mt-1 text-sm text-slate-700">
+                            <span className="text-xs text-slate-500 me-2">{new Date(match.date).toLocaleDateString(t('locale'))}</span>
+                            <Highlighted text={match.snippet} query={searchTerm} full />
+                          </p>
+                        ))}
+                        {result.noteMatchCount > result.noteMatches.length && (
+                          <p className="mt-1 text-xs text-blue-700">{t('more_matching_visits', result.noteMatchCount - result.noteMatches.length)}</p>
+                        )}
                     </div>
                   </li>
-                ))
+                  );
+                })
               ) : (
-                <li className="p-4 text-center text-slate-600">{t('no_matching_results')}</li>
+                <li className="p-4 text-center text-slate-600">{t(searchLoading ? 'searching_clients' : 'no_matching_results')}</li>
               )}
             </ul>
           )}
@@ -141,11 +218,69 @@ const ClientSearch: React.FC<ClientSearchProps> = ({ user, onBack }) => {
                 </button>
             </div>
             <div className="bg-white/40 backdrop-blur-lg p-6 rounded-2xl shadow-lg border border-white/50">
-                <h3 className="text-xl font-semibold mb-4 flex items-center text-blue-700">
-                    {t('visit_history_last_two_months')}
-                </h3>
+                <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                    <h3 className="text-xl font-semibold flex items-center text-blue-700">
+                        {t('visit_history_title')}
+                    </h3>
+                    <div className="flex flex-wrap gap-2">
+                        {CLIENT_HISTORY_RANGES.map(range => (
+                            <button
+                                key={range}
+                                onClick={() => setHistoryRange(range)}
+                                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${historyRange === range ? 'bg-blue-600 text-white shadow' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+                            >
+                                {range === 'all' ? t('history_range_all') : t('history_range_days', range)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {!historyLoading && visitHistory.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                        <div className="bg-white/30 p-4 rounded-lg">
+                            <p className="text-sm font-semibold text-slate-700 mb-3">{t('visits_per_month')}</p>
+                            <div className="flex items-end gap-1 h-24" dir="ltr">
+                                {trend.visitsPerMonth.map(({ month, count }) => (
+                                    <div key={month} className="flex-1 flex flex-col items-center justify-end h-full min-w-0" title={`${month}: ${count}`}>
+                                        <div className="w-full bg-blue-500/70 rounded-t" style={{ height: `${(count / busiestMonth) * 100}%` }}></div>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex justify-between text-[10px] text-slate-500 mt-1" dir="ltr">
+                                <span>{trend.visitsPerMonth[0]?.month}</span>
+                                <span>{trend.visitsPerMonth[trend.visitsPerMonth.length - 1]?.month}</span>
+                            </div>
+                        </div>
+                        <div className="bg-white/30 p-4 rounded-lg">
+                            <p className="text-sm font-semibold text-slate-700 mb-3">{t('products_discussed')}</p>
+                            {trend.products.length > 0 ? (
+                                <div className="flex flex-wrap gap-2">
+                                    {trend.products.map(p => (
+                                        <span key={p.productName} className="text-xs font-semibold px-2.5 py-1 rounded-full bg-blue-100 text-blue-800">{p.productName} × {p.count}</span>
+                                    ))}
+                                </div>
+                            ) : <p className="text-sm text-slate-500">-</p>}
+                        </div>
+                        <div className="bg-white/30 p-4 rounded-lg">
+                            <p className="text-sm font-semibold text-slate-700 mb-3">{t('coaching_vs_single')}</p>
+                            {trend.coachingCount + trend.singleCount > 0 ? (
+                                <>
+                                    <div className="flex h-3 rounded-full overflow-hidden bg-slate-200">
+                                        <div className="bg-purple-500" style={{ width: `${(trend.coachingCount / (trend.coachingCount + trend.singleCount)) * 100}%` }}></div>
+                                        <div className="bg-blue-400 flex-1"></div>
+                                    </div>
+                                    <div className="flex justify-between text-xs text-slate-600 mt-2">
+                                        <span><span className="font-bold text-purple-700">{trend.coachingCount}</span> {t('Coaching')}</span>
+                                        <span><span className="font-bold text-blue-700">{trend.singleCount}</span> {t('Single')}</span>
+                                    </div>
+                                </>
+                            ) : <p className="text-sm text-slate-500">-</p>}
+                        </div>
+                    </div>
+                )}
+
                  <div className="max-h-[60vh] overflow-y-auto pr-2">
-                    {visitHistory.length > 0 ? (
+                    {historyLoading ? <Spinner /> : visitHistory.length > 0 ? (
                     <ul className="space-y-3">
                         {visitHistory.map((visit) => (
                         <li key={visit.id} className="p-4 bg-white/30 rounded-lg">
@@ -163,8 +298,10 @@ const ClientSearch: React.FC<ClientSearchProps> = ({ user, onBack }) => {
                                 </div>
                             </div>
                             </div>
-                            <p className="mt-2 text-sm text-slate-700 pe-9">{visit.notes}</p>
-                            {visit.productName && (
+                            <p className="mt-2 text-sm text-slate-700 pe-9">{selectedQuery ? <Highlighted text={visit.notes} query={selectedQuery} full /> : visit.notes}</p>
+                            {visit.productFeedback && visit.productFeedback.length > 0 ? (
+                            <div className="mt-2 pe-9"><ProductFeedbackList feedback={visit.productFeedback} /></div>
+                            ) : visit.productName && (
                             <p className="mt-1 text-xs text-slate-600 pe-9">
                                 <span className="font-semibold">{t('products_label')}</span> {visit.productName}
                             </p>
@@ -173,7 +310,7 @@ const ClientSearch: React.FC<ClientSearchProps> = ({ user, onBack }) => {
                         ))}
                     </ul>
                     ) : (
-                    <p className="text-center text-slate-600 py-8 text-lg">{t('no_visits_in_last_two_months')}</p>
+                    <p className="text-center text-slate-600 py-8 text-lg">{t('no_visits_in_range')}</p>
                     )}
                 </div>
             </div>
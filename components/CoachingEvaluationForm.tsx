@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { CoachingCompetency, COACHING_COMPETENCIES, PendingCoachingVisit } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { COACHING_SCORES, CoachingScoreDraft, EMPTY_COACHING_SCORE, completeCoachingScores } from '../services/coachingService';
+
+interface CoachingEvaluationFormProps {
+  visit: PendingCoachingVisit;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// Scorecard a supervisor or manager fills in after joining a rep on a coaching visit
+const CoachingEvaluationForm: React.FC<CoachingEvaluationFormProps> = ({ visit, onSuccess, onCancel }) => {
+  const { t } = useLanguage();
+  const [drafts, setDrafts] = useState<Partial<Record<CoachingCompetency, CoachingScoreDraft>>>({});
+  const [overallComment, setOverallComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleChange = (competency: CoachingCompetency, changes: Partial<CoachingScoreDraft>) => {
+    setDrafts(prev => ({ ...prev, [competency]: { ...(prev[competency] || EMPTY_COACHING_SCORE), ...changes } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scores = completeCoachingScores(drafts);
+    if (!scores) {
+      setError(t('error_coaching_scores_incomplete'));
+      return;
+    }
+    setSubmitting(true);
+    setError('');
+    try {
+      await api.submitCoachingEvaluation({ visitId: visit.visitId, scores, overallComment: overallComment.trim() });
+      onSuccess();
+    } catch (err: any) {
+      console.error("Failed to submit coaching evaluation", err);
+      const known = ['error_visit_already_evaluated', 'error_permission_denied'];
+      setError(t(known.includes(err.message) ? err.message : 'error_saving_coaching_evaluation'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-slate-700">
+        <span className="font-semibold">{visit.repName}</span> · {visit.doctorName} · {new Date(visit.visitDate).toLocaleDateString(t('locale'))}
+      </p>
+
+      <div className="space-y-3 p-3 bg-white/30 rounded-lg">
+        {COACHING_COMPETENCIES.map(competency => {
+          const draft = drafts[competency] || EMPTY_COACHING_SCORE;
+          return (
+            <div key={competency} className="space-y-2 pb-3 border-b border-slate-200/50 last:border-b-0 last:pb-0">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm font-semibold text-slate-800">{t(`competency_${competency}`)}</span>
+                <div className="flex gap-1" role="radiogroup" aria-label={t(`competency_${competency}`)}>
+                  {COACHING_SCORES.map(score => (
+                    <button
+                      key={score}
+                      type="button"
+                      role="radio"
+                      aria-checked={draft.score === score}
+                      onClick={() => handleChange(competency, { score })}
+                      className={`w-8 h-8 rounded-full text-sm font-medium transition-colors ${draft.score === score ? 'bg-blue-600 text-white shadow' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+                    >
+                      {score}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <input
+                type="text"
+                value={draft.comment}
+                onChange={e => handleChange(competency, { comment: e.target.value })}
+                placeholder={t('competency_comment_placeholder')}
+                maxLength={300}
+                className="block w-full p-1.5 text-sm border border-slate-300/50 bg-white/60 rounded focus:ring-orange-500 focus:border-orange-500"
+              />
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500">{t('coaching_score_scale')}</p>
+
+      <div>
+        <label htmlFor="overallComment" className="block mb-2 text-sm font-medium text-slate-800">{t('coaching_overall_comment')}</label>
+        <textarea id="overallComment" rows={3} value={overallComment} onChange={e => setOverallComment(e.target.value)} className="block p-2.5 w-full text-sm text-slate-900 bg-white/50 rounded-lg border border-slate-300/50 focus:ring-orange-500 focus:border-orange-500" />
+      </div>
+
+      {error && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>}
+
+      <div className="flex items-center justify-end space-x-2 space-x-reverse pt-4 border-t border-slate-300/50">
+        <button type="button" onClick={onCancel} className="text-slate-700 bg-transparent hover:bg-slate-200/50 rounded-lg border border-slate-300 text-sm font-medium px-5 py-2.5 transition-colors">{t('cancel')}</button>
+        <button type="submit" disabled={submitting} className="text-white bg-blue-600 hover:bg-orange-500 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-blue-300 transition-colors">
+          {submitting ? t('saving') : t('submit_evaluation')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CoachingEvaluationForm;
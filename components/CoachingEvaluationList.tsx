@@ -0,0 +1,58 @@
+import React from 'react';
+import { CoachingEvaluation } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+import { evaluationAverage } from '../services/coachingService';
+
+interface CoachingEvaluationListProps {
+  evaluations: CoachingEvaluation[];
+  showRep?: boolean; // Managers read evaluations across reps, a rep only sees their own
+}
+
+const getScoreColor = (score: number | null) => {
+  if (score === null) return 'bg-slate-100 text-slate-600';
+  if (score >= 4) return 'bg-green-100 text-green-800';
+  if (score >= 3) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+// Scorecards of coaching visits with the coach's comments, in the order given
+const CoachingEvaluationList: React.FC<CoachingEvaluationListProps> = ({ evaluations, showRep = false }) => {
+  const { t } = useLanguage();
+
+  return (
+    <ul className="space-y-3">
+      {evaluations.map(evaluation => {
+        const average = evaluationAverage(evaluation);
+        return (
+          <li key={evaluation.id} className="bg-white/30 p-4 rounded-lg">
+            <div className="flex flex-wrap justify-between items-start gap-2 mb-3">
+              <div>
+                <p className="font-semibold text-slate-800">
+                  {showRep ? `${evaluation.repName} · ` : ''}{evaluation.doctorName}
+                </p>
+                <p className="text-xs text-slate-600">
+                  {new Date(evaluation.visitDate).toLocaleDateString(t('locale'))} · {t('coached_by', evaluation.coachName)}
+                </p>
+              </div>
+              <span className={`text-sm font-bold px-3 py-1 rounded-full ${getScoreColor(average)}`}>{average ?? '-'} / 5</span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {evaluation.scores.map(s => (
+                <div key={s.competency} className="text-sm">
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded-full me-2 ${getScoreColor(s.score)}`}>{s.score}</span>
+                  <span className="font-medium text-slate-700">{t(`competency_${s.competency}`)}</span>
+                  {s.comment && <p className="text-xs text-slate-600 mt-0.5">{s.comment}</p>}
+                </div>
+              ))}
+            </div>
+            {evaluation.overallComment && (
+              <p className="mt-3 text-sm text-slate-700 border-t border-white/50 pt-2">{evaluation.overallComment}</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default CoachingEvaluationList;
@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { User, CoachingEvaluation, CoachingCompetency, COACHING_COMPETENCIES } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { competencyAverages } from '../services/coachingService';
+import { ArrowRightIcon } from './icons';
+import Spinner from './Spinner';
+import CoachingEvaluationList from './CoachingEvaluationList';
+
+interface CoachingHistoryProps {
+  user: User;
+  onBack: () => void;
+}
+
+// A rep's coaching evaluations over time: average per competency, how the latest visit compares, and every scorecard
+const CoachingHistory: React.FC<CoachingHistoryProps> = ({ user, onBack }) => {
+  const { t } = useLanguage();
+  const [evaluations, setEvaluations] = useState<CoachingEvaluation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    api.getCoachingEvaluations({ repIds: [user.id] })
+      .then(data => { if (!cancelled) setEvaluations(data); })
+      .catch(err => {
+        console.error("Failed to fetch coaching evaluations", err);
+        if (!cancelled) setError(t('error_fetching_coaching_evaluations'));
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [user.id, t]);
+
+  const averages = useMemo(() => competencyAverages(evaluations), [evaluations]);
+  // Evaluations arrive newest first
+  const [latest, previous] = evaluations;
+
+  const scoreChange = (competency: CoachingCompetency): number | null => {
+    const latestScore = latest?.scores.find(s => s.competency === competency)?.score;
+    const previousScore = previous?.scores.find(s => s.competency === competency)?.score;
+    return latestScore === undefined || previousScore === undefined ? null : latestScore - previousScore;
+  };
+
+  return (
+    <div className="container mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-3xl font-bold text-blue-800">{t('my_coaching')}</h2>
+        <button
+          onClick={onBack}
+          className="flex items-center text-slate-600 hover:text-orange-600 focus:outline-none transition-colors"
+          aria-label={t('back_to_dashboard')}
+        >
+          <span className="hidden md:block">{t('back_to_main')}</span>
+          <ArrowRightIcon className="h-6 w-6 ms-2" />
+        </button>
+      </div>
+
+      {loading ? <Spinner /> : error ? (
+        <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>
+      ) : evaluations.length === 0 ? (
+        <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-8 text-center text-slate-600">
+          {t('no_coaching_evaluations')}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {COACHING_COMPETENCIES.map(competency => {
+              const change = scoreChange(competency);
+              return (
+                <div key={competency} className="bg-white/40 backdrop-blur-lg p-4 rounded-2xl shadow-lg border border-white/50 text-center">
+                  <p className="text-sm text-slate-600">{t(`competency_${competency}`)}</p>
+                  <p className="text-3xl font-bold text-blue-800">{averages[competency] ?? '-'}</p>
+                  <p className="text-xs text-slate-500">{t('average_of_evaluations', evaluations.length)}</p>
+                  {change !== null && change !== 0 && (
+                    <p className={`text-xs font-semibold mt-1 ${change > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                      {t(change > 0 ? 'score_improved' : 'score_declined', Math.abs(change))}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+            <h3 className="text-xl font-semibold text-blue-800 mb-4">{t('coaching_evaluations')}</h3>
+            <CoachingEvaluationList evaluations={evaluations} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoachingHistory;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { User, CoachingEvaluation, PendingCoachingVisit, COACHING_COMPETENCIES } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { summarizeRepCompetencies, competencyAverages } from '../services/coachingService';
+import { exportCoachingEvaluationsToExcel } from '../services/exportService';
+import { DownloadIcon, EditIcon } from './icons';
+import Modal from './Modal';
+import Spinner from './Spinner';
+import CoachingEvaluationForm from './CoachingEvaluationForm';
+import CoachingEvaluationList from './CoachingEvaluationList';
+
+interface CoachingReportProps {
+  user: User; // The coach; their own unevaluated coaching visits are listed first
+  repIds?: string[]; // Limits the report to a supervisor's team
+}
+
+const MAX_EVALUATIONS_SHOWN = 50;
+
+const getScoreColor = (score: number | null) => {
+  if (score === null) return 'bg-slate-100 text-slate-600';
+  if (score >= 4) return 'bg-green-100 text-green-800';
+  if (score >= 3) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+const CoachingReport: React.FC<CoachingReportProps> = ({ user, repIds }) => {
+  const { t } = useLanguage();
+  const [pending, setPending] = useState<PendingCoachingVisit[]>([]);
+  const [evaluations, setEvaluations] = useState<CoachingEvaluation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [evaluatingVisit, setEvaluatingVisit] = useState<PendingCoachingVisit | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0); // Bumped after an evaluation is submitted
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchData = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const [pendingData, evaluationsData] = await Promise.all([
+          api.getPendingCoachingVisits(user.id),
+          api.getCoachingEvaluations({ repIds, startDate: startDate || undefined, endDate: endDate || undefined }),
+        ]);
+        if (cancelled) return;
+        setPending(pendingData);
+        setEvaluations(evaluationsData);
+      } catch (err) {
+        console.error("Failed to fetch coaching evaluations", err);
+        if (!cancelled) setError(t('error_fetching_coaching_evaluations'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchData();
+    return () => { cancelled = true; };
+  }, [user.id, repIds, startDate, endDate, refreshKey, t]);
+
+  const summaries = useMemo(() => summarizeRepCompetencies(evaluations), [evaluations]);
+  const teamAverages = useMemo(() => competencyAverages(evaluations), [evaluations]);
+
+  const handleExport = () => {
+    exportCoachingEvaluationsToExcel(summaries, evaluations, `coaching_${new Date().toISOString().split('T')[0]}`, t);
+  };
+
+  const handleEvaluationSubmitted = () => {
+    setEvaluatingVisit(null);
+    setRefreshKey(key => key + 1);
+  };
+
+  const inputClass = "bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 p-2";
+
+  return (
+    <div className="space-y-6">
+      {pending.length > 0 && (
+        <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+          <h3 className="text-xl font-semibold text-blue-800 mb-4">{t('awaiting_your_evaluation', pending.length)}</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-start">
+              <thead className="text-xs text-blue-800 uppercase bg-white/50">
+                <tr>
+                  <th scope="col" className="px-4 py-3">{t('date')}</th>
+                  <th scope="col" className="px-4 py-3">{t('rep_name')}</th>
+                  <th scope="col" className="px-4 py-3">{t('doctor')}</th>
+                  <th scope="col" className="px-4 py-3"><span className="sr-only">{t('evaluate')}</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {pending.map(visit => (
+                  <tr key={visit.visitId} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+                    <td className="px-4 py-3 whitespace-nowrap">{new Date(visit.visitDate).toLocaleDateString(t('locale'))}</td>
+                    <td className="px-4 py-3 font-medium text-slate-900">{visit.repName}</td>
+                    <td className="px-4 py-3">{visit.doctorName}</td>
+                    <td className="px-4 py-3 text-end">
+                      <button
+                        onClick={() => setEvaluatingVisit(visit)}
+                        className="inline-flex items-center gap-1 text-white bg-blue-600 hover:bg-blue-700 font-medium rounded-lg text-xs px-3 py-1.5 transition-colors"
+                      >
+                        <EditIcon className="w-4 h-4" />
+                        {t('evaluate')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+        <div className="flex flex-col lg:flex-row justify-between items-center gap-4 mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-blue-800">{t('team_competency_report')}</h3>
+            <p className="text-sm text-slate-600">{t('team_competency_report_description')}</p>
+          </div>
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClass} aria-label={t('from_date')} />
+            <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className={inputClass} aria-label={t('to_date')} />
+            <button
+              onClick={handleExport}
+              disabled={loading || evaluations.length === 0}
+              className="flex items-center gap-2 text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-4 py-2 transition-colors disabled:bg-green-300"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              Excel
+            </button>
+          </div>
+        </div>
+
+        {loading ? <Spinner /> : error ? (
+          <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-start">
+                <thead className="text-xs text-blue-800 uppercase bg-white/50">
+                  <tr>
+                    <th scope="col" className="px-4 py-3">{t('rep_name')}</th>
+                    <th scope="col" className="px-4 py-3 text-center">{t('evaluations_count')}</th>
+                    {COACHING_COMPETENCIES.map(competency => (
+                      <th key={competency} scope="col" className="px-4 py-3 text-center">{t(`competency_${competency}`)}</th>
+                    ))}
+                    <th scope="col" className="px-4 py-3 text-center">{t('overall_score')}</th>
+                    <th scope="col" className="px-4 py-3">{t('last_evaluated')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summaries.map(s => (
+                    <tr key={s.repId} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+                      <td className="px-4 py-3 font-medium text-slate-900">{s.repName}</td>
+                      <td className="px-4 py-3 text-center">{s.evaluationCount}</td>
+                      {COACHING_COMPETENCIES.map(competency => (
+                        <td key={competency} className="px-4 py-3 text-center">
+                          <span className={`text-xs font-bold px-2.5 py-0.5 rounded-full ${getScoreColor(s.averages[competency])}`}>{s.averages[competency] ?? '-'}</span>
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-center">
+                        <span className={`text-xs font-bold px-2.5 py-0.5 rounded-full ${getScoreColor(s.overall)}`}>{s.overall ?? '-'}</span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">{s.lastEvaluatedAt ? new Date(s.lastEvaluatedAt).toLocaleDateString(t('locale')) : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                {summaries.length > 1 && (
+                  <tfoot>
+                    <tr className="bg-white/50 font-semibold">
+                      <td className="px-4 py-3">{t('team_average')}</td>
+                      <td className="px-4 py-3 text-center">{evaluations.length}</td>
+                      {COACHING_COMPETENCIES.map(competency => (
+                        <td key={competency} className="px-4 py-3 text-center">{teamAverages[competency] ?? '-'}</td>
+                      ))}
+                      <td className="px-4 py-3" colSpan={2}></td>
+                    </tr>
+                  </tfoot>
+                )}
+              </table>
+              {summaries.length === 0 && <p className="text-center p-6 text-slate-600">{t('no_coaching_evaluations')}</p>}
+            </div>
+
+            {evaluations.length > 0 && (
+              <div>
+                <h4 className="font-semibold text-slate-700 mb-2">{t('latest_coaching_evaluations')}</h4>
+                <CoachingEvaluationList evaluations={evaluations.slice(0, MAX_EVALUATIONS_SHOWN)} showRep />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {evaluatingVisit && (
+        <Modal isOpen={!!evaluatingVisit} onClose={() => setEvaluatingVisit(null)} title={t('coaching_evaluation')}>
+          <CoachingEvaluationForm visit={evaluatingVisit} onSuccess={handleEvaluationSubmitted} onCancel={() => setEvaluatingVisit(null)} />
+        </Modal>
+      )}
+    </div>
+  );
+};
+
+export default CoachingReport;
@@ -2,7 +2,9 @@ import React, { useMemo, useState } from 'react';
 import Modal from './Modal';
 import { useLanguage } from '../hooks/useLanguage';
 import { VisitReport, User } from '../types';
-import { DoctorIcon, PharmacyIcon } from './icons';
+import { checkVisitLocation } from '../services/geoService';
+import { DoctorIcon, PharmacyIcon, WarningIcon } from './icons';
+import VisitLocationBadge from './VisitLocationBadge';
 
 interface DailyVisitsDetailModalProps {
   isOpen: boolean;
@@ -10,6 +12,7 @@ interface DailyVisitsDetailModalProps {
   reports: VisitReport[];
   reps: User[];
   selectedRepId: string | 'all'; // The initially selected rep from the dashboard
+  maxVisitDistanceMeters: number;
 }
 
 const DailyVisitsDetailModal: React.FC<DailyVisitsDetailModalProps> = ({
@@ -18,6 +21,7 @@ const DailyVisitsDetailModal: React.FC<DailyVisitsDetailModalProps> = ({
   reports,
   reps,
   selectedRepId: initialSelectedRepId,
+  maxVisitDistanceMeters,
 }) => {
   const { t } = useLanguage();
   const [currentRepFilter, setCurrentRepFilter] = useState<string | 'all'>(initialSelectedRepId);
@@ -35,8 +39,13 @@ const DailyVisitsDetailModal: React.FC<DailyVisitsDetailModalProps> = ({
     if (currentRepFilter === 'all') {
       return todaysReports;
     }
-    return todaysReports.filter(report => report.repName === reps.find(r => r.id === currentRepFilter)?.name);
-  }, [todaysReports, currentRepFilter, reps]);
+    return todaysReports.filter(report => report.repId === currentRepFilter);
+  }, [todaysReports, currentRepFilter]);
+
+  const farVisitCount = useMemo(
+    () => filteredDailyReports.filter(report => checkVisitLocation(report, maxVisitDistanceMeters).status === 'far').length,
+    [filteredDailyReports, maxVisitDistanceMeters]
+  );
 
   // Determine the modal title
   const modalTitle = useMemo(() => {
@@ -79,6 +88,13 @@ const DailyVisitsDetailModal: React.FC<DailyVisitsDetailModalProps> = ({
         )}
 
 
+        {farVisitCount > 0 && (
+            <div className="flex items-center gap-2 p-3 text-sm rounded-lg bg-red-100 text-red-800">
+                <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                <span className="font-medium">{t('far_visits_today', farVisitCount)}</span>
+            </div>
+        )}
+
         {filteredDailyReports.length > 0 ? (
           <ul className="space-y-3 max-h-96 overflow-y-auto pr-2">
             {filteredDailyReports.map((visit) => (
@@ -99,6 +115,9 @@ const DailyVisitsDetailModal: React.FC<DailyVisitsDetailModalProps> = ({
                       <p className="text-xs text-slate-600">
                         {new Date(visit.date).toLocaleString(t('locale'), { dateStyle: 'medium', timeStyle: 'short' })}
                       </p>
+                      <div className="mt-1">
+                        <VisitLocationBadge report={visit} maxDistanceMeters={maxVisitDistanceMeters} />
+                      </div>
                     </div>
                   </div>
                   <span className={`px-2 py-1 text-xs font-semibold rounded-full ${visit.type === 'DOCTOR_VISIT' ? 'bg-blue-100 text-blue-800' : 'bg-orange-100 text-orange-800'}`}>
@@ -1,29 +1,38 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { useLanguage } from '../hooks/useLanguage';
 import { api } from '../services/api';
-import { UploadIcon, DownloadIcon, CheckIcon, XIcon, DoctorIcon, PharmacyIcon } from './icons';
+import { parseImportSheet, validateImportRows, getNewRegionNames } from '../services/importService';
+import { exportImportReportToExcel } from '../services/exportService';
+import { Doctor, ImportMode, ImportRow, ImportType, Pharmacy, Region, User, CLIENT_TIERS, ClientTier } from '../types';
+import { UploadIcon, DownloadIcon, CheckIcon, XIcon, DoctorIcon, PharmacyIcon, WarningIcon } from './icons';
 
 // XLSX is global from index.html
 declare const XLSX: any;
 
 const DataImport: React.FC = () => {
     const { t } = useLanguage();
-    const [importType, setImportType] = useState<'doctors' | 'pharmacies'>('doctors');
+    const [importType, setImportType] = useState<ImportType>('doctors');
     const [file, setFile] = useState<File | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
-    const [progress, setProgress] = useState(0);
-    const [importResult, setImportResult] = useState<{ success: number; failed: number; errors: string[] } | null>(null);
+    const [stagedRows, setStagedRows] = useState<ImportRow[] | null>(null);
+    const [regions, setRegions] = useState<Region[]>([]);
+    const [users, setUsers] = useState<User[]>([]);
+    const [existingClients, setExistingClients] = useState<(Doctor | Pharmacy)[]>([]);
+    const [importMode, setImportMode] = useState<ImportMode>('insert');
+    const [showOnlyProblems, setShowOnlyProblems] = useState(false);
+    const [importResult, setImportResult] = useState<{ imported: number; updated: number; regionsCreated: number } | null>(null);
+    const [importError, setImportError] = useState('');
     const [dragOver, setDragOver] = useState(false);
 
     const handleDownloadTemplate = () => {
         let data: any[], sheetName: string, fileName: string;
         
         if (importType === 'doctors') {
-            data = [{ Name: 'Dr. John Doe', Region: 'المنطقة الشمالية', Specialization: 'PEDIATRICS', 'Rep Username': 'rep1' }];
+            data = [{ Name: 'Dr. John Doe', Region: 'المنطقة الشمالية', Specialization: 'PEDIATRICS', 'Rep Username': 'rep1', Tier: 'A' }];
             sheetName = t('doctors');
             fileName = 'doctors_template.xlsx';
         } else {
-            data = [{ Name: 'Wellness Pharmacy', Region: 'المنطقة الجنوبية', 'Rep Username': 'rep2' }];
+            data = [{ Name: 'Wellness Pharmacy', Region: 'المنطقة الجنوبية', 'Rep Username': 'rep2', Tier: 'B' }];
             sheetName = t('pharmacies');
             fileName = 'pharmacies_template.xlsx';
         }
@@ -37,8 +46,7 @@ const DataImport: React.FC = () => {
     const handleFileSelect = (selectedFile: File | null) => {
         if (selectedFile && (selectedFile.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || selectedFile.type === 'application/vnd.ms-excel')) {
             setFile(selectedFile);
-            setImportResult(null);
-            setProgress(0);
+            resetStaging();
         } else {
             setFile(null);
         }
@@ -71,12 +79,19 @@ const DataImport: React.FC = () => {
     }, []);
 
 
-    const handleImport = () => {
+    const resetStaging = () => {
+        setStagedRows(null);
+        setImportResult(null);
+        setImportError('');
+        setShowOnlyProblems(false);
+    };
+
+    // Step 3: parse the sheet and validate every row without writing anything
+    const handleValidate = () => {
         if (!file) return;
 
         setIsProcessing(true);
-        setImportResult(null);
-        setProgress(0);
+        resetStaging();
 
         const reader = new FileReader();
         reader.onload = async (e) => {
@@ -86,37 +101,96 @@ const DataImport: React.FC = () => {
                 const sheetName = workbook.SheetNames[0];
                 const worksheet = workbook.Sheets[sheetName];
                 const sheetData: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-                const rows = sheetData.slice(1);
 
-                let result;
-                const onProgressUpdate = (p: number) => setProgress(p);
-
-                if (importType === 'doctors') {
-                    result = await api.addDoctorsBatch(rows, onProgressUpdate);
-                } else {
-                    result = await api.addPharmaciesBatch(rows, onProgressUpdate);
-                }
-                setImportResult(result);
+                const [regionsData, usersData, clientsData] = await Promise.all([
+                    api.getRegions(),
+                    api.getUsers(),
+                    importType === 'doctors' ? api.getAllDoctors() : api.getAllPharmacies(),
+                ]);
+                setRegions(regionsData);
+                setUsers(usersData);
+                setExistingClients(clientsData);
+                setStagedRows(validateImportRows(parseImportSheet(sheetData, importType), importType, regionsData, usersData, clientsData, importMode));
             } catch (error) {
                 console.error("Error processing file", error);
-                setImportResult({ success: 0, failed: 0, errors: [t('file_processing_error')] });
+                setImportError(t('file_processing_error'));
             } finally {
                 setIsProcessing(false);
             }
         };
         reader.onerror = () => {
             console.error("Error reading file");
-            setImportResult({ success: 0, failed: 0, errors: [t('file_reading_error')] });
+            setImportError(t('file_reading_error'));
             setIsProcessing(false);
         }
         reader.readAsBinaryString(file);
     };
-    
+
+    const updateRow = (rowNumber: number, changes: Partial<ImportRow>) => {
+        if (!stagedRows) return;
+        const updated = stagedRows.map(row => row.rowNumber === rowNumber ? { ...row, ...changes } : row);
+        setStagedRows(validateImportRows(updated, importType, regions, users, existingClients, importMode));
+    };
+
+    const handleModeChange = (mode: ImportMode) => {
+        setImportMode(mode);
+        if (stagedRows) setStagedRows(validateImportRows(stagedRows, importType, regions, users, existingClients, mode));
+    };
+
+    const rowStats = useMemo(() => {
+        const rows = stagedRows || [];
+        const included = rows.filter(r => !r.excluded);
+        return {
+            total: rows.length,
+            valid: included.filter(r => r.errors.length === 0).length,
+            invalid: included.filter(r => r.errors.length > 0).length,
+            excluded: rows.length - included.length,
+            updates: importMode === 'upsert' ? included.filter(r => r.errors.length === 0 && r.existingId !== null).length : 0,
+            similar: included.filter(r => r.similarTo !== null).length,
+            newRegions: getNewRegionNames(rows),
+        };
+    }, [stagedRows, importMode]);
+
+    const visibleRows = useMemo(() => {
+        const rows = stagedRows || [];
+        return showOnlyProblems ? rows.filter(r => r.errors.length > 0 && !r.excluded) : rows;
+    }, [stagedRows, showOnlyProblems]);
+
+    const handleExcludeInvalid = () => {
+        if (!stagedRows) return;
+        setStagedRows(validateImportRows(stagedRows.map(row => row.errors.length > 0 ? { ...row, excluded: true } : row), importType, regions, users, existingClients, importMode));
+    };
+
+    const handleDownloadReport = () => {
+        if (!stagedRows) return;
+        exportImportReportToExcel(stagedRows, importType, `${importType}_import_report`, t);
+    };
+
+    // Step 4: commit the reviewed rows in a single transaction
+    const handleCommit = async () => {
+        if (!stagedRows || rowStats.invalid > 0 || rowStats.valid === 0) return;
+        setIsProcessing(true);
+        setImportError('');
+        try {
+            const result = await api.importClients(importType, stagedRows, importMode);
+            setImportResult(result);
+            setStagedRows(null);
+            setFile(null);
+        } catch (error: any) {
+            console.error("Import failed", error);
+            setImportError(t('import_failed_nothing_saved', error.message === 'error_import_has_invalid_rows' ? t('error_import_has_invalid_rows') : error.message));
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const inputClass = "w-full min-w-[8rem] p-1 text-sm border border-slate-300/50 bg-white/60 rounded focus:ring-orange-500 focus:border-orange-500 disabled:bg-slate-100/50 disabled:text-slate-400";
+
     const instructions = useMemo(() => {
         if (importType === 'doctors') {
-            return t('doctors_import_instructions', 'Name, Region, Specialization, Rep Username', 'PEDIATRICS, PULMONOLOGY');
+            return t('doctors_import_instructions', 'Name, Region, Specialization, Rep Username, Tier', 'PEDIATRICS, PULMONOLOGY');
         }
-        return t('pharmacies_import_instructions', 'Name, Region, Rep Username');
+        return t('pharmacies_import_instructions', 'Name, Region, Rep Username, Tier');
     }, [importType, t]);
 
     return (
@@ -146,14 +220,14 @@ const DataImport: React.FC = () => {
                      <div role="tablist" className="grid grid-cols-2 gap-1 rounded-lg p-1 bg-slate-200/60 max-w-sm">
                         <button
                             type="button" role="tab" aria-selected={importType === 'doctors'}
-                            onClick={() => { setImportType('doctors'); setFile(null); setImportResult(null); }}
+                            onClick={() => { setImportType('doctors'); setFile(null); resetStaging(); }}
                             className={`flex items-center justify-center gap-2 w-full p-2 rounded-md text-sm font-semibold transition-colors duration-200 ${importType === 'doctors' ? 'bg-blue-600 text-white shadow' : 'text-slate-700 hover:bg-white/50'}`}
                         >
                             <DoctorIcon className="w-5 h-5"/> {t('doctors')}
                         </button>
                          <button
                             type="button" role="tab" aria-selected={importType === 'pharmacies'}
-                            onClick={() => { setImportType('pharmacies'); setFile(null); setImportResult(null); }}
+                            onClick={() => { setImportType('pharmacies'); setFile(null); resetStaging(); }}
                             className={`flex items-center justify-center gap-2 w-full p-2 rounded-md text-sm font-semibold transition-colors duration-200 ${importType === 'pharmacies' ? 'bg-orange-500 text-white shadow' : 'text-slate-700 hover:bg-white/50'}`}
                         >
                              <PharmacyIcon className="w-5 h-5"/> {t('pharmacies')}
@@ -161,6 +235,21 @@ const DataImport: React.FC = () => {
                      </div>
                 </div>
 
+                {/* Mode Selector */}
+                <div className="my-4">
+                    <label className="block mb-2 text-sm font-medium text-slate-800">{t('import_mode')}</label>
+                    <div className="flex flex-col sm:flex-row gap-4 text-sm text-slate-700">
+                        <label className="flex items-start gap-2 cursor-pointer">
+                            <input type="radio" name="importMode" checked={importMode === 'insert'} onChange={() => handleModeChange('insert')} className="mt-1 text-orange-600 focus:ring-orange-500" />
+                            <span><span className="font-semibold">{t('import_mode_insert')}</span><span className="block text-xs text-slate-500">{t('import_mode_insert_description')}</span></span>
+                        </label>
+                        <label className="flex items-start gap-2 cursor-pointer">
+                            <input type="radio" name="importMode" checked={importMode === 'upsert'} onChange={() => handleModeChange('upsert')} className="mt-1 text-orange-600 focus:ring-orange-500" />
+                            <span><span className="font-semibold">{t('import_mode_upsert')}</span><span className="block text-xs text-slate-500">{t('import_mode_upsert_description')}</span></span>
+                        </label>
+                    </div>
+                </div>
+
                 {/* Uploader */}
                 <div 
                     onDrop={handleDrop}
@@ -184,50 +273,185 @@ const DataImport: React.FC = () => {
                 </div>
             </div>
             
-            {/* Step 3: Import Action */}
+            {/* Step 3: Validate */}
             <div className="flex justify-end pt-4 border-t border-slate-300/50">
                 <button
-                    onClick={handleImport}
+                    onClick={handleValidate}
                     disabled={!file || isProcessing}
-                    className="bg-orange-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-orange-600 transition-all shadow-lg flex items-center gap-2 disabled:bg-orange-300 disabled:cursor-not-allowed"
+                    className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 transition-all shadow-lg flex items-center gap-2 disabled:bg-blue-300 disabled:cursor-not-allowed"
                 >
-                    {isProcessing ? t('importing') : t('import_data')}
+                    {isProcessing && !stagedRows ? t('validating') : t('validate_file')}
                 </button>
             </div>
-            
-            {/* Progress and Result Display */}
-            {isProcessing && (
-                <div className="mt-4">
-                    <div className="w-full bg-slate-200/70 rounded-full h-2.5">
-                        <div className="bg-gradient-to-r from-blue-500 to-orange-500 h-2.5 rounded-full" style={{ width: `${progress}%`, transition: 'width 0.3s ease-in-out' }}></div>
+
+            {importError && (
+                <div className="p-4 text-sm rounded-lg bg-red-100 text-red-800 flex items-start gap-2" role="alert">
+                    <XIcon className="w-5 h-5 flex-shrink-0"/>
+                    <span>{importError}</span>
+                </div>
+            )}
+
+            {/* Step 4: Review & Commit */}
+            {stagedRows && (
+                <div className="bg-blue-50/50 p-4 rounded-lg border border-blue-200/50 space-y-4 animate-fade-in">
+                    <h4 className="font-bold text-slate-800">{t('step_3_review_rows')}</h4>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                        <div className="bg-white/50 p-3 rounded-lg">
+                            <p className="text-sm text-slate-600">{t('rows_in_file')}</p>
+                            <p className="text-2xl font-bold text-slate-800">{rowStats.total}</p>
+                        </div>
+                        <div className="bg-white/50 p-3 rounded-lg">
+                            <p className="text-sm text-slate-600">{t('rows_ready')}</p>
+                            <p className="text-2xl font-bold text-green-700">{rowStats.valid}</p>
+                        </div>
+                        <div className="bg-white/50 p-3 rounded-lg">
+                            <p className="text-sm text-slate-600">{t('rows_with_errors')}</p>
+                            <p className="text-2xl font-bold text-red-700">{rowStats.invalid}</p>
+                        </div>
+                        <div className="bg-white/50 p-3 rounded-lg">
+                            <p className="text-sm text-slate-600">{t('rows_excluded')}</p>
+                            <p className="text-2xl font-bold text-slate-500">{rowStats.excluded}</p>
+                        </div>
+                    </div>
+
+                    {rowStats.similar > 0 && (
+                        <div className="p-3 text-sm rounded-lg bg-yellow-100 text-yellow-800 flex items-start gap-2">
+                            <WarningIcon className="w-5 h-5 flex-shrink-0"/>
+                            <span>{t('import_similar_clients_notice', rowStats.similar)}</span>
+                        </div>
+                    )}
+
+                    {rowStats.newRegions.length > 0 && (
+                        <div className="p-3 text-sm rounded-lg bg-yellow-100 text-yellow-800 flex items-start gap-2">
+                            <WarningIcon className="w-5 h-5 flex-shrink-0"/>
+                            <span>{t('import_new_regions_notice', rowStats.newRegions.join('، '))}</span>
+                        </div>
+                    )}
+
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                            <input type="checkbox" checked={showOnlyProblems} onChange={e => setShowOnlyProblems(e.target.checked)} className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500" />
+                            {t('show_only_rows_with_errors')}
+                        </label>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={handleExcludeInvalid} disabled={rowStats.invalid === 0} className="text-sm font-medium text-slate-700 bg-white/60 hover:bg-white border border-slate-300 rounded-lg px-3 py-1.5 disabled:opacity-50 transition-colors">
+                                {t('exclude_rows_with_errors')}
+                            </button>
+                            <button onClick={handleDownloadReport} className="flex items-center gap-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg px-3 py-1.5 transition-colors">
+                                <DownloadIcon className="w-4 h-4"/>
+                                {t('download_error_report')}
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="overflow-x-auto max-h-[28rem] overflow-y-auto rounded-lg">
+                        <table className="w-full text-sm text-start">
+                            <thead className="text-xs text-blue-800 uppercase bg-white/70 sticky top-0">
+                                <tr>
+                                    <th className="px-2 py-2">{t('include')}</th>
+                                    <th className="px-2 py-2">#</th>
+                                    <th className="px-2 py-2">{t('name')}</th>
+                                    <th className="px-2 py-2">{t('region')}</th>
+                                    {importType === 'doctors' && <th className="px-2 py-2">{t('specialization')}</th>}
+                                    <th className="px-2 py-2">{t('rep_email')}</th>
+                                    <th className="px-2 py-2">{t('tier')}</th>
+                                    <th className="px-2 py-2">{t('status')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visibleRows.map(row => {
+                                    const hasErrors = row.errors.length > 0 && !row.excluded;
+                                    return (
+                                        <tr key={row.rowNumber} className={`border-b border-white/40 align-top ${row.excluded ? 'opacity-50' : hasErrors ? 'bg-red-50/60' : 'bg-white/30'}`}>
+                                            <td className="px-2 py-2">
+                                                <input type="checkbox" checked={!row.excluded} onChange={e => updateRow(row.rowNumber, { excluded: !e.target.checked })} className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500" />
+                                            </td>
+                                            <td className="px-2 py-2 text-slate-500">{row.rowNumber}</td>
+                                            <td className="px-2 py-2">
+                                                <input type="text" value={row.name} disabled={row.excluded} onChange={e => updateRow(row.rowNumber, { name: e.target.value })} className={inputClass} />
+                                                {!row.excluded && row.similarTo && (
+                                                    <span className="block mt-1 text-xs text-yellow-700">
+                                                        {row.similarTo.regionName !== null
+                                                            ? t('similar_to_existing_in_region', row.similarTo.name, row.similarTo.regionName || t('unknown'))
+                                                            : t('similar_to_existing', row.similarTo.name)}
+                                                    </span>
+                                                )}
+                                            </td>
+                                            <td className="px-2 py-2">
+                                                <input type="text" value={row.regionName} disabled={row.excluded} onChange={e => updateRow(row.rowNumber, { regionName: e.target.value })} list="importRegions" className={inputClass} />
+                                                {!row.excluded && row.regionName && row.regionId === null && (
+                                                    <span className="block mt-1 text-xs text-yellow-700">{t('new_region_will_be_created')}</span>
+                                                )}
+                                            </td>
+                                            {importType === 'doctors' && (
+                                                <td className="px-2 py-2">
+                                                    <input type="text" value={row.specialization} disabled={row.excluded} onChange={e => updateRow(row.rowNumber, { specialization: e.target.value })} className={inputClass} />
+                                                </td>
+                                            )}
+                                            <td className="px-2 py-2">
+                                                <input type="text" value={row.repEmail} disabled={row.excluded} onChange={e => updateRow(row.rowNumber, { repEmail: e.target.value })} list="importReps" className={inputClass} />
+                                            </td>
+                                            <td className="px-2 py-2">
+                                                <select value={row.tier.toUpperCase()} disabled={row.excluded} onChange={e => updateRow(row.rowNumber, { tier: e.target.value })} className={inputClass}>
+                                                    <option value="">{t('no_tier')}</option>
+                                                    {CLIENT_TIERS.map(tier => <option key={tier} value={tier}>{tier}</option>)}
+                                                    {row.tier && !CLIENT_TIERS.includes(row.tier.toUpperCase() as ClientTier) && <option value={row.tier.toUpperCase()}>{row.tier}</option>}
+                                                </select>
+                                            </td>
+                                            <td className="px-2 py-2">
+                                                {row.excluded ? (
+                                                    <span className="text-xs text-slate-500">{t('import_row_excluded')}</span>
+                                                ) : hasErrors ? (
+                                                    <ul className="space-y-0.5 text-xs text-red-700">
+                                                        {row.errors.map(error => <li key={error}>{t(error)}</li>)}
+                                                    </ul>
+                                                ) : row.existingId !== null ? (
+                                                    <span className="text-xs font-medium text-blue-700">{t('import_row_will_update')}</span>
+                                                ) : (
+                                                    <CheckIcon className="w-5 h-5 text-green-600" />
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        {visibleRows.length === 0 && <p className="text-center p-6 text-slate-600">{t('no_data')}</p>}
+                        <datalist id="importRegions">
+                            {regions.map(r => <option key={r.id} value={r.name} />)}
+                        </datalist>
+                        <datalist id="importReps">
+                            {users.map(u => <option key={u.id} value={u.username}>{u.name}</option>)}
+                        </datalist>
+                    </div>
+
+                    <div className="flex flex-wrap items-center justify-between gap-2 pt-4 border-t border-slate-300/50">
+                        <p className="text-sm text-slate-600">
+                            {rowStats.invalid > 0 ? t('fix_or_exclude_rows_to_continue', rowStats.invalid) : t('import_ready_summary', rowStats.valid)}
+                            {rowStats.updates > 0 && ` ${t('import_updates_summary', rowStats.updates)}`}
+                        </p>
+                        <button
+                            onClick={handleCommit}
+                            disabled={isProcessing || rowStats.invalid > 0 || rowStats.valid === 0}
+                            className="bg-orange-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-orange-600 transition-all shadow-lg flex items-center gap-2 disabled:bg-orange-300 disabled:cursor-not-allowed"
+                        >
+                            {isProcessing ? t('importing') : t('import_n_rows', rowStats.valid)}
+                        </button>
                     </div>
-                    <p className="text-sm text-center text-slate-600 mt-2">{t('importing')}... {progress}%</p>
                 </div>
             )}
-            
+
             {importResult && !isProcessing && (
                 <div className="p-4 rounded-lg bg-white/50 animate-fade-in mt-4">
                     <h4 className="font-bold text-slate-800 mb-3 flex items-center gap-2">
                         <CheckIcon className="w-6 h-6 text-green-600"/>
                         {t('import_completed')}
                     </h4>
-                    <div className="ps-8 space-y-1">
-                        <div className="flex items-center gap-2 text-green-700">
-                            <CheckIcon className="w-5 h-5"/>
-                            <p>{t('records_imported_successfully', importResult.success)}</p>
-                        </div>
-                         <div className="flex items-center gap-2 text-red-700">
-                            <XIcon className="w-5 h-5"/>
-                            <p>{t('records_failed_to_import', importResult.failed)}</p>
-                        </div>
-                        {importResult.errors.length > 0 && (
-                            <div className="pt-2">
-                                <h5 className="font-semibold text-sm text-slate-700 mb-1">{t('error_details')}</h5>
-                                <ul className="list-disc list-inside space-y-1 text-sm text-red-800 bg-red-50/50 p-3 rounded-md max-h-40 overflow-y-auto">
-                                    {importResult.errors.map((error, index) => <li key={index}>{error}</li>)}
-                                </ul>
-                            </div>
-                        )}
+                    <div className="ps-8 space-y-1 text-green-700">
+                        <p>{t('records_imported_successfully', importResult.imported)}</p>
+                        {importResult.updated > 0 && <p>{t('records_updated_successfully', importResult.updated)}</p>}
+                        {importResult.regionsCreated > 0 && <p>{t('regions_created_count', importResult.regionsCreated)}</p>}
                     </div>
                 </div>
             )}
@@ -0,0 +1,150 @@
+import React, { useState, useMemo } from 'react';
+import { Doctor, Pharmacy, Region, User, ImportType } from '../types';
+import { api } from '../services/api';
+import { findDuplicatePairs, DuplicatePair } from '../services/duplicateService';
+import { useLanguage } from '../hooks/useLanguage';
+import { DoctorIcon, PharmacyIcon } from './icons';
+import Modal from './Modal';
+
+interface DuplicateClientsProps {
+  doctors: Doctor[];
+  pharmacies: Pharmacy[];
+  regions: Region[];
+  reps: User[];
+  onMerged: () => void;
+}
+
+type Client = Doctor | Pharmacy;
+
+const DuplicateClients: React.FC<DuplicateClientsProps> = ({ doctors, pharmacies, regions, reps, onMerged }) => {
+  const { t } = useLanguage();
+  const [clientType, setClientType] = useState<ImportType>('doctors');
+  const [mergingPair, setMergingPair] = useState<DuplicatePair<Client> | null>(null);
+  const [keepId, setKeepId] = useState<number | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const doctorPairs = useMemo(() => findDuplicatePairs<Client>(doctors), [doctors]);
+  const pharmacyPairs = useMemo(() => findDuplicatePairs<Client>(pharmacies), [pharmacies]);
+  const pairs = clientType === 'doctors' ? doctorPairs : pharmacyPairs;
+
+  const regionMap = useMemo(() => new Map(regions.map(r => [r.id, r.name])), [regions]);
+  const repMap = useMemo(() => new Map(reps.map(r => [r.id, r.name])), [reps]);
+
+  const openMerge = (pair: DuplicatePair<Client>) => {
+    setMergingPair(pair);
+    setKeepId(pair.a.id);
+    setError('');
+  };
+
+  const handleMerge = async () => {
+    if (!mergingPair || keepId === null) return;
+    const duplicate = mergingPair.a.id === keepId ? mergingPair.b : mergingPair.a;
+    const kept = mergingPair.a.id === keepId ? mergingPair.a : mergingPair.b;
+    setIsMerging(true);
+    setError('');
+    try {
+      await api.mergeClients(clientType, keepId, duplicate.id);
+      setMergingPair(null);
+      setMessage(t('clients_merged_successfully', duplicate.name, kept.name));
+      setTimeout(() => setMessage(''), 3000);
+      onMerged();
+    } catch (err: any) {
+      console.error("Failed to merge clients", err);
+      setError(t(err.message === 'error_permission_denied' ? 'error_permission_denied' : 'error_unexpected'));
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const describe = (client: Client) => (
+    <div>
+      <p className="font-medium text-slate-900">{client.name}</p>
+      <p className="text-xs text-slate-500">
+        {regionMap.get(client.regionId) || t('unknown')} · {repMap.get(client.repId) || t('unknown')}
+        {clientType === 'doctors' && ` · ${t((client as Doctor).specialization)}`}
+        {client.isArchived && ` · ${t('archived')}`}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 overflow-hidden">
+      <div className="flex flex-wrap justify-between items-center gap-4 p-4 bg-white/50 border-b border-white/30">
+        <div>
+          <h3 className="text-xl font-semibold text-blue-800">{t('possible_duplicates')}</h3>
+          <p className="text-sm text-slate-600">{t('possible_duplicates_description')}</p>
+        </div>
+        <div role="tablist" className="grid grid-cols-2 gap-1 rounded-lg p-1 bg-slate-200/60">
+          <button type="button" role="tab" aria-selected={clientType === 'doctors'} onClick={() => setClientType('doctors')} className={`flex items-center justify-center gap-2 w-full p-2 rounded-md text-sm font-semibold transition-colors duration-200 ${clientType === 'doctors' ? 'bg-blue-600 text-white shadow' : 'text-slate-700 hover:bg-white/50'}`}>
+            <DoctorIcon className="w-5 h-5"/> {t('doctors')} ({doctorPairs.length})
+          </button>
+          <button type="button" role="tab" aria-selected={clientType === 'pharmacies'} onClick={() => setClientType('pharmacies')} className={`flex items-center justify-center gap-2 w-full p-2 rounded-md text-sm font-semibold transition-colors duration-200 ${clientType === 'pharmacies' ? 'bg-orange-500 text-white shadow' : 'text-slate-700 hover:bg-white/50'}`}>
+            <PharmacyIcon className="w-5 h-5"/> {t('pharmacies')} ({pharmacyPairs.length})
+          </button>
+        </div>
+      </div>
+
+      {message && <div className="m-4 p-3 text-sm rounded-lg bg-green-100 text-green-800" role="alert">{message}</div>}
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-sm text-start">
+          <thead className="text-xs text-blue-800 uppercase bg-white/50 sticky top-0">
+            <tr>
+              <th scope="col" className="px-6 py-3">{t('client')}</th>
+              <th scope="col" className="px-6 py-3">{t('possible_duplicate')}</th>
+              <th scope="col" className="px-6 py-3 text-center">{t('similarity')}</th>
+              <th scope="col" className="px-6 py-3">{t('actions')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pairs.map(pair => (
+              <tr key={`${pair.a.id}-${pair.b.id}`} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+                <td className="px-6 py-3">{describe(pair.a)}</td>
+                <td className="px-6 py-3">{describe(pair.b)}</td>
+                <td className="px-6 py-3 text-center font-semibold text-slate-700">
+                  {Math.round(pair.similarity * 100)}%
+                  {pair.a.regionId !== pair.b.regionId && <span className="block text-xs font-normal text-yellow-700">{t('different_regions')}</span>}
+                </td>
+                <td className="px-6 py-3">
+                  <button onClick={() => openMerge(pair)} className="text-white bg-orange-500 hover:bg-orange-600 font-medium rounded-lg text-sm px-3 py-1.5 transition-colors">
+                    {t('merge')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {pairs.length === 0 && <p className="text-center p-8 text-slate-600">{t('no_duplicates_found')}</p>}
+      </div>
+
+      <Modal isOpen={!!mergingPair} onClose={() => setMergingPair(null)} title={t('merge_clients')}>
+        {mergingPair && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-700">{t('choose_client_to_keep')}</p>
+            {[mergingPair.a, mergingPair.b].map(client => (
+              <label key={client.id} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${keepId === client.id ? 'border-blue-500 bg-blue-50/70' : 'border-slate-300/50 bg-white/40'}`}>
+                <input type="radio" name="keepClient" checked={keepId === client.id} onChange={() => setKeepId(client.id)} className="mt-1 text-blue-600 focus:ring-blue-500" />
+                {describe(client)}
+              </label>
+            ))}
+            {mergingPair.a.regionId !== mergingPair.b.regionId && (
+              <p className="text-sm text-yellow-800 bg-yellow-100 p-3 rounded-lg">{t('merge_different_regions_warning')}</p>
+            )}
+            <p className="text-sm text-orange-800 bg-orange-100 p-3 rounded-lg">{t('merge_clients_warning')}</p>
+            {error && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>}
+            <div className="flex items-center justify-end space-x-2 space-x-reverse pt-4 border-t border-slate-300/50">
+              <button type="button" onClick={() => setMergingPair(null)} className="text-slate-700 bg-transparent hover:bg-slate-200/50 rounded-lg border border-slate-300 text-sm font-medium px-5 py-2.5 transition-colors">{t('cancel')}</button>
+              <button type="button" onClick={handleMerge} disabled={isMerging || keepId === null} className="text-white bg-orange-500 hover:bg-orange-600 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-orange-300 transition-colors">
+                {isMerging ? t('saving') : t('merge')}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default DuplicateClients;
@@ -1,13 +1,15 @@
 import React, { useState } from 'react';
 import { useAuth } from '../hooks/useAuth_new';
 import { useLanguage } from '../hooks/useLanguage';
-import { LogoutIcon, EditIcon, LanguageIcon } from './icons';
+import { useOutbox } from '../hooks/useOutbox';
+import { LogoutIcon, EditIcon, LanguageIcon, SyncIcon } from './icons';
 import ChangePasswordModal from './ChangePasswordModal';
 import { Logo } from './Logo';
 
 export const Header: React.FC = () => {
   const { user, logout } = useAuth();
   const { lang, toggleLang, t } = useLanguage();
+  const { pending, failed, syncing, syncNow, retryFailed } = useOutbox();
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
 
   return (
@@ -44,6 +46,17 @@ export const Header: React.FC = () => {
 
             {/* Left Side (App Name & Lang) */}
             <div className="flex-1 flex justify-end items-center">
+              {(pending > 0 || failed > 0) && (
+                <button
+                  onClick={() => (failed > 0 ? retryFailed() : syncNow())}
+                  disabled={syncing}
+                  className={`flex items-center gap-1 text-xs font-semibold px-2.5 py-1 rounded-full me-4 transition-colors disabled:opacity-70 ${failed > 0 ? 'bg-red-100 text-red-800 hover:bg-red-200' : 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'}`}
+                  title={failed > 0 ? t('sync_failed_items', failed) : t('sync_now')}
+                >
+                  <SyncIcon className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+                  <span>{syncing ? t('syncing') : t('pending_sync_count', pending + failed)}</span>
+                </button>
+              )}
               <button
                 onClick={toggleLang}
                 className="flex items-center text-slate-600 hover:text-orange-600 focus:outline-none transition-colors me-4 font-semibold"
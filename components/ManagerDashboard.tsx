@@ -2,43 +2,48 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { api } from '../services/api';
-import { Region, User, VisitReport, UserRole, Doctor, Pharmacy, ClientAlert, SystemSettings, WeeklyPlan, Specialization } from '../types';
+import { Region, User, VisitReport, UserRole, Product, Doctor, Pharmacy, ClientAlert, SystemSettings, WeeklyPlan, Specialization, VisitFrequencyTarget, ClientTier, CLIENT_TIERS, VisitReportFilter, VisitReportQuery, VisitReportStats, ClientRef } from '../types';
+import { DEFAULT_VISIT_TARGET_DAYS } from '../services/visitTargetService';
+import { DEFAULT_MAX_VISIT_DISTANCE_METERS } from '../services/geoService';
+import { DEFAULT_VISIT_EDIT_GRACE_HOURS } from '../services/visitEditService';
 import { exportToExcel, exportToPdf, exportUsersToExcel, exportMultipleRepClientsToExcel, exportClientsToExcel } from '../services/exportService';
-import { FilterIcon, DownloadIcon, CalendarIcon, DoctorIcon, PharmacyIcon, WarningIcon, UserIcon as UsersIcon, ChartBarIcon, CogIcon, CalendarPlusIcon, TrashIcon, MapPinIcon, CheckIcon, XIcon, UploadIcon, EditIcon, PlusIcon, UserGroupIcon, GraphIcon, EyeIcon, ReplyIcon } from './icons';
+import { getWeekStartKey, addWeeks, addDays, fromDateKey, toDateKey } from '../services/dateUtils';
+import { visitClientKey } from '../services/clientUtils';
+import { alertClientRef } from '../services/clientProfileService';
+import { FilterIcon, DownloadIcon, CalendarIcon, DoctorIcon, PharmacyIcon, WarningIcon, UserIcon as UsersIcon, ChartBarIcon, CogIcon, CalendarPlusIcon, TrashIcon, MapPinIcon, CheckIcon, XIcon, UploadIcon, CubeIcon, EditIcon, PlusIcon, UserGroupIcon, GraphIcon, EyeIcon, ReplyIcon, ChevronRightIcon, ChevronLeftIcon, SearchIcon } from './icons';
 import Modal from './Modal';
 import { useAuth } from '../hooks/useAuth_new';
-import { useLanguage, TranslationFunction } from '../hooks/useLanguage';
+import { useLanguage } from '../hooks/useLanguage';
 import DataImport from './DataImport';
+import ProductManagement from './ProductManagement';
+import RegionManagement from './RegionManagement';
+import AdherenceReport from './AdherenceReport';
+import StockOutReport from './StockOutReport';
+import ProductFeedbackReport from './ProductFeedbackReport';
+import CoachingReport from './CoachingReport';
+import RepScorecards from './RepScorecards';
+import SampleInventory from './SampleInventory';
+import TierKpis from './TierKpis';
+import AuditLogViewer from './AuditLogViewer';
+import ClientSearch from './ClientSearch';
 import Spinner from './Spinner';
 import UserEditModal from './UserEditModal';
+import ClientForm from './ClientForm';
+import DuplicateClients from './DuplicateClients';
 import AnalyticsCharts from './AnalyticsCharts';
+import VisitLocationBadge from './VisitLocationBadge';
+import VisitEditModal from './VisitEditModal';
+import ClientProfileModal from './ClientProfileModal';
 import DailyVisitsDetailModal from './DailyVisitsDetailModal';
 import OverdueClientsDetailModal from './OverdueClientsDetailModal'; // New import
 
-// Helper functions for dates (YYYY-MM-DD format)
-const toYYYYMMDD = (date: Date): string => {
-  return date.toISOString().split('T')[0];
-};
-
-const getTodayDateString = (): string => {
-  return toYYYYMMDD(new Date());
-};
-
-const getCurrentWeekDateStrings = (t: TranslationFunction): { start: string; end: string } => {
-  const today = new Date();
-  const dayOfWeek = today.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
+// Quick filter ranges as local YYYY-MM-DD keys, the form the visit report filters take
+const getTodayDateString = (): string => toDateKey(new Date());
 
-  const startDate = new Date(today);
-  // Adjust to the most recent Saturday (or today if it's Saturday)
-  startDate.setDate(today.getDate() - (dayOfWeek === 6 ? 0 : dayOfWeek + 1));
-  
-  const endDate = new Date(startDate);
-  endDate.setDate(startDate.getDate() + 6); // End of the week (Friday)
-
-  return {
-    start: toYYYYMMDD(startDate),
-    end: toYYYYMMDD(endDate),
-  };
+// The work week runs Saturday to Friday
+const getCurrentWeekDateStrings = (): { start: string; end: string } => {
+  const start = getWeekStartKey();
+  return { start, end: addDays(start, 6) };
 };
 
 const getCurrentMonthDateStrings = (): { start: string; end: string } => {
@@ -47,18 +52,44 @@ const getCurrentMonthDateStrings = (): { start: string; end: string } => {
   const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0); // Day 0 of next month is last day of current
 
   return {
-    start: toYYYYMMDD(startOfMonth),
-    end: toYYYYMMDD(endOfMonth),
+    start: toDateKey(startOfMonth),
+    end: toDateKey(endOfMonth),
   };
 };
 
+// All-time visits per calendar month, counting every month from the first visit to the last
+const averageVisitsPerMonth = (stats: VisitReportStats | null): number => {
+  if (!stats || !stats.firstVisitAt || !stats.lastVisitAt) return 0;
+  const earliestDate = new Date(stats.firstVisitAt);
+  const latestDate = new Date(stats.lastVisitAt);
+  const monthDifference = (latestDate.getFullYear() - earliestDate.getFullYear()) * 12 + (latestDate.getMonth() - earliestDate.getMonth()) + 1;
+  return parseFloat((stats.total / (monthDifference || 1)).toFixed(1));
+};
+
+const REPORTS_PAGE_SIZE = 50;
 
 const ManagerDashboard: React.FC = () => {
   const { user } = useAuth();
   const { t } = useLanguage();
-  const [allReports, setAllReports] = useState<VisitReport[]>([]);
-  const [filteredReports, setFilteredReports] = useState<VisitReport[]>([]);
+  // This month's visits for the month cards, today's counts and the tier KPIs; older visits are only aggregated on the server
+  const [monthReports, setMonthReports] = useState<VisitReport[]>([]);
+  const [teamStats, setTeamStats] = useState<VisitReportStats | null>(null); // All-time, whole team
+  const [selectedRepStats, setSelectedRepStats] = useState<VisitReportStats | null>(null); // All-time, selected rep
+  // Current page of the reports table, queried on the server with the filters below
+  const [pagedReports, setPagedReports] = useState<VisitReport[]>([]);
+  const [reportsTotal, setReportsTotal] = useState(0);
+  const [reportPage, setReportPage] = useState(1);
+  const [reportSort, setReportSort] = useState<Pick<VisitReportQuery, 'sortBy' | 'sortDirection'>>({ sortBy: 'date', sortDirection: 'desc' });
+  const [reportStats, setReportStats] = useState<VisitReportStats | null>(null);
+  const [reportsLoading, setReportsLoading] = useState(false);
+  const [reportsVersion, setReportsVersion] = useState(0); // Bumped to refetch the current page after a visit changes
+  const [isExportingReports, setIsExportingReports] = useState(false);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [editingReport, setEditingReport] = useState<VisitReport | null>(null);
+  const [profileClient, setProfileClient] = useState<ClientRef | null>(null);
   const [reps, setReps] = useState<User[]>([]);
+  const [supervisors, setSupervisors] = useState<User[]>([]);
+  const [teamRepIds, setTeamRepIds] = useState<string[] | undefined>(undefined); // undefined = all reps (managers)
   const [regions, setRegions] = useState<Region[]>([]);
   const [totalDoctors, setTotalDoctors] = useState<Doctor[]>([]);
   const [totalPharmacies, setTotalPharmacies] = useState<Pharmacy[]>([]);
@@ -66,7 +97,9 @@ const ManagerDashboard: React.FC = () => {
   const [filteredAlerts, setFilteredAlerts] = useState<ClientAlert[]>([]);
   const [systemSettings, setSystemSettings] = useState<SystemSettings | null>(null);
   const [loading, setLoading] = useState(true);
-  const [allPlans, setAllPlans] = useState<{ [repId: string]: WeeklyPlan }>({});
+  const [allPlans, setAllPlans] = useState<{ [repId: string]: WeeklyPlan }>({}); // Plans for planWeekStart
+  const [planWeekStart, setPlanWeekStart] = useState<string>(() => getWeekStartKey());
+  const [submittedPlans, setSubmittedPlans] = useState<WeeklyPlan[]>([]); // Pending review, any week
   const [reviewMessage, setReviewMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
   const [allDoctorsMap, setAllDoctorsMap] = useState<Map<number, Doctor>>(new Map());
 
@@ -83,7 +116,7 @@ const ManagerDashboard: React.FC = () => {
   ], [t]);
 
 
-  type ManagerTab = 'reports' | 'users' | 'clients' | 'approvals' | 'settings' | 'weeklyPlans' | 'dataImport';
+  type ManagerTab = 'reports' | 'users' | 'clients' | 'approvals' | 'settings' | 'weeklyPlans' | 'adherence' | 'dataImport' | 'products' | 'regions' | 'stock' | 'productFeedback' | 'coaching' | 'scorecards' | 'samples' | 'auditLog' | 'search';
 
 
   // Tab and Modal states
@@ -107,13 +140,20 @@ const ManagerDashboard: React.FC = () => {
   // Settings tab local state
   const [localWeekends, setLocalWeekends] = useState<number[]>([]);
   const [localHolidays, setLocalHolidays] = useState<string[]>([]);
+  const [localVisitTargets, setLocalVisitTargets] = useState<VisitFrequencyTarget[]>([]);
+  const [localDefaultTargetDays, setLocalDefaultTargetDays] = useState<number>(DEFAULT_VISIT_TARGET_DAYS);
+  const [localMaxVisitDistance, setLocalMaxVisitDistance] = useState<number>(DEFAULT_MAX_VISIT_DISTANCE_METERS);
+  const [localVisitEditGraceHours, setLocalVisitEditGraceHours] = useState<number>(DEFAULT_VISIT_EDIT_GRACE_HOURS);
   const [newHoliday, setNewHoliday] = useState('');
   const [settingsMessage, setSettingsMessage] = useState('');
   const [isSavingSettings, setIsSavingSettings] = useState(false); // New state for settings button
 
   // Filter states
-  const [selectedRep, setSelectedRep] = useState<string>('all');
+  const [selectedRep, setSelectedRep] = useState<string>('all'); // Rep ID
   const [selectedRegion, setSelectedRegion] = useState<string>('all');
+  const [selectedVisitType, setSelectedVisitType] = useState<VisitReport['type'] | 'all'>('all');
+  const [selectedProductId, setSelectedProductId] = useState<string>('all');
+  const [selectedSpecialization, setSelectedSpecialization] = useState<string>('all');
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
   const [selectedQuickFilter, setSelectedQuickFilter] = useState<'none' | 'today' | 'currentWeek' | 'currentMonth'>('none');
@@ -122,43 +162,62 @@ const ManagerDashboard: React.FC = () => {
   const fetchInitialData = useCallback(async () => {
     setLoading(true);
     try {
-      const [reportsData, usersData, regionsData, doctorsData, pharmaciesData, alertsData, settingsData, plansData] = await Promise.all([
-        api.getAllVisitReports(),
+      // Supervisors only see their own team, managers see everyone
+      const scopeRepIds = user?.role === UserRole.Supervisor ? await api.getTeamRepIds(user.id) : undefined;
+      const inScope = (repId: string) => !scopeRepIds || scopeRepIds.includes(repId);
+
+      const [usersData, regionsData, doctorsData, pharmaciesData, alertsData, settingsData, pendingPlansData, productsData] = await Promise.all([
         api.getUsers(),
         api.getRegions(),
         api.getAllDoctors(), // Fetch all doctors
         api.getAllPharmacies(),
         api.getOverdueVisits(),
         api.getSystemSettings(),
-        api.getAllPlans(),
+        api.getPendingPlans(scopeRepIds),
+        api.getProducts(),
       ]);
-      setAllReports(reportsData);
-      setFilteredReports(reportsData);
-      setReps(usersData.filter(u => u.role === UserRole.Rep));
+      const teamAlerts = alertsData.filter(a => inScope(a.repId));
+      setTeamRepIds(scopeRepIds);
+      setProducts(productsData);
+      setReps(usersData.filter(u => u.role === UserRole.Rep && inScope(u.id)));
+      setSupervisors(usersData.filter(u => u.role === UserRole.Supervisor));
       setRegions(regionsData);
-      setTotalDoctors(doctorsData);
-      setTotalPharmacies(pharmaciesData);
-      setOverdueAlerts(alertsData);
-      setFilteredAlerts(alertsData);
+      setTotalDoctors(doctorsData.filter(d => inScope(d.repId)));
+      setTotalPharmacies(pharmaciesData.filter(p => inScope(p.repId)));
+      setOverdueAlerts(teamAlerts);
+      setFilteredAlerts(teamAlerts);
       setSystemSettings(settingsData);
       if (settingsData) {
         setLocalWeekends(settingsData.weekends);
         setLocalHolidays(settingsData.holidays.sort((a,b) => new Date(a).getTime() - new Date(b).getTime()));
+        setLocalVisitTargets(settingsData.visitTargets);
+        setLocalDefaultTargetDays(settingsData.defaultVisitTargetDays);
+        setLocalMaxVisitDistance(settingsData.maxVisitDistanceMeters);
+        setLocalVisitEditGraceHours(settingsData.visitEditGraceHours);
       }
-      setAllPlans(plansData);
+      setSubmittedPlans(pendingPlansData);
       setAllDoctorsMap(new Map(doctorsData.map(doc => [doc.id, doc]))); // Create doctor map
     } catch (error) {
       console.error("Failed to fetch initial data", error);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [user]);
 
   useEffect(() => {
     // Fetch data on initial component mount
     fetchInitialData();
   }, [fetchInitialData]);
 
+  useEffect(() => {
+    // Plans are stored per week, so reload when the manager browses to another week.
+    // Wait for the initial load so a supervisor's team is known before querying.
+    if (loading) return;
+    api.getAllPlans(planWeekStart, teamRepIds)
+      .then(setAllPlans)
+      .catch(error => console.error(`Failed to fetch plans for week ${planWeekStart}`, error));
+  }, [planWeekStart, teamRepIds, loading]);
+
   useEffect(() => {
     // Refetch data whenever the active tab changes to ensure fresh data
     // This is especially important for tabs where data might have been modified
@@ -166,191 +225,168 @@ const ManagerDashboard: React.FC = () => {
     fetchInitialData();
   }, [activeTab, fetchInitialData]); // Add activeTab as a dependency
 
-  useMemo(() => {
-    let reports = allReports;
-    let currentStartDate = startDate;
-    let currentEndDate = endDate;
+  // Server-side filter for the reports table, charts and exports. Quick filters already set startDate and endDate.
+  const reportFilter = useMemo<VisitReportFilter>(() => {
+    const region = selectedRegion !== 'all' ? regions.find(r => r.name === selectedRegion) : undefined;
+    return {
+      repIds: selectedRep !== 'all' ? [selectedRep] : teamRepIds,
+      regionId: region?.id,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      visitType: selectedVisitType !== 'all' ? selectedVisitType : undefined,
+      productId: selectedProductId !== 'all' ? Number(selectedProductId) : undefined,
+      specialization: selectedSpecialization !== 'all' ? selectedSpecialization : undefined,
+    };
+  }, [selectedRep, selectedRegion, startDate, endDate, selectedVisitType, selectedProductId, selectedSpecialization, regions, teamRepIds]);
 
-    // Apply quick filters if selected, overriding manual inputs
-    if (selectedQuickFilter === 'today') {
-      const today = getTodayDateString();
-      currentStartDate = today;
-      currentEndDate = today;
-    } else if (selectedQuickFilter === 'currentWeek') {
-      const { start, end } = getCurrentWeekDateStrings(t);
-      currentStartDate = start;
-      currentEndDate = end;
-    } else if (selectedQuickFilter === 'currentMonth') {
-      const { start, end } = getCurrentMonthDateStrings();
-      currentStartDate = start;
-      currentEndDate = end;
-    }
+  useEffect(() => {
+    setReportPage(1);
+  }, [reportFilter, reportSort]);
 
-    if (selectedRep !== 'all') {
-      reports = reports.filter(r => r.repName === selectedRep);
-    }
-    if (selectedRegion !== 'all') {
-      reports = reports.filter(r => r.regionName === selectedRegion);
-    }
-    if (currentStartDate) {
-      reports = reports.filter(r => new Date(r.date) >= new Date(currentStartDate));
-    }
-    if (currentEndDate) {
-      // Add one day to endDate to include visits on the selected end date
-      const endOfDay = new Date(currentEndDate);
-      endOfDay.setDate(endOfDay.getDate() + 1);
-      reports = reports.filter(r => new Date(r.date) < endOfDay);
-    }
-    setFilteredReports(reports);
-    
-    // Filter alerts
+  useEffect(() => {
+    // Wait for the initial load so a supervisor's team is known before querying
+    if (loading) return;
+    let cancelled = false;
+    setReportsLoading(true);
+    api.queryVisitReports({ ...reportFilter, page: reportPage, pageSize: REPORTS_PAGE_SIZE, ...reportSort })
+      .then(result => {
+        if (cancelled) return;
+        setPagedReports(result.reports);
+        setReportsTotal(result.totalCount);
+      })
+      .catch(error => console.error("Failed to fetch visit reports", error))
+      .finally(() => { if (!cancelled) setReportsLoading(false); });
+    return () => { cancelled = true; };
+  }, [reportFilter, reportPage, reportSort, reportsVersion, loading]);
+
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    api.getVisitReportStats(reportFilter)
+      .then(stats => { if (!cancelled) setReportStats(stats); })
+      .catch(error => console.error("Failed to fetch visit report stats", error));
+    return () => { cancelled = true; };
+  }, [reportFilter, reportsVersion, loading]);
+
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    const { start, end } = getCurrentMonthDateStrings();
+    Promise.all([
+      api.getVisitReportsBetween(start, end, teamRepIds),
+      api.getVisitReportStats({ repIds: teamRepIds }),
+    ])
+      .then(([reportsData, statsData]) => {
+        if (cancelled) return;
+        setMonthReports(reportsData);
+        setTeamStats(statsData);
+      })
+      .catch(error => console.error("Failed to fetch this month's visits", error));
+    return () => { cancelled = true; };
+  }, [teamRepIds, reportsVersion, loading]);
+
+  useEffect(() => {
+    if (loading || selectedRep === 'all') return;
+    let cancelled = false;
+    setSelectedRepStats(null);
+    api.getVisitReportStats({ repIds: [selectedRep] })
+      .then(stats => { if (!cancelled) setSelectedRepStats(stats); })
+      .catch(error => console.error("Failed to fetch the rep's visit stats", error));
+    return () => { cancelled = true; };
+  }, [selectedRep, reportsVersion, loading]);
+
+  useEffect(() => {
     let alerts = overdueAlerts;
     if (selectedRep !== 'all') {
-      alerts = alerts.filter(a => a.repName === selectedRep);
+      alerts = alerts.filter(a => a.repId === selectedRep);
     }
     if (selectedRegion !== 'all') {
       alerts = alerts.filter(a => a.regionName === selectedRegion);
     }
     setFilteredAlerts(alerts);
-
-  }, [selectedRep, selectedRegion, startDate, endDate, selectedQuickFilter, allReports, overdueAlerts, t]);
+  }, [selectedRep, selectedRegion, overdueAlerts]);
   
-  const displayedStats = useMemo(() => {
-    const today = new Date();
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-
-    const getVisitsForMonth = (reports: VisitReport[]) => {
-      return reports.filter(visit => {
-          const visitDate = new Date(visit.date);
-          return visitDate >= startOfMonth && visitDate <= today;
-      }).length;
-    };
+  // This month's visits of the selected rep, or of everyone in scope
+  const selectedMonthReports = useMemo(
+    () => (selectedRep === 'all' ? monthReports : monthReports.filter(r => r.repId === selectedRep)),
+    [selectedRep, monthReports]
+  );
 
+  const displayedStats = useMemo(() => {
     if (selectedRep === 'all') {
       return {
-        visitsThisMonth: getVisitsForMonth(allReports),
+        visitsThisMonth: monthReports.length,
         doctorCount: totalDoctors.length,
         pharmacyCount: totalPharmacies.length,
       };
     }
 
-    const selectedRepObject = reps.find(r => r.name === selectedRep);
-    if (!selectedRepObject) {
-      return { visitsThisMonth: 0, doctorCount: 0, pharmacyCount: 0 };
-    }
-
-    const repId = selectedRepObject.id;
-    const repReports = allReports.filter(visit => visit.repName === selectedRep);
-
     return {
-      visitsThisMonth: getVisitsForMonth(repReports),
-      doctorCount: totalDoctors.filter(d => d.repId === repId).length,
-      pharmacyCount: totalPharmacies.filter(p => p.repId === repId).length,
+      visitsThisMonth: selectedMonthReports.length,
+      doctorCount: totalDoctors.filter(d => d.repId === selectedRep).length,
+      pharmacyCount: totalPharmacies.filter(p => p.repId === selectedRep).length,
     };
-  }, [selectedRep, allReports, totalDoctors, totalPharmacies, reps]);
+  }, [selectedRep, monthReports, selectedMonthReports, totalDoctors, totalPharmacies]);
+
+  const selectedRepName = useMemo(() => (selectedRep !== 'all' ? reps.find(r => r.id === selectedRep)?.name ?? '' : ''), [selectedRep, reps]);
 
   const dailyVisitCounts = useMemo(() => {
     const todayStr = new Date().toDateString();
 
-    const todaysVisits = allReports.filter(report =>
+    const todaysVisits = monthReports.filter(report =>
         new Date(report.date).toDateString() === todayStr
     );
     
-    const selectedRepObject = selectedRepForDailyVisits !== 'all' 
-        ? reps.find(r => r.id === selectedRepForDailyVisits)
-        : null;
-
     const filteredByRep = selectedRepForDailyVisits === 'all'
         ? todaysVisits
-        : todaysVisits.filter(visit => visit.repName === selectedRepObject?.name);
+        : todaysVisits.filter(visit => visit.repId === selectedRepForDailyVisits);
 
     const doctorVisits = filteredByRep.filter(v => v.type === 'DOCTOR_VISIT').length;
     const pharmacyVisits = filteredByRep.filter(v => v.type === 'PHARMACY_VISIT').length;
 
     return { doctorVisits, pharmacyVisits };
-  }, [allReports, selectedRepForDailyVisits, reps]);
-
-
-  const monthlySummaryStats = useMemo(() => {
-    const relevantReports = selectedRep === 'all'
-        ? allReports
-        : allReports.filter(r => r.repName === selectedRep);
-    
-    if (relevantReports.length === 0) {
-        return {
-            totalVisitsThisMonth: 0,
-            uniqueClientsThisMonth: 0,
-            averageVisitsPerMonth: 0,
-        };
-    }
+  }, [monthReports, selectedRepForDailyVisits]);
 
-    const today = new Date();
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
 
-    const monthlyReports = relevantReports.filter(visit => {
-        const visitDate = new Date(visit.date);
-        return visitDate >= startOfMonth && visitDate <= today;
-    });
-
-    const totalVisitsThisMonth = monthlyReports.length;
-    const uniqueClientsThisMonth = new Set(monthlyReports.map(r => r.targetName)).size;
-    
-    const visitDates = relevantReports.map(r => new Date(r.date));
-    const earliestDate = new Date(Math.min(...visitDates.map(d => d.getTime())));
-    const latestDate = new Date(Math.max(...visitDates.map(d => d.getTime())));
-
-    const monthDifference = (latestDate.getFullYear() - earliestDate.getFullYear()) * 12 + (latestDate.getMonth() - earliestDate.getMonth()) + 1;
-    
-    const averageVisitsPerMonth = relevantReports.length / (monthDifference || 1);
+  const monthlySummaryStats = useMemo(() => ({
+    totalVisitsThisMonth: selectedMonthReports.length,
+    uniqueClientsThisMonth: new Set(selectedMonthReports.map(visitClientKey)).size,
+    averageVisitsPerMonth: averageVisitsPerMonth(selectedRep === 'all' ? teamStats : selectedRepStats),
+  }), [selectedMonthReports, selectedRep, teamStats, selectedRepStats]);
 
-    return {
-        totalVisitsThisMonth,
-        uniqueClientsThisMonth,
-        averageVisitsPerMonth: parseFloat(averageVisitsPerMonth.toFixed(1)),
-    };
-  }, [allReports, selectedRep]);
-
-  const userManagementStats = useMemo(() => {
-    if (allReports.length === 0) {
-      return {
-        totalVisits: 0,
-        totalUniqueClients: 0,
-        averageVisitsPerMonth: 0,
-      };
-    }
-
-    const totalVisits = allReports.length;
-    const totalUniqueClients = new Set(allReports.map(r => r.targetName)).size;
-
-    const visitDates = allReports.map(r => new Date(r.date));
-    const earliestDate = new Date(Math.min(...visitDates.map(d => d.getTime())));
-    const latestDate = new Date(Math.max(...visitDates.map(d => d.getTime())));
-
-    const monthDifference = (latestDate.getFullYear() - earliestDate.getFullYear()) * 12 + (latestDate.getMonth() - earliestDate.getMonth()) + 1;
-    
-    const averageVisitsPerMonth = totalVisits / (monthDifference || 1);
-
-    return {
-      totalVisits,
-      totalUniqueClients,
-      averageVisitsPerMonth: parseFloat(averageVisitsPerMonth.toFixed(1)),
-    };
-  }, [allReports]);
+  const userManagementStats = useMemo(() => ({
+    totalVisits: teamStats?.total ?? 0,
+    totalUniqueClients: teamStats?.uniqueClients ?? 0,
+    averageVisitsPerMonth: averageVisitsPerMonth(teamStats),
+  }), [teamStats]);
   
   const pendingPlans = useMemo(() => {
-    return Object.entries(allPlans)
-        .filter((entry): entry is [string, WeeklyPlan] => (entry[1] as WeeklyPlan).status === 'pending')
-        .map(([repId, plan]) => ({
-            repId: repId,
-            repName: reps.find(r => r.id === repId)?.name || t('unknown'),
-            ...plan
+    return submittedPlans
+        .filter(plan => plan.status === 'pending')
+        .map(plan => ({
+            ...plan,
+            repName: reps.find(r => r.id === plan.repId)?.name || t('unknown'),
         }));
-  }, [allPlans, reps, t]);
+  }, [submittedPlans, reps, t]);
+
+  // Merge clients edited or reassigned in the client list modal without reloading everything
+  const handleClientsUpdated = useCallback((doctors: Doctor[], pharmacies: Pharmacy[]) => {
+    const upsert = <T extends { id: number }>(list: T[], updated: T[]) => {
+      const updatedById = new Map(updated.map(item => [item.id, item]));
+      const existingIds = new Set(list.map(item => item.id));
+      return [...list.map(item => updatedById.get(item.id) || item), ...updated.filter(item => !existingIds.has(item.id))];
+    };
+    if (doctors.length > 0) {
+      setTotalDoctors(prev => upsert(prev, doctors));
+      setAllDoctorsMap(prev => new Map([...prev, ...doctors.map(d => [d.id, d] as [number, Doctor])]));
+    }
+    if (pharmacies.length > 0) setTotalPharmacies(prev => upsert(prev, pharmacies));
+  }, []);
 
   const clientStatsByRep = useMemo(() => {
     return reps.map(rep => {
-      const repDoctors = totalDoctors.filter(d => d.repId === rep.id);
-      const repPharmacies = totalPharmacies.filter(p => p.repId === rep.id);
+      const repDoctors = totalDoctors.filter(d => d.repId === rep.id && !d.isArchived);
+      const repPharmacies = totalPharmacies.filter(p => p.repId === rep.id && !p.isArchived);
 
       const specializationCounts = repDoctors.reduce((acc, doctor) => {
         const spec = doctor.specialization;
@@ -368,22 +404,40 @@ const ManagerDashboard: React.FC = () => {
     });
   }, [reps, totalDoctors, totalPharmacies]);
 
+  // Segments a visit target can be set for: every doctor specialization in use plus pharmacies
+  const targetSpecializations = useMemo(() => Array.from(new Set<string>([
+      Specialization.Pediatrics,
+      Specialization.Pulmonology,
+      ...totalDoctors.map(d => d.specialization),
+      Specialization.Pharmacy,
+  ])), [totalDoctors]);
+
+  // Clients and visits behind the per-tier KPIs, narrowed to the selected rep
+  const tierKpiScope = useMemo(() => {
+    if (selectedRep === 'all') {
+      return { doctors: totalDoctors, pharmacies: totalPharmacies, reports: monthReports };
+    }
+    return {
+      doctors: totalDoctors.filter(d => d.repId === selectedRep),
+      pharmacies: totalPharmacies.filter(p => p.repId === selectedRep),
+      reports: selectedMonthReports,
+    };
+  }, [selectedRep, monthReports, selectedMonthReports, totalDoctors, totalPharmacies]);
+
+  const maxVisitDistance = systemSettings?.maxVisitDistanceMeters ?? DEFAULT_MAX_VISIT_DISTANCE_METERS;
+
+  const handleVisitChanged = () => {
+    setReportsVersion(v => v + 1); // Refetches the table page, the stats and this month's visits
+  };
+
   const visitFrequency = useMemo(() => {
-    const today = new Date();
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    
-    const visitCounts: Record<string, number> = {};
-    
-    // Filter based on selected Rep for consistent stats
-    const relevantReports = selectedRep === 'all'
-        ? allReports
-        : allReports.filter(r => r.repName === selectedRep);
-
-    relevantReports.forEach(visit => {
-        const visitDate = new Date(visit.date);
-        // Filter for current month and Doctor visits only
-        if (visitDate >= startOfMonth && visitDate <= today && visit.type === 'DOCTOR_VISIT') {
-            const key = visit.targetName;
+    const visitCounts: Record<number, number> = {};
+
+    // This month's visits of the selected rep, for consistent stats
+    selectedMonthReports.forEach(visit => {
+        // Doctor visits only
+        if (visit.type === 'DOCTOR_VISIT') {
+            const key = visit.clientId;
             visitCounts[key] = (visitCounts[key] || 0) + 1;
         }
     });
@@ -399,16 +453,15 @@ const ManagerDashboard: React.FC = () => {
     });
 
     return { freq1, freq2, freq3 };
-  }, [allReports, selectedRep]);
+  }, [selectedMonthReports]);
 
-  const handleReviewPlan = async (repId: string, status: 'approved' | 'rejected') => {
+  const handleReviewPlan = async (repId: string, weekStart: string, status: 'approved' | 'rejected') => {
       try {
-          await api.reviewRepPlan(repId, status);
-           // Optimistic update
-          setAllPlans(prevPlans => ({
-              ...prevPlans,
-              [repId]: { ...prevPlans[repId], status: status }
-          }));
+          const reviewedPlan = await api.reviewRepPlan(repId, weekStart, status);
+          setSubmittedPlans(prevPlans => prevPlans.filter(p => !(p.repId === repId && p.weekStart === weekStart)));
+          if (weekStart === planWeekStart) {
+              setAllPlans(prevPlans => ({ ...prevPlans, [repId]: reviewedPlan }));
+          }
 
           const repName = reps.find(r => r.id === repId)?.name || '';
           const messageKey = status === 'approved' ? 'plan_approved_success' : 'plan_rejected_success';
@@ -430,12 +483,8 @@ const ManagerDashboard: React.FC = () => {
           return;
       }
       try {
-          await api.revokePlanApproval(repId);
-           // Optimistic update
-          setAllPlans(prevPlans => ({
-              ...prevPlans,
-              [repId]: { ...prevPlans[repId], status: 'draft' }
-          }));
+          const revokedPlan = await api.revokePlanApproval(repId, planWeekStart);
+          setAllPlans(prevPlans => ({ ...prevPlans, [repId]: revokedPlan }));
 
           const repName = reps.find(r => r.id === repId)?.name || '';
           setReviewMessage({ text: t('plan_revoked_success', repName), type: 'success' });
@@ -487,6 +536,9 @@ const ManagerDashboard: React.FC = () => {
   const handleResetFilters = () => {
     setSelectedRep('all');
     setSelectedRegion('all');
+    setSelectedVisitType('all');
+    setSelectedProductId('all');
+    setSelectedSpecialization('all');
     setStartDate('');
     setEndDate('');
     setSelectedQuickFilter('none');
@@ -498,7 +550,7 @@ const ManagerDashboard: React.FC = () => {
       setStartDate(today);
       setEndDate(today);
     } else if (filter === 'currentWeek') {
-      const { start, end } = getCurrentWeekDateStrings(t);
+      const { start, end } = getCurrentWeekDateStrings();
       setStartDate(start);
       setEndDate(end);
     } else if (filter === 'currentMonth') {
@@ -509,6 +561,39 @@ const ManagerDashboard: React.FC = () => {
     setSelectedQuickFilter(filter);
   };
 
+  const reportPageCount = Math.max(1, Math.ceil(reportsTotal / REPORTS_PAGE_SIZE));
+
+  const renderSortableHeader = (sortBy: VisitReportQuery['sortBy'], labelKey: string) => (
+    <th scope="col" className="px-6 py-3">
+      <button onClick={() => handleSortReports(sortBy)} className="flex items-center gap-1 uppercase hover:text-orange-600">
+        {t(labelKey)}
+        {reportSort.sortBy === sortBy && <span aria-hidden="true">{reportSort.sortDirection === 'asc' ? '▲' : '▼'}</span>}
+      </button>
+    </th>
+  );
+
+  const handleSortReports = (sortBy: VisitReportQuery['sortBy']) => {
+    setReportSort(prev => ({
+      sortBy,
+      // Clicking the active column flips the direction; a new column starts with newest/A-Z first
+      sortDirection: prev.sortBy === sortBy ? (prev.sortDirection === 'asc' ? 'desc' : 'asc') : (sortBy === 'date' ? 'desc' : 'asc'),
+    }));
+  };
+
+  // Exports cover every matching report, not just the page on screen
+  const handleExportReports = async (format: 'excel' | 'pdf') => {
+    setIsExportingReports(true);
+    try {
+      const reports = await api.getVisitReportsForExport(reportFilter, reportSort.sortBy, reportSort.sortDirection);
+      if (format === 'excel') exportToExcel(reports, 'reports', t);
+      else exportToPdf(reports, 'reports', t);
+    } catch (error) {
+      console.error("Failed to export visit reports", error);
+    } finally {
+      setIsExportingReports(false);
+    }
+  };
+
   const handleStartDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setStartDate(e.target.value);
     setSelectedQuickFilter('none'); // Clear quick filter if manual date is set
@@ -575,6 +660,18 @@ const ManagerDashboard: React.FC = () => {
       setLocalHolidays(prev => prev.filter(h => h !== holiday));
   };
 
+  const handleAddVisitTarget = () => {
+      setLocalVisitTargets(prev => [...prev, { specialization: null, tier: null, days: localDefaultTargetDays }]);
+  };
+
+  const handleVisitTargetChange = (index: number, changes: Partial<VisitFrequencyTarget>) => {
+      setLocalVisitTargets(prev => prev.map((target, i) => i === index ? { ...target, ...changes } : target));
+  };
+
+  const handleRemoveVisitTarget = (index: number) => {
+      setLocalVisitTargets(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleSaveSettings = async () => {
       console.log('handleSaveSettings triggered');
       setIsSavingSettings(true); // Start saving
@@ -588,12 +685,25 @@ const ManagerDashboard: React.FC = () => {
           setIsSavingSettings(false); // Ensure button is re-enabled
           return;
       }
-      const newSettings = { weekends: localWeekends, holidays: localHolidays };
+      const newSettings: SystemSettings = {
+          weekends: localWeekends,
+          holidays: localHolidays,
+          visitTargets: localVisitTargets.filter(target => target.days > 0),
+          defaultVisitTargetDays: localDefaultTargetDays > 0 ? localDefaultTargetDays : DEFAULT_VISIT_TARGET_DAYS,
+          maxVisitDistanceMeters: localMaxVisitDistance > 0 ? localMaxVisitDistance : DEFAULT_MAX_VISIT_DISTANCE_METERS,
+          visitEditGraceHours: localVisitEditGraceHours >= 0 ? localVisitEditGraceHours : DEFAULT_VISIT_EDIT_GRACE_HOURS,
+      };
       try {
           console.log('Attempting to update system settings with:', newSettings);
           await api.updateSystemSettings(newSettings);
           setSystemSettings(newSettings); // Update local state with potentially new settings from DB
+          setLocalVisitTargets(newSettings.visitTargets);
           setSettingsMessage(t('settings_saved_success'));
+          // Overdue alerts depend on the visit targets just saved
+          const alertsData = await api.getOverdueVisits();
+          const teamAlerts = alertsData.filter(a => !teamRepIds || teamRepIds.includes(a.repId));
+          setOverdueAlerts(teamAlerts);
+          setFilteredAlerts(teamAlerts);
           console.log('Settings saved successfully.');
           setTimeout(() => setSettingsMessage(''), 3000);
       } catch (error: any) {
@@ -649,6 +759,8 @@ const ManagerDashboard: React.FC = () => {
         return <span className={`text-xs font-semibold px-2.5 py-0.5 rounded-full ${color}`}>{t(textKey)}</span>;
     };
 
+    const formatPlanWeek = (weekStart: string) => fromDateKey(weekStart).toLocaleDateString(t('locale'), { day: 'numeric', month: 'long', year: 'numeric' });
+
 
   if (loading) {
     return <Spinner />;
@@ -676,6 +788,24 @@ const ManagerDashboard: React.FC = () => {
                       {t('reports')}
                   </button>
               </li>
+              <li className="me-2">
+                  <button
+                      onClick={() => setActiveTab('search')}
+                      className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'search' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                  >
+                      <SearchIcon className="w-5 h-5 me-2" />
+                      {t('search')}
+                  </button>
+              </li>
+              <li className="me-2">
+                  <button 
+                      onClick={() => setActiveTab('clients')}
+                      className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'clients' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                  >
+                      <UserGroupIcon className="w-5 h-5 me-2" />
+                      {t('client_management')}
+                  </button>
+              </li>
               {user?.role === UserRole.Manager && (
                 <>
                   <li className="me-2">
@@ -687,15 +817,6 @@ const ManagerDashboard: React.FC = () => {
                           {t('user_management')}
                       </button>
                   </li>
-                   <li className="me-2">
-                        <button 
-                            onClick={() => setActiveTab('clients')}
-                            className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'clients' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
-                        >
-                            <UserGroupIcon className="w-5 h-5 me-2" />
-                            {t('client_management')}
-                        </button>
-                    </li>
                   <li className="me-2">
                       <button 
                           onClick={() => setActiveTab('dataImport')}
@@ -705,6 +826,24 @@ const ManagerDashboard: React.FC = () => {
                           {t('data_import')}
                       </button>
                   </li>
+                  <li className="me-2">
+                      <button 
+                          onClick={() => setActiveTab('products')}
+                          className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'products' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                      >
+                          <CubeIcon className="w-5 h-5 me-2" />
+                          {t('product_management')}
+                      </button>
+                  </li>
+                  <li className="me-2">
+                      <button 
+                          onClick={() => setActiveTab('regions')}
+                          className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'regions' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                      >
+                          <MapPinIcon className="w-5 h-5 me-2" />
+                          {t('region_management')}
+                      </button>
+                  </li>
                 </>
               )}
                <li className="me-2">
@@ -725,6 +864,60 @@ const ManagerDashboard: React.FC = () => {
                       {t('view_weekly_plans')}
                   </button>
               </li>
+              <li className="me-2">
+                  <button 
+                      onClick={() => setActiveTab('adherence')}
+                      className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'adherence' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                  >
+                      <CheckIcon className="w-5 h-5 me-2" />
+                      {t('plan_adherence')}
+                  </button>
+              </li>
+              <li className="me-2">
+                  <button 
+                      onClick={() => setActiveTab('scorecards')}
+                      className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'scorecards' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                  >
+                      <UserGroupIcon className="w-5 h-5 me-2" />
+                      {t('rep_scorecards')}
+                  </button>
+              </li>
+              <li className="me-2">
+                  <button 
+                      onClick={() => setActiveTab('stock')}
+                      className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'stock' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                  >
+                      <PharmacyIcon className="w-5 h-5 me-2" />
+                      {t('stock_report')}
+                  </button>
+              </li>
+              <li className="me-2">
+                  <button 
+                      onClick={() => setActiveTab('productFeedback')}
+                      className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'productFeedback' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                  >
+                      <ChartBarIcon className="w-5 h-5 me-2" />
+                      {t('product_reception_report')}
+                  </button>
+              </li>
+              <li className="me-2">
+                  <button 
+                      onClick={() => setActiveTab('coaching')}
+                      className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'coaching' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                  >
+                      <GraphIcon className="w-5 h-5 me-2" />
+                      {t('coaching')}
+                  </button>
+              </li>
+              <li className="me-2">
+                  <button 
+                      onClick={() => setActiveTab('samples')}
+                      className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'samples' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                  >
+                      <CubeIcon className="w-5 h-5 me-2" />
+                      {t('sample_inventory')}
+                  </button>
+              </li>
               {user?.role === UserRole.Manager && (
                 <li className="me-2">
                     <button 
@@ -736,6 +929,17 @@ const ManagerDashboard: React.FC = () => {
                     </button>
                 </li>
               )}
+              {user?.role === UserRole.Manager && (
+                <li className="me-2">
+                    <button
+                        onClick={() => setActiveTab('auditLog')}
+                        className={`inline-flex items-center justify-center p-4 border-b-2 rounded-t-lg group ${activeTab === 'auditLog' ? 'text-blue-600 border-blue-600' : 'border-transparent hover:text-gray-600 hover:border-gray-300'}`}
+                    >
+                        <EyeIcon className="w-5 h-5 me-2" />
+                        {t('audit_log')}
+                    </button>
+                </li>
+              )}
           </ul>
       </div>
 
@@ -848,7 +1052,7 @@ const ManagerDashboard: React.FC = () => {
                     <CalendarIcon className="w-8 h-8" />
                 </div>
                 <div>
-                    <p className="text-slate-600 text-sm font-medium">{t(selectedRep === 'all' ? 'total_monthly_visits' : 'monthly_visits_for', selectedRep)}</p>
+                    <p className="text-slate-600 text-sm font-medium">{t(selectedRep === 'all' ? 'total_monthly_visits' : 'monthly_visits_for', selectedRepName)}</p>
                     <p className="text-4xl font-bold text-blue-800">{displayedStats.visitsThisMonth}</p>
                 </div>
             </div>
@@ -857,7 +1061,7 @@ const ManagerDashboard: React.FC = () => {
                     <DoctorIcon className="w-8 h-8" />
                 </div>
                 <div>
-                    <p className="text-slate-600 text-sm font-medium">{t(selectedRep === 'all' ? 'total_doctors' : 'doctors_of', selectedRep)}</p>
+                    <p className="text-slate-600 text-sm font-medium">{t(selectedRep === 'all' ? 'total_doctors' : 'doctors_of', selectedRepName)}</p>
                     <p className="text-4xl font-bold text-green-800">{displayedStats.doctorCount}</p>
                 </div>
             </div>
@@ -866,7 +1070,7 @@ const ManagerDashboard: React.FC = () => {
                     <PharmacyIcon className="w-8 h-8" />
                 </div>
                 <div>
-                    <p className="text-slate-600 text-sm font-medium">{t(selectedRep === 'all' ? 'total_pharmacies' : 'pharmacies_of', selectedRep)}</p>
+                    <p className="text-slate-600 text-sm font-medium">{t(selectedRep === 'all' ? 'total_pharmacies' : 'pharmacies_of', selectedRepName)}</p>
                     <p className="text-4xl font-bold text-orange-800">{displayedStats.pharmacyCount}</p>
                 </div>
             </div>
@@ -887,7 +1091,7 @@ const ManagerDashboard: React.FC = () => {
                     <div className="bg-indigo-500/20 text-indigo-700 p-3 rounded-full me-3">
                         <GraphIcon className="w-6 h-6" />
                     </div>
-                    <p className="text-slate-600 text-md font-medium">{t('visit_frequency_monthly')} {selectedRep !== 'all' ? `(${selectedRep})` : ''}</p>
+                    <p className="text-slate-600 text-md font-medium">{t('visit_frequency_monthly')} {selectedRep !== 'all' ? `(${selectedRepName})` : ''}</p>
                 </div>
                 <div className="grid grid-cols-3 gap-2 text-center">
                     <div className="flex flex-col items-center">
@@ -905,21 +1109,43 @@ const ManagerDashboard: React.FC = () => {
                 </div>
             </div>
 
+          {/* Coverage and call frequency per client tier */}
+          <TierKpis
+            doctors={tierKpiScope.doctors}
+            pharmacies={tierKpiScope.pharmacies}
+            reports={tierKpiScope.reports}
+            settings={systemSettings}
+            repName={selectedRep !== 'all' ? selectedRepName : undefined}
+          />
+
           {/* Analytics Charts */}
-          <AnalyticsCharts reports={filteredReports} />
+          {reportStats && <AnalyticsCharts stats={reportStats} />}
 
           {/* Filters Section */}
           <div className="bg-white/40 backdrop-blur-lg p-4 rounded-2xl shadow-lg border border-white/50 mb-8">
             <h3 className="text-lg font-semibold mb-4 flex items-center text-blue-700"><FilterIcon className="w-5 h-5 me-2"/>{t('filter_options')}</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               <select value={selectedRep} onChange={e => setSelectedRep(e.target.value)} className="w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
                 <option value="all">{t('all_reps')}</option>
-                {reps.map(rep => <option key={rep.id} value={rep.name}>{rep.name}</option>)}
+                {reps.map(rep => <option key={rep.id} value={rep.id}>{rep.name}</option>)}
               </select>
               <select value={selectedRegion} onChange={e => setSelectedRegion(e.target.value)} className="w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
                 <option value="all">{t('all_regions')}</option>
                 {regions.map(region => <option key={region.id} value={region.name}>{region.name}</option>)}
               </select>
+              <select value={selectedVisitType} onChange={e => setSelectedVisitType(e.target.value as VisitReport['type'] | 'all')} className="w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
+                <option value="all">{t('all_visit_types')}</option>
+                <option value="DOCTOR_VISIT">{t('DOCTOR_VISIT')}</option>
+                <option value="PHARMACY_VISIT">{t('PHARMACY_VISIT')}</option>
+              </select>
+              <select value={selectedProductId} onChange={e => setSelectedProductId(e.target.value)} className="w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
+                <option value="all">{t('all_products')}</option>
+                {products.map(product => <option key={product.id} value={product.id}>{product.name}</option>)}
+              </select>
+              <select value={selectedSpecialization} onChange={e => setSelectedSpecialization(e.target.value)} className="w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
+                <option value="all">{t('all_specializations')}</option>
+                {Object.values(Specialization).map(spec => <option key={spec} value={spec}>{t(spec)}</option>)}
+              </select>
               <input type="date" value={startDate} onChange={handleStartDateChange} className="w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" placeholder={t('from_date')} />
               <input type="date" value={endDate} onChange={handleEndDateChange} className="w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" placeholder={t('to_date')} />
               <button onClick={handleResetFilters} className="w-full bg-slate-500 text-white p-2 rounded-md hover:bg-slate-600 transition-colors">{t('reset')}</button>
@@ -971,11 +1197,11 @@ const ManagerDashboard: React.FC = () => {
           
           {/* Export Buttons */}
           <div className="flex flex-col sm:flex-row justify-end items-center mb-4 gap-3">
-                <span className="text-slate-700 font-medium">{t('export_reports', filteredReports.length)}</span>
-                <button onClick={() => exportToExcel(filteredReports, 'reports', t)} className="w-full sm:w-auto flex items-center justify-center bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">
+                <span className="text-slate-700 font-medium">{t('export_reports', reportsTotal)}</span>
+                <button onClick={() => handleExportReports('excel')} disabled={isExportingReports || reportsTotal === 0} className="w-full sm:w-auto flex items-center justify-center bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-blue-300">
                     <DownloadIcon className="w-5 h-5 me-2"/> Excel
                 </button>
-                <button onClick={() => exportToPdf(filteredReports, 'reports', t)} className="w-full sm:w-auto flex items-center justify-center bg-orange-500 text-white py-2 px-4 rounded-md hover:bg-orange-600 transition-colors">
+                <button onClick={() => handleExportReports('pdf')} disabled={isExportingReports || reportsTotal === 0} className="w-full sm:w-auto flex items-center justify-center bg-orange-500 text-white py-2 px-4 rounded-md hover:bg-orange-600 transition-colors disabled:bg-orange-300">
                     <DownloadIcon className="w-5 h-5 me-2"/> PDF
                 </button>
             </div>
@@ -986,40 +1212,66 @@ const ManagerDashboard: React.FC = () => {
               <table className="w-full text-sm text-start text-gray-500">
                 <thead className="text-xs text-blue-800 uppercase bg-white/50">
                   <tr>
-                    <th scope="col" className="px-6 py-3">{t('date')}</th>
+                    {renderSortableHeader('date', 'date')}
                     <th scope="col" className="px-6 py-3">{t('visit_type')}</th>
-                    <th scope="col" className="px-6 py-3">{t('rep')}</th>
-                    <th scope="col" className="px-6 py-3">{t('region')}</th>
-                    <th scope="col" className="px-6 py-3">{t('client')}</th>
+                    {renderSortableHeader('rep', 'rep')}
+                    {renderSortableHeader('region', 'region')}
+                    {renderSortableHeader('client', 'client')}
                     <th scope="col" className="px-6 py-3">{t('target_specialization')}</th>
                     <th scope="col" className="px-6 py-3">{t('product')}</th>
                     <th scope="col" className="px-6 py-3">{t('doctor_visit_type')}</th>
+                    <th scope="col" className="px-6 py-3">{t('visit_location')}</th>
                     <th scope="col" className="px-6 py-3">{t('notes')}</th>
+                    <th scope="col" className="px-6 py-3">{t('actions')}</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredReports.map((report, index) => (
+                  {pagedReports.map((report, index) => (
                     <tr key={report.id} className="bg-white/20 border-b border-white/30 hover:bg-white/40 animate-fade-in-up" style={{ animationDelay: `${Math.min(index * 50, 500)}ms` }}>
                       <td className="px-6 py-4 whitespace-nowrap">{new Date(report.date).toLocaleDateString(t('locale'))}</td>
                       <td className="px-6 py-4"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${report.type === 'DOCTOR_VISIT' ? 'bg-blue-100 text-blue-800' : 'bg-orange-100 text-orange-800'}`}>{t(report.type)}</span></td>
                       <td className="px-6 py-4 font-medium text-slate-900">{report.repName}</td>
                       <td className="px-6 py-4">{report.regionName}</td>
-                      <td className="px-6 py-4">{report.targetName}</td>
+                      <td className="px-6 py-4">
+                        <button onClick={() => setProfileClient({ type: report.clientType, id: report.clientId })} className="text-blue-700 hover:underline text-start" title={t('open_client_profile')}>
+                          {report.targetName}
+                        </button>
+                      </td>
                       <td className="px-6 py-4">{report.targetSpecialization ? t(report.targetSpecialization) : '-'}</td>
                       <td className="px-6 py-4">{report.productName || '-'}</td>
                       <td className="px-6 py-4">{report.visitType ? t(report.visitType) : '-'}</td>
+                      <td className="px-6 py-4"><VisitLocationBadge report={report} maxDistanceMeters={maxVisitDistance} /></td>
                       <td className="px-6 py-4 max-w-xs truncate" title={report.notes}>{report.notes}</td>
+                      <td className="px-6 py-4">
+                        <button onClick={() => setEditingReport(report)} className="text-blue-600 hover:text-blue-800" title={t('edit_or_view_history')}>
+                          <EditIcon className="w-5 h-5" />
+                        </button>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
-              {filteredReports.length === 0 && <p className="text-center p-8 text-slate-600">{t('no_matching_reports')}</p>}
+              {reportsLoading && pagedReports.length === 0 ? <Spinner /> : pagedReports.length === 0 && <p className="text-center p-8 text-slate-600">{t('no_matching_reports')}</p>}
             </div>
+            {reportsTotal > REPORTS_PAGE_SIZE && (
+              <div className="flex items-center justify-between px-6 py-3 border-t border-white/30 text-sm text-slate-700">
+                <span>{t('showing_reports_range', (reportPage - 1) * REPORTS_PAGE_SIZE + 1, Math.min(reportPage * REPORTS_PAGE_SIZE, reportsTotal), reportsTotal)}</span>
+                <div className="flex items-center gap-2">
+                  <button onClick={() => setReportPage(p => p - 1)} disabled={reportPage === 1 || reportsLoading} className="p-2 text-slate-600 hover:text-orange-600 rounded-full hover:bg-slate-200/50 transition-colors disabled:opacity-40" aria-label={t('previous_page')}>
+                    <ChevronRightIcon className="w-5 h-5" />
+                  </button>
+                  <span>{t('page_of', reportPage, reportPageCount)}</span>
+                  <button onClick={() => setReportPage(p => p + 1)} disabled={reportPage >= reportPageCount || reportsLoading} className="p-2 text-slate-600 hover:text-orange-600 rounded-full hover:bg-slate-200/50 transition-colors disabled:opacity-40" aria-label={t('next_page')}>
+                    <ChevronLeftIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         </>
       )}
 
-      {activeTab === 'users' && (
+      {activeTab === 'users' && user?.role === UserRole.Manager && (
         <>
           {/* User Management Stats */}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
@@ -1087,6 +1339,7 @@ const ManagerDashboard: React.FC = () => {
                               <th scope="col" className="px-6 py-3">{t('full_name')}</th>
                               <th scope="col" className="px-6 py-3">{t('username')}</th>
                               <th scope="col" className="px-6 py-3">{t('role')}</th>
+                              <th scope="col" className="px-6 py-3">{t('supervisor')}</th>
                               <th scope="col" className="px-6 py-3">{t('actions')}</th>
                           </tr>
                       </thead>
@@ -1096,6 +1349,7 @@ const ManagerDashboard: React.FC = () => {
                                   <td className="px-6 py-4 font-medium text-slate-900">{rep.name}</td>
                                   <td className="px-6 py-4">{rep.username}</td>
                                   <td className="px-6 py-4">{t(rep.role)}</td>
+                                  <td className="px-6 py-4">{supervisors.find(s => s.id === rep.supervisorId)?.name || <span className="text-slate-400">{t('no_supervisor')}</span>}</td>
                                   <td className="px-6 py-4">
                                       <div className="flex items-center gap-4">
                                           <button onClick={() => handleEditUserClick(rep)} className="text-blue-600 hover:text-blue-800" aria-label={t('edit')}>
@@ -1172,10 +1426,30 @@ const ManagerDashboard: React.FC = () => {
         </div>
       )}
 
-      {activeTab === 'dataImport' && (
+      {activeTab === 'clients' && user?.role === UserRole.Manager && (
+        <div className="mt-8">
+          <DuplicateClients
+            doctors={totalDoctors}
+            pharmacies={totalPharmacies}
+            regions={regions}
+            reps={reps}
+            onMerged={fetchInitialData}
+          />
+        </div>
+      )}
+
+      {activeTab === 'dataImport' && user?.role === UserRole.Manager && (
         <DataImport />
       )}
 
+      {activeTab === 'products' && user?.role === UserRole.Manager && (
+        <ProductManagement />
+      )}
+
+      {activeTab === 'regions' && user?.role === UserRole.Manager && (
+        <RegionManagement />
+      )}
+
        {activeTab === 'approvals' && (
         <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6 relative">
             <h3 className="text-xl font-semibold mb-4 text-blue-800">{t('pending_rep_plans')}</h3>
@@ -1189,8 +1463,11 @@ const ManagerDashboard: React.FC = () => {
             {pendingPlans.length > 0 ? (
                 <div className="space-y-6">
                     {pendingPlans.map(item => (
-                        <div key={item.repId} className="bg-white/30 p-4 rounded-lg shadow border border-white/50">
-                            <h4 className="font-bold text-lg text-slate-800 mb-3">{item.repName}</h4>
+                        <div key={`${item.repId}-${item.weekStart}`} className="bg-white/30 p-4 rounded-lg shadow border border-white/50">
+                            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                                <h4 className="font-bold text-lg text-slate-800">{item.repName}</h4>
+                                <span className="text-sm text-slate-600">{t('week_of', formatPlanWeek(item.weekStart))}</span>
+                            </div>
                             <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-2 mb-4">
                                 {WEEK_DAYS_ORDERED.map(day => {
                                     const dayPlan = item.plan[day.index];
@@ -1216,11 +1493,11 @@ const ManagerDashboard: React.FC = () => {
                                 })}
                             </div>
                             <div className="flex justify-end items-center gap-3">
-                                <button onClick={() => handleReviewPlan(item.repId, 'rejected')} className="flex items-center gap-2 text-white bg-red-600 hover:bg-red-700 font-medium rounded-lg text-sm px-5 py-2.5 transition-colors">
+                                <button onClick={() => handleReviewPlan(item.repId, item.weekStart, 'rejected')} className="flex items-center gap-2 text-white bg-red-600 hover:bg-red-700 font-medium rounded-lg text-sm px-5 py-2.5 transition-colors">
                                     <XIcon className="w-4 h-4" />
                                     {t('reject')}
                                 </button>
-                                <button onClick={() => handleReviewPlan(item.repId, 'approved')} className="flex items-center gap-2 text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-5 py-2.5 transition-colors">
+                                <button onClick={() => handleReviewPlan(item.repId, item.weekStart, 'approved')} className="flex items-center gap-2 text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-5 py-2.5 transition-colors">
                                     <CheckIcon className="w-4 h-4" />
                                     {t('approve')}
                                 </button>
@@ -1236,7 +1513,23 @@ const ManagerDashboard: React.FC = () => {
 
       {activeTab === 'weeklyPlans' && (
         <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
-            <h3 className="text-xl font-semibold mb-6 text-blue-800">{t('weekly_plans_overview')}</h3>
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+                <h3 className="text-xl font-semibold text-blue-800">{t('weekly_plans_overview')}</h3>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setPlanWeekStart(prev => addWeeks(prev, -1))} className="p-2 text-slate-600 hover:text-orange-600 rounded-full hover:bg-slate-200/50 transition-colors" aria-label={t('previous_week')}>
+                        <ChevronRightIcon className="w-5 h-5" />
+                    </button>
+                    <span className="font-semibold text-slate-700 min-w-[180px] text-center">{t('week_of', formatPlanWeek(planWeekStart))}</span>
+                    <button onClick={() => setPlanWeekStart(prev => addWeeks(prev, 1))} className="p-2 text-slate-600 hover:text-orange-600 rounded-full hover:bg-slate-200/50 transition-colors" aria-label={t('next_week')}>
+                        <ChevronLeftIcon className="w-5 h-5" />
+                    </button>
+                    {planWeekStart !== getWeekStartKey() && (
+                        <button onClick={() => setPlanWeekStart(getWeekStartKey())} className="text-sm text-blue-700 hover:text-blue-900 bg-blue-100 hover:bg-blue-200 px-3 py-1 rounded-md transition-colors">
+                            {t('current_week')}
+                        </button>
+                    )}
+                </div>
+            </div>
             {reviewMessage && ( // Display messages also on the weekly plans tab
                 <div className={`p-4 mb-4 text-sm rounded-lg ${reviewMessage.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`} role="alert">
                     <span className="font-medium">{reviewMessage.text}</span>
@@ -1254,13 +1547,27 @@ const ManagerDashboard: React.FC = () => {
                     <tbody>
                         {reps.map(rep => {
                             const plan = allPlans[rep.id];
-                            if (!plan) return null; // Should not happen due to data hydration
+                            if (!plan) {
+                                return (
+                                    <tr key={rep.id} className="group bg-white/20 border-b border-white/30 hover:bg-white/40">
+                                        <td className="sticky start-0 px-6 py-4 font-medium text-slate-900 whitespace-nowrap bg-white/20 group-hover:bg-white/40">
+                                            <div className="font-semibold">{rep.name}</div>
+                                        </td>
+                                        <td colSpan={WEEK_DAYS_ORDERED.length + 1} className="px-4 py-4 text-center text-slate-500 italic">{t('no_plan_submitted')}</td>
+                                    </tr>
+                                );
+                            }
 
                             return (
                                 <tr key={rep.id} className="group bg-white/20 border-b border-white/30 hover:bg-white/40">
                                     <td className="sticky start-0 px-6 py-4 font-medium text-slate-900 whitespace-nowrap bg-white/20 group-hover:bg-white/40">
                                         <div className="font-semibold">{rep.name}</div>
                                         <div className="mt-1">{getPlanStatusBadge(plan.status)}</div>
+                                        {plan.reviewedAt && (
+                                            <div className="mt-1 text-xs text-slate-500">
+                                                {t('plan_reviewed_by', plan.reviewerName || t('unknown'), new Date(plan.reviewedAt).toLocaleDateString(t('locale')))}
+                                            </div>
+                                        )}
                                         {user?.role === UserRole.Manager && plan.status === 'approved' && (
                                             <button 
                                                 onClick={() => handleRevokeApproval(rep.id)}
@@ -1300,7 +1607,46 @@ const ManagerDashboard: React.FC = () => {
         </div>
       )}
 
-      {activeTab === 'settings' && (
+      {activeTab === 'adherence' && (
+        <AdherenceReport reps={reps} repIds={teamRepIds} doctors={totalDoctors} />
+      )}
+
+      {activeTab === 'scorecards' && (
+        <RepScorecards
+          reps={reps}
+          repIds={teamRepIds}
+          doctors={totalDoctors}
+          pharmacies={totalPharmacies}
+          settings={systemSettings}
+          onOpenClient={setProfileClient}
+        />
+      )}
+
+      {activeTab === 'stock' && (
+        <StockOutReport repIds={teamRepIds} />
+      )}
+
+      {activeTab === 'productFeedback' && (
+        <ProductFeedbackReport repIds={teamRepIds} />
+      )}
+
+      {activeTab === 'coaching' && user && (
+        <CoachingReport user={user} repIds={teamRepIds} />
+      )}
+
+      {activeTab === 'samples' && user && (
+        <SampleInventory reps={reps} repIds={teamRepIds} canAllocate={user.role === UserRole.Manager} currentUserId={user.id} />
+      )}
+
+      {activeTab === 'search' && user && !loading && (
+        <ClientSearch user={user} repIds={teamRepIds} onBack={() => setActiveTab('reports')} />
+      )}
+
+      {activeTab === 'auditLog' && user?.role === UserRole.Manager && (
+        <AuditLogViewer />
+      )}
+
+      {activeTab === 'settings' && user?.role === UserRole.Manager && (
         <div className="space-y-8">
             <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
                 <h3 className="text-xl font-semibold mb-4 text-blue-800">{t('weekend_settings')}</h3>
@@ -1342,6 +1688,93 @@ const ManagerDashboard: React.FC = () => {
                     )) : <p className="text-center text-slate-500 p-4">{t('no_holidays_added')}</p>}
                 </div>
             </div>
+            <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+                <h3 className="text-xl font-semibold mb-1 text-blue-800">{t('visit_frequency_targets')}</h3>
+                <p className="text-sm text-slate-600 mb-4">{t('visit_frequency_targets_description')}</p>
+                <div className="flex flex-wrap items-center gap-3 mb-4">
+                    <label htmlFor="defaultTargetDays" className="font-medium text-slate-800">{t('default_visit_target')}</label>
+                    <input
+                        id="defaultTargetDays"
+                        type="number"
+                        min={1}
+                        value={localDefaultTargetDays}
+                        onChange={(e) => setLocalDefaultTargetDays(parseInt(e.target.value) || 0)}
+                        className="w-24 p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500"
+                    />
+                    <span className="text-sm text-slate-600">{t('days')}</span>
+                </div>
+                <div className="space-y-2">
+                    {localVisitTargets.map((target, index) => (
+                        <div key={index} className="flex flex-wrap items-center gap-3 p-3 bg-white/30 rounded-lg">
+                            <select
+                                value={target.specialization ?? ''}
+                                onChange={(e) => handleVisitTargetChange(index, { specialization: e.target.value || null })}
+                                className="p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500"
+                                aria-label={t('specialization')}
+                            >
+                                <option value="">{t('any_specialization')}</option>
+                                {targetSpecializations.map(spec => <option key={spec} value={spec}>{t(spec)}</option>)}
+                            </select>
+                            <select
+                                value={target.tier ?? ''}
+                                onChange={(e) => handleVisitTargetChange(index, { tier: (e.target.value || null) as ClientTier | null })}
+                                className="p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500"
+                                aria-label={t('tier')}
+                            >
+                                <option value="">{t('any_tier')}</option>
+                                {CLIENT_TIERS.map(tier => <option key={tier} value={tier}>{t('tier_label', tier)}</option>)}
+                            </select>
+                            <span className="text-sm text-slate-700">{t('visit_every')}</span>
+                            <input
+                                type="number"
+                                min={1}
+                                value={target.days}
+                                onChange={(e) => handleVisitTargetChange(index, { days: parseInt(e.target.value) || 0 })}
+                                className="w-20 p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500"
+                                aria-label={t('days')}
+                            />
+                            <span className="text-sm text-slate-700">{t('days')}</span>
+                            <button onClick={() => handleRemoveVisitTarget(index)} className="ms-auto text-red-500 hover:text-red-700" aria-label={t('delete')}>
+                                <TrashIcon className="w-5 h-5"/>
+                            </button>
+                        </div>
+                    ))}
+                    {localVisitTargets.length === 0 && <p className="text-center text-slate-500 p-4">{t('no_visit_targets')}</p>}
+                </div>
+                <button onClick={handleAddVisitTarget} className="mt-4 flex items-center justify-center bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">
+                    <PlusIcon className="w-5 h-5 me-2"/> {t('add_visit_target')}
+                </button>
+            </div>
+
+            <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+                <h3 className="text-xl font-semibold mb-1 text-blue-800">{t('visit_location_check')}</h3>
+                <p className="text-sm text-slate-600 mb-4">{t('visit_location_check_description')}</p>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label htmlFor="maxVisitDistance" className="font-medium text-slate-800">{t('max_visit_distance')}</label>
+                    <input
+                        id="maxVisitDistance"
+                        type="number"
+                        min={1}
+                        value={localMaxVisitDistance}
+                        onChange={(e) => setLocalMaxVisitDistance(parseInt(e.target.value) || 0)}
+                        className="w-28 p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500"
+                    />
+                    <span className="text-sm text-slate-600">{t('meters')}</span>
+                </div>
+            </div>
+
+            <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+                <h3 className="text-xl font-semibold mb-1 text-blue-800">{t('visit_edit_grace_hours')}</h3>
+                <p className="text-sm text-slate-600 mb-4">{t('visit_edit_grace_hours_hint')}</p>
+                <input
+                    id="visitEditGraceHours"
+                    type="number"
+                    min={0}
+                    value={localVisitEditGraceHours}
+                    onChange={(e) => setLocalVisitEditGraceHours(parseInt(e.target.value) || 0)}
+                    className="w-28 p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500"
+                />
+            </div>
 
             <div className="flex items-center justify-between mt-6">
                 <div className={`transition-opacity duration-300 ${settingsMessage ? 'opacity-100' : 'opacity-0'}`}>
@@ -1432,6 +1865,7 @@ const ManagerDashboard: React.FC = () => {
             onClose={() => setIsUserModalOpen(false)}
             onSuccess={handleUserModalSuccess}
             userToEdit={editingUser}
+            supervisors={supervisors}
         />
 
         {deletingUser && (
@@ -1466,6 +1900,8 @@ const ManagerDashboard: React.FC = () => {
                 totalDoctors={totalDoctors}
                 totalPharmacies={totalPharmacies}
                 regions={regions}
+                reps={reps}
+                onClientsUpdated={handleClientsUpdated}
             />
         }
 
@@ -1473,12 +1909,24 @@ const ManagerDashboard: React.FC = () => {
             <DailyVisitsDetailModal
                 isOpen={isDailyVisitsDetailModalOpen}
                 onClose={() => setIsDailyVisitsDetailModalOpen(false)}
-                reports={allReports}
+                reports={monthReports}
                 reps={reps}
                 selectedRepId={selectedRepForDailyVisits}
+                maxVisitDistanceMeters={maxVisitDistance}
             />
         )}
 
+        {user && (
+          <VisitEditModal
+            report={editingReport}
+            user={user}
+            products={products}
+            graceHours={systemSettings?.visitEditGraceHours ?? DEFAULT_VISIT_EDIT_GRACE_HOURS}
+            onClose={() => setEditingReport(null)}
+            onChanged={handleVisitChanged}
+          />
+        )}
+
         {isOverdueClientsDetailModalOpen && (
           <OverdueClientsDetailModal
             isOpen={isOverdueClientsDetailModalOpen}
@@ -1486,9 +1934,12 @@ const ManagerDashboard: React.FC = () => {
             alerts={overdueAlerts} // Pass the full list of overdue alerts
             reps={reps}
             regions={regions}
+            onOpenClient={alert => setProfileClient(alertClientRef(alert))}
           />
         )}
 
+        <ClientProfileModal client={profileClient} onClose={() => setProfileClient(null)} />
+
         {/* NEW: Reset Visits Confirmation Modal */}
         {repToReset && (
             <Modal isOpen={isResetModalOpen} onClose={() => setIsResetModalOpen(false)} title={t('confirm_reset_title')}>
@@ -1529,21 +1980,145 @@ interface ClientListModalProps {
     totalDoctors: Doctor[]; // Explicitly passed
     totalPharmacies: Pharmacy[]; // Explicitly passed
     regions: Region[]; // Explicitly passed
+    reps: User[]; // Reps clients can be handed over to
+    onClientsUpdated: (doctors: Doctor[], pharmacies: Pharmacy[]) => void;
 }
 
-const ClientListModal: React.FC<ClientListModalProps> = ({ rep, onClose, totalDoctors, totalPharmacies, regions }) => {
+const ClientListModal: React.FC<ClientListModalProps> = ({ rep, onClose, totalDoctors, totalPharmacies, regions, reps, onClientsUpdated }) => {
     const { t } = useLanguage();
 
     const [activeModalTab, setActiveModalTab] = useState<'doctors' | 'pharmacies'>('doctors');
-    const repDoctors = useMemo(() => totalDoctors.filter((d: Doctor) => d.repId === rep.id), [rep.id, totalDoctors]);
-    const repPharmacies = useMemo(() => totalPharmacies.filter((p: Pharmacy) => p.repId === rep.id), [rep.id, totalPharmacies]);
+    const [showArchived, setShowArchived] = useState(false);
+    const [editingClient, setEditingClient] = useState<Doctor | Pharmacy | null | undefined>(undefined); // undefined = list view, null = adding
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const [reassignToRepId, setReassignToRepId] = useState('');
+    const [isReassigning, setIsReassigning] = useState(false);
+    const [actionMessage, setActionMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    const repDoctors = useMemo(() => totalDoctors.filter((d: Doctor) => d.repId === rep.id && (showArchived || !d.isArchived)), [rep.id, totalDoctors, showArchived]);
+    const repPharmacies = useMemo(() => totalPharmacies.filter((p: Pharmacy) => p.repId === rep.id && (showArchived || !p.isArchived)), [rep.id, totalPharmacies, showArchived]);
     const regionMap = useMemo(() => new Map(regions.map((r: Region) => [r.id, r.name])), [regions]);
+    const specializations = useMemo(() => Array.from(new Set([Specialization.Pediatrics, Specialization.Pulmonology, ...totalDoctors.map(d => d.specialization)])), [totalDoctors]);
+    const otherReps = useMemo(() => reps.filter(r => r.id !== rep.id), [reps, rep.id]);
+
+    const visibleClients: (Doctor | Pharmacy)[] = activeModalTab === 'doctors' ? repDoctors : repPharmacies;
+    const allSelected = visibleClients.length > 0 && visibleClients.every(c => selectedIds.includes(c.id));
 
+    // Selections only apply to the list that is on screen
+    useEffect(() => {
+        setSelectedIds([]);
+    }, [activeModalTab, showArchived]);
 
     const handleExport = () => {
         exportClientsToExcel(repDoctors, repPharmacies, regions, `clients_${rep.username}`, t);
     };
 
+    const showActionMessage = (text: string, type: 'success' | 'error') => {
+        setActionMessage({ text, type });
+        setTimeout(() => setActionMessage(null), 3000);
+    };
+
+    const toggleSelected = (id: number) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+    };
+
+    const handleClientSaved = (client: Doctor | Pharmacy) => {
+        if (activeModalTab === 'doctors') onClientsUpdated([client as Doctor], []);
+        else onClientsUpdated([], [client as Pharmacy]);
+        setEditingClient(undefined);
+        showActionMessage(t('client_saved_successfully', client.name), 'success');
+    };
+
+    const handleToggleArchived = async (client: Doctor | Pharmacy) => {
+        try {
+            if (activeModalTab === 'doctors') {
+                onClientsUpdated([await api.setDoctorArchived(client.id, !client.isArchived)], []);
+            } else {
+                onClientsUpdated([], [await api.setPharmacyArchived(client.id, !client.isArchived)]);
+            }
+            showActionMessage(t(client.isArchived ? 'client_restored' : 'client_archived', client.name), 'success');
+        } catch (error) {
+            console.error("Failed to change client archive status", error);
+            showActionMessage(t('error_unexpected'), 'error');
+        }
+    };
+
+    const handleReassign = async () => {
+        if (!reassignToRepId || selectedIds.length === 0) return;
+        setIsReassigning(true);
+        try {
+            const result = activeModalTab === 'doctors'
+                ? await api.reassignClients(selectedIds, [], reassignToRepId)
+                : await api.reassignClients([], selectedIds, reassignToRepId);
+            onClientsUpdated(result.doctors, result.pharmacies);
+            showActionMessage(t('clients_reassigned_successfully', selectedIds.length, reps.find(r => r.id === reassignToRepId)?.name || ''), 'success');
+            setSelectedIds([]);
+            setReassignToRepId('');
+        } catch (error) {
+            console.error("Failed to reassign clients", error);
+            showActionMessage(t('error_unexpected'), 'error');
+        } finally {
+            setIsReassigning(false);
+        }
+    };
+
+    if (editingClient !== undefined) {
+        const clientType = activeModalTab === 'doctors' ? 'doctor' : 'pharmacy';
+        return (
+          <Modal isOpen={true} onClose={() => setEditingClient(undefined)} title={t(editingClient ? `edit_${clientType}` : `add_${clientType}`)}>
+              <ClientForm
+                  clientType={clientType}
+                  client={editingClient}
+                  defaultRepId={rep.id}
+                  reps={reps}
+                  regions={regions}
+                  specializations={specializations}
+                  onSaved={handleClientSaved}
+                  onCancel={() => setEditingClient(undefined)}
+              />
+          </Modal>
+        );
+    }
+
+    const renderRowActions = (client: Doctor | Pharmacy) => (
+        <div className="flex items-center gap-3">
+            <button onClick={() => setEditingClient(client)} className="text-blue-600 hover:text-blue-800" aria-label={t('edit')}>
+                <EditIcon className="w-4 h-4"/>
+            </button>
+            <button onClick={() => handleToggleArchived(client)} className={`text-xs font-medium ${client.isArchived ? 'text-green-600 hover:text-green-800' : 'text-red-600 hover:text-red-800'}`}>
+                {t(client.isArchived ? 'restore' : 'archive')}
+            </button>
+        </div>
+    );
+
+    const renderTierCell = (client: Doctor | Pharmacy) => (
+        <td className="px-4 py-2">
+            {client.tier ? (
+                <span className={`text-xs font-semibold px-2.5 py-0.5 rounded-full ${client.tier === 'A' ? 'bg-green-100 text-green-800' : client.tier === 'B' ? 'bg-blue-100 text-blue-800' : 'bg-slate-200 text-slate-700'}`}>
+                    {client.tier}
+                </span>
+            ) : <span className="text-slate-400">-</span>}
+        </td>
+    );
+
+    const renderSelectCell = (client: Doctor | Pharmacy) => (
+        <td className="px-2 py-2">
+            <input type="checkbox" checked={selectedIds.includes(client.id)} onChange={() => toggleSelected(client.id)} className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500" />
+        </td>
+    );
+
+    const selectAllHeader = (
+        <th className="px-2 py-2">
+            <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => setSelectedIds(allSelected ? [] : visibleClients.map(c => c.id))}
+                className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500"
+                aria-label={t('select_all')}
+            />
+        </th>
+    );
+
     return (
       <Modal isOpen={true} onClose={onClose} title={t('clients_for_rep', rep.name)}>
           <div className="space-y-4">
@@ -1562,23 +2137,59 @@ const ClientListModal: React.FC<ClientListModalProps> = ({ rep, onClose, totalDo
                   </button>
               </div>
 
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                  <button onClick={() => setEditingClient(null)} className="text-white bg-blue-600 hover:bg-blue-700 font-medium rounded-lg text-sm px-3 py-1.5 flex items-center gap-1 transition-colors">
+                      <PlusIcon className="w-4 h-4"/>
+                      {t(activeModalTab === 'doctors' ? 'add_doctor' : 'add_pharmacy')}
+                  </button>
+                  <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                      <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500" />
+                      {t('show_archived')}
+                  </label>
+              </div>
+
+              {actionMessage && (
+                  <div className={`p-3 text-sm rounded-lg ${actionMessage.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`} role="alert">
+                      {actionMessage.text}
+                  </div>
+              )}
+
+              {selectedIds.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 p-3 bg-blue-50/70 rounded-lg">
+                      <span className="text-sm font-medium text-slate-700">{t('reassign_selected_to', selectedIds.length)}</span>
+                      <select value={reassignToRepId} onChange={e => setReassignToRepId(e.target.value)} className="bg-white/70 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 p-1.5">
+                          <option value="" disabled>{t('select_rep')}</option>
+                          {otherReps.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                      </select>
+                      <button onClick={handleReassign} disabled={!reassignToRepId || isReassigning} className="text-white bg-orange-500 hover:bg-orange-600 font-medium rounded-lg text-sm px-3 py-1.5 disabled:bg-orange-300 transition-colors">
+                          {isReassigning ? t('saving') : t('reassign')}
+                      </button>
+                  </div>
+              )}
+
               <div className="max-h-96 overflow-y-auto">
                   {activeModalTab === 'doctors' ? (
                       repDoctors.length > 0 ? (
                           <table className="w-full text-sm text-start">
                               <thead className="text-xs text-blue-800 uppercase bg-slate-100/50 sticky top-0">
                                   <tr>
+                                      {selectAllHeader}
                                       <th className="px-4 py-2">{t('name')}</th>
                                       <th className="px-4 py-2">{t('specialization')}</th>
+                                      <th className="px-4 py-2">{t('tier')}</th>
                                       <th className="px-4 py-2">{t('region')}</th>
+                                      <th className="px-4 py-2">{t('actions')}</th>
                                   </tr>
                               </thead>
                               <tbody>
                                   {repDoctors.map(doctor => (
-                                      <tr key={doctor.id} className="border-b border-slate-200/50">
+                                      <tr key={doctor.id} className={`border-b border-slate-200/50 ${doctor.isArchived ? 'opacity-60' : ''}`}>
+                                          {renderSelectCell(doctor)}
                                           <td className="px-4 py-2 font-medium text-slate-800">{doctor.name}</td>
                                           <td className="px-4 py-2">{t(doctor.specialization)}</td>
+                                          {renderTierCell(doctor)}
                                           <td className="px-4 py-2">{regionMap.get(doctor.regionId) || t('unknown')}</td>
+                                          <td className="px-4 py-2">{renderRowActions(doctor)}</td>
                                       </tr>
                                   ))}
                               </tbody>
@@ -1589,15 +2200,21 @@ const ClientListModal: React.FC<ClientListModalProps> = ({ rep, onClose, totalDo
                            <table className="w-full text-sm text-start">
                               <thead className="text-xs text-orange-800 uppercase bg-slate-100/50 sticky top-0">
                                   <tr>
+                                      {selectAllHeader}
                                       <th className="px-4 py-2">{t('name')}</th>
+                                      <th className="px-4 py-2">{t('tier')}</th>
                                       <th className="px-4 py-2">{t('region')}</th>
+                                      <th className="px-4 py-2">{t('actions')}</th>
                                   </tr>
                               </thead>
                               <tbody>
                                   {repPharmacies.map(pharmacy => (
-                                      <tr key={pharmacy.id} className="border-b border-slate-200/50">
+                                      <tr key={pharmacy.id} className={`border-b border-slate-200/50 ${pharmacy.isArchived ? 'opacity-60' : ''}`}>
+                                          {renderSelectCell(pharmacy)}
                                           <td className="px-4 py-2 font-medium text-slate-800">{pharmacy.name}</td>
+                                          {renderTierCell(pharmacy)}
                                           <td className="px-4 py-2">{regionMap.get(pharmacy.regionId) || t('unknown')}</td>
+                                          <td className="px-4 py-2">{renderRowActions(pharmacy)}</td>
                                       </tr>
                                   ))}
                               </tbody>
@@ -5,9 +5,10 @@ interface ModalProps {
   onClose: () => void;
   title: string;
   children: ReactNode;
+  wide?: boolean; // For detail views that need more room than a form
 }
 
-const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children }) => {
+const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children, wide = false }) => {
   useEffect(() => {
     if (!isOpen) return;
 
@@ -32,7 +33,7 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children }) => {
       onClick={onClose}
     >
       <div
-        className="bg-white/60 backdrop-blur-xl rounded-2xl shadow-2xl w-full max-w-lg relative border border-white/50 flex flex-col max-h-[90vh]"
+        className={`bg-white/60 backdrop-blur-xl rounded-2xl shadow-2xl w-full ${wide ? 'max-w-4xl' : 'max-w-lg'} relative border border-white/50 flex flex-col max-h-[90vh]`}
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex justify-between items-center p-5 border-b border-slate-300/50 rounded-t-2xl flex-shrink-0">
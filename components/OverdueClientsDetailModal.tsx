@@ -11,6 +11,7 @@ interface OverdueClientsDetailModalProps {
   alerts: ClientAlert[]; // Full list of all overdue alerts
   reps: User[];
   regions: Region[];
+  onOpenClient?: (alert: ClientAlert) => void;
 }
 
 const OverdueClientsDetailModal: React.FC<OverdueClientsDetailModalProps> = ({
@@ -19,6 +20,7 @@ const OverdueClientsDetailModal: React.FC<OverdueClientsDetailModalProps> = ({
   alerts,
   reps,
   regions,
+  onOpenClient,
 }) => {
   const { t } = useLanguage();
   const [currentRepFilter, setCurrentRepFilter] = useState<string | 'all'>('all');
@@ -65,7 +67,11 @@ const OverdueClientsDetailModal: React.FC<OverdueClientsDetailModalProps> = ({
                 <div className="flex items-start">
                   {alert.type === 'doctor' ? <DoctorIcon className="w-6 h-6 text-blue-500 me-3 flex-shrink-0" /> : <PharmacyIcon className="w-6 h-6 text-orange-500 me-3 flex-shrink-0" />}
                   <div>
-                    <p className="font-bold text-slate-800">{alert.name}</p>
+                    {onOpenClient ? (
+                      <button type="button" onClick={() => onOpenClient(alert)} className="font-bold text-slate-800 hover:text-blue-700 hover:underline text-start">{alert.name}</button>
+                    ) : (
+                      <p className="font-bold text-slate-800">{alert.name}</p>
+                    )}
                     <p className="text-sm text-slate-600">
                       {t(alert.type === 'doctor' ? 'client_type_doctor' : 'client_type_pharmacy')} - {alert.repName}
                     </p>
@@ -74,6 +80,12 @@ const OverdueClientsDetailModal: React.FC<OverdueClientsDetailModalProps> = ({
                     </p>
                     <p className="mt-1 font-semibold text-red-600">
                       {alert.daysSinceLastVisit === null ? t('never_visited') : t('days_ago', alert.daysSinceLastVisit)}
+                      {alert.daysOverdue !== null && (
+                        <span className="ms-2 text-xs font-bold bg-red-100 text-red-800 px-2 py-0.5 rounded-full">{t('days_past_target', alert.daysOverdue)}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {t('visit_target_every', alert.targetDays)}
                     </p>
                   </div>
                 </div>
@@ -1,10 +1,13 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { User, Region, WeeklyPlan, Doctor, DayPlanDetails } from '../types';
+import { User, Region, WeeklyPlan, Doctor, DayPlanDetails, ClientRef } from '../types';
 import { api } from '../services/api';
 import { useLanguage } from '../hooks/useLanguage';
-import { SaveIcon, ArrowRightIcon, MapPinIcon, DoctorIcon, TrashIcon } from './icons';
+import { getWeekStartKey, fromDateKey } from '../services/dateUtils';
+import { SaveIcon, ArrowRightIcon, MapPinIcon, DoctorIcon, TrashIcon, CopyIcon } from './icons';
 import Spinner from './Spinner';
+import Modal from './Modal';
+import ClientProfileModal from './ClientProfileModal';
 
 interface PlanEditorProps {
   user: User;
@@ -15,6 +18,11 @@ interface PlanEditorProps {
   onBack: () => void;
 }
 
+// Higher-potential doctors first so reps plan them before the rest; untiered doctors go last
+const TIER_ORDER: Record<string, number> = { A: 0, B: 1, C: 2 };
+const compareByTier = (a: Doctor, b: Doctor) =>
+    (TIER_ORDER[a.tier ?? ''] ?? 3) - (TIER_ORDER[b.tier ?? ''] ?? 3) || a.name.localeCompare(b.name);
+
 const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, startDate, onPlanSaved, onBack }) => {
     const { t } = useLanguage();
     
@@ -27,13 +35,24 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
     const [message, setMessage] = useState('');
+    const [planHistory, setPlanHistory] = useState<WeeklyPlan[]>([]);
+    const [copySource, setCopySource] = useState<WeeklyPlan | null>(null);
+    const [profileClient, setProfileClient] = useState<ClientRef | null>(null);
+
+    // The week this plan is for, as stored in weekly_plans.week_start
+    const weekStart = useMemo(() => getWeekStartKey(startDate ?? new Date()), [startDate]);
 
     useEffect(() => {
       const fetchDoctors = async () => {
         setLoading(true);
         try {
-          const doctorsData = await api.getAllDoctors();
+          const [doctorsData, historyData] = await Promise.all([
+            api.getAllDoctors(),
+            api.getRepPlanHistory(user.id),
+          ]);
           setAllDoctors(doctorsData);
+          // Only earlier weeks can be copied into this one
+          setPlanHistory(historyData.filter(p => p.weekStart < weekStart));
         } catch (error) {
           console.error("Failed to fetch doctors:", error);
           setMessage(t('error_fetching_doctors'));
@@ -42,7 +61,7 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
         }
       };
       fetchDoctors();
-    }, [t]);
+    }, [t, user.id, weekStart]);
 
     // Helper to get the specific date for a day index
     const getDayDateLabel = (dayIndex: number) => {
@@ -181,7 +200,7 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
                 }
             });
 
-            const updatedPlan = await api.updateRepPlan(user.id, cleanedPlan);
+            const updatedPlan = await api.updateRepPlan(user.id, weekStart, cleanedPlan);
             setMessage(t('plan_submitted_success'));
             setTimeout(() => {
                 onPlanSaved(updatedPlan);
@@ -195,6 +214,46 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
         }
     };
 
+    const hasPlannedDays = Object.values(planData).some(dayPlan => !!dayPlan);
+
+    const handleCopyRequest = (source: WeeklyPlan) => {
+        if (hasPlannedDays) {
+            setCopySource(source); // Ask before replacing what's already planned
+        } else {
+            handleCopyPlan(source);
+        }
+    };
+
+    // The copy only fills the editor; nothing is stored until the rep submits it like any other plan,
+    // so the week's current plan and its review stay as they are until then
+    const handleCopyPlan = (source: WeeklyPlan) => {
+        setCopySource(null);
+        const isPlannable = (id: number) => {
+            const doctor = doctorMap.get(id);
+            return !!doctor && !doctor.isArchived && doctor.repId === user.id;
+        };
+        // Drop doctors that were archived or reassigned since that week
+        const copiedPlan: WeeklyPlan['plan'] = {};
+        Object.entries(source.plan).forEach(([dayIndex, dayPlan]) => {
+            const details = dayPlan as DayPlanDetails | null;
+            copiedPlan[Number(dayIndex)] = details
+                ? { ...details, doctorIds: (details.doctorIds || []).filter(isPlannable) }
+                : null;
+        });
+        setPlanData(copiedPlan);
+        setMessage(t('plan_copied_to_editor', formatWeek(source.weekStart)));
+        setTimeout(() => setMessage(''), 4000);
+    };
+
+    const formatWeek = (weekKey: string) => fromDateKey(weekKey).toLocaleDateString(t('locale'), { day: 'numeric', month: 'long', year: 'numeric' });
+
+    const statusColors: Record<WeeklyPlan['status'], string> = {
+        draft: 'bg-blue-100 text-blue-800',
+        pending: 'bg-yellow-100 text-yellow-800',
+        approved: 'bg-green-100 text-green-800',
+        rejected: 'bg-red-100 text-red-800',
+    };
+
     if (loading) {
       return <Spinner />;
     }
@@ -227,7 +286,18 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
                         <p className="text-sm">{t('plan_rejected_instructions')}</p>
                     </div>
                 )}
-                <p className="mb-6 text-slate-700">{t('plan_editor_instructions_doctors')}</p>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+                    <p className="text-slate-700">{t('plan_editor_instructions_doctors')}</p>
+                    <button
+                        type="button"
+                        onClick={() => planHistory[0] && handleCopyRequest(planHistory[0])}
+                        disabled={planHistory.length === 0}
+                        className="flex items-center justify-center gap-2 bg-slate-200 hover:bg-slate-300 text-slate-700 font-semibold py-2 px-4 rounded-lg transition-colors text-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <CopyIcon className="w-4 h-4" />
+                        {t('copy_last_week_plan')}
+                    </button>
+                </div>
                 <div className="space-y-4">
                     {WORK_WEEK_DAYS.map(day => {
                         const dayPlan = planData[day.index] as DayPlanDetails | null | undefined;
@@ -235,8 +305,9 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
                         const doctorsForDay = dayPlan?.doctorIds || [];
                         const availableDoctorsInRegion = allDoctors.filter(doc => 
                             doc.regionId === selectedRegionId && 
+                            !doc.isArchived &&
                             !assignedDoctorIds.has(doc.id) // Exclude doctors assigned to other days
-                        );
+                        ).sort(compareByTier);
                         
                         return (
                             <div key={day.index} className="flex flex-col sm:flex-row items-start sm:items-center justify-between p-4 bg-white/30 rounded-lg">
@@ -280,7 +351,7 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
                                             >
                                                 <option value="add_doctor" disabled>{t('add_doctor_to_day')}</option>
                                                 {availableDoctorsInRegion.map(doc => (
-                                                    <option key={doc.id} value={doc.id}>{doc.name}</option>
+                                                    <option key={doc.id} value={doc.id}>{doc.tier ? `[${doc.tier}] ${doc.name}` : doc.name}</option>
                                                 ))}
                                             </select>
                                         </div>
@@ -294,7 +365,14 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
                                             const doctor = doctorMap.get(docId);
                                             return doctor ? (
                                                 <span key={docId} className="flex items-center bg-blue-100 text-blue-800 text-sm font-medium px-2.5 py-0.5 rounded-full">
-                                                    {doctor.name}
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setProfileClient({ type: 'doctor', id: doctor.id })}
+                                                        className="hover:underline focus:outline-none"
+                                                        title={t('open_client_profile')}
+                                                    >
+                                                        {doctor.name}
+                                                    </button>
                                                     <button 
                                                         type="button" 
                                                         onClick={() => handleRemoveDoctor(day.index, docId)} 
@@ -313,6 +391,37 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
                     })}
                 </div>
 
+                {/* Plan History */}
+                <div className="mt-6 pt-4 border-t border-slate-300/50">
+                    <h3 className="font-bold text-lg text-slate-800 mb-3">{t('plan_history')}</h3>
+                    {planHistory.length > 0 ? (
+                        <ul className="space-y-2">
+                            {planHistory.map(pastPlan => {
+                                const plannedDays = Object.values(pastPlan.plan).filter(dayPlan => !!dayPlan).length;
+                                return (
+                                    <li key={pastPlan.weekStart} className="flex flex-wrap items-center justify-between gap-2 p-3 bg-white/30 rounded-lg">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <span className="font-semibold text-slate-800">{t('week_of', formatWeek(pastPlan.weekStart))}</span>
+                                            <span className={`text-xs font-semibold px-2.5 py-0.5 rounded-full ${statusColors[pastPlan.status]}`}>{t(`plan_status_${pastPlan.status}`)}</span>
+                                            <span className="text-xs text-slate-500">{t('planned_days_count', plannedDays)}</span>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleCopyRequest(pastPlan)}
+                                            className="flex items-center gap-1.5 text-sm text-blue-700 hover:text-blue-900 bg-blue-100 hover:bg-blue-200 px-3 py-1 rounded-md transition-colors disabled:opacity-50"
+                                        >
+                                            <CopyIcon className="w-4 h-4" />
+                                            {t('copy_to_this_week')}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-slate-500">{t('no_plan_history')}</p>
+                    )}
+                </div>
+
                  <div className="flex items-center justify-end mt-6 pt-4 border-t border-slate-300/50">
                      {message && <p className="text-green-700 me-4 font-semibold">{message}</p>}
                     <button 
@@ -325,6 +434,32 @@ const PlanEditor: React.FC<PlanEditorProps> = ({ user, regions, initialPlan, sta
                     </button>
                 </div>
             </div>
+
+            {copySource && (
+                <Modal isOpen={!!copySource} onClose={() => setCopySource(null)} title={t('copy_plan_title')}>
+                    <div>
+                        <p className="text-slate-700">{t('confirm_overwrite_plan', formatWeek(copySource.weekStart))}</p>
+                        <div className="flex items-center justify-end space-x-2 space-x-reverse pt-6">
+                            <button
+                                type="button"
+                                onClick={() => setCopySource(null)}
+                                className="text-slate-700 bg-transparent hover:bg-slate-200/50 rounded-lg border border-slate-300 text-sm font-medium px-5 py-2.5 transition-colors"
+                            >
+                                {t('cancel')}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => handleCopyPlan(copySource)}
+                                className="text-white bg-orange-500 hover:bg-orange-600 font-medium rounded-lg text-sm px-5 py-2.5 text-center transition-colors"
+                            >
+                                {t('confirm')}
+                            </button>
+                        </div>
+                    </div>
+                </Modal>
+            )}
+
+            <ClientProfileModal client={profileClient} onClose={() => setProfileClient(null)} />
         </div>
     );
 }
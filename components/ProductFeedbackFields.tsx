@@ -0,0 +1,66 @@
+import React from 'react';
+import { Product, DOCTOR_REACTIONS, PRESCRIPTION_INTENTS, DoctorReaction, PrescriptionIntent } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+import { ProductFeedbackDraft, EMPTY_PRODUCT_FEEDBACK } from '../services/productFeedbackService';
+
+interface ProductFeedbackFieldsProps {
+  productIds: number[]; // The products detailed on the visit, in the order they were picked
+  products: Product[];
+  drafts: Record<number, ProductFeedbackDraft>;
+  onChange: (productId: number, changes: Partial<ProductFeedbackDraft>) => void;
+}
+
+const REACTION_STYLES: Record<DoctorReaction, string> = {
+  positive: 'bg-green-600 text-white',
+  neutral: 'bg-slate-500 text-white',
+  negative: 'bg-red-600 text-white',
+};
+
+// Reaction, prescription intent and a short comment for every product detailed on a doctor visit
+const ProductFeedbackFields: React.FC<ProductFeedbackFieldsProps> = ({ productIds, products, drafts, onChange }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-3 p-3 bg-white/30 rounded-lg">
+      {productIds.map(productId => {
+        const draft = drafts[productId] || EMPTY_PRODUCT_FEEDBACK;
+        return (
+          <div key={productId} className="space-y-2 pb-3 border-b border-slate-200/50 last:border-b-0 last:pb-0">
+            <span className="text-sm font-semibold text-slate-800">{products.find(p => p.id === productId)?.name}</span>
+            <div className="flex flex-wrap items-center gap-2">
+              {DOCTOR_REACTIONS.map(reaction => (
+                <button
+                  key={reaction}
+                  type="button"
+                  onClick={() => onChange(productId, { reaction })}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${draft.reaction === reaction ? REACTION_STYLES[reaction] : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+                >
+                  {t(`reaction_${reaction}`)}
+                </button>
+              ))}
+              <select
+                value={draft.prescriptionIntent}
+                onChange={e => onChange(productId, { prescriptionIntent: e.target.value as PrescriptionIntent | '' })}
+                aria-label={t('prescription_intent')}
+                className="p-1 text-sm border border-slate-300/50 bg-white/60 rounded focus:ring-orange-500 focus:border-orange-500"
+              >
+                <option value="">{t('prescription_intent')}</option>
+                {PRESCRIPTION_INTENTS.map(intent => <option key={intent} value={intent}>{t(`intent_${intent}`)}</option>)}
+              </select>
+            </div>
+            <input
+              type="text"
+              value={draft.comment}
+              onChange={e => onChange(productId, { comment: e.target.value })}
+              placeholder={t('product_comment_placeholder')}
+              maxLength={200}
+              className="block w-full p-1.5 text-sm border border-slate-300/50 bg-white/60 rounded focus:ring-orange-500 focus:border-orange-500"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProductFeedbackFields;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { DoctorReaction, ProductFeedbackWithName } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface ProductFeedbackListProps {
+  feedback: ProductFeedbackWithName[];
+}
+
+const REACTION_BADGES: Record<DoctorReaction, string> = {
+  positive: 'bg-green-100 text-green-800',
+  neutral: 'bg-slate-100 text-slate-700',
+  negative: 'bg-red-100 text-red-800',
+};
+
+// The products detailed on a doctor visit with how the doctor received each one
+const ProductFeedbackList: React.FC<ProductFeedbackListProps> = ({ feedback }) => {
+  const { t } = useLanguage();
+
+  return (
+    <ul className="space-y-1">
+      {feedback.map(f => (
+        <li key={f.productId} className="text-xs text-slate-700">
+          <span className="font-semibold me-2">{f.productName}</span>
+          <span className={`font-semibold px-2 py-0.5 rounded-full me-1 ${REACTION_BADGES[f.reaction]}`}>{t(`reaction_${f.reaction}`)}</span>
+          <span className="text-slate-600">{t(`intent_${f.prescriptionIntent}`)}</span>
+          {f.comment && <span className="text-slate-600"> · {f.comment}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ProductFeedbackList;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DoctorReaction, ProductFeedbackRecord, ProductReceptionSummary } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { summarizeProductFeedback } from '../services/productFeedbackService';
+import { exportProductFeedbackToExcel } from '../services/exportService';
+import { DownloadIcon } from './icons';
+import Spinner from './Spinner';
+
+interface ProductFeedbackReportProps {
+  repIds?: string[]; // Limits the report to a supervisor's team
+}
+
+const MAX_COMMENTS_SHOWN = 50;
+
+const getRateColor = (rate: number | null) => {
+  if (rate === null) return 'bg-slate-100 text-slate-600';
+  if (rate >= 60) return 'bg-green-100 text-green-800';
+  if (rate >= 30) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+const REACTION_BADGES: Record<DoctorReaction, string> = {
+  positive: 'bg-green-100 text-green-800',
+  neutral: 'bg-slate-100 text-slate-700',
+  negative: 'bg-red-100 text-red-800',
+};
+
+const ProductFeedbackReport: React.FC<ProductFeedbackReportProps> = ({ repIds }) => {
+  const { t } = useLanguage();
+  const [records, setRecords] = useState<ProductFeedbackRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [productFilter, setProductFilter] = useState('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchRecords = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await api.getProductFeedback({ repIds, startDate: startDate || undefined, endDate: endDate || undefined });
+        if (!cancelled) setRecords(data);
+      } catch (err) {
+        console.error("Failed to fetch product feedback", err);
+        if (!cancelled) setError(t('error_fetching_product_feedback'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchRecords();
+    return () => { cancelled = true; };
+  }, [repIds, startDate, endDate, t]);
+
+  const productOptions = useMemo(() => {
+    const names = new Map(records.map(r => [r.productId, r.productName]));
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [records]);
+
+  const filteredRecords = useMemo(() => records.filter(r => productFilter === 'all' || String(r.productId) === productFilter), [records, productFilter]);
+
+  const byProduct = useMemo(() => summarizeProductFeedback(filteredRecords, 'product'), [filteredRecords]);
+  const bySpecialization = useMemo(() => summarizeProductFeedback(filteredRecords, 'specialization'), [filteredRecords]);
+  const byRegion = useMemo(() => summarizeProductFeedback(filteredRecords, 'region'), [filteredRecords]);
+
+  const totals = useMemo(() => {
+    const rate = (count: number) => (filteredRecords.length > 0 ? `${Math.round((count / filteredRecords.length) * 100)}%` : '-');
+    return {
+      positiveRate: rate(filteredRecords.filter(r => r.reaction === 'positive').length),
+      prescribeRate: rate(filteredRecords.filter(r => r.prescriptionIntent === 'will_prescribe').length),
+      negative: filteredRecords.filter(r => r.reaction === 'negative').length,
+    };
+  }, [filteredRecords]);
+  const comments = useMemo(() => filteredRecords.filter(r => r.comment).slice(0, MAX_COMMENTS_SHOWN), [filteredRecords]);
+
+  const handleExport = () => {
+    exportProductFeedbackToExcel(filteredRecords, byProduct, bySpecialization, byRegion, `product_feedback_${new Date().toISOString().split('T')[0]}`, t);
+  };
+
+  const renderSummaryTable = (summaries: ProductReceptionSummary[], labelKey: string, translateLabel = false) => (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-start">
+        <thead className="text-xs text-blue-800 uppercase bg-white/50">
+          <tr>
+            <th scope="col" className="px-4 py-3">{t(labelKey)}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('feedback_count')}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('reaction_positive')}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('reaction_neutral')}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('reaction_negative')}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('positive_rate')}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('prescribe_rate')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summaries.map(s => (
+            <tr key={s.key} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+              <td className="px-4 py-3 font-medium text-slate-900">{translateLabel ? t(s.label) : s.label}</td>
+              <td className="px-4 py-3 text-center">{s.feedbackCount}</td>
+              <td className="px-4 py-3 text-center text-green-700 font-semibold">{s.positiveCount}</td>
+              <td className="px-4 py-3 text-center text-slate-600">{s.neutralCount}</td>
+              <td className="px-4 py-3 text-center text-red-700 font-semibold">{s.negativeCount}</td>
+              <td className="px-4 py-3 text-center">
+                <span className={`text-xs font-bold px-2.5 py-0.5 rounded-full ${getRateColor(s.positiveRate)}`}>{s.positiveRate === null ? '-' : `${s.positiveRate}%`}</span>
+              </td>
+              <td className="px-4 py-3 text-center">
+                <span className={`text-xs font-bold px-2.5 py-0.5 rounded-full ${getRateColor(s.prescribeRate)}`}>{s.prescribeRate === null ? '-' : `${s.prescribeRate}%`}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {summaries.length === 0 && <p className="text-center p-6 text-slate-600">{t('no_data')}</p>}
+    </div>
+  );
+
+  const inputClass = "bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 p-2";
+
+  return (
+    <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+      <div className="flex flex-col lg:flex-row justify-between items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-blue-800">{t('product_reception_report')}</h3>
+          <p className="text-sm text-slate-600">{t('product_reception_report_description')}</p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <select value={productFilter} onChange={e => setProductFilter(e.target.value)} className={inputClass}>
+            <option value="all">{t('all_products')}</option>
+            {productOptions.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+          </select>
+          <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClass} aria-label={t('from_date')} />
+          <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className={inputClass} aria-label={t('to_date')} />
+          <button
+            onClick={handleExport}
+            disabled={loading || filteredRecords.length === 0}
+            className="flex items-center gap-2 text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-4 py-2 transition-colors disabled:bg-green-300"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      {loading ? <Spinner /> : error ? (
+        <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('feedback_count')}</p>
+              <p className="text-2xl font-bold text-slate-800">{filteredRecords.length}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('positive_rate')}</p>
+              <p className="text-2xl font-bold text-green-700">{totals.positiveRate}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('prescribe_rate')}</p>
+              <p className="text-2xl font-bold text-blue-700">{totals.prescribeRate}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('reaction_negative')}</p>
+              <p className="text-2xl font-bold text-red-700">{totals.negative}</p>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-slate-700 mb-2">{t('reception_by_product')}</h4>
+            {renderSummaryTable(byProduct, 'product')}
+          </div>
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2">{t('reception_by_specialization')}</h4>
+              {renderSummaryTable(bySpecialization, 'specialization', true)}
+            </div>
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2">{t('reception_by_region')}</h4>
+              {renderSummaryTable(byRegion, 'region')}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-slate-700 mb-2">{t('latest_product_comments')}</h4>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-sm text-start">
+                <thead className="text-xs text-blue-800 uppercase bg-white/50 sticky top-0">
+                  <tr>
+                    <th scope="col" className="px-4 py-3">{t('date')}</th>
+                    <th scope="col" className="px-4 py-3">{t('product')}</th>
+                    <th scope="col" className="px-4 py-3">{t('doctor')}</th>
+                    <th scope="col" className="px-4 py-3">{t('rep_name')}</th>
+                    <th scope="col" className="px-4 py-3">{t('doctor_reaction')}</th>
+                    <th scope="col" className="px-4 py-3">{t('prescription_intent')}</th>
+                    <th scope="col" className="px-4 py-3">{t('comment')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comments.map(r => (
+                    <tr key={`${r.visitId}-${r.productId}`} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+                      <td className="px-4 py-3 whitespace-nowrap">{new Date(r.date).toLocaleDateString(t('locale'))}</td>
+                      <td className="px-4 py-3 font-medium text-slate-900">{r.productName}</td>
+                      <td className="px-4 py-3">{r.doctorName}</td>
+                      <td className="px-4 py-3">{r.repName}</td>
+                      <td className="px-4 py-3">
+                        <span className={`text-xs font-semibold px-2.5 py-0.5 rounded-full ${REACTION_BADGES[r.reaction]}`}>{t(`reaction_${r.reaction}`)}</span>
+                      </td>
+                      <td className="px-4 py-3">{t(`intent_${r.prescriptionIntent}`)}</td>
+                      <td className="px-4 py-3 max-w-xs">{r.comment}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {comments.length === 0 && <p className="text-center p-6 text-slate-600">{t('no_product_comments')}</p>}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductFeedbackReport;
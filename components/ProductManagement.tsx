@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Product } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { PlusIcon, EditIcon, CheckIcon, XIcon } from './icons';
+import Modal from './Modal';
+import Spinner from './Spinner';
+
+const ProductManagement: React.FC = () => {
+    const { t } = useLanguage();
+    const [products, setProducts] = useState<Product[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+    const [categoryFilter, setCategoryFilter] = useState('all');
+    const [showDiscontinued, setShowDiscontinued] = useState(false);
+
+    // Add/Edit modal state
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+    const [name, setName] = useState('');
+    const [category, setCategory] = useState('');
+    const [formError, setFormError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const fetchProducts = useCallback(async () => {
+        setLoading(true);
+        try {
+            setProducts(await api.getProducts());
+        } catch (error) {
+            console.error("Failed to fetch products", error);
+            setMessage({ text: t('error_fetching_products'), type: 'error' });
+        } finally {
+            setLoading(false);
+        }
+    }, [t]);
+
+    useEffect(() => {
+        fetchProducts();
+    }, [fetchProducts]);
+
+    const categories = useMemo(() => {
+        const unique = new Set(products.map(p => p.category).filter((c): c is string => !!c));
+        return Array.from(unique).sort((a, b) => a.localeCompare(b));
+    }, [products]);
+
+    const visibleProducts = useMemo(() => products.filter(p =>
+        (showDiscontinued || p.isActive) &&
+        (categoryFilter === 'all' || (categoryFilter === 'none' ? !p.category : p.category === categoryFilter))
+    ), [products, showDiscontinued, categoryFilter]);
+
+    const showMessage = (text: string, type: 'success' | 'error') => {
+        setMessage({ text, type });
+        setTimeout(() => setMessage(null), 3000);
+    };
+
+    const openModal = (product: Product | null) => {
+        setEditingProduct(product);
+        setName(product?.name || '');
+        setCategory(product?.category || '');
+        setFormError('');
+        setIsModalOpen(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) {
+            setFormError(t('error_all_fields_required'));
+            return;
+        }
+        setSaving(true);
+        setFormError('');
+        try {
+            if (editingProduct) {
+                const updated = await api.updateProduct(editingProduct.id, { name, category });
+                setProducts(prev => prev.map(p => p.id === updated.id ? updated : p));
+                showMessage(t('product_updated_successfully', updated.name), 'success');
+            } else {
+                const created = await api.addProduct({ name, category });
+                setProducts(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+                showMessage(t('product_added_successfully', created.name), 'success');
+            }
+            setIsModalOpen(false);
+        } catch (error: any) {
+            console.error("Failed to save product", error);
+            setFormError(t(error.message === 'error_product_exists' ? 'error_product_exists' : 'error_unexpected'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggleActive = async (product: Product) => {
+        try {
+            const updated = await api.updateProduct(product.id, { isActive: !product.isActive });
+            setProducts(prev => prev.map(p => p.id === updated.id ? updated : p));
+            showMessage(t(updated.isActive ? 'product_reactivated' : 'product_discontinued', updated.name), 'success');
+        } catch (error) {
+            console.error("Failed to change product status", error);
+            showMessage(t('error_unexpected'), 'error');
+        }
+    };
+
+    if (loading) {
+        return <Spinner />;
+    }
+
+    return (
+        <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 overflow-hidden">
+            <div className="flex flex-wrap justify-between items-center p-4 bg-white/50 border-b border-white/30 gap-4">
+                <h3 className="text-xl font-semibold text-blue-800">{t('product_catalog')}</h3>
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={categoryFilter}
+                        onChange={e => setCategoryFilter(e.target.value)}
+                        className="bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 p-2"
+                    >
+                        <option value="all">{t('all_categories')}</option>
+                        {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                        <option value="none">{t('uncategorized')}</option>
+                    </select>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={showDiscontinued}
+                            onChange={e => setShowDiscontinued(e.target.checked)}
+                            className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500"
+                        />
+                        {t('show_discontinued')}
+                    </label>
+                    <button onClick={() => openModal(null)} className="bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 transition-all shadow flex items-center gap-2">
+                        <PlusIcon className="w-5 h-5"/>
+                        <span>{t('add_product')}</span>
+                    </button>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`m-4 p-4 text-sm rounded-lg ${message.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`} role="alert">
+                    <span className="font-medium">{message.text}</span>
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-start text-gray-500">
+                    <thead className="text-xs text-blue-800 uppercase bg-white/50">
+                        <tr>
+                            <th scope="col" className="px-6 py-3">{t('product')}</th>
+                            <th scope="col" className="px-6 py-3">{t('category')}</th>
+                            <th scope="col" className="px-6 py-3">{t('status')}</th>
+                            <th scope="col" className="px-6 py-3">{t('actions')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleProducts.map(product => (
+                            <tr key={product.id} className={`border-b border-white/30 hover:bg-white/40 ${product.isActive ? 'bg-white/20' : 'bg-slate-100/40'}`}>
+                                <td className={`px-6 py-4 font-medium ${product.isActive ? 'text-slate-900' : 'text-slate-500 line-through'}`}>{product.name}</td>
+                                <td className="px-6 py-4">{product.category || <span className="text-slate-400">{t('uncategorized')}</span>}</td>
+                                <td className="px-6 py-4">
+                                    <span className={`text-xs font-semibold px-2.5 py-0.5 rounded-full ${product.isActive ? 'bg-green-100 text-green-800' : 'bg-slate-200 text-slate-700'}`}>
+                                        {t(product.isActive ? 'product_active' : 'product_status_discontinued')}
+                                    </span>
+                                </td>
+                                <td className="px-6 py-4">
+                                    <div className="flex items-center gap-4">
+                                        <button onClick={() => openModal(product)} className="text-blue-600 hover:text-blue-800" aria-label={t('edit')}>
+                                            <EditIcon className="w-5 h-5"/>
+                                        </button>
+                                        <button
+                                            onClick={() => handleToggleActive(product)}
+                                            className={`flex items-center gap-1 text-sm ${product.isActive ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'}`}
+                                        >
+                                            {product.isActive ? <XIcon className="w-4 h-4"/> : <CheckIcon className="w-4 h-4"/>}
+                                            {t(product.isActive ? 'discontinue_product' : 'reactivate_product')}
+                                        </button>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {visibleProducts.length === 0 && <p className="text-center p-8 text-slate-600">{t('no_data')}</p>}
+            </div>
+
+            <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingProduct ? t('edit_product') : t('add_product')}>
+                <form onSubmit={handleSave} className="space-y-4">
+                    <div>
+                        <label htmlFor="productName" className="block text-sm font-medium text-slate-800">{t('product')}</label>
+                        <input type="text" id="productName" value={name} onChange={e => setName(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+                    </div>
+                    <div>
+                        <label htmlFor="productCategory" className="block text-sm font-medium text-slate-800">{t('category')}</label>
+                        <input type="text" id="productCategory" list="productCategories" value={category} onChange={e => setCategory(e.target.value)} className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+                        <datalist id="productCategories">
+                            {categories.map(c => <option key={c} value={c} />)}
+                        </datalist>
+                        <p className="text-xs text-slate-500 mt-1">{t('category_helper_text')}</p>
+                    </div>
+
+                    {formError && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{formError}</p>}
+
+                    <div className="flex items-center justify-end space-x-2 space-x-reverse pt-4 border-t border-slate-300/50">
+                        <button type="button" onClick={() => setIsModalOpen(false)} className="text-slate-700 bg-transparent hover:bg-slate-200/50 rounded-lg border border-slate-300 text-sm font-medium px-5 py-2.5 transition-colors">{t('cancel')}</button>
+                        <button type="submit" disabled={saving} className="text-white bg-blue-600 hover:bg-orange-500 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-blue-300 transition-colors">
+                            {saving ? t('saving') : t('save_changes')}
+                        </button>
+                    </div>
+                </form>
+            </Modal>
+        </div>
+    );
+};
+
+export default ProductManagement;
@@ -0,0 +1,327 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Region, User, UserRole } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { EditIcon, MapPinIcon } from './icons';
+import Modal from './Modal';
+import Spinner from './Spinner';
+
+const RegionManagement: React.FC = () => {
+    const { t } = useLanguage();
+    const [regions, setRegions] = useState<Region[]>([]);
+    const [reps, setReps] = useState<User[]>([]);
+    const [territories, setTerritories] = useState<{ [repId: string]: number[] }>({});
+    const [doctorCounts, setDoctorCounts] = useState<Map<number, number>>(new Map());
+    const [pharmacyCounts, setPharmacyCounts] = useState<Map<number, number>>(new Map());
+    const [loading, setLoading] = useState(true);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    // Rename modal state
+    const [renamingRegion, setRenamingRegion] = useState<Region | null>(null);
+    const [newName, setNewName] = useState('');
+
+    // Merge modal state
+    const [mergingRegion, setMergingRegion] = useState<Region | null>(null);
+    const [mergeTargetId, setMergeTargetId] = useState('');
+
+    // Territory modal state
+    const [territoryRep, setTerritoryRep] = useState<User | null>(null);
+    const [selectedRegionIds, setSelectedRegionIds] = useState<number[]>([]);
+
+    const [formError, setFormError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const fetchData = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [regionsData, usersData, territoriesData, doctorsData, pharmaciesData] = await Promise.all([
+                api.getRegions(),
+                api.getUsers(),
+                api.getAllRepTerritories(),
+                api.getAllDoctors(),
+                api.getAllPharmacies(),
+            ]);
+            const countBy = (items: { regionId: number }[]) => items.reduce((map, item) => map.set(item.regionId, (map.get(item.regionId) || 0) + 1), new Map<number, number>());
+            setRegions([...regionsData].sort((a, b) => a.name.localeCompare(b.name)));
+            setReps(usersData.filter(u => u.role === UserRole.Rep));
+            setTerritories(territoriesData);
+            setDoctorCounts(countBy(doctorsData));
+            setPharmacyCounts(countBy(pharmaciesData));
+        } catch (error) {
+            console.error("Failed to fetch region data", error);
+            setMessage({ text: t('error_unexpected'), type: 'error' });
+        } finally {
+            setLoading(false);
+        }
+    }, [t]);
+
+    useEffect(() => {
+        fetchData();
+    }, [fetchData]);
+
+    const regionMap = useMemo(() => new Map(regions.map(r => [r.id, r.name])), [regions]);
+
+    const repCountByRegion = useMemo(() => {
+        const counts = new Map<number, number>();
+        Object.values(territories).forEach(ids => ids.forEach(id => counts.set(id, (counts.get(id) || 0) + 1)));
+        return counts;
+    }, [territories]);
+
+    const showMessage = (text: string, type: 'success' | 'error') => {
+        setMessage({ text, type });
+        setTimeout(() => setMessage(null), 3000);
+    };
+
+    const closeModals = () => {
+        setRenamingRegion(null);
+        setMergingRegion(null);
+        setTerritoryRep(null);
+        setFormError('');
+    };
+
+    const openRename = (region: Region) => {
+        setRenamingRegion(region);
+        setNewName(region.name);
+        setFormError('');
+    };
+
+    const openMerge = (region: Region) => {
+        setMergingRegion(region);
+        setMergeTargetId('');
+        setFormError('');
+    };
+
+    const openTerritory = (rep: User) => {
+        setTerritoryRep(rep);
+        setSelectedRegionIds(territories[rep.id] || []);
+        setFormError('');
+    };
+
+    const handleRename = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!renamingRegion) return;
+        if (!newName.trim()) {
+            setFormError(t('error_all_fields_required'));
+            return;
+        }
+        setSaving(true);
+        setFormError('');
+        try {
+            const updated = await api.renameRegion(renamingRegion.id, newName);
+            setRegions(prev => prev.map(r => r.id === updated.id ? updated : r).sort((a, b) => a.name.localeCompare(b.name)));
+            showMessage(t('region_renamed_successfully', renamingRegion.name, updated.name), 'success');
+            closeModals();
+        } catch (error: any) {
+            console.error("Failed to rename region", error);
+            setFormError(t(error.message === 'error_region_exists' ? 'error_region_exists' : 'error_unexpected'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleMerge = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!mergingRegion || !mergeTargetId) return;
+        const targetId = parseInt(mergeTargetId);
+        setSaving(true);
+        setFormError('');
+        try {
+            await api.mergeRegions(mergingRegion.id, targetId);
+            showMessage(t('regions_merged_successfully', mergingRegion.name, regionMap.get(targetId) || ''), 'success');
+            closeModals();
+            await fetchData();
+        } catch (error: any) {
+            console.error("Failed to merge regions", error);
+            const known = ['error_merge_same_region', 'error_permission_denied'];
+            setFormError(t(known.includes(error.message) ? error.message : 'error_unexpected'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSaveTerritory = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!territoryRep) return;
+        setSaving(true);
+        setFormError('');
+        try {
+            await api.setRepTerritory(territoryRep.id, selectedRegionIds);
+            setTerritories(prev => ({ ...prev, [territoryRep.id]: selectedRegionIds }));
+            showMessage(t('territory_saved_successfully', territoryRep.name), 'success');
+            closeModals();
+        } catch (error) {
+            console.error("Failed to save territory", error);
+            setFormError(t('error_unexpected'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toggleRegionSelection = (regionId: number) => {
+        setSelectedRegionIds(prev => prev.includes(regionId) ? prev.filter(id => id !== regionId) : [...prev, regionId]);
+    };
+
+    const renderFormButtons = (submitLabel: string, disabled = false) => (
+        <div className="flex items-center justify-end space-x-2 space-x-reverse pt-4 border-t border-slate-300/50">
+            <button type="button" onClick={closeModals} className="text-slate-700 bg-transparent hover:bg-slate-200/50 rounded-lg border border-slate-300 text-sm font-medium px-5 py-2.5 transition-colors">{t('cancel')}</button>
+            <button type="submit" disabled={saving || disabled} className="text-white bg-blue-600 hover:bg-orange-500 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-blue-300 transition-colors">
+                {saving ? t('saving') : submitLabel}
+            </button>
+        </div>
+    );
+
+    if (loading) {
+        return <Spinner />;
+    }
+
+    return (
+        <div className="space-y-8">
+            {message && (
+                <div className={`p-4 text-sm rounded-lg ${message.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`} role="alert">
+                    <span className="font-medium">{message.text}</span>
+                </div>
+            )}
+
+            {/* Regions */}
+            <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 overflow-hidden">
+                <div className="p-4 bg-white/50 border-b border-white/30">
+                    <h3 className="text-xl font-semibold text-blue-800">{t('regions')}</h3>
+                    <p className="text-sm text-slate-600">{t('region_management_description')}</p>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-start text-gray-500">
+                        <thead className="text-xs text-blue-800 uppercase bg-white/50">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">{t('region')}</th>
+                                <th scope="col" className="px-6 py-3 text-center">{t('doctors')}</th>
+                                <th scope="col" className="px-6 py-3 text-center">{t('pharmacies')}</th>
+                                <th scope="col" className="px-6 py-3 text-center">{t('assigned_reps')}</th>
+                                <th scope="col" className="px-6 py-3">{t('actions')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {regions.map(region => (
+                                <tr key={region.id} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+                                    <td className="px-6 py-4 font-medium text-slate-900">{region.name}</td>
+                                    <td className="px-6 py-4 text-center">{doctorCounts.get(region.id) || 0}</td>
+                                    <td className="px-6 py-4 text-center">{pharmacyCounts.get(region.id) || 0}</td>
+                                    <td className="px-6 py-4 text-center">{repCountByRegion.get(region.id) || 0}</td>
+                                    <td className="px-6 py-4">
+                                        <div className="flex items-center gap-4">
+                                            <button onClick={() => openRename(region)} className="flex items-center gap-1 text-blue-600 hover:text-blue-800">
+                                                <EditIcon className="w-4 h-4" />
+                                                {t('rename')}
+                                            </button>
+                                            <button onClick={() => openMerge(region)} disabled={regions.length < 2} className="text-orange-600 hover:text-orange-800 disabled:text-slate-400">
+                                                {t('merge_into')}
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {regions.length === 0 && <p className="text-center p-8 text-slate-600">{t('no_data')}</p>}
+                </div>
+            </div>
+
+            {/* Rep territories */}
+            <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 overflow-hidden">
+                <div className="p-4 bg-white/50 border-b border-white/30">
+                    <h3 className="text-xl font-semibold text-blue-800">{t('rep_territories')}</h3>
+                    <p className="text-sm text-slate-600">{t('rep_territories_description')}</p>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-start text-gray-500">
+                        <thead className="text-xs text-blue-800 uppercase bg-white/50">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">{t('rep_name')}</th>
+                                <th scope="col" className="px-6 py-3">{t('territory')}</th>
+                                <th scope="col" className="px-6 py-3">{t('actions')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {reps.map(rep => {
+                                const regionIds = territories[rep.id] || [];
+                                return (
+                                    <tr key={rep.id} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+                                        <td className="px-6 py-4 font-medium text-slate-900 whitespace-nowrap">{rep.name}</td>
+                                        <td className="px-6 py-4">
+                                            {regionIds.length > 0 ? (
+                                                <div className="flex flex-wrap gap-1">
+                                                    {regionIds.map(id => (
+                                                        <span key={id} className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">{regionMap.get(id) || t('unknown')}</span>
+                                                    ))}
+                                                </div>
+                                            ) : <span className="text-xs text-slate-500">{t('all_regions_no_territory')}</span>}
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <button onClick={() => openTerritory(rep)} className="flex items-center gap-1 text-blue-600 hover:text-blue-800">
+                                                <MapPinIcon className="w-4 h-4" />
+                                                {t('assign_regions')}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {reps.length === 0 && <p className="text-center p-8 text-slate-600">{t('no_data')}</p>}
+                </div>
+            </div>
+
+            <Modal isOpen={!!renamingRegion} onClose={closeModals} title={t('rename_region')}>
+                <form onSubmit={handleRename} className="space-y-4">
+                    <div>
+                        <label htmlFor="regionName" className="block text-sm font-medium text-slate-800">{t('region')}</label>
+                        <input type="text" id="regionName" value={newName} onChange={e => setNewName(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+                    </div>
+                    {formError && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{formError}</p>}
+                    {renderFormButtons(t('save_changes'))}
+                </form>
+            </Modal>
+
+            <Modal isOpen={!!mergingRegion} onClose={closeModals} title={t('merge_regions')}>
+                {mergingRegion && (
+                    <form onSubmit={handleMerge} className="space-y-4">
+                        <div>
+                            <label htmlFor="mergeTarget" className="block text-sm font-medium text-slate-800">{t('merge_region_into', mergingRegion.name)}</label>
+                            <select id="mergeTarget" value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)} required className="mt-1 bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 block w-full p-2.5">
+                                <option value="" disabled>{t('choose_region')}</option>
+                                {regions.filter(r => r.id !== mergingRegion.id).map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                            </select>
+                        </div>
+                        <p className="text-sm text-orange-800 bg-orange-100 p-3 rounded-lg">
+                            {t('merge_regions_warning', mergingRegion.name, doctorCounts.get(mergingRegion.id) || 0, pharmacyCounts.get(mergingRegion.id) || 0)}
+                        </p>
+                        {formError && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{formError}</p>}
+                        {renderFormButtons(t('merge'), !mergeTargetId)}
+                    </form>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!territoryRep} onClose={closeModals} title={t('territory_for', territoryRep?.name || '')}>
+                <form onSubmit={handleSaveTerritory} className="space-y-4">
+                    <p className="text-sm text-slate-600">{t('territory_helper_text')}</p>
+                    <div className="max-h-64 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-2 p-2 bg-white/30 rounded-lg">
+                        {regions.map(region => (
+                            <label key={region.id} className="flex items-center gap-2 text-sm text-slate-800 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedRegionIds.includes(region.id)}
+                                    onChange={() => toggleRegionSelection(region.id)}
+                                    className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500"
+                                />
+                                {region.name}
+                            </label>
+                        ))}
+                    </div>
+                    {formError && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{formError}</p>}
+                    {renderFormButtons(t('save_changes'))}
+                </form>
+            </Modal>
+        </div>
+    );
+};
+
+export default RegionManagement;
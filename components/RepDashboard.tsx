@@ -5,12 +5,19 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useAuth } from '../hooks/useAuth_new';
 import { useLanguage } from '../hooks/useLanguage';
 import { api } from '../services/api';
-import { Doctor, Pharmacy, Product, VisitReport, Region, ClientAlert, SystemSettings, WeeklyPlan } from '../types';
-import { DoctorIcon, PharmacyIcon, CalendarIcon, SearchIcon, WarningIcon, UserGroupIcon, DownloadIcon, MapPinIcon, ChartBarIcon, GraphIcon, CalendarPlusIcon } from './icons';
+import { useOutbox } from '../hooks/useOutbox';
+import { Doctor, Pharmacy, Product, VisitReport, Region, ClientAlert, SystemSettings, WeeklyPlan, SampleBalance, ClientRef, User } from '../types';
+import { DoctorIcon, PharmacyIcon, CalendarIcon, SearchIcon, WarningIcon, UserGroupIcon, DownloadIcon, MapPinIcon, ChartBarIcon, GraphIcon, CalendarPlusIcon, CubeIcon, EditIcon } from './icons';
 import Modal from './Modal';
 import VisitForm from './VisitForm';
+import VisitEditModal from './VisitEditModal';
+import ClientProfileModal from './ClientProfileModal';
 import ClientSearch from './ClientSearch';
+import CoachingHistory from './CoachingHistory';
 import { exportClientsToExcel, exportToExcel } from '../services/exportService';
+import { toDateKey, getWeekStartKey } from '../services/dateUtils';
+import { DEFAULT_VISIT_EDIT_GRACE_HOURS } from '../services/visitEditService';
+import { alertClientRef } from '../services/clientProfileService';
 import WeeklyView from './WeeklyView';
 import PlanEditor from './PlanEditor';
 import Spinner from './Spinner';
@@ -22,15 +29,23 @@ const RepDashboard: React.FC = () => {
   const [pharmacies, setPharmacies] = useState<Pharmacy[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [regions, setRegions] = useState<Region[]>([]);
+  const [territoryRegionIds, setTerritoryRegionIds] = useState<number[]>([]);
   const [recentVisits, setRecentVisits] = useState<VisitReport[]>([]);
   const [alerts, setAlerts] = useState<ClientAlert[]>([]);
   const [systemSettings, setSystemSettings] = useState<SystemSettings | null>(null);
-  const [plan, setPlan] = useState<WeeklyPlan | null>(null);
+  const [sampleBalances, setSampleBalances] = useState<SampleBalance[]>([]);
+  const [coaches, setCoaches] = useState<User[]>([]);
+  const [plan, setPlan] = useState<WeeklyPlan | null>(null); // Plan for planStartDate's week
+  const [currentWeekPlan, setCurrentWeekPlan] = useState<WeeklyPlan | null>(null); // Plan the rep is working today
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [view, setView] = useState<'dashboard' | 'search' | 'weekly' | 'plan'>('dashboard');
+  const [editingVisit, setEditingVisit] = useState<VisitReport | null>(null);
+  const [profileClient, setProfileClient] = useState<ClientRef | null>(null);
+  const [view, setView] = useState<'dashboard' | 'search' | 'weekly' | 'plan' | 'coaching'>('dashboard');
   const [showClientLists, setShowClientLists] = useState(false);
   const [initialRegionForVisit, setInitialRegionForVisit] = useState<number | null>(null);
+  const [offlineNotice, setOfflineNotice] = useState(false);
+  const { pending: pendingSyncCount, lastSyncAt } = useOutbox();
 
   // Export Modal State
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
@@ -68,40 +83,57 @@ const RepDashboard: React.FC = () => {
       return d;
   }, [isPlanningTime]);
 
+  const planWeekStart = toDateKey(planStartDate);
+
 
   const fetchData = useCallback(async () => {
     if (!user) return;
     setLoading(true);
     try {
-      const [doctorsData, pharmaciesData, productsData, visitsData, regionsData, overdueData, settingsData, planData] = await Promise.all([
+      const [doctorsData, pharmaciesData, productsData, visitsData, regionsData, territoryData, overdueData, settingsData, planData, sampleBalancesData, coachesData] = await Promise.all([
         api.getDoctorsForRep(user.id),
         api.getPharmaciesForRep(user.id),
         api.getProducts(),
         api.getVisitReportsForRep(user.id),
         api.getRegions(),
+        api.getRepTerritory(user.id),
         api.getOverdueVisits(),
         api.getSystemSettings(),
-        api.getRepPlan(user.id)
+        api.getRepPlan(user.id, planWeekStart),
+        api.getSampleBalances([user.id]),
+        api.getCoaches()
       ]);
+      // During planning time the plan being edited is next week's, today still follows this week's plan
+      const currentWeekStart = getWeekStartKey();
+      const currentPlanData = currentWeekStart === planWeekStart ? planData : await api.getRepPlan(user.id, currentWeekStart);
       setDoctors(doctorsData);
       setPharmacies(pharmaciesData);
       setProducts(productsData);
       setRecentVisits(visitsData);
       setRegions(regionsData);
+      setTerritoryRegionIds(territoryData);
       setAlerts(overdueData.filter(a => a.repId === user.id));
       setSystemSettings(settingsData);
+      setSampleBalances(sampleBalancesData);
+      setCoaches(coachesData);
       setPlan(planData);
+      setCurrentWeekPlan(currentPlanData);
     } catch (error) {
       console.error("Failed to fetch data", error); // Keep general error logging
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, planWeekStart]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  // Offline visits just reached the server, reload so they show up in the history and stats
+  useEffect(() => {
+    if (lastSyncAt) fetchData();
+  }, [lastSyncAt, fetchData]);
+
   const getGreeting = useCallback(() => {
     if (!user) return '';
     const hour = new Date().getHours();
@@ -110,8 +142,14 @@ const RepDashboard: React.FC = () => {
     return t('good_evening', user.name);
   }, [t, user]);
   
-  const handleFormSuccess = () => {
+  const handleFormSuccess = (savedOffline?: boolean) => {
     setIsModalOpen(false);
+    if (savedOffline) {
+      // Nothing new on the server yet, the outbox will sync it later
+      setOfflineNotice(true);
+      setTimeout(() => setOfflineNotice(false), 5000);
+      return;
+    }
     fetchData(); // Refresh all data to show the new visit in history
   }
 
@@ -266,40 +304,43 @@ const RepDashboard: React.FC = () => {
       return <span className={`text-xs font-semibold px-2.5 py-0.5 rounded-full ${color}`}>{t(textKey)}</span>;
   };
 
-  const doctorNameToIdMap = useMemo(() => new Map(doctors.map(d => [d.name, d.id])), [doctors]);
-
   const pendingDoctorsForToday = useMemo(() => {
-      if (!plan || !plan.plan) return [];
+      if (!currentWeekPlan || !currentWeekPlan.plan) return [];
 
       const todayStr = new Date().toDateString();
       const todayIndex = new Date().getDay();
       
-      const todaysDoctorIds = plan.plan[todayIndex]?.doctorIds || [];
+      const todaysDoctorIds = currentWeekPlan.plan[todayIndex]?.doctorIds || [];
       if (todaysDoctorIds.length === 0) return [];
 
       const visitedDoctorIds = new Set(
           recentVisits
               .filter(v => new Date(v.date).toDateString() === todayStr && v.type === 'DOCTOR_VISIT')
-              .map(v => doctorNameToIdMap.get(v.targetName))
-              .filter((id): id is number => id !== undefined)
+              .map(v => v.clientId)
       );
 
       const pendingDoctorIds = todaysDoctorIds.filter(id => !visitedDoctorIds.has(id));
       
       return doctors.filter(d => pendingDoctorIds.includes(d.id));
-  }, [plan, recentVisits, doctors, doctorNameToIdMap]);
+  }, [currentWeekPlan, recentVisits, doctors]);
+
+  // Regions the rep may log visits in. Without an assigned territory every region stays available.
+  const territoryRegions = useMemo(() => {
+      if (territoryRegionIds.length === 0) return regions;
+      return regions.filter(r => territoryRegionIds.includes(r.id) || r.id === initialRegionForVisit);
+  }, [regions, territoryRegionIds, initialRegionForVisit]);
 
   const visitFrequency = useMemo(() => {
     const today = new Date();
     const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
     
-    const visitCounts: Record<string, number> = {};
+    const visitCounts: Record<number, number> = {};
     
     recentVisits.forEach(visit => {
         const visitDate = new Date(visit.date);
         // Filter for current month and Doctor visits only
         if (visitDate >= startOfMonth && visitDate <= today && visit.type === 'DOCTOR_VISIT') {
-            const key = visit.targetName;
+            const key = visit.clientId;
             visitCounts[key] = (visitCounts[key] || 0) + 1;
         }
     });
@@ -340,12 +381,15 @@ const RepDashboard: React.FC = () => {
     return <ClientSearch user={user} onBack={() => setView('dashboard')} />;
   }
   
+  if (view === 'coaching') {
+    return <CoachingHistory user={user} onBack={() => setView('dashboard')} />;
+  }
+
   if (view === 'weekly') {
     return <WeeklyView 
             user={user} 
             visits={recentVisits} 
             settings={systemSettings} 
-            plan={plan?.plan ?? null}
             regions={regions}
             onBack={() => setView('dashboard')} 
         />;
@@ -359,6 +403,7 @@ const RepDashboard: React.FC = () => {
         startDate={planStartDate}
         onPlanSaved={(newPlan) => {
             setPlan(newPlan);
+            if (newPlan.weekStart === currentWeekPlan?.weekStart) setCurrentWeekPlan(newPlan);
             setView('dashboard');
         }}
         onBack={() => setView('dashboard')}
@@ -392,6 +437,12 @@ const RepDashboard: React.FC = () => {
         </div>
       )}
 
+      {(offlineNotice || pendingSyncCount > 0) && (
+        <div className="mb-6 animate-fade-in bg-yellow-100/80 text-yellow-900 rounded-xl p-3 shadow border border-yellow-200 text-sm font-medium" role="status">
+            {offlineNotice ? t('visit_saved_offline') : t('visits_waiting_for_sync', pendingSyncCount)}
+        </div>
+      )}
+
       <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
         <h2 className="text-3xl font-bold text-blue-800">{getGreeting()}</h2>
         <div className="flex gap-2 sm:gap-4 flex-wrap justify-center items-start">
@@ -402,6 +453,13 @@ const RepDashboard: React.FC = () => {
             <SearchIcon className="w-5 h-5"/>
             <span className="hidden sm:inline">{t('search_client')}</span>
           </button>
+          <button 
+            onClick={() => setView('coaching')}
+            className="bg-indigo-600 text-white font-bold py-2 px-4 sm:px-6 rounded-lg hover:bg-indigo-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 flex items-center gap-2"
+          >
+            <GraphIcon className="w-5 h-5"/>
+            <span className="hidden sm:inline">{t('my_coaching')}</span>
+          </button>
           <div className="flex flex-col items-center">
             <button 
               onClick={handleWeeklyPlanClick}
@@ -429,7 +487,7 @@ const RepDashboard: React.FC = () => {
           <button 
             onClick={() => {
               const todayIndex = new Date().getDay();
-              const todayPlanForDay = plan?.plan[todayIndex] ?? null;
+              const todayPlanForDay = currentWeekPlan?.plan[todayIndex] ?? null;
               setInitialRegionForVisit(todayPlanForDay?.regionId ?? null);
               setIsModalOpen(true);
             }}
@@ -562,7 +620,7 @@ const RepDashboard: React.FC = () => {
                 <ul className="mt-2 list-disc list-inside space-y-1 text-sm">
                     {alerts.map(alert => (
                         <li key={alert.id}>
-                            <span className="font-semibold">{alert.name}</span>
+                            <button type="button" onClick={() => setProfileClient(alertClientRef(alert))} className="font-semibold hover:underline">{alert.name}</button>
                             {alert.daysSinceLastVisit === null 
                                 ? ` ${t('not_visited_before')}`
                                 : ` ${t('not_visited_since', alert.daysSinceLastVisit)}`
@@ -576,6 +634,25 @@ const RepDashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Sample Inventory */}
+      {sampleBalances.length > 0 && (
+        <div className="mb-8 bg-white/40 backdrop-blur-lg p-6 rounded-2xl shadow-lg border border-white/50 animate-fade-in-up">
+          <h3 className="text-xl font-semibold mb-4 flex items-center text-blue-700">
+            <CubeIcon className="w-6 h-6 me-2" />
+            {t('my_sample_inventory')}
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {sampleBalances.map(b => (
+              <div key={`${b.productId}-${b.kind}`} className="p-3 bg-white/30 rounded-lg">
+                <p className="text-sm font-semibold text-slate-800 truncate">{products.find(p => p.id === b.productId)?.name || t('unknown')}</p>
+                <p className="text-xs text-slate-500">{t(`sample_kind_${b.kind}`)}</p>
+                <p className={`text-2xl font-bold ${b.balance > 0 ? 'text-blue-800' : 'text-red-600'}`}>{b.balance}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Client Lists Toggle & Summary Section - REPLACED */}
       <div className="flex flex-col md:flex-row justify-center items-center gap-4 mb-8">
         {/* Doctors Stats Card */}
@@ -695,7 +772,12 @@ const RepDashboard: React.FC = () => {
                           </p>
                         </div>
                       </div>
-                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${visit.type === 'DOCTOR_VISIT' ? 'bg-blue-100 text-blue-800' : 'bg-orange-100 text-orange-800'}`}>{t(visit.type)}</span>
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${visit.type === 'DOCTOR_VISIT' ? 'bg-blue-100 text-blue-800' : 'bg-orange-100 text-orange-800'}`}>{t(visit.type)}</span>
+                        <button onClick={() => setEditingVisit(visit)} className="text-slate-500 hover:text-blue-700 p-1" title={t('edit_or_view_history')}>
+                          <EditIcon className="w-4 h-4" />
+                        </button>
+                      </div>
                     </div>
                     <p className="mt-2 text-sm text-slate-700 ps-9">{visit.notes}</p>
                     {visit.productName && (
@@ -724,15 +806,30 @@ const RepDashboard: React.FC = () => {
               products={products}
               doctors={doctors}
               pharmacies={pharmacies}
-              regions={regions}
+              regions={territoryRegions}
               initialRegionId={initialRegionForVisit}
               pendingDoctorsForToday={pendingDoctorsForToday}
+              sampleBalances={sampleBalances}
+              coaches={coaches}
               onSuccess={handleFormSuccess}
               onCancel={() => setIsModalOpen(false)}
             />
         </Modal>
       )}
 
+      {user && (
+        <VisitEditModal
+          report={editingVisit}
+          user={user}
+          products={products}
+          graceHours={systemSettings?.visitEditGraceHours ?? DEFAULT_VISIT_EDIT_GRACE_HOURS}
+          onClose={() => setEditingVisit(null)}
+          onChanged={fetchData}
+        />
+      )}
+
+      <ClientProfileModal client={profileClient} onClose={() => setProfileClient(null)} />
+
       {isExportModalOpen && (
           <Modal
               isOpen={isExportModalOpen}
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { User, Doctor, Pharmacy, VisitReport, WeeklyPlan, SystemSettings, ClientRef, RepScorecard, ScorecardClient, ScorecardMetric, ScorecardPeriod, SCORECARD_METRICS, SCORECARD_PERIODS } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { scorecardWindows, scorecardVisitsStart, computeRepScorecards, rankScorecards } from '../services/repScorecardService';
+import { exportScorecardsToExcel } from '../services/exportService';
+import { getWeekStartKey, fromDateKey } from '../services/dateUtils';
+import { DownloadIcon } from './icons';
+import Spinner from './Spinner';
+
+interface RepScorecardsProps {
+  reps: User[];
+  repIds?: string[]; // Limits the visits and plans fetched to a supervisor's team
+  doctors: Doctor[];
+  pharmacies: Pharmacy[];
+  settings: SystemSettings | null;
+  onOpenClient: (client: ClientRef) => void;
+}
+
+const KPI_COLUMNS: ScorecardMetric[] = ['callRate', 'coverage', 'frequencyCompliance', 'planAdherence', 'coachingCount', 'score'];
+const PERCENT_METRICS: ScorecardMetric[] = ['score', 'coverage', 'frequencyCompliance', 'planAdherence'];
+const MAX_DRILLDOWN_CLIENTS = 20;
+
+const getScoreColor = (score: number | null) => {
+  if (score === null) return 'bg-slate-100 text-slate-600';
+  if (score >= 80) return 'bg-green-100 text-green-800';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+const RepScorecards: React.FC<RepScorecardsProps> = ({ reps, repIds, doctors, pharmacies, settings, onOpenClient }) => {
+  const { t } = useLanguage();
+  const [period, setPeriod] = useState<ScorecardPeriod>('month');
+  const [metric, setMetric] = useState<ScorecardMetric>('score');
+  const [reports, setReports] = useState<VisitReport[]>([]);
+  const [plans, setPlans] = useState<WeeklyPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedRepId, setExpandedRepId] = useState<string | null>(null);
+
+  const windows = useMemo(() => scorecardWindows(period), [period]);
+
+  useEffect(() => {
+    if (!settings) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([
+      api.getVisitReportsBetween(scorecardVisitsStart(windows.previous, settings), windows.current.end, repIds),
+      api.getPlansBetween(getWeekStartKey(fromDateKey(windows.previous.start)), getWeekStartKey(fromDateKey(windows.current.end)), repIds),
+    ])
+      .then(([reportsData, plansData]) => {
+        if (cancelled) return;
+        setReports(reportsData);
+        setPlans(plansData);
+      })
+      .catch(error => {
+        console.error("Failed to fetch visits and plans for rep scorecards", error);
+        if (!cancelled) {
+          setReports([]);
+          setPlans([]);
+        }
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [windows, repIds, settings]);
+
+  const current = useMemo(
+    () => (settings ? computeRepScorecards(reps, doctors, pharmacies, reports, plans, settings, windows.current) : []),
+    [reps, doctors, pharmacies, reports, plans, settings, windows]
+  );
+  const previous = useMemo(
+    () => (settings ? computeRepScorecards(reps, doctors, pharmacies, reports, plans, settings, windows.previous) : []),
+    [reps, doctors, pharmacies, reports, plans, settings, windows]
+  );
+  const previousByRep = useMemo(() => new Map(previous.map(s => [s.repId, s])), [previous]);
+  const ranks = useMemo(() => rankScorecards(current, metric), [current, metric]);
+  const previousRanks = useMemo(() => rankScorecards(previous, metric), [previous, metric]);
+
+  // Ranked reps first, the rest by name
+  const leaderboard = useMemo(() => [...current].sort((a, b) =>
+    (ranks.get(a.repId) ?? Infinity) - (ranks.get(b.repId) ?? Infinity) || a.repName.localeCompare(b.repName)
+  ), [current, ranks]);
+
+  const formatWindow = (start: string, end: string) =>
+    `${fromDateKey(start).toLocaleDateString(t('locale'))} - ${fromDateKey(end).toLocaleDateString(t('locale'))}`;
+
+  const formatMetric = (m: ScorecardMetric, value: number | null) => {
+    if (value === null) return '-';
+    return PERCENT_METRICS.includes(m) ? `${value}%` : String(value);
+  };
+
+  const handleExport = () => {
+    exportScorecardsToExcel(leaderboard, previousByRep, ranks, windows, `rep_scorecards_${windows.current.end}`, t);
+  };
+
+  const renderDelta = (m: ScorecardMetric, scorecard: RepScorecard) => {
+    const before = previousByRep.get(scorecard.repId)?.[m] ?? null;
+    const now = scorecard[m];
+    if (before === null || now === null) return null;
+    const delta = Math.round((now - before) * 10) / 10;
+    if (delta === 0) return <span className="block text-xs text-slate-500">=</span>;
+    return (
+      <span className={`block text-xs font-semibold ${delta > 0 ? 'text-green-700' : 'text-red-700'}`}>
+        {delta > 0 ? '▲' : '▼'} {Math.abs(delta)}{PERCENT_METRICS.includes(m) ? '%' : ''}
+      </span>
+    );
+  };
+
+  const renderRankChange = (repId: string) => {
+    const rank = ranks.get(repId);
+    const before = previousRanks.get(repId);
+    if (rank === undefined || before === undefined || rank === before) return null;
+    return (
+      <span className={`text-xs font-semibold ${rank < before ? 'text-green-700' : 'text-red-700'}`} title={t('previous_rank', before)}>
+        {rank < before ? '▲' : '▼'}{Math.abs(before - rank)}
+      </span>
+    );
+  };
+
+  const renderClientList = (title: string, clients: ScorecardClient[], showDays: boolean) => (
+    <div>
+      <h5 className="font-semibold text-slate-700 mb-2">{title} ({clients.length})</h5>
+      {clients.length === 0 ? <p className="text-xs text-slate-500">-</p> : (
+        <ul className="space-y-1">
+          {clients.slice(0, MAX_DRILLDOWN_CLIENTS).map(client => (
+            <li key={`${client.type}-${client.id}`} className="text-sm flex justify-between gap-2">
+              <button onClick={() => onOpenClient({ type: client.type, id: client.id })} className="text-blue-700 hover:underline text-start">{client.name}</button>
+              {showDays && (
+                <span className="text-xs text-slate-600 whitespace-nowrap">
+                  {client.daysSinceLastVisit === null ? t('no_visit_within_target', client.targetDays) : t('days_since_target', client.daysSinceLastVisit, client.targetDays)}
+                </span>
+              )}
+            </li>
+          ))}
+          {clients.length > MAX_DRILLDOWN_CLIENTS && <li className="text-xs text-slate-500">{t('and_n_more', clients.length - MAX_DRILLDOWN_CLIENTS)}</li>}
+        </ul>
+      )}
+    </div>
+  );
+
+  const renderDrillDown = (scorecard: RepScorecard) => {
+    const before = previousByRep.get(scorecard.repId);
+    const rows: { label: string; now: string; then: string }[] = [
+      { label: t('visits'), now: `${scorecard.visitCount} / ${t('working_days_count', scorecard.workingDays)}`, then: before ? `${before.visitCount} / ${t('working_days_count', before.workingDays)}` : '-' },
+      { label: t('kpi_coverage'), now: `${scorecard.coveredClients} / ${scorecard.assignedClients}`, then: before ? `${before.coveredClients} / ${before.assignedClients}` : '-' },
+      { label: t('kpi_frequencyCompliance'), now: `${scorecard.compliantClients} / ${scorecard.assignedClients}`, then: before ? `${before.compliantClients} / ${before.assignedClients}` : '-' },
+      { label: t('kpi_planAdherence'), now: `${scorecard.visitedPlannedCount} / ${scorecard.plannedCount}`, then: before ? `${before.visitedPlannedCount} / ${before.plannedCount}` : '-' },
+      { label: t('kpi_coachingCount'), now: String(scorecard.coachingCount), then: before ? String(before.coachingCount) : '-' },
+    ];
+    return (
+      <tr>
+        <td colSpan={9} className="px-4 py-4 bg-white/30">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <table className="w-full text-sm text-start self-start">
+              <thead className="text-xs text-slate-600 uppercase">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2">{t('current_period')}</th>
+                  <th className="px-3 py-2">{t('previous_period')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.label} className="border-t border-white/40">
+                    <td className="px-3 py-2 font-medium text-slate-700">{row.label}</td>
+                    <td className="px-3 py-2">{row.now}</td>
+                    <td className="px-3 py-2 text-slate-600">{row.then}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {renderClientList(t('clients_not_visited'), scorecard.uncoveredClients, false)}
+            {renderClientList(t('clients_past_target'), scorecard.nonCompliantClients, true)}
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+      <div className="flex flex-col lg:flex-row justify-between items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-blue-800">{t('rep_scorecards')}</h3>
+          <p className="text-sm text-slate-600">{t('rep_scorecards_description')}</p>
+          <p className="text-xs text-slate-500 mt-1">
+            {t('comparing_periods', formatWindow(windows.current.start, windows.current.end), formatWindow(windows.previous.start, windows.previous.end))}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {SCORECARD_PERIODS.map(p => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${period === p ? 'bg-blue-600 text-white shadow' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+            >
+              {t(`scorecard_period_${p}`)}
+            </button>
+          ))}
+          <select
+            value={metric}
+            onChange={e => setMetric(e.target.value as ScorecardMetric)}
+            aria-label={t('rank_by')}
+            className="bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 p-2"
+          >
+            {SCORECARD_METRICS.map(m => <option key={m} value={m}>{t('rank_by_metric', t(`kpi_${m}`))}</option>)}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={loading || leaderboard.length === 0}
+            className="flex items-center gap-2 text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-4 py-2 transition-colors disabled:bg-green-300"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      {loading || !settings ? <Spinner /> : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-start">
+            <thead className="text-xs text-blue-800 uppercase bg-white/50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-center">#</th>
+                <th scope="col" className="px-4 py-3">{t('rep_name')}</th>
+                {KPI_COLUMNS.map(m => (
+                  <th key={m} scope="col" className={`px-4 py-3 text-center ${m === metric ? 'bg-blue-100/50' : ''}`}>{t(`kpi_${m}`)}</th>
+                ))}
+                <th scope="col" className="px-4 py-3 text-center">{t('visits')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {leaderboard.map(scorecard => (
+                <React.Fragment key={scorecard.repId}>
+                  <tr
+                    onClick={() => setExpandedRepId(prev => prev === scorecard.repId ? null : scorecard.repId)}
+                    className={`border-b border-white/30 cursor-pointer hover:bg-white/40 align-top ${expandedRepId === scorecard.repId ? 'bg-white/40' : 'bg-white/20'}`}
+                    title={t('click_for_scorecard_details')}
+                  >
+                    <td className="px-4 py-4 text-center whitespace-nowrap">
+                      <span className="font-bold text-slate-800 me-1">{ranks.get(scorecard.repId) ?? '-'}</span>
+                      {renderRankChange(scorecard.repId)}
+                    </td>
+                    <td className="px-4 py-4 font-semibold text-slate-900 whitespace-nowrap">{scorecard.repName}</td>
+                    {KPI_COLUMNS.map(m => (
+                      <td key={m} className="px-4 py-4 text-center">
+                        {PERCENT_METRICS.includes(m) ? (
+                          <span className={`text-xs font-bold px-2.5 py-0.5 rounded-full ${getScoreColor(scorecard[m])}`}>{formatMetric(m, scorecard[m])}</span>
+                        ) : (
+                          <span className="font-semibold text-slate-800">{formatMetric(m, scorecard[m])}</span>
+                        )}
+                        {renderDelta(m, scorecard)}
+                      </td>
+                    ))}
+                    <td className="px-4 py-4 text-center">{scorecard.visitCount}</td>
+                  </tr>
+                  {expandedRepId === scorecard.repId && renderDrillDown(scorecard)}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+          {leaderboard.length === 0 && <p className="text-center text-slate-600 py-8">{t('no_data')}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepScorecards;
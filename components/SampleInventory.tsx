@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { User, Product, SampleBalance, SampleAllocation, SampleKind } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { SAMPLE_KINDS, buildSampleReconciliation } from '../services/sampleService';
+import { exportSampleReconciliationToExcel } from '../services/exportService';
+import { DownloadIcon, PlusIcon } from './icons';
+import Modal from './Modal';
+import Spinner from './Spinner';
+
+interface SampleInventoryProps {
+  reps: User[];
+  repIds?: string[]; // Limits the inventory to a supervisor's team
+  canAllocate: boolean;
+  currentUserId: string;
+}
+
+const SampleInventory: React.FC<SampleInventoryProps> = ({ reps, repIds, canAllocate, currentUserId }) => {
+  const { t } = useLanguage();
+  const [balances, setBalances] = useState<SampleBalance[]>([]);
+  const [allocations, setAllocations] = useState<SampleAllocation[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+  const [repFilter, setRepFilter] = useState('all');
+
+  // Allocation modal state
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [allocRepId, setAllocRepId] = useState('');
+  const [allocProductId, setAllocProductId] = useState('');
+  const [allocKind, setAllocKind] = useState<SampleKind>('sample');
+  const [allocQuantity, setAllocQuantity] = useState('');
+  const [allocNote, setAllocNote] = useState('');
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchInventory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [balancesData, allocationsData, productsData] = await Promise.all([
+        api.getSampleBalances(repIds),
+        api.getSampleAllocations(repIds),
+        api.getProducts(),
+      ]);
+      setBalances(balancesData);
+      setAllocations(allocationsData);
+      setProducts(productsData);
+    } catch (error) {
+      console.error("Failed to fetch sample inventory", error);
+      setMessage({ text: t('error_fetching_samples'), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [repIds, t]);
+
+  useEffect(() => {
+    fetchInventory();
+  }, [fetchInventory]);
+
+  const repMap = useMemo(() => new Map(reps.map(r => [r.id, r.name])), [reps]);
+  const productMap = useMemo(() => new Map(products.map(p => [p.id, p.name])), [products]);
+
+  const reconciliation = useMemo(() => buildSampleReconciliation(
+    balances.filter(b => repFilter === 'all' || b.repId === repFilter), reps, products
+  ), [balances, repFilter, reps, products]);
+
+  const visibleAllocations = useMemo(
+    () => allocations.filter(a => repFilter === 'all' || a.repId === repFilter),
+    [allocations, repFilter]
+  );
+
+  const totals = useMemo(() => ({
+    allocated: reconciliation.reduce((sum, r) => sum + r.allocated, 0),
+    distributed: reconciliation.reduce((sum, r) => sum + r.distributed, 0),
+    balance: reconciliation.reduce((sum, r) => sum + r.balance, 0),
+    negative: reconciliation.filter(r => r.balance < 0).length,
+  }), [reconciliation]);
+
+  const showMessage = (text: string, type: 'success' | 'error') => {
+    setMessage({ text, type });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const openModal = () => {
+    setAllocRepId(repFilter !== 'all' ? repFilter : '');
+    setAllocProductId('');
+    setAllocKind('sample');
+    setAllocQuantity('');
+    setAllocNote('');
+    setFormError('');
+    setIsModalOpen(true);
+  };
+
+  const handleAllocate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = Number(allocQuantity);
+    if (!allocRepId || !allocProductId) {
+      setFormError(t('error_all_fields_required'));
+      return;
+    }
+    // Negative quantities take stock back, so they need a reason
+    if (!Number.isInteger(quantity) || quantity === 0 || (quantity < 0 && !allocNote.trim())) {
+      setFormError(t('error_invalid_allocation_quantity'));
+      return;
+    }
+    setSaving(true);
+    setFormError('');
+    try {
+      await api.allocateSamples([{ repId: allocRepId, productId: parseInt(allocProductId), kind: allocKind, quantity, note: allocNote.trim() }], currentUserId);
+      setIsModalOpen(false);
+      showMessage(t('samples_allocated', quantity, productMap.get(parseInt(allocProductId)) || '', repMap.get(allocRepId) || ''), 'success');
+      fetchInventory();
+    } catch (error: any) {
+      console.error("Failed to allocate samples", error);
+      setFormError(t(error.message === 'error_permission_denied' ? 'error_permission_denied' : 'error_unexpected'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = () => {
+    exportSampleReconciliationToExcel(reconciliation, visibleAllocations, reps, products, `sample_reconciliation_${new Date().toISOString().split('T')[0]}`, t);
+  };
+
+  if (loading) {
+    return <Spinner />;
+  }
+
+  return (
+    <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6 space-y-6">
+      <div className="flex flex-col lg:flex-row justify-between items-center gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-blue-800">{t('sample_inventory')}</h3>
+          <p className="text-sm text-slate-600">{t('sample_inventory_description')}</p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <select value={repFilter} onChange={e => setRepFilter(e.target.value)} className="bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 p-2">
+            <option value="all">{t('all_reps')}</option>
+            {reps.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+          </select>
+          {canAllocate && (
+            <button onClick={openModal} className="bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 transition-all shadow flex items-center gap-2">
+              <PlusIcon className="w-5 h-5"/>
+              <span>{t('allocate_samples')}</span>
+            </button>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={reconciliation.length === 0}
+            className="flex items-center gap-2 text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-4 py-2 transition-colors disabled:bg-green-300"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`p-4 text-sm rounded-lg ${message.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`} role="alert">
+          <span className="font-medium">{message.text}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white/30 p-4 rounded-lg text-center">
+          <p className="text-sm text-slate-600">{t('allocated')}</p>
+          <p className="text-2xl font-bold text-slate-800">{totals.allocated}</p>
+        </div>
+        <div className="bg-white/30 p-4 rounded-lg text-center">
+          <p className="text-sm text-slate-600">{t('distributed')}</p>
+          <p className="text-2xl font-bold text-blue-700">{totals.distributed}</p>
+        </div>
+        <div className="bg-white/30 p-4 rounded-lg text-center">
+          <p className="text-sm text-slate-600">{t('balance')}</p>
+          <p className="text-2xl font-bold text-green-700">{totals.balance}</p>
+        </div>
+        <div className="bg-white/30 p-4 rounded-lg text-center">
+          <p className="text-sm text-slate-600">{t('negative_balances')}</p>
+          <p className={`text-2xl font-bold ${totals.negative > 0 ? 'text-red-700' : 'text-slate-800'}`}>{totals.negative}</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-start">
+          <thead className="text-xs text-blue-800 uppercase bg-white/50">
+            <tr>
+              <th scope="col" className="px-4 py-3">{t('rep_name')}</th>
+              <th scope="col" className="px-4 py-3">{t('product')}</th>
+              <th scope="col" className="px-4 py-3">{t('sample_kind')}</th>
+              <th scope="col" className="px-4 py-3 text-center">{t('allocated')}</th>
+              <th scope="col" className="px-4 py-3 text-center">{t('distributed')}</th>
+              <th scope="col" className="px-4 py-3 text-center">{t('balance')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reconciliation.map(row => (
+              <tr key={`${row.repId}-${row.productId}-${row.kind}`} className={`border-b border-white/30 hover:bg-white/40 ${row.balance < 0 ? 'bg-red-50/60' : 'bg-white/20'}`}>
+                <td className="px-4 py-3 font-medium text-slate-900">{row.repName || t('unknown')}</td>
+                <td className="px-4 py-3">{row.productName || t('unknown')}</td>
+                <td className="px-4 py-3">{t(`sample_kind_${row.kind}`)}</td>
+                <td className="px-4 py-3 text-center">{row.allocated}</td>
+                <td className="px-4 py-3 text-center">{row.distributed}</td>
+                <td className={`px-4 py-3 text-center font-bold ${row.balance < 0 ? 'text-red-700' : 'text-slate-800'}`}>{row.balance}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {reconciliation.length === 0 && <p className="text-center p-6 text-slate-600">{t('no_data')}</p>}
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-slate-700 mb-2">{t('allocation_history')}</h4>
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="w-full text-sm text-start">
+            <thead className="text-xs text-blue-800 uppercase bg-white/50 sticky top-0">
+              <tr>
+                <th scope="col" className="px-4 py-3">{t('date')}</th>
+                <th scope="col" className="px-4 py-3">{t('rep_name')}</th>
+                <th scope="col" className="px-4 py-3">{t('product')}</th>
+                <th scope="col" className="px-4 py-3">{t('sample_kind')}</th>
+                <th scope="col" className="px-4 py-3 text-center">{t('quantity')}</th>
+                <th scope="col" className="px-4 py-3">{t('notes')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleAllocations.map(a => (
+                <tr key={a.id} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+                  <td className="px-4 py-3 whitespace-nowrap">{new Date(a.date).toLocaleDateString(t('locale'))}</td>
+                  <td className="px-4 py-3">{repMap.get(a.repId) || t('unknown')}</td>
+                  <td className="px-4 py-3">{productMap.get(a.productId) || t('unknown')}</td>
+                  <td className="px-4 py-3">{t(`sample_kind_${a.kind}`)}</td>
+                  <td className={`px-4 py-3 text-center font-semibold ${a.quantity < 0 ? 'text-red-700' : 'text-green-700'}`}>{a.quantity > 0 ? `+${a.quantity}` : a.quantity}</td>
+                  <td className="px-4 py-3 text-slate-600">{a.note || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleAllocations.length === 0 && <p className="text-center p-6 text-slate-600">{t('no_data')}</p>}
+        </div>
+      </div>
+
+      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={t('allocate_samples')}>
+        <form onSubmit={handleAllocate} className="space-y-4">
+          <div>
+            <label htmlFor="allocRep" className="block text-sm font-medium text-slate-800">{t('rep_name')}</label>
+            <select id="allocRep" value={allocRepId} onChange={e => setAllocRepId(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
+              <option value="" disabled>{t('select_rep')}</option>
+              {reps.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="allocProduct" className="block text-sm font-medium text-slate-800">{t('product')}</label>
+            <select id="allocProduct" value={allocProductId} onChange={e => setAllocProductId(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
+              <option value="" disabled>{t('select_product')}</option>
+              {products.filter(p => p.isActive).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="allocKind" className="block text-sm font-medium text-slate-800">{t('sample_kind')}</label>
+              <select id="allocKind" value={allocKind} onChange={e => setAllocKind(e.target.value as SampleKind)} className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500">
+                {SAMPLE_KINDS.map(kind => <option key={kind} value={kind}>{t(`sample_kind_${kind}`)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="allocQuantity" className="block text-sm font-medium text-slate-800">{t('quantity')}</label>
+              <input type="number" id="allocQuantity" step={1} value={allocQuantity} onChange={e => setAllocQuantity(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{t('allocation_quantity_hint')}</p>
+          <div>
+            <label htmlFor="allocNote" className="block text-sm font-medium text-slate-800">{t('notes')}</label>
+            <input type="text" id="allocNote" value={allocNote} onChange={e => setAllocNote(e.target.value)} className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+          </div>
+
+          {formError && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{formError}</p>}
+
+          <div className="flex items-center justify-end space-x-2 space-x-reverse pt-4 border-t border-slate-300/50">
+            <button type="button" onClick={() => setIsModalOpen(false)} className="text-slate-700 bg-transparent hover:bg-slate-200/50 rounded-lg border border-slate-300 text-sm font-medium px-5 py-2.5 transition-colors">{t('cancel')}</button>
+            <button type="submit" disabled={saving} className="text-white bg-blue-600 hover:bg-orange-500 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-blue-300 transition-colors">
+              {saving ? t('saving') : t('save')}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
+
+export default SampleInventory;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PharmacyStockLevel, StockSummary } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { summarizeStock } from '../services/stockService';
+import { exportStockReportToExcel } from '../services/exportService';
+import { DownloadIcon } from './icons';
+import Spinner from './Spinner';
+
+interface StockOutReportProps {
+  repIds?: string[]; // Limits the report to a supervisor's team
+}
+
+const getRateColor = (rate: number | null) => {
+  if (rate === null) return 'bg-slate-100 text-slate-600';
+  if (rate >= 30) return 'bg-red-100 text-red-800';
+  if (rate >= 10) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-green-100 text-green-800';
+};
+
+const STATUS_BADGES: Record<PharmacyStockLevel['status'], string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  low: 'bg-yellow-100 text-yellow-800',
+  out_of_stock: 'bg-red-100 text-red-800',
+};
+
+const StockOutReport: React.FC<StockOutReportProps> = ({ repIds }) => {
+  const { t } = useLanguage();
+  const [levels, setLevels] = useState<PharmacyStockLevel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [regionFilter, setRegionFilter] = useState('all');
+  const [productFilter, setProductFilter] = useState('all');
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchLevels = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await api.getLatestStockChecks(repIds);
+        if (!cancelled) setLevels(data);
+      } catch (err) {
+        console.error("Failed to fetch stock checks", err);
+        if (!cancelled) setError(t('error_fetching_stock_checks'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchLevels();
+    return () => { cancelled = true; };
+  }, [repIds, t]);
+
+  const regionOptions = useMemo(() => {
+    const names = new Map(levels.map(l => [l.regionId, l.regionName]));
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [levels]);
+
+  const productOptions = useMemo(() => {
+    const names = new Map(levels.map(l => [l.productId, l.productName]));
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [levels]);
+
+  const filteredLevels = useMemo(() => levels.filter(l =>
+    (regionFilter === 'all' || String(l.regionId) === regionFilter) &&
+    (productFilter === 'all' || String(l.productId) === productFilter)
+  ), [levels, regionFilter, productFilter]);
+
+  const byProduct = useMemo(() => summarizeStock(filteredLevels, 'product'), [filteredLevels]);
+  const byRegion = useMemo(() => summarizeStock(filteredLevels, 'region'), [filteredLevels]);
+
+  // Out-of-stock first, then low, most recently checked first within each
+  const problems = useMemo(() => filteredLevels
+    .filter(l => l.status !== 'in_stock')
+    .sort((a, b) => (a.status === b.status ? 0 : a.status === 'out_of_stock' ? -1 : 1) || b.checkedAt.localeCompare(a.checkedAt)),
+  [filteredLevels]);
+
+  const totals = useMemo(() => ({
+    pharmacies: new Set(filteredLevels.map(l => l.pharmacyId)).size,
+    outOfStock: filteredLevels.filter(l => l.status === 'out_of_stock').length,
+    low: filteredLevels.filter(l => l.status === 'low').length,
+    ordered: filteredLevels.reduce((sum, l) => sum + (l.orderQuantity || 0), 0),
+  }), [filteredLevels]);
+
+  const handleExport = () => {
+    exportStockReportToExcel(filteredLevels, byProduct, byRegion, `stock_report_${new Date().toISOString().split('T')[0]}`, t);
+  };
+
+  const renderSummaryTable = (summaries: StockSummary[], labelKey: string) => (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-start">
+        <thead className="text-xs text-blue-800 uppercase bg-white/50">
+          <tr>
+            <th scope="col" className="px-4 py-3">{t(labelKey)}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('pharmacies_checked')}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('stock_low')}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('stock_out_of_stock')}</th>
+            <th scope="col" className="px-4 py-3 text-center">{t('stock_out_rate')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summaries.map(s => (
+            <tr key={s.key} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+              <td className="px-4 py-3 font-medium text-slate-900">{s.label}</td>
+              <td className="px-4 py-3 text-center">{s.checkedCount}</td>
+              <td className="px-4 py-3 text-center text-yellow-700 font-semibold">{s.lowCount}</td>
+              <td className="px-4 py-3 text-center text-red-700 font-semibold">{s.outOfStockCount}</td>
+              <td className="px-4 py-3 text-center">
+                <span className={`text-xs font-bold px-2.5 py-0.5 rounded-full ${getRateColor(s.stockOutRate)}`}>{s.stockOutRate === null ? '-' : `${s.stockOutRate}%`}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {summaries.length === 0 && <p className="text-center p-6 text-slate-600">{t('no_data')}</p>}
+    </div>
+  );
+
+  return (
+    <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 p-6">
+      <div className="flex flex-col lg:flex-row justify-between items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-blue-800">{t('stock_report')}</h3>
+          <p className="text-sm text-slate-600">{t('stock_report_description')}</p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <select value={regionFilter} onChange={e => setRegionFilter(e.target.value)} className="bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 p-2">
+            <option value="all">{t('all_regions')}</option>
+            {regionOptions.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+          </select>
+          <select value={productFilter} onChange={e => setProductFilter(e.target.value)} className="bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 p-2">
+            <option value="all">{t('all_products')}</option>
+            {productOptions.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={loading || filteredLevels.length === 0}
+            className="flex items-center gap-2 text-white bg-green-600 hover:bg-green-700 font-medium rounded-lg text-sm px-4 py-2 transition-colors disabled:bg-green-300"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      {loading ? <Spinner /> : error ? (
+        <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('pharmacies_checked')}</p>
+              <p className="text-2xl font-bold text-slate-800">{totals.pharmacies}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('stock_out_of_stock')}</p>
+              <p className="text-2xl font-bold text-red-700">{totals.outOfStock}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('stock_low')}</p>
+              <p className="text-2xl font-bold text-yellow-700">{totals.low}</p>
+            </div>
+            <div className="bg-white/30 p-4 rounded-lg text-center">
+              <p className="text-sm text-slate-600">{t('ordered_units')}</p>
+              <p className="text-2xl font-bold text-blue-700">{totals.ordered}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2">{t('stock_by_product')}</h4>
+              {renderSummaryTable(byProduct, 'product')}
+            </div>
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2">{t('stock_by_region')}</h4>
+              {renderSummaryTable(byRegion, 'region')}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-slate-700 mb-2">{t('stock_problems')}</h4>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-sm text-start">
+                <thead className="text-xs text-blue-800 uppercase bg-white/50 sticky top-0">
+                  <tr>
+                    <th scope="col" className="px-4 py-3">{t('pharmacy')}</th>
+                    <th scope="col" className="px-4 py-3">{t('region')}</th>
+                    <th scope="col" className="px-4 py-3">{t('rep_name')}</th>
+                    <th scope="col" className="px-4 py-3">{t('product')}</th>
+                    <th scope="col" className="px-4 py-3">{t('availability')}</th>
+                    <th scope="col" className="px-4 py-3 text-center">{t('shelf_quantity')}</th>
+                    <th scope="col" className="px-4 py-3 text-center">{t('order_quantity')}</th>
+                    <th scope="col" className="px-4 py-3">{t('last_checked')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {problems.map(l => (
+                    <tr key={`${l.pharmacyId}-${l.productId}`} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+                      <td className="px-4 py-3 font-medium text-slate-900">{l.pharmacyName}</td>
+                      <td className="px-4 py-3">{l.regionName}</td>
+                      <td className="px-4 py-3">{l.repName}</td>
+                      <td className="px-4 py-3">{l.productName}</td>
+                      <td className="px-4 py-3">
+                        <span className={`text-xs font-semibold px-2.5 py-0.5 rounded-full ${STATUS_BADGES[l.status]}`}>{t(`stock_${l.status}`)}</span>
+                      </td>
+                      <td className="px-4 py-3 text-center">{l.shelfQuantity ?? '-'}</td>
+                      <td className="px-4 py-3 text-center">{l.orderQuantity ?? '-'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">{new Date(l.checkedAt).toLocaleDateString(t('locale'))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {problems.length === 0 && <p className="text-center p-6 text-slate-600">{t('no_stock_problems')}</p>}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockOutReport;
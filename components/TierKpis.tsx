@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { Doctor, Pharmacy, SystemSettings, VisitReport } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+import { computeTierKpis } from '../services/tierKpiService';
+import { DEFAULT_VISIT_TARGET_DAYS } from '../services/visitTargetService';
+
+interface TierKpisProps {
+  doctors: Doctor[];
+  pharmacies: Pharmacy[];
+  reports: VisitReport[];
+  settings: SystemSettings | null;
+  repName?: string; // Shown in the title when the numbers are for one rep
+}
+
+const getAttainmentColor = (value: number | null) => {
+  if (value === null) return 'text-slate-400';
+  if (value >= 90) return 'text-green-700';
+  if (value >= 60) return 'text-yellow-700';
+  return 'text-red-700';
+};
+
+const TierKpis: React.FC<TierKpisProps> = ({ doctors, pharmacies, reports, settings, repName }) => {
+  const { t } = useLanguage();
+
+  const kpis = useMemo(() => {
+    const today = new Date();
+    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
+    const targets = settings ?? { visitTargets: [], defaultVisitTargetDays: DEFAULT_VISIT_TARGET_DAYS };
+    return computeTierKpis(doctors, pharmacies, reports, targets, startOfMonth, today);
+  }, [doctors, pharmacies, reports, settings]);
+
+  return (
+    <div className="bg-white/40 backdrop-blur-lg rounded-2xl shadow-lg border border-white/50 overflow-hidden">
+      <div className="p-4 bg-white/50 border-b border-white/30">
+        <h3 className="text-lg font-semibold text-blue-800">{t('tier_kpis_monthly')} {repName ? `(${repName})` : ''}</h3>
+        <p className="text-xs text-slate-600 mt-1">{t('tier_kpis_hint')}</p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-start text-gray-500">
+          <thead className="text-xs text-blue-800 uppercase bg-white/50">
+            <tr>
+              <th scope="col" className="px-6 py-3">{t('tier')}</th>
+              <th scope="col" className="px-6 py-3">{t('clients')}</th>
+              <th scope="col" className="px-6 py-3">{t('covered_clients')}</th>
+              <th scope="col" className="px-6 py-3">{t('coverage')}</th>
+              <th scope="col" className="px-6 py-3">{t('visits')}</th>
+              <th scope="col" className="px-6 py-3">{t('expected_visits')}</th>
+              <th scope="col" className="px-6 py-3">{t('frequency_attainment')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {kpis.map(kpi => (
+              <tr key={kpi.tier ?? 'none'} className="bg-white/20 border-b border-white/30 hover:bg-white/40">
+                <td className="px-6 py-4 font-medium text-slate-900">{kpi.tier ? t('tier_label', kpi.tier) : t('no_tier')}</td>
+                <td className="px-6 py-4">{kpi.clientCount}</td>
+                <td className="px-6 py-4">{kpi.coveredCount}</td>
+                <td className={`px-6 py-4 font-semibold ${getAttainmentColor(kpi.coverage)}`}>{kpi.coverage === null ? '-' : `${kpi.coverage}%`}</td>
+                <td className="px-6 py-4">{kpi.visitCount}</td>
+                <td className="px-6 py-4">{kpi.expectedVisits}</td>
+                <td className={`px-6 py-4 font-semibold ${getAttainmentColor(kpi.frequencyAttainment)}`}>{kpi.frequencyAttainment === null ? '-' : `${kpi.frequencyAttainment}%`}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TierKpis;
@@ -10,9 +10,10 @@ interface UserEditModalProps {
   onClose: () => void;
   onSuccess: () => void;
   userToEdit: User | null;
+  supervisors: User[];
 }
 
-const UserEditModal: React.FC<UserEditModalProps> = ({ isOpen, onClose, onSuccess, userToEdit }) => {
+const UserEditModal: React.FC<UserEditModalProps> = ({ isOpen, onClose, onSuccess, userToEdit, supervisors }) => {
   const { t } = useLanguage();
   const isEditMode = !!userToEdit;
 
@@ -21,6 +22,7 @@ const UserEditModal: React.FC<UserEditModalProps> = ({ isOpen, onClose, onSucces
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [role, setRole] = useState<UserRole>(UserRole.Rep);
+  const [supervisorId, setSupervisorId] = useState<string>('');
   const [error, setError] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
@@ -31,10 +33,12 @@ const UserEditModal: React.FC<UserEditModalProps> = ({ isOpen, onClose, onSucces
           setName(userToEdit.name);
           setUsername(userToEdit.username); // User's email
           setRole(userToEdit.role);
+          setSupervisorId(userToEdit.supervisorId || '');
         } else {
           setName('');
           setUsername('');
           setRole(UserRole.Rep);
+          setSupervisorId('');
         }
         setPassword('');
         setConfirmPassword('');
@@ -74,9 +78,10 @@ const UserEditModal: React.FC<UserEditModalProps> = ({ isOpen, onClose, onSucces
     setSubmitting(true);
     try {
         if (isEditMode && userToEdit) {
-            const updates: Partial<Pick<User, 'name' | 'role'>> = {
+            const updates: Partial<Pick<User, 'name' | 'role' | 'supervisorId'>> = {
                 name,
                 role,
+                supervisorId: role === UserRole.Rep ? supervisorId || null : null,
             };
             // If username (email) needs to be updated, it needs to be handled via supabase.auth.updateUser
             // which requires admin privileges or re-authentication. For simplicity in this client-side demo,
@@ -85,7 +90,7 @@ const UserEditModal: React.FC<UserEditModalProps> = ({ isOpen, onClose, onSucces
             await api.updateUser(userToEdit.id, updates);
             setSuccessMessage(t('user_updated_successfully', name));
         } else {
-            await api.addUser({ name, username, password, role });
+            await api.addUser({ name, username, password, role, supervisorId: role === UserRole.Rep ? supervisorId || null : null });
             setSuccessMessage(t('user_added_successfully', name));
         }
         setTimeout(() => {
@@ -161,6 +166,23 @@ const UserEditModal: React.FC<UserEditModalProps> = ({ isOpen, onClose, onSucces
                     </select>
                 </div>
 
+                {role === UserRole.Rep && (
+                    <div>
+                        <label htmlFor="supervisor" className="block text-sm font-medium text-slate-800">{t('supervisor')}</label>
+                        <select
+                            id="supervisor"
+                            value={supervisorId}
+                            onChange={(e) => setSupervisorId(e.target.value)}
+                            className="mt-1 block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500"
+                        >
+                            <option value="">{t('no_supervisor')}</option>
+                            {supervisors.map(s => (
+                                <option key={s.id} value={s.id}>{s.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
                 {!isEditMode && (
                 <>
                     <div>
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { User, Product, VisitReport, VisitDetails, VisitAuditEntry, VisitEdit, ProductFeedback } from '../types';
+import { api } from '../services/api';
+import { useLanguage } from '../hooks/useLanguage';
+import { canModifyVisit, visitKind, auditFieldChanges } from '../services/visitEditService';
+import { ProductFeedbackDraft, EMPTY_PRODUCT_FEEDBACK, feedbackDrafts, completeProductFeedback } from '../services/productFeedbackService';
+import { TrashIcon } from './icons';
+import Modal from './Modal';
+import Spinner from './Spinner';
+import ProductFeedbackFields from './ProductFeedbackFields';
+
+interface VisitEditModalProps {
+  report: VisitReport | null; // The modal is open while a report is set
+  user: User;
+  products: Product[];
+  graceHours: number;
+  onClose: () => void;
+  onChanged: () => void; // Called after the visit was updated or deleted
+}
+
+const VisitEditModal: React.FC<VisitEditModalProps> = ({ report, user, products, graceHours, onClose, onChanged }) => {
+  const { t } = useLanguage();
+  const [details, setDetails] = useState<VisitDetails | null>(null);
+  const [auditLog, setAuditLog] = useState<VisitAuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [productIds, setProductIds] = useState<number[]>([]);
+  const [productFeedback, setProductFeedback] = useState<Record<number, ProductFeedbackDraft>>({});
+  const [comment, setComment] = useState('');
+  const [reason, setReason] = useState('');
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const canModify = !!report && canModifyVisit(report, user, graceHours);
+
+  useEffect(() => {
+    if (!report) return;
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError('');
+      setReason('');
+      setConfirmingDelete(false);
+      try {
+        const kind = visitKind(report);
+        const [detailsData, auditData] = await Promise.all([
+          api.getVisitDetails(kind, report.id),
+          api.getVisitAuditLog(kind, report.id),
+        ]);
+        if (cancelled) return;
+        setDetails(detailsData);
+        setAuditLog(auditData);
+        setProductIds(detailsData.productIds);
+        setProductFeedback(feedbackDrafts(detailsData.productFeedback));
+        setComment(detailsData.comment);
+      } catch (err) {
+        console.error("Failed to load visit for editing", err);
+        if (!cancelled) setError(t('error_loading_visit'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [report, t]);
+
+  const productMap = useMemo(() => new Map(products.map(p => [p.id, p.name])), [products]);
+  // Products already on the visit stay selectable even if they were discontinued since
+  const selectableProducts = useMemo(() => products.filter(p => p.isActive || details?.productIds.includes(p.id)), [products, details]);
+
+  const toggleProduct = (productId: number) => {
+    setProductIds(prev => prev.includes(productId)
+      ? prev.filter(id => id !== productId)
+      : prev.length < 3 ? [...prev, productId] : prev);
+  };
+
+  const handleProductFeedbackChange = (productId: number, changes: Partial<ProductFeedbackDraft>) => {
+    setProductFeedback(prev => ({ ...prev, [productId]: { ...(prev[productId] || EMPTY_PRODUCT_FEEDBACK), ...changes } }));
+  };
+
+  const formatValue = (field: keyof VisitEdit, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '-';
+    if (field === 'productIds') return (value as number[]).map(id => productMap.get(id) || t('unknown')).join(', ') || '-';
+    if (field === 'productFeedback') {
+      return (value as ProductFeedback[])
+        .map(f => `${productMap.get(f.productId) || t('unknown')}: ${t(`reaction_${f.reaction}`)}, ${t(`intent_${f.prescriptionIntent}`)}`)
+        .join(' · ') || '-';
+    }
+    if (field === 'visitType') return t(value as string);
+    return String(value);
+  };
+
+  const handleError = (err: any, fallback: string) => {
+    const known = ['error_visit_edit_window_closed', 'error_permission_denied'];
+    setError(t(known.includes(err.message) ? err.message : fallback));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!report || !details) return;
+    if (!comment.trim() || (details.kind === 'doctor' && productIds.length === 0)) {
+      setError(t(details.kind === 'doctor' && productIds.length === 0 ? 'error_select_product' : 'error_add_notes'));
+      return;
+    }
+    // Visits recorded before product feedback existed can still be corrected without adding it
+    const feedback = completeProductFeedback(productIds, productFeedback);
+    if (details.kind === 'doctor' && !feedback && details.productFeedback.length > 0) {
+      setError(t('error_product_feedback_incomplete'));
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      // The visit type is sent back unchanged: coaching visits carry a coach and an evaluation this form doesn't edit
+      await api.updateVisit(details.kind, report.id, { productIds, productFeedback: feedback ?? details.productFeedback, visitType: details.visitType, comment: comment.trim() }, reason.trim());
+      onChanged();
+      onClose();
+    } catch (err: any) {
+      console.error("Failed to update visit", err);
+      handleError(err, 'error_updating_visit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!report || !details) return;
+    if (!reason.trim()) {
+      setError(t('error_delete_reason_required'));
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      await api.deleteVisit(details.kind, report.id, reason.trim());
+      onChanged();
+      onClose();
+    } catch (err: any) {
+      console.error("Failed to delete visit", err);
+      handleError(err, 'error_deleting_visit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!report) return null;
+
+  return (
+    <Modal isOpen={!!report} onClose={onClose} title={t(canModify ? 'edit_visit' : 'visit_history', report.targetName)}>
+      {loading ? <Spinner /> : (
+        <div className="space-y-6">
+          <p className="text-sm text-slate-600">
+            {report.targetName} · {report.repName} · {new Date(report.date).toLocaleString(t('locale'), { dateStyle: 'medium', timeStyle: 'short' })}
+          </p>
+
+          {details && canModify && (
+            <form onSubmit={handleSave} className="space-y-4">
+              {details.kind === 'doctor' && (
+                <>
+                  <div>
+                    <label className="block mb-2 text-sm font-medium text-slate-800">{t('products_select_limit')}</label>
+                    <div className="grid grid-cols-2 gap-2 p-3 bg-white/30 rounded-lg">
+                      {selectableProducts.map(p => (
+                        <label key={p.id} className="flex items-center space-x-2 space-x-reverse cursor-pointer">
+                          <input type="checkbox" checked={productIds.includes(p.id)} onChange={() => toggleProduct(p.id)} className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500" />
+                          <span className="text-sm font-medium text-slate-800">{p.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  {productIds.length > 0 && (
+                    <div>
+                      <label className="block mb-2 text-sm font-medium text-slate-800">{t('product_feedback')}</label>
+                      <ProductFeedbackFields productIds={productIds} products={products} drafts={productFeedback} onChange={handleProductFeedbackChange} />
+                    </div>
+                  )}
+                  {details.visitType && (
+                    <div>
+                      <p className="text-sm font-medium text-slate-800">{t('visit_type')}: {t(details.visitType)}</p>
+                      <p className="text-xs text-slate-500 mt-1">{t('visit_type_fixed')}</p>
+                    </div>
+                  )}
+                </>
+              )}
+              <div>
+                <label htmlFor="editComment" className="block mb-2 text-sm font-medium text-slate-800">{t('notes')}</label>
+                <textarea id="editComment" rows={3} value={comment} onChange={e => setComment(e.target.value)} className="block p-2.5 w-full text-sm text-slate-900 bg-white/50 rounded-lg border border-slate-300/50 focus:ring-orange-500 focus:border-orange-500" />
+              </div>
+              <div>
+                <label htmlFor="editReason" className="block mb-2 text-sm font-medium text-slate-800">{t('change_reason')}</label>
+                <input id="editReason" type="text" value={reason} onChange={e => setReason(e.target.value)} className="block w-full p-2 border border-slate-300/50 bg-white/50 rounded-md focus:ring-orange-500 focus:border-orange-500" />
+              </div>
+
+              {error && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>}
+
+              {confirmingDelete ? (
+                <div className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg bg-red-100/70">
+                  <span className="text-sm text-red-800">{t('confirm_delete_visit')}</span>
+                  <div className="flex gap-2">
+                    <button type="button" onClick={() => setConfirmingDelete(false)} className="text-slate-700 bg-transparent hover:bg-slate-200/50 rounded-lg border border-slate-300 text-sm font-medium px-4 py-2 transition-colors">{t('cancel')}</button>
+                    <button type="button" onClick={handleDelete} disabled={saving} className="text-white bg-red-600 hover:bg-red-700 font-medium rounded-lg text-sm px-4 py-2 disabled:bg-red-300 transition-colors">{t('delete')}</button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between pt-4 border-t border-slate-300/50">
+                  <button type="button" onClick={() => setConfirmingDelete(true)} className="flex items-center gap-1 text-sm font-medium text-red-600 hover:text-red-800">
+                    <TrashIcon className="w-4 h-4" />
+                    {t('delete_visit')}
+                  </button>
+                  <div className="flex items-center space-x-2 space-x-reverse">
+                    <button type="button" onClick={onClose} className="text-slate-700 bg-transparent hover:bg-slate-200/50 rounded-lg border border-slate-300 text-sm font-medium px-5 py-2.5 transition-colors">{t('cancel')}</button>
+                    <button type="submit" disabled={saving} className="text-white bg-blue-600 hover:bg-orange-500 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-blue-300 transition-colors">
+                      {saving ? t('saving') : t('save_changes')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </form>
+          )}
+
+          {!canModify && (
+            <p className="text-sm text-slate-600 bg-slate-100/60 p-3 rounded-lg">{t('visit_edit_window_passed', graceHours)}</p>
+          )}
+          {!canModify && error && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>}
+
+          <div>
+            <h4 className="font-semibold text-slate-700 mb-2">{t('change_history')}</h4>
+            {auditLog.length > 0 ? (
+              <ul className="space-y-3 max-h-64 overflow-y-auto">
+                {auditLog.map(entry => (
+                  <li key={entry.id} className="p-3 bg-white/30 rounded-lg text-sm">
+                    <p className="text-xs text-slate-600">
+                      <span className={`font-semibold me-2 ${entry.action === 'delete' ? 'text-red-700' : 'text-blue-700'}`}>{t(`visit_audit_${entry.action}`)}</span>
+                      {entry.changedByName || t('unknown')} · {new Date(entry.changedAt).toLocaleString(t('locale'), { dateStyle: 'medium', timeStyle: 'short' })}
+                    </p>
+                    {entry.reason && <p className="text-xs text-slate-600 mt-1">{t('change_reason')}: {entry.reason}</p>}
+                    <ul className="mt-2 space-y-1">
+                      {auditFieldChanges(entry).map(change => (
+                        <li key={change.field} className="text-xs">
+                          <span className="font-semibold text-slate-700">{t(`visit_field_${change.field}`)}:</span>{' '}
+                          <span className="text-red-700 line-through">{formatValue(change.field, change.before)}</span>
+                          {entry.after && <> → <span className="text-green-700">{formatValue(change.field, change.after)}</span></>}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            ) : <p className="text-sm text-slate-500">{t('no_changes_recorded')}</p>}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default VisitEditModal;
@@ -1,7 +1,25 @@
-import React, { useState, useMemo } from 'react';
-import { Doctor, Pharmacy, User, Product, Region } from '../types';
+import React, { useState, useMemo, useRef } from 'react';
+import { Doctor, Pharmacy, User, Product, Region, NewDoctorVisit, NewPharmacyVisit, PharmacyStockCheck, StockStatus, SampleBalance, SampleDistribution, VisitLocation } from '../types';
 import { api } from '../services/api';
+import { outboxService, isNetworkError, generateRequestId } from '../services/outboxService';
 import { useLanguage } from '../hooks/useLanguage';
+import { SAMPLE_KINDS, sampleBalanceKey, indexRepBalances } from '../services/sampleService';
+import { getCurrentLocation } from '../services/geoService';
+import { ProductFeedbackDraft, EMPTY_PRODUCT_FEEDBACK, completeProductFeedback } from '../services/productFeedbackService';
+import ProductFeedbackFields from './ProductFeedbackFields';
+
+const STOCK_STATUSES: StockStatus[] = ['in_stock', 'low', 'out_of_stock'];
+
+// Stock entry as typed in the form; quantities stay strings until submit
+interface StockCheckDraft {
+  status: StockStatus | '';
+  shelfQuantity: string;
+  orderQuantity: string;
+}
+
+const EMPTY_STOCK_CHECK: StockCheckDraft = { status: '', shelfQuantity: '', orderQuantity: '' };
+
+const parseQuantity = (value: string): number | null => (value.trim() === '' ? null : Number(value));
 
 interface VisitFormProps {
   user: User;
@@ -11,20 +29,30 @@ interface VisitFormProps {
   regions: Region[];
   initialRegionId?: number | null;
   pendingDoctorsForToday?: Doctor[];
-  onSuccess: () => void;
+  sampleBalances?: SampleBalance[]; // The rep's sample inventory; quantities handed out can't exceed it
+  coaches?: User[]; // Supervisors and managers who can join a coaching visit
+  onSuccess: (savedOffline?: boolean) => void;
   onCancel: () => void;
 }
 
-const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmacies, regions, initialRegionId, pendingDoctorsForToday, onSuccess, onCancel }) => {
+const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmacies, regions, initialRegionId, pendingDoctorsForToday, sampleBalances, coaches = [], onSuccess, onCancel }) => {
   const { t } = useLanguage();
   const [visitTargetType, setVisitTargetType] = useState<'doctor' | 'pharmacy'>('doctor');
   const [regionId, setRegionId] = useState<string>(initialRegionId ? String(initialRegionId) : '');
   const [targetId, setTargetId] = useState<string>('');
   const [selectedProductIds, setSelectedProductIds] = useState<number[]>([]);
   const [visitType, setVisitType] = useState<'Coaching' | 'Single' | null>('Single');
+  const [coachId, setCoachId] = useState<string>(user.supervisorId ?? ''); // The rep's own supervisor usually coaches
   const [notes, setNotes] = useState('');
+  const [stockChecks, setStockChecks] = useState<Record<number, StockCheckDraft>>({});
+  const [productFeedback, setProductFeedback] = useState<Record<number, ProductFeedbackDraft>>({});
+  const [sampleQuantities, setSampleQuantities] = useState<Record<string, string>>({}); // Keyed by sampleBalanceKey
   
+  const [shareLocation, setShareLocation] = useState(true);
+  const [locating, setLocating] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  // One idempotency key for this visit, shared by the online attempt, any retry of the form and the outbox
+  const requestIdRef = useRef(generateRequestId());
   const [error, setError] = useState('');
 
   // States for pharmacy autocomplete
@@ -61,6 +89,9 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
     setTargetId('');
     setTargetNameInput('');
     setSelectedProductIds([]);
+    setStockChecks({});
+    setProductFeedback({});
+    setSampleQuantities({});
     setNotes('');
     setVisitType(type === 'doctor' ? 'Single' : null);
     setDoctorSelectionMode('planned'); // Reset to planned view
@@ -103,6 +134,9 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
     setShowSuggestions(false);
   };
   
+  // Discontinued products can't be detailed anymore, but stay in the catalog for past visits
+  const activeProducts = useMemo(() => products.filter(p => p.isActive), [products]);
+
   const handleProductChange = (productId: number) => {
     setSelectedProductIds(prev => {
         const isSelected = prev.includes(productId);
@@ -115,6 +149,38 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
     });
   };
 
+  const repBalances = useMemo(() => indexRepBalances(sampleBalances || [], user.id), [sampleBalances, user.id]);
+
+  // Quantities typed for products that were later unselected are ignored
+  const recordedSamples = useMemo((): SampleDistribution[] => selectedProductIds.flatMap(productId =>
+    SAMPLE_KINDS.map(kind => ({ productId, kind, quantity: parseQuantity(sampleQuantities[sampleBalanceKey(productId, kind)] || '') ?? 0 }))
+  ).filter(sample => sample.quantity !== 0), [selectedProductIds, sampleQuantities]);
+
+  const handleProductFeedbackChange = (productId: number, changes: Partial<ProductFeedbackDraft>) => {
+    setProductFeedback(prev => ({ ...prev, [productId]: { ...(prev[productId] || EMPTY_PRODUCT_FEEDBACK), ...changes } }));
+  };
+
+  const recordedProductFeedback = useMemo(() => completeProductFeedback(selectedProductIds, productFeedback), [selectedProductIds, productFeedback]);
+
+  const handleStockCheckChange = (productId: number, changes: Partial<StockCheckDraft>) => {
+    setStockChecks(prev => {
+      const next = { ...(prev[productId] || EMPTY_STOCK_CHECK), ...changes };
+      // An empty shelf has nothing to count
+      if (changes.status === 'out_of_stock') next.shelfQuantity = '0';
+      return { ...prev, [productId]: next };
+    });
+  };
+
+  // Only products the rep actually checked are recorded
+  const recordedStockChecks = useMemo((): PharmacyStockCheck[] => Object.entries(stockChecks)
+    .filter(([, draft]) => draft.status !== '')
+    .map(([productId, draft]) => ({
+      productId: Number(productId),
+      status: draft.status as StockStatus,
+      shelfQuantity: parseQuantity(draft.shelfQuantity),
+      orderQuantity: parseQuantity(draft.orderQuantity),
+    })), [stockChecks]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const errors: string[] = [];
@@ -122,15 +188,34 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
     if (!targetId) {
         errors.push(t('error_select_client'));
     }
-    if (!notes.trim()) {
+    // A pharmacy visit needs notes or at least one stock check
+    if (!notes.trim() && (visitTargetType === 'doctor' || recordedStockChecks.length === 0)) {
         errors.push(t('error_add_notes'));
     }
+    if (visitTargetType === 'doctor') {
+        if (recordedSamples.some(sample => !Number.isInteger(sample.quantity) || sample.quantity < 0)) {
+            errors.push(t('error_invalid_sample_quantity'));
+        } else if (sampleBalances) {
+            const exceeded = recordedSamples.find(sample => sample.quantity > (repBalances.get(sampleBalanceKey(sample.productId, sample.kind)) || 0));
+            if (exceeded) {
+                errors.push(t('error_sample_exceeds_balance', products.find(p => p.id === exceeded.productId)?.name || '', t(`sample_kind_${exceeded.kind}`)));
+            }
+        }
+    }
+    if (visitTargetType === 'pharmacy' && recordedStockChecks.some(check =>
+        [check.shelfQuantity, check.orderQuantity].some(q => q !== null && (!Number.isInteger(q) || q < 0)))) {
+        errors.push(t('error_invalid_stock_quantity'));
+    }
     if (visitTargetType === 'doctor') {
         if(selectedProductIds.length === 0) {
             errors.push(t('error_select_product'));
+        } else if (!recordedProductFeedback) {
+            errors.push(t('error_product_feedback_incomplete'));
         }
         if(!visitType) {
             errors.push(t('error_select_visit_type'));
+        } else if (visitType === 'Coaching' && !coachId) {
+            errors.push(t('error_select_coach'));
         }
     }
 
@@ -142,26 +227,74 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
     setSubmitting(true);
     setError('');
 
-    try {
-      if (visitTargetType === 'doctor' && visitType) { // visitType is now guaranteed to be non-null here
-        await api.addDoctorVisit({
+    // GPS check-in is best effort: without a fix the visit is saved with no location
+    let location: VisitLocation | null = null;
+    if (shareLocation) {
+      setLocating(true);
+      location = await getCurrentLocation();
+      setLocating(false);
+    }
+
+    const doctorVisit: NewDoctorVisit | null = visitTargetType === 'doctor' && visitType // visitType is now guaranteed to be non-null here
+      ? {
           doctorId: parseInt(targetId),
           repId: user.id,
           productIds: selectedProductIds,
           regionId: parseInt(regionId),
           visitType: visitType,
-          doctorComment: notes
-        });
+          coachId: visitType === 'Coaching' ? coachId : null,
+          doctorComment: notes,
+          productFeedback: recordedProductFeedback || [],
+          samples: recordedSamples,
+          location
+        }
+      : null;
+    const pharmacyVisit: NewPharmacyVisit = {
+      pharmacyId: parseInt(targetId),
+      repId: user.id,
+      regionId: parseInt(regionId),
+      visitNotes: notes,
+      stockChecks: recordedStockChecks,
+      location
+    };
+
+    const clientRequestId = requestIdRef.current;
+
+    // Keep the visit in the local outbox; it is replayed once we're back online.
+    const saveOffline = async () => {
+      if (doctorVisit) {
+        await outboxService.enqueueDoctorVisit(doctorVisit, clientRequestId);
       } else {
-        await api.addPharmacyVisit({
-          pharmacyId: parseInt(targetId),
-          repId: user.id,
-          regionId: parseInt(regionId),
-          visitNotes: notes
-        });
+        await outboxService.enqueuePharmacyVisit(pharmacyVisit, clientRequestId);
+      }
+      onSuccess(true);
+    };
+
+    try {
+      if (!navigator.onLine) {
+        await saveOffline();
+        return;
+      }
+      if (doctorVisit) {
+        await api.addDoctorVisit({ ...doctorVisit, clientRequestId });
+      } else {
+        await api.addPharmacyVisit({ ...pharmacyVisit, clientRequestId });
       }
       onSuccess();
-    } catch (err) {
+    } catch (err: any) {
+      // An earlier attempt of this same submission was saved although its response never arrived
+      if (err?.message === 'error_duplicate_visit') {
+        onSuccess();
+        return;
+      }
+      if (isNetworkError(err)) {
+        try {
+          await saveOffline();
+          return;
+        } catch (queueError) {
+          console.error("Failed to queue visit offline", queueError);
+        }
+      }
       setError(t('error_saving_visit'));
     } finally {
       setSubmitting(false);
@@ -317,7 +450,7 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
             <div>
               <label className="block mb-2 text-sm font-medium text-slate-800">{t('products_select_limit')}</label>
               <div className="grid grid-cols-2 gap-2 p-3 bg-white/30 rounded-lg">
-                {products.map(p => (
+                {activeProducts.map(p => (
                   <label key={p.id} className="flex items-center space-x-2 space-x-reverse cursor-pointer">
                     <input 
                       type="checkbox"
@@ -331,6 +464,50 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
               </div>
             </div>
 
+            {/* How the doctor received each selected product */}
+            {selectedProductIds.length > 0 && (
+              <div>
+                <label className="block mb-2 text-sm font-medium text-slate-800">{t('product_feedback')}</label>
+                <ProductFeedbackFields
+                  productIds={selectedProductIds}
+                  products={products}
+                  drafts={productFeedback}
+                  onChange={handleProductFeedbackChange}
+                />
+              </div>
+            )}
+
+            {/* Samples handed out for the selected products */}
+            {selectedProductIds.length > 0 && (
+              <div>
+                <label className="block mb-2 text-sm font-medium text-slate-800">{t('samples_given')}</label>
+                <div className="space-y-2 p-3 bg-white/30 rounded-lg">
+                  {selectedProductIds.map(productId => (
+                    <div key={productId} className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-center">
+                      <span className="text-sm font-medium text-slate-800">{products.find(p => p.id === productId)?.name}</span>
+                      {SAMPLE_KINDS.map(kind => {
+                        const key = sampleBalanceKey(productId, kind);
+                        return (
+                          <label key={kind} className="flex items-center gap-2 text-xs text-slate-600">
+                            <span className="whitespace-nowrap">{t(`sample_kind_${kind}`)}</span>
+                            <input
+                              type="number"
+                              min={0}
+                              step={1}
+                              value={sampleQuantities[key] || ''}
+                              onChange={e => setSampleQuantities(prev => ({ ...prev, [key]: e.target.value }))}
+                              className="w-16 p-1 text-sm border border-slate-300/50 bg-white/60 rounded focus:ring-orange-500 focus:border-orange-500"
+                            />
+                            {sampleBalances && <span className="whitespace-nowrap">{t('sample_available', repBalances.get(key) || 0)}</span>}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Coaching/Single Selector */}
             <div>
                 <label className="block mb-2 text-sm font-medium text-slate-800">{t('coaching_single_select')}</label>
@@ -344,9 +521,83 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
                         <span className="ms-2 text-sm font-medium text-gray-900">{t('Coaching')}</span>
                     </label>
                 </div>
+                {visitType === 'Coaching' && (
+                    <select
+                        value={coachId}
+                        onChange={(e) => setCoachId(e.target.value)}
+                        aria-label={t('coach')}
+                        className="mt-2 bg-white/50 border border-slate-300/50 text-slate-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+                    >
+                        <option value="">{t('select_coach')}</option>
+                        {coaches.map(coach => <option key={coach.id} value={coach.id}>{coach.name}</option>)}
+                    </select>
+                )}
             </div>
         </>
       )}
+      {visitTargetType === 'pharmacy' && (
+        <div>
+          <label className="block mb-2 text-sm font-medium text-slate-800">{t('stock_check')}</label>
+          <div className="max-h-64 overflow-y-auto bg-white/30 rounded-lg">
+            <table className="w-full text-sm text-start">
+              <thead className="text-xs text-orange-800 uppercase bg-slate-100/50 sticky top-0">
+                <tr>
+                  <th className="px-2 py-2">{t('product')}</th>
+                  <th className="px-2 py-2">{t('availability')}</th>
+                  <th className="px-2 py-2">{t('shelf_quantity')}</th>
+                  <th className="px-2 py-2">{t('order_quantity')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {activeProducts.map(p => {
+                  const draft = stockChecks[p.id] || EMPTY_STOCK_CHECK;
+                  return (
+                    <tr key={p.id} className="border-b border-slate-200/50">
+                      <td className="px-2 py-2 font-medium text-slate-800">{p.name}</td>
+                      <td className="px-2 py-2">
+                        <select
+                          value={draft.status}
+                          onChange={e => handleStockCheckChange(p.id, { status: e.target.value as StockStatus | '' })}
+                          aria-label={t('availability')}
+                          className="w-full p-1 text-sm border border-slate-300/50 bg-white/60 rounded focus:ring-orange-500 focus:border-orange-500"
+                        >
+                          <option value="">{t('not_checked')}</option>
+                          {STOCK_STATUSES.map(status => <option key={status} value={status}>{t(`stock_${status}`)}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-2 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={draft.shelfQuantity}
+                          onChange={e => handleStockCheckChange(p.id, { shelfQuantity: e.target.value })}
+                          disabled={draft.status === '' || draft.status === 'out_of_stock'}
+                          aria-label={t('shelf_quantity')}
+                          className="w-20 p-1 text-sm border border-slate-300/50 bg-white/60 rounded focus:ring-orange-500 focus:border-orange-500 disabled:bg-slate-100/50 disabled:text-slate-400"
+                        />
+                      </td>
+                      <td className="px-2 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={draft.orderQuantity}
+                          onChange={e => handleStockCheckChange(p.id, { orderQuantity: e.target.value })}
+                          disabled={draft.status === ''}
+                          aria-label={t('order_quantity')}
+                          className="w-20 p-1 text-sm border border-slate-300/50 bg-white/60 rounded focus:ring-orange-500 focus:border-orange-500 disabled:bg-slate-100/50 disabled:text-slate-400"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       <div>
         <label htmlFor="notes" className="block mb-2 text-sm font-medium text-slate-800">
           {t(visitTargetType === 'doctor' ? 'doctor_comment' : 'visit_notes')}
@@ -358,10 +609,20 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
           onChange={(e) => setNotes(e.target.value)}
           className="block p-2.5 w-full text-sm text-slate-900 bg-white/50 rounded-lg border border-slate-300/50 focus:ring-orange-500 focus:border-orange-500"
           placeholder={t('write_notes_here')}
-          required
+          required={visitTargetType === 'doctor' || recordedStockChecks.length === 0}
         ></textarea>
       </div>
 
+      <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={shareLocation}
+          onChange={e => setShareLocation(e.target.checked)}
+          className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500"
+        />
+        {t('share_visit_location')}
+      </label>
+
       {error && <p className="text-red-500 text-sm text-center bg-red-100 p-2 rounded-lg">{error}</p>}
       
       <div className="flex items-center justify-end space-x-2 space-x-reverse pt-4 border-t border-slate-300/50">
@@ -377,7 +638,7 @@ const VisitForm: React.FC<VisitFormProps> = ({ user, products, doctors, pharmaci
           disabled={submitting || (visitTargetType === 'doctor' && !targetId)}
           className="text-white bg-blue-600 hover:bg-orange-500 focus:ring-4 focus:outline-none focus:ring-orange-300 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:bg-blue-300 transition-colors"
         >
-          {submitting ? t('saving') : t('save')}
+          {locating ? t('getting_location') : submitting ? t('saving') : t('save')}
         </button>
       </div>
     </form>
@@ -0,0 +1,38 @@
+import React from 'react';
+import { VisitReport } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+import { checkVisitLocation, formatDistance } from '../services/geoService';
+import { MapPinIcon, WarningIcon } from './icons';
+
+interface VisitLocationBadgeProps {
+  report: VisitReport;
+  maxDistanceMeters: number;
+}
+
+// GPS check-in result of a visit: verified near the client, flagged as far away, or not checkable
+const VisitLocationBadge: React.FC<VisitLocationBadgeProps> = ({ report, maxDistanceMeters }) => {
+  const { t } = useLanguage();
+  const { status, distance } = checkVisitLocation(report, maxDistanceMeters);
+
+  if (status === 'far') {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-red-100 text-red-800 whitespace-nowrap" title={t('visit_far_from_client_hint', formatDistance(maxDistanceMeters))}>
+        <WarningIcon className="w-3.5 h-3.5" />
+        {t('visit_far_from_client', formatDistance(distance!))}
+      </span>
+    );
+  }
+  if (status === 'verified') {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-green-100 text-green-800 whitespace-nowrap">
+        <MapPinIcon className="w-3.5 h-3.5" />
+        {t('visit_location_verified', formatDistance(distance!))}
+      </span>
+    );
+  }
+  return (
+    <span className="text-xs text-slate-500 whitespace-nowrap">{t(status === 'no_gps' ? 'visit_no_gps' : 'client_no_reference_location')}</span>
+  );
+};
+
+export default VisitLocationBadge;
@@ -1,16 +1,16 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { User, VisitReport, SystemSettings, WeeklyPlan, Region, Doctor } from '../types';
+import { User, VisitReport, SystemSettings, WeeklyPlan, PlanReview, Region, Doctor } from '../types';
 import { useLanguage } from '../hooks/useLanguage';
 import { ArrowRightIcon, ChevronRightIcon, ChevronLeftIcon, MapPinIcon, DoctorIcon, PharmacyIcon, ReplyIcon } from './icons';
 import { api } from '../services/api';
+import { toDateKey, fromDateKey } from '../services/dateUtils';
 import Spinner from './Spinner';
 
 interface WeeklyViewProps {
   user: User;
   visits: VisitReport[];
   settings: SystemSettings | null;
-  plan: WeeklyPlan['plan'] | null; // This is now the new, nested plan structure
   regions: Region[];
   onBack: () => void;
 }
@@ -37,11 +37,15 @@ const toYYYYMMDD = (date: Date): string => {
   return date.toISOString().split('T')[0];
 };
 
-const WeeklyView: React.FC<WeeklyViewProps> = ({ user, visits, settings, plan, regions, onBack }) => {
+const WeeklyView: React.FC<WeeklyViewProps> = ({ user, visits, settings, regions, onBack }) => {
   const { t } = useLanguage();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [allDoctors, setAllDoctors] = useState<Doctor[]>([]);
   const [loadingDoctors, setLoadingDoctors] = useState(true);
+  const [weekPlan, setWeekPlan] = useState<WeeklyPlan | null>(null);
+  const [planReviews, setPlanReviews] = useState<PlanReview[]>([]);
+  const [loadingPlan, setLoadingPlan] = useState(false);
+  const [planHistory, setPlanHistory] = useState<WeeklyPlan[]>([]);
 
   useEffect(() => {
     const fetchDoctors = async () => {
@@ -58,11 +62,47 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({ user, visits, settings, plan, r
     fetchDoctors();
   }, []);
 
+  useEffect(() => {
+    api.getRepPlanHistory(user.id)
+      .then(setPlanHistory)
+      .catch(error => console.error("Failed to fetch plan history for WeeklyView:", error));
+  }, [user.id]);
+
   const WEEK_DAYS = useMemo(() => [t('sunday'), t('monday'), t('tuesday'), t('wednesday'), t('thursday'), t('friday'), t('saturday')], [t]);
   const doctorMap = useMemo(() => new Map(allDoctors.map(doc => [doc.id, doc])), [allDoctors]);
 
 
   const weekDates = useMemo(() => getWeekDates(currentDate), [currentDate]);
+  const weekStartKey = toDateKey(weekDates[0]);
+
+  // Each week has its own plan, so load the one for the week being viewed
+  useEffect(() => {
+    let cancelled = false;
+    const fetchWeekPlan = async () => {
+      setLoadingPlan(true);
+      try {
+        const [planData, reviewsData] = await Promise.all([
+          api.getRepPlan(user.id, weekStartKey),
+          api.getPlanReviews(user.id, weekStartKey),
+        ]);
+        if (cancelled) return;
+        setWeekPlan(planData);
+        setPlanReviews(reviewsData);
+      } catch (error) {
+        console.error("Failed to fetch plan for WeeklyView:", error);
+        if (!cancelled) {
+          setWeekPlan(null);
+          setPlanReviews([]);
+        }
+      } finally {
+        if (!cancelled) setLoadingPlan(false);
+      }
+    };
+    fetchWeekPlan();
+    return () => { cancelled = true; };
+  }, [user.id, weekStartKey]);
+
+  const plan = weekPlan?.plan ?? null;
 
   const navigateWeek = (direction: 'prev' | 'next') => {
     setCurrentDate(prev => {
@@ -84,6 +124,15 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({ user, visits, settings, plan, r
   const weekEnd = weekDates[6];
   const weekRangeString = `${weekStart.toLocaleDateString(t('locale'), { day: 'numeric', month: 'long' })} - ${weekEnd.toLocaleDateString(t('locale'), { day: 'numeric', month: 'long', year: 'numeric' })}`;
 
+  const statusColors: Record<WeeklyPlan['status'], string> = {
+    draft: 'bg-blue-100 text-blue-800',
+    pending: 'bg-yellow-100 text-yellow-800',
+    approved: 'bg-green-100 text-green-800',
+    rejected: 'bg-red-100 text-red-800',
+  };
+
+  const formatDateTime = (value: string) => new Date(value).toLocaleString(t('locale'), { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
 
   if (loadingDoctors) {
     return <Spinner />;
@@ -127,6 +176,45 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({ user, visits, settings, plan, r
         <div className="w-0 md:w-24"></div> {/* Spacer for center alignment */}
       </div>
 
+      {/* Plan status and review trail for the selected week */}
+      <div className="bg-white/40 backdrop-blur-lg p-4 rounded-2xl shadow-lg border border-white/50 mb-8">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-semibold text-slate-700">{t('plan_status')}:</span>
+          {loadingPlan ? (
+            <span className="text-sm text-slate-500">{t('loading')}</span>
+          ) : weekPlan?.id ? (
+            <span className={`text-xs font-semibold px-2.5 py-0.5 rounded-full ${statusColors[weekPlan.status]}`}>{t(`plan_status_${weekPlan.status}`)}</span>
+          ) : (
+            <span className="text-sm text-slate-500">{t('no_plan_submitted')}</span>
+          )}
+        </div>
+        {!loadingPlan && planReviews.length > 0 && (
+          <ul className="mt-3 space-y-1 text-sm text-slate-600">
+            {planReviews.map(review => (
+              <li key={review.id}>
+                {t(`plan_review_${review.action}`, review.reviewerName || t('unknown'), formatDateTime(review.createdAt))}
+              </li>
+            ))}
+          </ul>
+        )}
+        {planHistory.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-slate-300/50">
+            <p className="text-xs uppercase font-bold text-slate-500 mb-2">{t('plan_history')}</p>
+            <div className="flex flex-wrap gap-2">
+              {planHistory.map(pastPlan => (
+                <button
+                  key={pastPlan.weekStart}
+                  onClick={() => setCurrentDate(fromDateKey(pastPlan.weekStart))}
+                  className={`text-xs font-semibold px-3 py-1 rounded-full transition-colors ${pastPlan.weekStart === weekStartKey ? 'ring-2 ring-orange-500' : ''} ${statusColors[pastPlan.status]}`}
+                >
+                  {fromDateKey(pastPlan.weekStart).toLocaleDateString(t('locale'), { day: 'numeric', month: 'short' })}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Days Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-4">
         {weekDates.map(date => {
@@ -146,6 +234,7 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({ user, visits, settings, plan, r
 
           // Get Actual Visits for this day
           const actualVisits = visits.filter(v => toYYYYMMDD(new Date(v.date)) === dateStr);
+          const visitedDoctorIds = new Set(actualVisits.filter(v => v.type === 'DOCTOR_VISIT').map(v => v.clientId));
 
           const cardClasses = `
             p-3 rounded-2xl shadow-lg border flex flex-col justify-between transition-all duration-300
@@ -178,7 +267,11 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({ user, visits, settings, plan, r
                              {doctorIds.length > 0 ? (
                                 <div className="flex flex-wrap gap-1">
                                     {doctorIds.map(docId => (
-                                        <span key={docId} className="flex items-center text-[10px] bg-blue-100/80 text-blue-800 px-1.5 py-0.5 rounded-full">
+                                        <span
+                                            key={docId}
+                                            className={`flex items-center text-[10px] px-1.5 py-0.5 rounded-full ${visitedDoctorIds.has(docId) ? 'bg-green-100/80 text-green-800' : 'bg-blue-100/80 text-blue-800'}`}
+                                            title={visitedDoctorIds.has(docId) ? t('planned_visited') : undefined}
+                                        >
                                             <DoctorIcon className="w-3 h-3 me-1" />
                                             {doctorMap.get(docId)?.name || t('unknown_doctor')}
                                         </span>
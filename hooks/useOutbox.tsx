@@ -0,0 +1,20 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OutboxState } from '../types';
+import { outboxService } from '../services/outboxService';
+
+interface UseOutboxResult extends OutboxState {
+  syncNow: () => Promise<void>;
+  retryFailed: () => Promise<void>;
+}
+
+// Subscribes a component to the offline visit outbox (pending/failed counts and sync status).
+export const useOutbox = (): UseOutboxResult => {
+  const [state, setState] = useState<OutboxState>(outboxService.getState());
+
+  useEffect(() => outboxService.subscribe(setState), []);
+
+  const syncNow = useCallback(() => outboxService.flush(), []);
+  const retryFailed = useCallback(() => outboxService.retryFailed(), []);
+
+  return { ...state, syncNow, retryFailed };
+};
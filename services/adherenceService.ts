@@ -0,0 +1,77 @@
+import { User, VisitReport, WeeklyPlan, DayAdherence, RepWeekAdherence } from '../types';
+import { fromDateKey, toDateKey } from './dateUtils';
+
+// Day indices in the order the work week runs (Saturday first), matching WeeklyPlan.plan keys
+const WEEK_DAY_ORDER = [6, 0, 1, 2, 3, 4, 5];
+
+const unique = (ids: number[]): number[] => Array.from(new Set(ids));
+
+// Compare one rep's plan for a week with the doctor visits they actually logged.
+// A planned doctor only counts as visited when the visit happened on the planned day.
+export const computeRepWeekAdherence = (
+  rep: User,
+  weekStart: string,
+  plan: WeeklyPlan | null,
+  visits: VisitReport[],
+  today: Date = new Date()
+): RepWeekAdherence => {
+  const visitedByDate = new Map<string, number[]>();
+  visits
+    .filter(v => v.type === 'DOCTOR_VISIT' && v.repId === rep.id)
+    .forEach(v => {
+      const dateKey = toDateKey(new Date(v.date));
+      visitedByDate.set(dateKey, [...(visitedByDate.get(dateKey) || []), v.clientId]);
+    });
+
+  const todayKey = toDateKey(today);
+  const startDate = fromDateKey(weekStart);
+
+  const days: DayAdherence[] = WEEK_DAY_ORDER.map((dayIndex, offset) => {
+    const date = new Date(startDate);
+    date.setDate(startDate.getDate() + offset);
+    const dateKey = toDateKey(date);
+
+    const plannedDoctorIds = unique(plan?.plan[dayIndex]?.doctorIds || []);
+    const visitedIds = unique(visitedByDate.get(dateKey) || []);
+    const isUpcoming = dateKey >= todayKey;
+
+    return {
+      dayIndex,
+      date: dateKey,
+      isUpcoming,
+      plannedDoctorIds,
+      visitedPlannedIds: plannedDoctorIds.filter(id => visitedIds.includes(id)),
+      // Today and later days can still be visited, so nothing is missed yet
+      missedIds: isUpcoming ? [] : plannedDoctorIds.filter(id => !visitedIds.includes(id)),
+      unplannedVisitedIds: visitedIds.filter(id => !plannedDoctorIds.includes(id)),
+    };
+  });
+
+  const visitedPlannedCount = days.reduce((sum, d) => sum + d.visitedPlannedIds.length, 0);
+  const missedCount = days.reduce((sum, d) => sum + d.missedIds.length, 0);
+  const unplannedCount = days.reduce((sum, d) => sum + d.unplannedVisitedIds.length, 0);
+  // Only what was due so far: planned doctors of past days plus those already visited on open days
+  const plannedCount = visitedPlannedCount + missedCount;
+
+  return {
+    repId: rep.id,
+    weekStart,
+    planStatus: plan?.id ? plan.status : null,
+    days,
+    plannedCount,
+    visitedPlannedCount,
+    missedCount,
+    unplannedCount,
+    score: plannedCount > 0 ? Math.round((visitedPlannedCount / plannedCount) * 100) : null,
+  };
+};
+
+export const computeTeamWeekAdherence = (
+  reps: User[],
+  weekStart: string,
+  plans: { [repId: string]: WeeklyPlan },
+  visits: VisitReport[],
+  today: Date = new Date()
+): RepWeekAdherence[] => {
+  return reps.map(rep => computeRepWeekAdherence(rep, weekStart, plans[rep.id] || null, visits, today));
+};
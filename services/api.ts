@@ -1,7 +1,12 @@
 
 import { supabase } from './supabaseClient';
-import { User, Region, Doctor, Pharmacy, Product, DoctorVisit, PharmacyVisit, VisitReport, Specialization, ClientAlert, SystemSettings, WeeklyPlan, UserRole } from '../types';
-import { cacheService, CacheKeys } from './cacheService';
+import { User, Region, Doctor, Pharmacy, Product, DoctorVisit, PharmacyVisit, VisitReport, Specialization, ClientAlert, SystemSettings, WeeklyPlan, PlanReview, UserRole, ProductInput, DoctorInput, PharmacyInput, NewDoctorVisit, NewPharmacyVisit, VisitSyncMeta, VisitDetails, VisitEdit, VisitAuditEntry, GeoPoint, VisitLocation, PharmacyStockLevel, SampleBalance, SampleAllocation, NewSampleAllocation, ImportRow, ImportType, ImportMode, AuditLogEntry, AuditLogFilter, VisitReportFilter, VisitReportQuery, VisitReportPage, VisitReportStats, ClientType, ClientRef, ClientProfile, ClientSearchHit, ClientNote, ProductFeedback, ProductFeedbackRecord, CoachingEvaluation, NewCoachingEvaluation, PendingCoachingVisit } from '../types';
+import { cacheService, CacheKeys, CacheTTL, CacheInvalidations } from './cacheService';
+import { findOverdueClients, ClientVisitRecency, DEFAULT_VISIT_TARGET_DAYS } from './visitTargetService';
+import { DEFAULT_MAX_VISIT_DISTANCE_METERS } from './geoService';
+import { DEFAULT_VISIT_EDIT_GRACE_HOURS } from './visitEditService';
+import { fromDateKey } from './dateUtils';
+import { tokenize } from './searchService';
 
 // Helper to handle Supabase errors
 const handleSupabaseError = (error: any, context: string) => {
@@ -10,6 +15,129 @@ const handleSupabaseError = (error: any, context: string) => {
   throw new Error(error.message || `An unknown error occurred in ${context}`);
 };
 
+// Columns selected for weekly plans, including the name of whoever reviewed them last
+const PLAN_COLUMNS = 'id, rep_id, week_start, plan, status, reviewed_by, reviewed_at, reviewer:profiles!reviewed_by(name)';
+
+const mapPlan = (p: any): WeeklyPlan => ({
+  id: p.id,
+  repId: p.rep_id,
+  weekStart: p.week_start,
+  plan: p.plan || {},
+  status: p.status,
+  reviewedBy: p.reviewed_by,
+  reviewerName: p.reviewer?.name ?? null,
+  reviewedAt: p.reviewed_at,
+});
+
+const mapGeoPoint = (row: any): GeoPoint | null => (row.latitude != null && row.longitude != null ? { latitude: row.latitude, longitude: row.longitude } : null);
+// Columns for a client's reference position; undefined leaves them untouched on update, null clears them
+const locationColumns = (location: GeoPoint | null | undefined) => (location === undefined ? {} : { latitude: location?.latitude ?? null, longitude: location?.longitude ?? null });
+const mapDoctor = (d: any): Doctor => ({ ...d, regionId: d.region_id, repId: d.rep_id, isArchived: d.is_archived ?? false, tier: d.tier ?? null, location: mapGeoPoint(d) });
+const mapSampleAllocation = (a: any): SampleAllocation => ({ id: a.id, repId: a.rep_id, productId: a.product_id, kind: a.kind, quantity: a.quantity, note: a.note || '', allocatedBy: a.allocated_by, date: a.date });
+const mapPharmacy = (p: any): Pharmacy => ({ ...p, regionId: p.region_id, repId: p.rep_id, isArchived: p.is_archived ?? false, tier: p.tier ?? null, location: mapGeoPoint(p) });
+
+const mapSystemSettings = (s: any): SystemSettings => ({
+  weekends: s?.weekends || [],
+  holidays: s?.holidays || [],
+  visitTargets: s?.visit_targets || [],
+  defaultVisitTargetDays: s?.default_visit_target_days ?? DEFAULT_VISIT_TARGET_DAYS,
+  maxVisitDistanceMeters: s?.max_visit_distance_meters ?? DEFAULT_MAX_VISIT_DISTANCE_METERS,
+  visitEditGraceHours: s?.visit_edit_grace_hours ?? DEFAULT_VISIT_EDIT_GRACE_HOURS,
+});
+
+// GPS check-in sent with a visit. The visit RPCs also keep it as the client's reference position when the client has none yet.
+const visitLocationParams = (location: VisitLocation | null | undefined) => ({
+  p_latitude: location?.latitude ?? null,
+  p_longitude: location?.longitude ?? null,
+  p_location_accuracy: location?.accuracy ?? null,
+});
+
+const productFeedbackParams = (feedback: ProductFeedback[]) => feedback.map(f => ({
+  product_id: f.productId,
+  reaction: f.reaction,
+  prescription_intent: f.prescriptionIntent,
+  comment: f.comment,
+}));
+
+const mapProductFeedback = (f: any): ProductFeedback => ({
+  productId: f.product_id,
+  reaction: f.reaction,
+  prescriptionIntent: f.prescription_intent,
+  comment: f.comment || '',
+});
+
+const mapPendingCoachingVisit = (v: any): PendingCoachingVisit => ({
+  visitId: v.visit_id,
+  visitDate: v.visit_date,
+  repId: v.rep_id,
+  repName: v.rep_name,
+  doctorName: v.doctor_name,
+});
+
+const throwVisitCorrectionError = (error: any, context: string): never => {
+  if (error.message?.includes('edit_window_closed')) throw new Error('error_visit_edit_window_closed');
+  if (error.message?.includes('permission denied') || error.message?.includes('violates row-level security policy')) {
+    throw new Error('error_permission_denied');
+  }
+  handleSupabaseError(error, context);
+  throw error;
+};
+
+// ISO bounds for an inclusive YYYY-MM-DD range in local time; `to` is exclusive, midnight after the end date
+const dateRangeBounds = (startDate?: string, endDate?: string): { from: string | null; to: string | null } => {
+  const dayAfterEnd = endDate ? fromDateKey(endDate) : null;
+  dayAfterEnd?.setDate(dayAfterEnd.getDate() + 1);
+  return { from: startDate ? fromDateKey(startDate).toISOString() : null, to: dayAfterEnd ? dayAfterEnd.toISOString() : null };
+};
+
+// Filter parameters shared by the paged visit report query and its aggregates
+const visitReportFilterParams = (filter: VisitReportFilter) => {
+  const { from, to } = dateRangeBounds(filter.startDate, filter.endDate);
+  return {
+    p_rep_ids: filter.repIds ?? null,
+    p_region_id: filter.regionId ?? null,
+    p_from: from,
+    p_to: to,
+    p_visit_type: filter.visitType ?? null,
+    p_product_id: filter.productId ?? null,
+    p_specialization: filter.specialization ?? null,
+  };
+};
+
+const EXPORT_PAGE_SIZE = 1000;
+const SEARCH_RESULT_LIMIT = 50;
+const SEARCH_SNIPPETS_PER_CLIENT = 2;
+
+const getCurrentUserId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('error_permission_denied');
+  return session.user.id;
+};
+
+// Administrative actions write their audit_log entry inside the RPC that performs them, in the same transaction
+// and with auth.uid() as the actor. Clients can only select from audit_log, so an entry can neither be forged
+// from the browser nor lost after the action has committed.
+
+// A plan re-read after a review RPC, with the reviewer's name joined
+const getReviewedPlan = async (repId: string, weekStart: string, context: string): Promise<WeeklyPlan> => {
+  const { data, error } = await supabase.from('weekly_plans').select(PLAN_COLUMNS)
+    .eq('rep_id', repId).eq('week_start', weekStart).single();
+  if (error) handleSupabaseError(error, context);
+  return mapPlan(data);
+};
+
+const mapAuditLogEntry = (e: any): AuditLogEntry => ({
+  id: e.id,
+  actorId: e.actor_id,
+  actorName: e.actor?.name ?? null,
+  action: e.action,
+  targetType: e.target_type,
+  targetId: e.target_id,
+  targetLabel: e.target_label,
+  payload: e.payload,
+  createdAt: e.created_at,
+});
+
 export const api = {
   // --- CONNECTION TEST ---
   testSupabaseConnection: async (): Promise<boolean> => {
@@ -67,6 +195,8 @@ export const api = {
 
   logout: async (): Promise<void> => {
     const { error } = await supabase.auth.signOut();
+    // The cache is persisted in localStorage, so don't leave this user's data behind for the next one
+    cacheService.clear();
     if (error) handleSupabaseError(error, 'logout');
   },
 
@@ -99,7 +229,7 @@ export const api = {
       throw new Error('profile_not_found');
     }
 
-    const userProfile = { ...data, password: '' } as User;
+    const userProfile = { ...data, supervisorId: data.supervisor_id ?? null, password: '' } as User;
     // Store in cache for 15 minutes
     cacheService.set(cacheKey, userProfile);
     
@@ -128,7 +258,7 @@ export const api = {
     const { data, error } = await supabase.from('profiles').select('*');
     if (error) handleSupabaseError(error, 'getUsers');
 
-    const users = (data || []).map(u => ({ ...u, password: '' }));
+    const users = (data || []).map(u => ({ ...u, supervisorId: u.supervisor_id ?? null, password: '' }));
 
     // Store in cache for 15 minutes
     cacheService.set(CacheKeys.USERS, users);
@@ -174,7 +304,11 @@ export const api = {
     // If no trigger is configured, this 'update' will fail because the row does not exist.
     const { data: profileData, error: profileError } = await supabase
       .from('profiles')
-      .update({ role: userData.role, username: userData.username }) // 'username' column stores the email
+      .update({
+        role: userData.role,
+        username: userData.username, // 'username' column stores the email
+        supervisor_id: userData.role === UserRole.Rep ? userData.supervisorId ?? null : null,
+      })
       .eq('id', authData.user.id)
       .select()
       .single();
@@ -207,22 +341,28 @@ export const api = {
       handleSupabaseError(profileError, 'addUser (profile update)');
     }
 
-    // Clear users cache after adding new user
-    cacheService.remove(CacheKeys.USERS);
+    cacheService.invalidate(CacheInvalidations.addUser());
 
-    return { ...profileData, password: '' };
+    return { ...profileData, supervisorId: profileData.supervisor_id ?? null, password: '' };
   },
 
-  updateUser: async (userId: string, updates: Partial<Pick<User, 'name' | 'role'>>): Promise<User | null> => {
+  updateUser: async (userId: string, updates: Partial<Pick<User, 'name' | 'role' | 'supervisorId'>>): Promise<User | null> => {
     // NOTE: Updating another user's username (email) or password requires admin privileges
     // and should ideally be a server-side operation for security reasons.
     // In this client-side demo, we're preventing email changes for existing users via the UI.
 
     // Update non-auth fields in profiles table
-    const { name, role } = updates;
+    const { name, role, supervisorId } = updates;
+    const profileUpdates: Record<string, any> = { name, role };
+    // Only reps belong to a supervisor's team. A rename or any other update that leaves out supervisorId keeps the team.
+    if (role === UserRole.Supervisor || role === UserRole.Manager) {
+      profileUpdates.supervisor_id = null;
+    } else if (supervisorId !== undefined) {
+      profileUpdates.supervisor_id = supervisorId;
+    }
     const { data, error } = await supabase
       .from('profiles')
-      .update({ name, role })
+      .update(profileUpdates)
       .eq('id', userId)
       .select()
       .single();
@@ -236,33 +376,21 @@ export const api = {
       return null;
     }
 
-    // Clear users cache and specific user profile cache after updating
-    cacheService.remove(CacheKeys.USERS);
-    cacheService.remove(CacheKeys.USER_PROFILE(userId));
+    cacheService.invalidate(CacheInvalidations.updateUser(userId));
 
-    return data ? { ...data, password: '' } : null;
+    return data ? { ...data, supervisorId: data.supervisor_id ?? null, password: '' } : null;
   },
 
+  // Deleting a user requires admin privileges in Supabase Auth, which the anon key doesn't have. The security definer
+  // RPC checks that the caller is a manager, deletes the auth user and profile and records the audit entry.
   deleteUser: async (userId: string): Promise<boolean> => {
-    // Deleting a user requires admin privileges in Supabase Auth.
-    // This functionality will NOT work with just the anon key unless an RPC is configured with 'security definer'.
-    // For a secure, production-ready solution, consider calling a serverless function.
-    console.warn("Attempting to delete user. This typically requires admin privileges or an RPC in Supabase.");
-    // Example of an RPC call if you have a custom function to delete:
-    // const { error: rpcError } = await supabase.rpc('delete_user_and_profile', { p_user_id: userId });
-    // if (rpcError) handleSupabaseError(rpcError, 'deleteUser RPC');
-
-    // Direct client-side admin.deleteUser is usually not enabled for anon key.
-    const { error } = await supabase.auth.admin.deleteUser(userId); // This will likely fail with anon key
+    const { error } = await supabase.rpc('delete_user_and_profile', { p_user_id: userId });
     if (error) {
-      // Log a more descriptive error if it's a permission issue from admin.deleteUser
-      console.error("Failed to delete user with admin privileges:", error.message);
+      console.error("Failed to delete user:", error.message);
       throw new Error('error_permission_denied_delete_user'); // Custom error for UI
     }
 
-    // Clear users cache and specific user profile cache after deleting
-    cacheService.remove(CacheKeys.USERS);
-    cacheService.remove(CacheKeys.USER_PROFILE(userId));
+    cacheService.invalidate(CacheInvalidations.deleteUser(userId));
 
     return true;
   },
@@ -287,7 +415,7 @@ export const api = {
 
   // NEW: Function to reset a representative's visits and plan
   resetRepData: async (repId: string): Promise<void> => {
-    // Call the RPC defined in Supabase to handle the deletion and plan reset
+    // The RPC deletes the visits, resets the plan and records the audit entry in one transaction
     const { error } = await supabase.rpc('reset_rep_data', { p_rep_id: repId });
     if (error) {
         // Provide specific error feedback if it's a permission issue, otherwise generic.
@@ -296,15 +424,27 @@ export const api = {
         }
         handleSupabaseError(error, 'resetRepData');
     }
+    cacheService.invalidate(CacheInvalidations.resetRepData(repId));
   },
 
 
+  // --- TEAMS ---
+
+  // IDs of the reps a supervisor is responsible for
+  getTeamRepIds: async (supervisorId: string): Promise<string[]> => {
+    const { data, error } = await supabase.from('profiles').select('id').eq('supervisor_id', supervisorId).eq('role', UserRole.Rep);
+    if (error) handleSupabaseError(error, 'getTeamRepIds');
+    return (data || []).map(p => p.id);
+  },
+
   // --- CORE DATA FETCHING ---
 
   getRegions: async (): Promise<Region[]> => {
-    const { data, error } = await supabase.from('regions').select('*');
-    if (error) handleSupabaseError(error, 'getRegions');
-    return data || [];
+    return cacheService.getOrFetch(CacheKeys.REGIONS, async () => {
+      const { data, error } = await supabase.from('regions').select('*');
+      if (error) handleSupabaseError(error, 'getRegions');
+      return data || [];
+    }, CacheTTL.REFERENCE_DATA);
   },
 
   addRegion: async (regionName: string): Promise<Region> => {
@@ -328,317 +468,872 @@ export const api = {
           .single();
         if (fetchError) handleSupabaseError(fetchError, 'addRegion (fetch existing)');
         if (!existingData) throw new Error(`Failed to fetch existing region "${regionName}" after unique constraint violation.`);
+        cacheService.invalidate(CacheInvalidations.addRegion());
         return existingData as Region;
       }
       handleSupabaseError(error, 'addRegion');
     }
     if (!data) throw new Error("addRegion did not return the new region data.");
+    cacheService.invalidate(CacheInvalidations.addRegion());
     return data as Region;
   },
 
+  renameRegion: async (regionId: number, newName: string): Promise<Region> => {
+    const name = newName.trim();
+    if (!name) {
+      throw new Error("Region name cannot be empty.");
+    }
+    const { data, error } = await supabase.from('regions').update({ name }).eq('id', regionId).select().single();
+    if (error) {
+      if (error.code === '23505') throw new Error('error_region_exists');
+      handleSupabaseError(error, 'renameRegion');
+    }
+    cacheService.invalidate(CacheInvalidations.renameRegion());
+    return data as Region;
+  },
+
+  // Moves every doctor, pharmacy, visit, plan day and territory from the source region to the target,
+  // then deletes the source. The RPC runs in a single transaction so a failure leaves both regions intact.
+  mergeRegions: async (sourceRegionId: number, targetRegionId: number): Promise<void> => {
+    if (sourceRegionId === targetRegionId) {
+      throw new Error('error_merge_same_region');
+    }
+    const { error } = await supabase.rpc('merge_regions', {
+      p_source_region_id: sourceRegionId,
+      p_target_region_id: targetRegionId,
+    });
+    if (error) {
+      if (error.message.includes('permission denied') || error.message.includes('violates row-level security policy')) {
+        throw new Error('error_permission_denied');
+      }
+      handleSupabaseError(error, 'mergeRegions');
+    }
+    cacheService.invalidate(CacheInvalidations.mergeRegions());
+  },
+
+  // --- TERRITORIES ---
+
+  // Region IDs assigned to each rep. Reps without an entry have no territory restriction.
+  getAllRepTerritories: async (): Promise<{ [repId: string]: number[] }> => {
+    return cacheService.getOrFetch(CacheKeys.REP_TERRITORIES, async () => {
+      const { data, error } = await supabase.from('rep_regions').select('rep_id, region_id');
+      if (error) handleSupabaseError(error, 'getAllRepTerritories');
+      const territories: { [repId: string]: number[] } = {};
+      (data || []).forEach(row => {
+        territories[row.rep_id] = [...(territories[row.rep_id] || []), row.region_id];
+      });
+      return territories;
+    }, CacheTTL.REFERENCE_DATA);
+  },
+
+  getRepTerritory: async (repId: string): Promise<number[]> => {
+    const territories = await api.getAllRepTerritories();
+    return territories[repId] || [];
+  },
+
+  // Replaces the rep's regions in a single transaction, so a failed insert doesn't leave the rep with no territory
+  setRepTerritory: async (repId: string, regionIds: number[]): Promise<void> => {
+    const { error } = await supabase.rpc('set_rep_territory', {
+      p_rep_id: repId,
+      p_region_ids: Array.from(new Set(regionIds)),
+    });
+    if (error) handleSupabaseError(error, 'setRepTerritory');
+    cacheService.invalidate(CacheInvalidations.setRepTerritory());
+  },
+
   getProducts: async (): Promise<Product[]> => {
-    const { data, error } = await supabase.from('products').select('*');
-    if (error) handleSupabaseError(error, 'getProducts');
-    return data || [];
+    return cacheService.getOrFetch(CacheKeys.PRODUCTS, async () => {
+      const { data, error } = await supabase.from('products').select('*').order('name');
+      if (error) handleSupabaseError(error, 'getProducts');
+      return (data || []).map(p => ({ ...p, category: p.category ?? null, isActive: p.is_active ?? true }));
+    }, CacheTTL.REFERENCE_DATA);
+  },
+
+  addProduct: async (product: ProductInput): Promise<Product> => {
+    const { data, error } = await supabase.from('products').insert({
+      name: product.name.trim(),
+      category: product.category?.trim() || null,
+      is_active: true,
+    }).select().single();
+    if (error) {
+      if (error.code === '23505') throw new Error('error_product_exists');
+      handleSupabaseError(error, 'addProduct');
+    }
+    cacheService.invalidate(CacheInvalidations.addProduct());
+    return { ...data, category: data.category ?? null, isActive: data.is_active ?? true };
+  },
+
+  updateProduct: async (productId: number, updates: Partial<ProductInput & Pick<Product, 'isActive'>>): Promise<Product> => {
+    const { name, category, isActive } = updates;
+    const { data, error } = await supabase.from('products').update({
+      name: name?.trim(),
+      category: category === undefined ? undefined : category?.trim() || null,
+      is_active: isActive,
+    }).eq('id', productId).select().single();
+    if (error) {
+      if (error.code === '23505') throw new Error('error_product_exists');
+      handleSupabaseError(error, 'updateProduct');
+    }
+    cacheService.invalidate(CacheInvalidations.updateProduct());
+    return { ...data, category: data.category ?? null, isActive: data.is_active ?? true };
   },
 
   getAllDoctors: async (): Promise<Doctor[]> => {
-    const { data, error } = await supabase.from('doctors').select('*');
-    if (error) handleSupabaseError(error, 'getAllDoctors');
-    return (data || []).map(d => ({ ...d, regionId: d.region_id, repId: d.rep_id }));
+    return cacheService.getOrFetch(CacheKeys.DOCTORS, async () => {
+      const { data, error } = await supabase.from('doctors').select('*');
+      if (error) handleSupabaseError(error, 'getAllDoctors');
+      return (data || []).map(mapDoctor);
+    }, CacheTTL.REFERENCE_DATA);
   },
 
   getDoctorsForRep: async (repId: string): Promise<Doctor[]> => {
     console.log(`API: Fetching doctors for repId: ${repId}`);
-    const { data, error } = await supabase.from('doctors').select('*').eq('rep_id', repId);
+    // Archived doctors stay in the table for history but are no longer visited
+    const { data, error } = await supabase.from('doctors').select('*').eq('rep_id', repId).eq('is_archived', false);
     if (error) handleSupabaseError(error, 'getDoctorsForRep');
     console.log(`API: Raw doctors data from Supabase for repId ${repId}:`, data);
-    return (data || []).map(d => ({ ...d, regionId: d.region_id, repId: d.rep_id }));
+    return (data || []).map(mapDoctor);
   },
 
   getAllPharmacies: async (): Promise<Pharmacy[]> => {
     const { data, error } = await supabase.from('pharmacies').select('*');
     if (error) handleSupabaseError(error, 'getAllPharmacies');
-    return (data || []).map(p => ({ ...p, regionId: p.region_id, repId: p.rep_id }));
+    return (data || []).map(mapPharmacy);
   },
 
   getPharmaciesForRep: async (repId: string): Promise<Pharmacy[]> => {
     console.log(`API: Fetching pharmacies for repId: ${repId}`);
-    const { data, error } = await supabase.from('pharmacies').select('*').eq('rep_id', repId);
+    const { data, error } = await supabase.from('pharmacies').select('*').eq('rep_id', repId).eq('is_archived', false);
     if (error) handleSupabaseError(error, 'getPharmaciesForRep');
     console.log(`API: Raw pharmacies data from Supabase for repId ${repId}:`, data);
-    // Corrected type in map function (p.rep_id instead of d.rep_id)
-    return (data || []).map(p => ({ ...p, regionId: p.region_id, repId: p.rep_id }));
+    return (data || []).map(mapPharmacy);
+  },
+
+  // --- CLIENT MANAGEMENT ---
+
+  addDoctor: async (doctor: DoctorInput): Promise<Doctor> => {
+    const { data, error } = await supabase.from('doctors').insert({
+      name: doctor.name.trim(),
+      region_id: doctor.regionId,
+      rep_id: doctor.repId,
+      specialization: doctor.specialization,
+      tier: doctor.tier,
+      ...locationColumns(doctor.location),
+    }).select().single();
+    if (error) handleSupabaseError(error, 'addDoctor');
+    cacheService.invalidate(CacheInvalidations.updateClients());
+    return mapDoctor(data);
+  },
+
+  updateDoctor: async (doctorId: number, updates: Partial<DoctorInput>): Promise<Doctor> => {
+    const { data, error } = await supabase.from('doctors').update({
+      name: updates.name?.trim(),
+      region_id: updates.regionId,
+      rep_id: updates.repId,
+      specialization: updates.specialization,
+      tier: updates.tier,
+      ...locationColumns(updates.location),
+    }).eq('id', doctorId).select().single();
+    if (error) handleSupabaseError(error, 'updateDoctor');
+    cacheService.invalidate(CacheInvalidations.updateClients());
+    return mapDoctor(data);
+  },
+
+  setDoctorArchived: async (doctorId: number, isArchived: boolean): Promise<Doctor> => {
+    const { data, error } = await supabase.from('doctors').update({ is_archived: isArchived }).eq('id', doctorId).select().single();
+    if (error) handleSupabaseError(error, 'setDoctorArchived');
+    cacheService.invalidate(CacheInvalidations.updateClients());
+    return mapDoctor(data);
+  },
+
+  addPharmacy: async (pharmacy: PharmacyInput): Promise<Pharmacy> => {
+    const { data, error } = await supabase.from('pharmacies').insert({
+      name: pharmacy.name.trim(),
+      region_id: pharmacy.regionId,
+      rep_id: pharmacy.repId,
+      specialization: Specialization.Pharmacy,
+      tier: pharmacy.tier,
+      ...locationColumns(pharmacy.location),
+    }).select().single();
+    if (error) handleSupabaseError(error, 'addPharmacy');
+    cacheService.invalidate(CacheInvalidations.updateClients());
+    return mapPharmacy(data);
+  },
+
+  updatePharmacy: async (pharmacyId: number, updates: Partial<PharmacyInput>): Promise<Pharmacy> => {
+    const { data, error } = await supabase.from('pharmacies').update({
+      name: updates.name?.trim(),
+      region_id: updates.regionId,
+      rep_id: updates.repId,
+      tier: updates.tier,
+      ...locationColumns(updates.location),
+    }).eq('id', pharmacyId).select().single();
+    if (error) handleSupabaseError(error, 'updatePharmacy');
+    cacheService.invalidate(CacheInvalidations.updateClients());
+    return mapPharmacy(data);
+  },
+
+  setPharmacyArchived: async (pharmacyId: number, isArchived: boolean): Promise<Pharmacy> => {
+    const { data, error } = await supabase.from('pharmacies').update({ is_archived: isArchived }).eq('id', pharmacyId).select().single();
+    if (error) handleSupabaseError(error, 'setPharmacyArchived');
+    cacheService.invalidate(CacheInvalidations.updateClients());
+    return mapPharmacy(data);
+  },
+
+  // Hands a set of clients over to another rep, e.g. when someone leaves. Visit history keeps its original rep.
+  // The RPC moves the doctors and pharmacies in one transaction, so a handover is never left half done.
+  reassignClients: async (doctorIds: number[], pharmacyIds: number[], toRepId: string): Promise<{ doctors: Doctor[]; pharmacies: Pharmacy[] }> => {
+    if (doctorIds.length === 0 && pharmacyIds.length === 0) return { doctors: [], pharmacies: [] };
+    try {
+      const { data, error } = await supabase.rpc('reassign_clients', {
+        p_doctor_ids: doctorIds,
+        p_pharmacy_ids: pharmacyIds,
+        p_to_rep_id: toRepId,
+      });
+      if (error) handleSupabaseError(error, 'reassignClients');
+      return {
+        doctors: (data?.doctors || []).map(mapDoctor),
+        pharmacies: (data?.pharmacies || []).map(mapPharmacy),
+      };
+    } finally {
+      // Even a failed call may leave the cached lists behind what the server has
+      cacheService.invalidate(CacheInvalidations.updateClients());
+    }
+  },
+
+  // --- CLIENT PROFILE ---
+
+  // The client with its visit timeline, upcoming plan days and rep history. Rep changes are recorded by a
+  // trigger on the client tables, so reassignments from any screen or import show up in the history.
+  getClientProfile: async (type: ClientType, clientId: number): Promise<ClientProfile> => {
+    const { data, error } = await supabase.rpc('get_client_profile', { p_client_type: type, p_client_id: clientId });
+    if (error) handleSupabaseError(error, 'getClientProfile');
+    if (!data?.client) throw new Error('error_client_not_found');
+    return {
+      type,
+      client: type === 'doctor' ? mapDoctor(data.client) : mapPharmacy(data.client),
+      regionName: data.region_name || '',
+      repName: data.rep_name || '',
+      repHistory: (data.rep_history || []).map((h: any) => ({
+        repId: h.rep_id,
+        repName: h.rep_name,
+        assignedAt: h.assigned_at,
+        unassignedAt: h.unassigned_at,
+      })),
+      visits: data.visits || [],
+      upcomingPlans: (data.upcoming_plans || []).map((p: any) => ({
+        weekStart: p.week_start,
+        dayIndex: p.day_index,
+        repId: p.rep_id,
+        status: p.status,
+      })),
+    };
+  },
+
+  // Free-form notes about a client, newest first
+  getClientNotes: async (type: ClientType, clientId: number): Promise<ClientNote[]> => {
+    const { data, error } = await supabase.from('client_notes')
+      .select('id, author_id, body, created_at, author:profiles!author_id(name)')
+      .eq('client_type', type).eq('client_id', clientId)
+      .order('created_at', { ascending: false });
+    if (error) handleSupabaseError(error, 'getClientNotes');
+    return (data || []).map((n: any) => ({
+      id: n.id,
+      authorId: n.author_id,
+      authorName: n.author?.name ?? null,
+      body: n.body,
+      createdAt: n.created_at,
+    }));
+  },
+
+  // A client's visits from startDate on, or all of them without one, newest first. Visibility follows
+  // get_visit_reports, so reps see how their current clients were handled before they took them over.
+  getClientVisits: async (client: ClientRef, startDate?: string): Promise<VisitReport[]> => {
+    const { from } = dateRangeBounds(startDate);
+    const { data, error } = await supabase.rpc('get_client_visits', { p_client_type: client.type, p_client_id: client.id, p_from: from });
+    if (error) handleSupabaseError(error, 'getClientVisits');
+    return data || [];
+  },
+
+  // Ranked search over client names and visit notes (doctor comments and pharmacy visit notes). The RPC matches the
+  // query against normalized, indexed copies of the text with Arabic letters folded, so diacritics, letter variants
+  // and Latin case don't matter, and returns only the best clients with a short snippet per matching note.
+  // The query is tokenized here the same way, so punctuation of either script separates words.
+  searchClients: async (query: string, repIds?: string[], limit: number = SEARCH_RESULT_LIMIT): Promise<ClientSearchHit[]> => {
+    const terms = tokenize(query);
+    if (terms.length === 0 || (repIds && repIds.length === 0)) return [];
+    const { data, error } = await supabase.rpc('search_clients', {
+      p_terms: terms,
+      p_rep_ids: repIds ?? null,
+      p_limit: limit,
+      p_snippets_per_client: SEARCH_SNIPPETS_PER_CLIENT,
+    });
+    if (error) handleSupabaseError(error, 'searchClients');
+    return (data || []).map((row: any): ClientSearchHit => ({
+      client: { type: row.client_type, id: row.client_id },
+      name: row.name,
+      score: row.score,
+      nameMatched: row.name_matched,
+      noteMatches: (row.note_matches || []).map((m: any) => ({ visitId: m.visit_id, date: m.date, snippet: m.snippet })),
+      noteMatchCount: row.note_match_count ?? 0,
+    }));
+  },
+
+  addClientNote: async (type: ClientType, clientId: number, body: string): Promise<void> => {
+    const authorId = await getCurrentUserId();
+    const { error } = await supabase.from('client_notes').insert({ client_type: type, client_id: clientId, author_id: authorId, body });
+    if (error) handleSupabaseError(error, 'addClientNote');
   },
 
   // --- VISITS & REPORTS (using RPC) ---
-  addDoctorVisit: async (visit: Omit<DoctorVisit, 'id' | 'date'>): Promise<DoctorVisit> => {
+  addDoctorVisit: async (visit: NewDoctorVisit & VisitSyncMeta): Promise<DoctorVisit> => {
+    // Visits queued offline before sample tracking, product feedback or coaches existed lack them
+    const samples = visit.samples || [];
+    const productFeedback = visit.productFeedback || [];
     const { data, error } = await supabase.rpc('add_doctor_visit_with_products', {
       p_doctor_id: visit.doctorId,
       p_rep_id: visit.repId,
       p_region_id: visit.regionId,
       p_visit_type: visit.visitType,
+      p_coach_id: visit.visitType === 'Coaching' ? visit.coachId ?? null : null,
       p_doctor_comment: visit.doctorComment,
       p_product_ids: visit.productIds,
+      p_product_feedback: productFeedbackParams(productFeedback),
+      p_samples: samples.map(sample => ({ product_id: sample.productId, kind: sample.kind, quantity: sample.quantity })),
+      ...visitLocationParams(visit.location),
+      // Only sent for visits replayed from the offline outbox (undefined keys are dropped)
+      p_visit_date: visit.date,
+      p_client_request_id: visit.clientRequestId,
     }).single();
-    if (error) handleSupabaseError(error, 'addDoctorVisit');
+    if (error) {
+      // unique_violation on client_request_id: this visit was already synced
+      if (error.code === '23505') throw new Error('error_duplicate_visit');
+      handleSupabaseError(error, 'addDoctorVisit');
+    }
     if (!data) {
       const errorMessage = 'RPC call "add_doctor_visit_with_products" returned no data.';
       handleSupabaseError({ message: errorMessage }, 'addDoctorVisit');
       throw new Error(errorMessage);
     }
 
+    cacheService.invalidate(CacheInvalidations.addDoctorVisit(visit));
     const visitData = data as any;
-    return { ...visitData, doctorId: visitData.doctor_id, repId: visitData.rep_id, productIds: visit.productIds, regionId: visitData.region_id, visitType: visitData.visit_type, doctorComment: visitData.doctor_comment };
+    return { ...visitData, doctorId: visitData.doctor_id, repId: visitData.rep_id, productIds: visit.productIds, regionId: visitData.region_id, visitType: visitData.visit_type, coachId: visitData.coach_id ?? null, doctorComment: visitData.doctor_comment, productFeedback, samples, location: visit.location ?? null };
   },
 
-  addPharmacyVisit: async (visit: Omit<PharmacyVisit, 'id' | 'date'>): Promise<PharmacyVisit> => {
-    const { data, error } = await supabase.from('pharmacy_visits').insert({
-      pharmacy_id: visit.pharmacyId,
-      rep_id: visit.repId,
-      region_id: visit.regionId,
-      visit_notes: visit.visitNotes,
-    }).select().single();
-    if (error) handleSupabaseError(error, 'addPharmacyVisit');
-    return { ...data, pharmacyId: data.pharmacy_id, repId: data.rep_id, regionId: data.region_id, visitNotes: data.visit_notes };
+  addPharmacyVisit: async (visit: NewPharmacyVisit & VisitSyncMeta): Promise<PharmacyVisit> => {
+    // Visits queued offline before stock checks existed have none
+    const stockChecks = visit.stockChecks || [];
+    const { data, error } = await supabase.rpc('add_pharmacy_visit_with_stock', {
+      p_pharmacy_id: visit.pharmacyId,
+      p_rep_id: visit.repId,
+      p_region_id: visit.regionId,
+      p_visit_notes: visit.visitNotes,
+      p_stock_checks: stockChecks.map(check => ({
+        product_id: check.productId,
+        status: check.status,
+        shelf_quantity: check.shelfQuantity,
+        order_quantity: check.orderQuantity,
+      })),
+      ...visitLocationParams(visit.location),
+      p_visit_date: visit.date,
+      p_client_request_id: visit.clientRequestId,
+    }).single();
+    if (error) {
+      if (error.code === '23505') throw new Error('error_duplicate_visit');
+      handleSupabaseError(error, 'addPharmacyVisit');
+    }
+    if (!data) {
+      const errorMessage = 'RPC call "add_pharmacy_visit_with_stock" returned no data.';
+      handleSupabaseError({ message: errorMessage }, 'addPharmacyVisit');
+      throw new Error(errorMessage);
+    }
+
+    cacheService.invalidate(CacheInvalidations.addPharmacyVisit(visit));
+    const visitData = data as any;
+    return { ...visitData, pharmacyId: visitData.pharmacy_id, repId: visitData.rep_id, regionId: visitData.region_id, visitNotes: visitData.visit_notes, stockChecks, location: visit.location ?? null };
   },
 
-  getVisitReportsForRep: async (repId: string): Promise<VisitReport[]> => {
-    const { data, error } = await supabase.rpc('get_visit_reports', { p_rep_id: repId });
+  // --- SAMPLES ---
+  // Allocated, handed out and remaining samples per rep, product and kind; pass repIds to limit it to a team
+  getSampleBalances: async (repIds?: string[]): Promise<SampleBalance[]> => {
+    if (repIds && repIds.length === 0) return [];
+    const cacheKey = repIds ? `${CacheKeys.SAMPLE_BALANCES}_${[...repIds].sort().join(',')}` : CacheKeys.SAMPLE_BALANCES;
+    return cacheService.getOrFetch(cacheKey, async () => {
+      const { data, error } = await supabase.rpc('get_sample_balances', repIds ? { p_rep_ids: repIds } : undefined);
+      if (error) handleSupabaseError(error, 'getSampleBalances');
+      return (data || []).map((b: any): SampleBalance => ({
+        repId: b.rep_id,
+        productId: b.product_id,
+        kind: b.kind,
+        allocated: b.allocated,
+        distributed: b.distributed,
+        balance: b.allocated - b.distributed,
+      }));
+    }, CacheTTL.VISITS);
+  },
+
+  getSampleAllocations: async (repIds?: string[]): Promise<SampleAllocation[]> => {
+    if (repIds && repIds.length === 0) return [];
+    let query = supabase.from('sample_allocations').select('*').order('date', { ascending: false });
+    if (repIds) query = query.in('rep_id', repIds);
+    const { data, error } = await query;
+    if (error) handleSupabaseError(error, 'getSampleAllocations');
+    return (data || []).map(mapSampleAllocation);
+  },
+
+  allocateSamples: async (allocations: NewSampleAllocation[], allocatedBy: string): Promise<SampleAllocation[]> => {
+    const { data, error } = await supabase.from('sample_allocations').insert(allocations.map(a => ({
+      rep_id: a.repId,
+      product_id: a.productId,
+      kind: a.kind,
+      quantity: a.quantity,
+      note: a.note,
+      allocated_by: allocatedBy,
+    }))).select();
     if (error) {
-      // Specific error handling for the 'UNION types' issue
-      if (error.code === '42804' && error.message.includes('UNION types text and specialization cannot be matched')) {
-        console.error("Critical SQL Function Error: 'get_visit_reports' RPC failed due to UNION type mismatch.");
-        console.error("This usually means the 'specialization' column in your 'doctors' table is an ENUM type in the database, and the 'get_visit_reports' function is trying to UNION it with a TEXT or NULL type for pharmacy visits without explicit casting.");
-        console.error("Solution: Edit your 'get_visit_reports' SQL function in Supabase. Ensure that the 'target_specialization' column for BOTH doctor and pharmacy visits is explicitly cast to 'TEXT' (e.g., `d.specialization::text` and `NULL::text`).");
-        throw new Error("error_get_visit_reports_sql_config");
+      if (error.message.includes('permission denied') || error.message.includes('violates row-level security policy')) {
+        throw new Error('error_permission_denied');
       }
-      handleSupabaseError(error, 'getVisitReportsForRep');
+      handleSupabaseError(error, 'allocateSamples');
     }
-    return data || [];
+    cacheService.invalidate(CacheInvalidations.allocateSamples());
+    return (data || []).map(mapSampleAllocation);
+  },
+
+  // Latest stock check per pharmacy and product; pass repIds to limit it to a team
+  getLatestStockChecks: async (repIds?: string[]): Promise<PharmacyStockLevel[]> => {
+    if (repIds && repIds.length === 0) return [];
+    const cacheKey = repIds ? `${CacheKeys.STOCK_CHECKS}_${[...repIds].sort().join(',')}` : CacheKeys.STOCK_CHECKS;
+    return cacheService.getOrFetch(cacheKey, async () => {
+      const { data, error } = await supabase.rpc('get_latest_stock_checks', repIds ? { p_rep_ids: repIds } : undefined);
+      if (error) handleSupabaseError(error, 'getLatestStockChecks');
+      return (data || []).map((s: any): PharmacyStockLevel => ({
+        pharmacyId: s.pharmacy_id,
+        pharmacyName: s.pharmacy_name,
+        regionId: s.region_id,
+        regionName: s.region_name,
+        repId: s.rep_id,
+        repName: s.rep_name,
+        productId: s.product_id,
+        productName: s.product_name,
+        status: s.status,
+        shelfQuantity: s.shelf_quantity,
+        orderQuantity: s.order_quantity,
+        checkedAt: s.checked_at,
+      }));
+    }, CacheTTL.VISITS);
+  },
+
+  // Product feedback from doctor visits with the visit's doctor, specialization, region and rep, newest first
+  getProductFeedback: async (filter: { repIds?: string[]; startDate?: string; endDate?: string }): Promise<ProductFeedbackRecord[]> => {
+    if (filter.repIds && filter.repIds.length === 0) return [];
+    const { from, to } = dateRangeBounds(filter.startDate, filter.endDate);
+    const { data, error } = await supabase.rpc('get_product_feedback', { p_rep_ids: filter.repIds ?? null, p_from: from, p_to: to });
+    if (error) handleSupabaseError(error, 'getProductFeedback');
+    return (data || []).map((f: any): ProductFeedbackRecord => ({
+      ...mapProductFeedback(f),
+      productName: f.product_name,
+      visitId: f.visit_id,
+      date: f.date,
+      doctorId: f.doctor_id,
+      doctorName: f.doctor_name,
+      repId: f.rep_id,
+      repName: f.rep_name,
+      regionId: f.region_id,
+      regionName: f.region_name,
+      specialization: f.specialization,
+    }));
+  },
+
+  // --- COACHING ---
+
+  // Supervisors and managers a rep can name as the coach of a coaching visit
+  getCoaches: async (): Promise<User[]> => {
+    return cacheService.getOrFetch(`${CacheKeys.USERS}_coaches`, async () => {
+      const { data, error } = await supabase.from('profiles').select('id, name, username, role, supervisor_id').in('role', [UserRole.Supervisor, UserRole.Manager]).order('name');
+      if (error) handleSupabaseError(error, 'getCoaches');
+      return (data || []).map((u: any): User => ({ ...u, supervisorId: u.supervisor_id ?? null, password: '' }));
+    }, CacheTTL.REFERENCE_DATA);
+  },
+
+  // Coaching visits that named this coach and still await their evaluation, oldest first
+  getPendingCoachingVisits: async (coachId: string): Promise<PendingCoachingVisit[]> => {
+    const { data, error } = await supabase.rpc('get_pending_coaching_visits', { p_coach_id: coachId });
+    if (error) handleSupabaseError(error, 'getPendingCoachingVisits');
+    return (data || []).map(mapPendingCoachingVisit);
+  },
+
+  // Newest visit first. The RPC joins rep, coach and doctor names.
+  getCoachingEvaluations: async (filter: { repIds?: string[]; startDate?: string; endDate?: string }): Promise<CoachingEvaluation[]> => {
+    if (filter.repIds && filter.repIds.length === 0) return [];
+    const { from, to } = dateRangeBounds(filter.startDate, filter.endDate);
+    const { data, error } = await supabase.rpc('get_coaching_evaluations', { p_rep_ids: filter.repIds ?? null, p_from: from, p_to: to });
+    if (error) handleSupabaseError(error, 'getCoachingEvaluations');
+    return (data || []).map((e: any): CoachingEvaluation => ({
+      ...mapPendingCoachingVisit(e),
+      id: e.id,
+      coachId: e.coach_id,
+      coachName: e.coach_name,
+      scores: (e.scores || []).map((s: any) => ({ competency: s.competency, score: s.score, comment: s.comment || '' })),
+      overallComment: e.overall_comment || '',
+      createdAt: e.created_at,
+    }));
   },
 
-  getAllVisitReports: async (): Promise<VisitReport[]> => {
-    const { data, error } = await supabase.rpc('get_visit_reports');
+  // Only the coach named on the visit may evaluate it, and only once; the RPC enforces both
+  submitCoachingEvaluation: async (evaluation: NewCoachingEvaluation): Promise<void> => {
+    const { error } = await supabase.rpc('submit_coaching_evaluation', {
+      p_visit_id: evaluation.visitId,
+      p_scores: evaluation.scores.map(s => ({ competency: s.competency, score: s.score, comment: s.comment })),
+      p_overall_comment: evaluation.overallComment,
+    });
     if (error) {
-      // Apply the same specific error handling for all reports as well.
-      if (error.code === '42804' && error.message.includes('UNION types text and specialization cannot be matched')) {
-        console.error("Critical SQL Function Error: 'get_visit_reports' RPC failed due to UNION type mismatch.");
-        console.error("This usually means the 'specialization' column in your 'doctors' table is an ENUM type in the database, and the 'get_visit_reports' function is trying to UNION it with a TEXT or NULL type for pharmacy visits without explicit casting.");
-        console.error("Solution: Edit your 'get_visit_reports' SQL function in Supabase. Ensure that the 'target_specialization' column for BOTH doctor and pharmacy visits is explicitly cast to 'TEXT' (e.g., `d.specialization::text` and `NULL::text`).");
-        throw new Error("error_get_visit_reports_sql_config");
+      if (error.code === '23505') throw new Error('error_visit_already_evaluated');
+      if (error.message.includes('permission denied') || error.message.includes('violates row-level security policy')) {
+        throw new Error('error_permission_denied');
       }
-      handleSupabaseError(error, 'getAllVisitReports');
+      handleSupabaseError(error, 'submitCoachingEvaluation');
+    }
+  },
+
+  // --- VISIT CORRECTIONS ---
+  // The RPCs check the rep's grace window (managers are exempt) and write the before/after audit entry
+  // in the same transaction as the change itself.
+  getVisitDetails: async (kind: VisitDetails['kind'], visitId: string): Promise<VisitDetails> => {
+    const { data, error } = await supabase.rpc('get_visit_details', { p_visit_kind: kind, p_visit_id: visitId }).single();
+    if (error) handleSupabaseError(error, 'getVisitDetails');
+    const v = data as any;
+    return {
+      kind,
+      id: visitId,
+      repId: v.rep_id,
+      date: v.date,
+      productIds: v.product_ids || [],
+      productFeedback: (v.product_feedback || []).map(mapProductFeedback),
+      visitType: v.visit_type ?? null,
+      comment: (kind === 'doctor' ? v.doctor_comment : v.visit_notes) || '',
+    };
+  },
+
+  updateVisit: async (kind: VisitDetails['kind'], visitId: string, changes: VisitEdit, reason: string): Promise<void> => {
+    const { error } = await supabase.rpc('update_visit', {
+      p_visit_kind: kind,
+      p_visit_id: visitId,
+      p_product_ids: kind === 'doctor' ? changes.productIds : null,
+      p_product_feedback: kind === 'doctor' ? productFeedbackParams(changes.productFeedback) : null,
+      p_visit_type: kind === 'doctor' ? changes.visitType : null,
+      p_comment: changes.comment,
+      p_reason: reason,
+    });
+    if (error) throwVisitCorrectionError(error, 'updateVisit');
+    cacheService.invalidate(CacheInvalidations.correctVisit());
+  },
+
+  deleteVisit: async (kind: VisitDetails['kind'], visitId: string, reason: string): Promise<void> => {
+    const { error } = await supabase.rpc('delete_visit', { p_visit_kind: kind, p_visit_id: visitId, p_reason: reason });
+    if (error) throwVisitCorrectionError(error, 'deleteVisit');
+    cacheService.invalidate(CacheInvalidations.correctVisit());
+  },
+
+  getVisitAuditLog: async (kind: VisitDetails['kind'], visitId: string): Promise<VisitAuditEntry[]> => {
+    const { data, error } = await supabase
+      .from('visit_audit_log')
+      .select('*, changer:profiles!changed_by(name)')
+      .eq('visit_kind', kind)
+      .eq('visit_id', visitId)
+      .order('changed_at', { ascending: false });
+    if (error) handleSupabaseError(error, 'getVisitAuditLog');
+    return (data || []).map((e: any): VisitAuditEntry => ({
+      id: e.id,
+      visitKind: e.visit_kind,
+      visitId: e.visit_id,
+      action: e.action,
+      changedBy: e.changed_by,
+      changedByName: e.changer?.name || '',
+      changedAt: e.changed_at,
+      before: e.before || {},
+      after: e.after,
+      reason: e.reason || '',
+    }));
+  },
+
+  // Report rows carry client, rep, region and product IDs next to the display names
+  getVisitReportsForRep: async (repId: string): Promise<VisitReport[]> => {
+    return cacheService.getOrFetch(CacheKeys.VISITS_BY_REP(repId), async () => {
+      const { data, error } = await supabase.rpc('get_visit_reports', { p_rep_id: repId });
+      if (error) {
+        // Specific error handling for the 'UNION types' issue
+        if (error.code === '42804' && error.message.includes('UNION types text and specialization cannot be matched')) {
+          console.error("Critical SQL Function Error: 'get_visit_reports' RPC failed due to UNION type mismatch.");
+          console.error("This usually means the 'specialization' column in your 'doctors' table is an ENUM type in the database, and the 'get_visit_reports' function is trying to UNION it with a TEXT or NULL type for pharmacy visits without explicit casting.");
+          console.error("Solution: Edit your 'get_visit_reports' SQL function in Supabase. Ensure that the 'target_specialization' column for BOTH doctor and pharmacy visits is explicitly cast to 'TEXT' (e.g., `d.specialization::text` and `NULL::text`).");
+          throw new Error("error_get_visit_reports_sql_config");
+        }
+        handleSupabaseError(error, 'getVisitReportsForRep');
+      }
+      return data || [];
+    }, CacheTTL.VISITS);
+  },
+
+  // One page of the reports matching the filter. Filtering, sorting and paging all happen in the database;
+  // each row carries the total match count so a single round trip is enough.
+  queryVisitReports: async (query: VisitReportQuery): Promise<VisitReportPage> => {
+    if (query.repIds && query.repIds.length === 0) return { reports: [], totalCount: 0 };
+    const { data, error } = await supabase.rpc('query_visit_reports', {
+      ...visitReportFilterParams(query),
+      p_sort_by: query.sortBy,
+      p_sort_dir: query.sortDirection,
+      p_limit: query.pageSize,
+      p_offset: (query.page - 1) * query.pageSize,
+    });
+    if (error) handleSupabaseError(error, 'queryVisitReports');
+    const rows: any[] = data || [];
+    return {
+      reports: rows.map(({ total_count, ...report }) => report as VisitReport),
+      totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    };
+  },
+
+  // Every report matching the filter, fetched page by page for exports
+  getVisitReportsForExport: async (filter: VisitReportFilter, sortBy: VisitReportQuery['sortBy'] = 'date', sortDirection: VisitReportQuery['sortDirection'] = 'desc'): Promise<VisitReport[]> => {
+    const reports: VisitReport[] = [];
+    for (let page = 1; ; page++) {
+      const result = await api.queryVisitReports({ ...filter, page, pageSize: EXPORT_PAGE_SIZE, sortBy, sortDirection });
+      reports.push(...result.reports);
+      if (result.reports.length < EXPORT_PAGE_SIZE || reports.length >= result.totalCount) return reports;
     }
-    return (data || []).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   },
 
+  // Every report between two dates, both inclusive, oldest first
+  getVisitReportsBetween: async (startDate: string, endDate: string, repIds?: string[]): Promise<VisitReport[]> => {
+    return api.getVisitReportsForExport({ repIds, startDate, endDate }, 'date', 'asc');
+  },
+
+  getVisitReportStats: async (filter: VisitReportFilter): Promise<VisitReportStats> => {
+    if (filter.repIds && filter.repIds.length === 0) return { total: 0, doctorVisits: 0, pharmacyVisits: 0, uniqueClients: 0, firstVisitAt: null, lastVisitAt: null, byRep: [] };
+    const { data, error } = await supabase.rpc('get_visit_report_stats', visitReportFilterParams(filter));
+    if (error) handleSupabaseError(error, 'getVisitReportStats');
+    return {
+      total: data?.total ?? 0,
+      doctorVisits: data?.doctor_visits ?? 0,
+      pharmacyVisits: data?.pharmacy_visits ?? 0,
+      uniqueClients: data?.unique_clients ?? 0,
+      firstVisitAt: data?.first_visit_at ?? null,
+      lastVisitAt: data?.last_visit_at ?? null,
+      byRep: (data?.by_rep || []).map((r: any) => ({ repName: r.rep_name, count: r.count })),
+    };
+  },
+
+  // Each client is judged against the visit frequency target of its segment from the system settings
   getOverdueVisits: async (): Promise<ClientAlert[]> => {
-    const { data, error } = await supabase.rpc('get_overdue_visits');
+    const [{ data, error }, settings] = await Promise.all([
+      supabase.rpc('get_client_visit_recency'),
+      api.getSystemSettings(),
+    ]);
     if (error) handleSupabaseError(error, 'getOverdueVisits');
-    return data || [];
+    const clients: ClientVisitRecency[] = (data || []).map((c: any) => ({ ...c, tier: c.tier ?? null }));
+    return findOverdueClients(clients, settings);
   },
 
   // --- WEEKLY PLANS ---
+  // Plans are stored per rep and week (unique on rep_id + week_start), so earlier weeks are kept as history.
 
-  getRepPlan: async (repId: string): Promise<WeeklyPlan> => {
-    const { data, error } = await supabase.from('weekly_plans').select('plan, status').eq('rep_id', repId).maybeSingle();
+  getRepPlan: async (repId: string, weekStart: string): Promise<WeeklyPlan> => {
+    const { data, error } = await supabase.from('weekly_plans').select(PLAN_COLUMNS).eq('rep_id', repId).eq('week_start', weekStart).maybeSingle();
     if (error) handleSupabaseError(error, 'getRepPlan');
-    return data || { plan: {}, status: 'draft' };
+    return data ? mapPlan(data) : { repId, weekStart, plan: {}, status: 'draft' };
   },
 
-  updateRepPlan: async (repId: string, planData: WeeklyPlan['plan']): Promise<WeeklyPlan> => {
+  // Most recent weeks first
+  getRepPlanHistory: async (repId: string, limit: number = 12): Promise<WeeklyPlan[]> => {
+    const { data, error } = await supabase.from('weekly_plans').select(PLAN_COLUMNS).eq('rep_id', repId).order('week_start', { ascending: false }).limit(limit);
+    if (error) handleSupabaseError(error, 'getRepPlanHistory');
+    return (data || []).map(mapPlan);
+  },
+
+  updateRepPlan: async (repId: string, weekStart: string, planData: WeeklyPlan['plan'], status: 'draft' | 'pending' = 'pending'): Promise<WeeklyPlan> => {
     const { data, error } = await supabase.from('weekly_plans').upsert({
       rep_id: repId,
+      week_start: weekStart,
       plan: planData,
-      status: 'pending',
-    }, { onConflict: 'rep_id' }).select('plan, status').single();
+      status,
+      // A changed plan needs a fresh review; earlier decisions stay in weekly_plan_reviews
+      reviewed_by: null,
+      reviewed_at: null,
+    }, { onConflict: 'rep_id,week_start' }).select(PLAN_COLUMNS).single();
     if (error) handleSupabaseError(error, 'updateRepPlan');
-    return data as WeeklyPlan;
+    cacheService.invalidate(CacheInvalidations.updateRepPlan());
+    return mapPlan(data);
   },
 
-  reviewRepPlan: async (repId: string, newStatus: 'approved' | 'rejected'): Promise<WeeklyPlan> => {
-    const { data, error } = await supabase.from('weekly_plans').update({ status: newStatus }).eq('rep_id', repId).select('plan, status').single();
+  // The RPC sets the status and reviewer, appends the decision to weekly_plan_reviews and records the audit entry
+  // in one transaction, with the caller as reviewer
+  reviewRepPlan: async (repId: string, weekStart: string, newStatus: 'approved' | 'rejected'): Promise<WeeklyPlan> => {
+    const { error } = await supabase.rpc('review_plan', { p_rep_id: repId, p_week_start: weekStart, p_action: newStatus });
     if (error) handleSupabaseError(error, 'reviewRepPlan');
-    return data as WeeklyPlan;
+    cacheService.invalidate(CacheInvalidations.reviewRepPlan());
+    return getReviewedPlan(repId, weekStart, 'reviewRepPlan');
   },
 
-  revokePlanApproval: async (repId: string): Promise<WeeklyPlan> => {
-    // Setting status back to 'draft' allows the rep to edit and resubmit
-    const { data, error } = await supabase.from('weekly_plans').update({ status: 'draft' }).eq('rep_id', repId).select('plan, status').single();
+  // Setting status back to 'draft' allows the rep to edit and resubmit
+  revokePlanApproval: async (repId: string, weekStart: string): Promise<WeeklyPlan> => {
+    const { error } = await supabase.rpc('review_plan', { p_rep_id: repId, p_week_start: weekStart, p_action: 'revoked' });
     if (error) handleSupabaseError(error, 'revokePlanApproval');
-    return data as WeeklyPlan;
+    cacheService.invalidate(CacheInvalidations.revokePlanApproval());
+    return getReviewedPlan(repId, weekStart, 'revokePlanApproval');
+  },
+
+  // Every review decision taken on a rep's plan for one week, oldest first
+  getPlanReviews: async (repId: string, weekStart: string): Promise<PlanReview[]> => {
+    const { data, error } = await supabase.from('weekly_plan_reviews')
+      .select('id, rep_id, week_start, action, reviewed_by, created_at, reviewer:profiles!reviewed_by(name)')
+      .eq('rep_id', repId).eq('week_start', weekStart)
+      .order('created_at', { ascending: true });
+    if (error) handleSupabaseError(error, 'getPlanReviews');
+    return (data || []).map((r: any) => ({
+      id: r.id,
+      repId: r.rep_id,
+      weekStart: r.week_start,
+      action: r.action,
+      reviewedBy: r.reviewed_by,
+      reviewerName: r.reviewer?.name ?? null,
+      createdAt: r.created_at,
+    }));
   },
 
-  getAllPlans: async (): Promise<{ [repId: string]: WeeklyPlan }> => {
-    const { data, error } = await supabase.from('weekly_plans').select('rep_id, plan, status');
+  getAllPlans: async (weekStart: string, repIds?: string[]): Promise<{ [repId: string]: WeeklyPlan }> => {
+    if (repIds && repIds.length === 0) return {};
+    let query = supabase.from('weekly_plans').select(PLAN_COLUMNS).eq('week_start', weekStart);
+    if (repIds) query = query.in('rep_id', repIds);
+    const { data, error } = await query;
     if (error) handleSupabaseError(error, 'getAllPlans');
 
     const plansObject: { [repId: string]: WeeklyPlan } = {};
     (data || []).forEach(plan => {
-      plansObject[plan.rep_id] = {
-        plan: plan.plan,
-        status: plan.status,
-      };
+      plansObject[plan.rep_id] = mapPlan(plan);
     });
     return plansObject;
   },
 
+  // Plans of every week starting between the two week start keys, both inclusive
+  getPlansBetween: async (fromWeekStart: string, toWeekStart: string, repIds?: string[]): Promise<WeeklyPlan[]> => {
+    if (repIds && repIds.length === 0) return [];
+    let query = supabase.from('weekly_plans').select(PLAN_COLUMNS).gte('week_start', fromWeekStart).lte('week_start', toWeekStart);
+    if (repIds) query = query.in('rep_id', repIds);
+    const { data, error } = await query;
+    if (error) handleSupabaseError(error, 'getPlansBetween');
+    return (data || []).map(mapPlan);
+  },
+
+  // Submitted plans waiting for review, across all weeks
+  getPendingPlans: async (repIds?: string[]): Promise<WeeklyPlan[]> => {
+    if (repIds && repIds.length === 0) return [];
+    let query = supabase.from('weekly_plans').select(PLAN_COLUMNS).eq('status', 'pending');
+    if (repIds) query = query.in('rep_id', repIds);
+    const { data, error } = await query.order('week_start', { ascending: true });
+    if (error) handleSupabaseError(error, 'getPendingPlans');
+    return (data || []).map(mapPlan);
+  },
+
   // --- SYSTEM SETTINGS ---
 
   getSystemSettings: async (): Promise<SystemSettings> => {
     const { data, error } = await supabase.from('system_settings').select('*').eq('id', 1).single();
     if (error) handleSupabaseError(error, 'getSystemSettings');
-    return data || { weekends: [], holidays: [] };
+    return mapSystemSettings(data);
   },
 
+  // The RPC records the settings before and after the change in the audit log, in the same transaction as the update
   updateSystemSettings: async (settings: SystemSettings): Promise<SystemSettings> => {
-    const { data, error } = await supabase.from('system_settings').update({
-      weekends: settings.weekends,
-      holidays: settings.holidays,
-    }).eq('id', 1).select().single();
+    const { data, error } = await supabase.rpc('update_system_settings', {
+      p_weekends: settings.weekends,
+      p_holidays: settings.holidays,
+      p_visit_targets: settings.visitTargets,
+      p_default_visit_target_days: settings.defaultVisitTargetDays,
+      p_max_visit_distance_meters: settings.maxVisitDistanceMeters,
+      p_visit_edit_grace_hours: settings.visitEditGraceHours,
+    }).single();
     if (error) handleSupabaseError(error, 'updateSystemSettings');
-    return data as SystemSettings;
+    cacheService.invalidate(CacheInvalidations.updateSystemSettings());
+    return mapSystemSettings(data);
   },
 
-  // --- BATCH IMPORTS ---
-  addDoctorsBatch: async (rows: any[][], onProgress: (p: number) => void): Promise<{ success: number, failed: number, errors: string[] }> => {
-    const result = { success: 0, failed: 0, errors: [] as string[] };
-    const [regions, users] = await Promise.all([api.getRegions(), api.getUsers()]);
-    const regionMap = new Map(regions.map(r => [r.name.trim().toLowerCase(), r.id]));
-    // NOTE: userMap now uses the 'username' field (which holds the email) for mapping.
-    const userMap = new Map(users.map(u => [u.username.trim().toLowerCase(), u.id]));
-
-    const doctorsToInsert: { name: string; region_id: number; rep_id: string; specialization: string }[] = [];
-
-    for (const [index, row] of rows.entries()) {
-      if (row.length < 4 || row.every(cell => cell === null || cell === '')) continue;
-
-      const Name = row[0];
-      const RegionName = row[1];
-      const Spec = row[2]; // Specialization from Excel
-      const repEmail = row[3]; // Expecting a full email address now
-      const rowIndex = index + 2;
-
-      if (!Name || !RegionName || !Spec || !repEmail) {
-        result.failed++;
-        result.errors.push(`Row ${rowIndex}: Missing required fields.`);
-        continue;
-      }
-
-      let regionId = regionMap.get(String(RegionName).trim().toLowerCase());
-
-      if (!regionId) {
-        try {
-          const newRegion = await api.addRegion(String(RegionName).trim());
-          regionId = newRegion.id;
-          regionMap.set(newRegion.name.trim().toLowerCase(), newRegion.id);
-        } catch (e: any) {
-          result.failed++;
-          result.errors.push(`Row ${rowIndex}: Could not find or create region "${RegionName}". Error: ${e.message}`);
-          continue;
-        }
-      }
-
-      // NOTE: repId is found using the provided repEmail (username) from the import file.
-      const repId = userMap.get(String(repEmail).trim().toLowerCase());
-
-      if (!repId) { result.failed++; result.errors.push(`Row ${rowIndex}: Rep with email "${repEmail}" not found. Ensure this email exists in the system.`); continue; }
-
-      // Specialization: Directly use the provided string from the Excel file
-      // Assuming the database column 'specialization' is of type 'text' or 'varchar'
-      doctorsToInsert.push({ name: String(Name).trim(), region_id: regionId, rep_id: repId, specialization: String(Spec).trim() });
-    }
-
-    const totalToInsert = doctorsToInsert.length;
-    if (totalToInsert > 0) {
-      const CHUNK_SIZE = 50;
-      for (let i = 0; i < totalToInsert; i += CHUNK_SIZE) {
-        const chunk = doctorsToInsert.slice(i, i + CHUNK_SIZE);
-        const { error } = await supabase.from('doctors').insert(chunk);
-        if (error) {
-          result.failed += chunk.length;
-          result.errors.push(`Database error on a batch: ${error.message}`);
-          onProgress(100);
-          return result;
-        } else {
-          result.success += chunk.length;
-        }
-        const currentProgress = Math.round(((i + chunk.length) / totalToInsert) * 100);
-        onProgress(currentProgress);
+  // --- AUDIT LOG ---
+
+  // Newest first; the filter is applied on the server so older entries stay reachable past the limit
+  getAuditLog: async (filter: AuditLogFilter = {}, limit: number = 500): Promise<AuditLogEntry[]> => {
+    let query = supabase.from('audit_log')
+      .select('*, actor:profiles!actor_id(name)')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (filter.actorId) query = query.eq('actor_id', filter.actorId);
+    if (filter.action) query = query.eq('action', filter.action);
+    const { from, to } = dateRangeBounds(filter.startDate, filter.endDate);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lt('created_at', to);
+    const { data, error } = await query;
+    if (error) {
+      if (error.message.includes('permission denied') || error.message.includes('violates row-level security policy')) {
+        throw new Error('error_permission_denied');
       }
-    } else {
-      onProgress(100);
+      handleSupabaseError(error, 'getAuditLog');
     }
-
-    return result;
+    return (data || []).map(mapAuditLogEntry);
   },
 
-  addPharmaciesBatch: async (rows: any[][], onProgress: (p: number) => void): Promise<{ success: number, failed: number, errors: string[] }> => {
-    const result = { success: 0, failed: 0, errors: [] as string[] };
-    const [regions, users] = await Promise.all([api.getRegions(), api.getUsers()]);
-    const regionMap = new Map(regions.map(r => [r.name.trim().toLowerCase(), r.id]));
-    // NOTE: userMap now uses the 'username' field (which holds the the email) for mapping.
-    const userMap = new Map(users.map(u => [u.username.trim().toLowerCase(), u.id]));
-
-    const pharmaciesToInsert: { name: string; region_id: number; rep_id: string; specialization: Specialization.Pharmacy }[] = [];
-
-    for (const [index, row] of rows.entries()) {
-      if (row.length < 3 || row.every(cell => cell === null || cell === '')) continue;
-
-      const Name = row[0];
-      const RegionName = row[1];
-      const repEmail = row[2]; // Expecting a full email address now
-      const rowIndex = index + 2;
-
-      if (!Name || !RegionName || !repEmail) {
-        result.failed++;
-        result.errors.push(`Row ${rowIndex}: Missing required fields.`);
-        continue;
-      }
-      let regionId = regionMap.get(String(RegionName).trim().toLowerCase());
-
-      if (!regionId) {
-        try {
-          const newRegion = await api.addRegion(String(RegionName).trim());
-          regionId = newRegion.id;
-          regionMap.set(newRegion.name.trim().toLowerCase(), newRegion.id);
-        } catch (e: any) {
-          result.failed++;
-          result.errors.push(`Row ${rowIndex}: Could not find or create region "${RegionName}". Error: ${e.message}`);
-          continue;
-        }
-      }
-
-      // NOTE: repId is found using the provided repEmail (username) from the import file.
-      const repId = userMap.get(String(repEmail).trim().toLowerCase());
-
-      if (!repId) { result.failed++; result.errors.push(`Row ${rowIndex}: Rep with email "${repEmail}" not found. Ensure this email exists in the system.`); continue; }
+  // --- BATCH IMPORTS ---
 
-      pharmaciesToInsert.push({ name: String(Name).trim(), region_id: regionId, rep_id: repId, specialization: Specialization.Pharmacy });
+  // Commits the reviewed rows of a staged import. The RPC creates missing regions and inserts every client
+  // in one transaction, so either the whole sheet lands or nothing does, and records the audit entry in it too.
+  // In upsert mode rows matched to an existing client update that client's rep and specialization instead of inserting a copy.
+  importClients: async (type: ImportType, rows: ImportRow[], mode: ImportMode = 'insert'): Promise<{ imported: number; updated: number; regionsCreated: number }> => {
+    const rowsToImport = rows.filter(row => !row.excluded);
+    if (rowsToImport.some(row => row.errors.length > 0 || !row.repId)) {
+      throw new Error('error_import_has_invalid_rows');
     }
+    if (rowsToImport.length === 0) return { imported: 0, updated: 0, regionsCreated: 0 };
+
+    const { data, error } = await supabase.rpc('import_clients', {
+      p_type: type === 'doctors' ? 'doctor' : 'pharmacy',
+      p_mode: mode,
+      p_excluded_count: rows.length - rowsToImport.length, // For the audit entry
+      p_rows: rowsToImport.map(row => ({
+        row_number: row.rowNumber,
+        existing_id: mode === 'upsert' ? row.existingId : null,
+        name: row.name,
+        region_name: row.regionName,
+        rep_id: row.repId,
+        specialization: type === 'doctors' ? row.specialization : Specialization.Pharmacy,
+        tier: row.tier ? row.tier.toUpperCase() : null,
+      })),
+    });
+    if (error) handleSupabaseError(error, 'importClients');
+    cacheService.invalidate(CacheInvalidations.importClients());
+    const updatedCount = mode === 'upsert' ? rowsToImport.filter(row => row.existingId !== null).length : 0;
+    return {
+      imported: data?.imported ?? rowsToImport.length - updatedCount,
+      updated: data?.updated ?? updatedCount,
+      regionsCreated: data?.regions_created ?? 0,
+    };
+  },
 
-    const totalToInsert = pharmaciesToInsert.length;
-    if (totalToInsert > 0) {
-      const CHUNK_SIZE = 50;
-      for (let i = 0; i < totalToInsert; i += CHUNK_SIZE) {
-        const chunk = pharmaciesToInsert.slice(i, i + CHUNK_SIZE);
-        const { error } = await supabase.from('pharmacies').insert(chunk);
-        if (error) {
-          result.failed += chunk.length;
-          result.errors.push(`Database error on a batch: ${error.message}`);
-          onProgress(100);
-          return result;
-        } else {
-          result.success += chunk.length;
-        }
-        const currentProgress = Math.round(((i + chunk.length) / totalToInsert) * 100);
-        onProgress(currentProgress);
+  // Folds a duplicate client into the one being kept: visits and plan days move over, then the duplicate is deleted
+  mergeClients: async (type: ImportType, keepId: number, duplicateId: number): Promise<void> => {
+    if (keepId === duplicateId) {
+      throw new Error('error_merge_same_client');
+    }
+    const { error } = await supabase.rpc('merge_clients', {
+      p_type: type === 'doctors' ? 'doctor' : 'pharmacy',
+      p_keep_id: keepId,
+      p_duplicate_id: duplicateId,
+    });
+    if (error) {
+      if (error.message.includes('permission denied') || error.message.includes('violates row-level security policy')) {
+        throw new Error('error_permission_denied');
       }
-    } else {
-      onProgress(100);
+      handleSupabaseError(error, 'mergeClients');
     }
-
-    return result;
+    cacheService.invalidate(CacheInvalidations.mergeClients());
   },
 };
@@ -0,0 +1,36 @@
+import { AuditLogEntry } from '../types';
+import { TranslationFunction } from '../hooks/useLanguage';
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Settings that differ between the before and after snapshots of an update_settings entry
+export const changedSettingKeys = (payload: Record<string, unknown> | null): string[] => {
+  const before = (payload?.before || {}) as Record<string, unknown>;
+  const after = (payload?.after || {}) as Record<string, unknown>;
+  return Object.keys({ ...before, ...after }).filter(key => !sameValue(before[key], after[key]));
+};
+
+export const describeAuditTarget = (entry: AuditLogEntry, t: TranslationFunction): string => {
+  if (entry.targetType === 'system_settings') return t('audit_target_system_settings');
+  if (entry.targetType === 'clients') return entry.targetLabel ? t(entry.targetLabel) : '-';
+  return entry.targetLabel || entry.targetId || '-';
+};
+
+// One-line summary of what the action did, shared by the viewer and the exports
+export const summarizeAuditPayload = (entry: AuditLogEntry, t: TranslationFunction): string => {
+  const payload = entry.payload || {};
+  switch (entry.action) {
+    case 'review_plan':
+      return `${t('week_of', String(payload.weekStart))} · ${t(`plan_status_${payload.status}`)}`;
+    case 'revoke_plan_approval':
+      return t('week_of', String(payload.weekStart));
+    case 'update_settings': {
+      const keys = changedSettingKeys(entry.payload);
+      return keys.length > 0 ? t('audit_settings_changed', keys.map(key => t(`audit_setting_${key}`)).join(', ')) : t('audit_settings_unchanged');
+    }
+    case 'import_clients':
+      return t('audit_import_summary', t(`import_mode_${payload.mode}`), Number(payload.rowCount ?? 0), Number(payload.imported ?? 0), Number(payload.updated ?? 0), Number(payload.regionsCreated ?? 0));
+    default:
+      return '';
+  }
+};
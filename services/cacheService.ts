@@ -1,6 +1,3 @@
-
-import { User, Doctor, Pharmacy, Product, Region, VisitReport, ClientAlert, SystemSettings, WeeklyPlan } from '../types';
-
 // Cache configuration
 const CACHE_EXPIRY_TIME = 15 * 60 * 1000; // 15 minutes in milliseconds
 const CACHE_PREFIX = 'sanivita_crm_cache_';
@@ -12,9 +9,12 @@ interface CacheItem<T> {
   expiry: number;
 }
 
-// Cache storage
+// In-memory mirror of what is persisted in localStorage, so reads don't re-parse JSON every time
 const cacheStore: Record<string, CacheItem<any>> = {};
 
+// Requests currently being fetched, so parallel callers share one network round-trip
+const inFlight: Record<string, Promise<any>> = {};
+
 // Helper functions
 const isExpired = (cacheItem: CacheItem<any>): boolean => {
   return Date.now() > cacheItem.expiry;
@@ -24,41 +24,178 @@ const getCacheKey = (key: string): string => {
   return `${CACHE_PREFIX}${key}`;
 };
 
-// Cache API
-export const cacheService = {
-  // Get data from cache
-  get: <T>(key: string): T | null => {
-    const cacheKey = getCacheKey(key);
-    const cacheItem = cacheStore[cacheKey];
+const hasStorage = (): boolean => {
+  try {
+    return typeof window !== 'undefined' && !!window.localStorage;
+  } catch (e) {
+    return false;
+  }
+};
+
+const readPersisted = (cacheKey: string): CacheItem<any> | undefined => {
+  if (!hasStorage()) return undefined;
+  try {
+    const raw = localStorage.getItem(cacheKey);
+    return raw ? JSON.parse(raw) as CacheItem<any> : undefined;
+  } catch (e) {
+    // Corrupted entry, drop it
+    localStorage.removeItem(cacheKey);
+    return undefined;
+  }
+};
+
+const removePersisted = (cacheKey: string) => {
+  if (!hasStorage()) return;
+  try {
+    localStorage.removeItem(cacheKey);
+  } catch (e) {
+    // Ignore storage errors, the in-memory copy is already gone
+  }
+};
+
+const persistedKeys = (): string[] => {
+  if (!hasStorage()) return [];
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(CACHE_PREFIX)) keys.push(key);
+  }
+  return keys;
+};
+
+const evictExpired = () => {
+  persistedKeys().forEach(cacheKey => {
+    const item = readPersisted(cacheKey);
+    if (!item || isExpired(item)) removePersisted(cacheKey);
+  });
+};
+
+const writePersisted = (cacheKey: string, item: CacheItem<any>) => {
+  if (!hasStorage()) return;
+  try {
+    localStorage.setItem(cacheKey, JSON.stringify(item));
+  } catch (e) {
+    // Most likely the quota is full: free up expired entries and try once more.
+    evictExpired();
+    try {
+      localStorage.setItem(cacheKey, JSON.stringify(item));
+    } catch (retryError) {
+      console.warn(`Cache entry "${cacheKey}" is too large to persist, keeping it in memory only.`);
+    }
+  }
+};
+
+const lookup = (cacheKey: string): CacheItem<any> | undefined => {
+  const cacheItem = cacheStore[cacheKey] ?? readPersisted(cacheKey);
+  if (!cacheItem) return undefined;
+
+  if (isExpired(cacheItem)) {
+    delete cacheStore[cacheKey];
+    removePersisted(cacheKey);
+    return undefined;
+  }
+
+  cacheStore[cacheKey] = cacheItem;
+  return cacheItem;
+};
 
-    if (!cacheItem) {
-      return null;
+// Keep other tabs in sync: the 'storage' event fires in every tab except the one that wrote.
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event: StorageEvent) => {
+    if (event.key === null) {
+      // localStorage.clear() was called in another tab
+      Object.keys(cacheStore).forEach(key => delete cacheStore[key]);
+      return;
     }
+    if (!event.key.startsWith(CACHE_PREFIX)) return;
 
-    if (isExpired(cacheItem)) {
-      delete cacheStore[cacheKey];
-      return null;
+    if (event.newValue === null) {
+      delete cacheStore[event.key];
+      return;
     }
+    try {
+      cacheStore[event.key] = JSON.parse(event.newValue);
+    } catch (e) {
+      delete cacheStore[event.key];
+    }
+  });
+}
 
-    return cacheItem.data as T;
+// Cache API
+export const cacheService = {
+  // Get data from cache
+  get: <T>(key: string): T | null => {
+    const cacheItem = lookup(getCacheKey(key));
+    return cacheItem ? cacheItem.data as T : null;
   },
 
   // Set data in cache
   set: <T>(key: string, data: T, customExpiry?: number): void => {
     const cacheKey = getCacheKey(key);
     const expiry = customExpiry || (Date.now() + CACHE_EXPIRY_TIME);
-
-    cacheStore[cacheKey] = {
+    const cacheItem: CacheItem<T> = {
       data,
       timestamp: Date.now(),
       expiry
     };
+
+    cacheStore[cacheKey] = cacheItem;
+    writePersisted(cacheKey, cacheItem);
+  },
+
+  // Read-through: return the cached value or fetch, store and return it
+  getOrFetch: async <T>(key: string, fetcher: () => Promise<T>, ttl: number = CACHE_EXPIRY_TIME): Promise<T> => {
+    const cached = cacheService.get<T>(key);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const cacheKey = getCacheKey(key);
+    if (!(cacheKey in inFlight)) {
+      const request: Promise<T> = fetcher()
+        .then(data => {
+          // Don't cache a response that was invalidated while it was in flight
+          if (inFlight[cacheKey] === request) cacheService.set(key, data, Date.now() + ttl);
+          return data;
+        })
+        .finally(() => {
+          if (inFlight[cacheKey] === request) delete inFlight[cacheKey];
+        });
+      inFlight[cacheKey] = request;
+    }
+    return inFlight[cacheKey];
   },
 
   // Remove specific item from cache
   remove: (key: string): void => {
     const cacheKey = getCacheKey(key);
     delete cacheStore[cacheKey];
+    delete inFlight[cacheKey];
+    removePersisted(cacheKey);
+  },
+
+  // Remove every item whose key starts with the given prefix (e.g. all 'visits_rep_' entries)
+  removeByPrefix: (prefix: string): void => {
+    const cachePrefix = getCacheKey(prefix);
+    const keys = new Set([...Object.keys(cacheStore), ...Object.keys(inFlight), ...persistedKeys()]);
+    keys.forEach(cacheKey => {
+      if (cacheKey.startsWith(cachePrefix)) {
+        delete cacheStore[cacheKey];
+        delete inFlight[cacheKey];
+        removePersisted(cacheKey);
+      }
+    });
+  },
+
+  // Remove a list of keys; entries ending with '*' are treated as prefixes
+  invalidate: (keys: string[]): void => {
+    keys.forEach(key => {
+      if (key.endsWith('*')) {
+        cacheService.removeByPrefix(key.slice(0, -1));
+      } else {
+        cacheService.remove(key);
+      }
+    });
   },
 
   // Clear all cache
@@ -68,23 +205,13 @@ export const cacheService = {
         delete cacheStore[key];
       }
     });
+    Object.keys(inFlight).forEach(key => delete inFlight[key]);
+    persistedKeys().forEach(removePersisted);
   },
 
   // Check if item exists and is not expired
   has: (key: string): boolean => {
-    const cacheKey = getCacheKey(key);
-    const cacheItem = cacheStore[cacheKey];
-
-    if (!cacheItem) {
-      return false;
-    }
-
-    if (isExpired(cacheItem)) {
-      delete cacheStore[cacheKey];
-      return false;
-    }
-
-    return true;
+    return lookup(getCacheKey(key)) !== undefined;
   }
 };
 
@@ -99,6 +226,9 @@ export const CacheKeys = {
   ALERTS: 'alerts',
   SYSTEM_SETTINGS: 'system_settings',
   WEEKLY_PLAN: 'weekly_plan',
+  REP_TERRITORIES: 'rep_territories',
+  STOCK_CHECKS: 'stock_checks',
+  SAMPLE_BALANCES: 'sample_balances',
   // Dynamic keys
   USER_PROFILE: (userId: string) => `user_profile_${userId}`,
   DOCTORS_BY_REGION: (regionId: number) => `doctors_region_${regionId}`,
@@ -106,3 +236,36 @@ export const CacheKeys = {
   VISITS_BY_DATE_RANGE: (startDate: string, endDate: string) => `visits_${startDate}_${endDate}`,
   VISITS_BY_REP: (repId: string) => `visits_rep_${repId}`,
 };
+
+// How long each kind of data may be served from cache
+export const CacheTTL = {
+  REFERENCE_DATA: CACHE_EXPIRY_TIME, // Regions, products, doctors: rarely change
+  VISITS: 5 * 60 * 1000, // Visit reports change as reps log visits
+};
+
+// Which cache entries each mutation makes stale. A trailing '*' matches every key with that prefix.
+// The functions receive the same arguments as the api method they describe.
+export const CacheInvalidations = {
+  // 'users*' also covers derived lists such as the coaches picked on visits
+  addUser: () => [`${CacheKeys.USERS}*`],
+  updateUser: (userId: string) => [`${CacheKeys.USERS}*`, CacheKeys.USER_PROFILE(userId)],
+  deleteUser: (userId: string) => [`${CacheKeys.USERS}*`, CacheKeys.USER_PROFILE(userId)],
+  addRegion: () => [CacheKeys.REGIONS],
+  renameRegion: () => [CacheKeys.REGIONS, CacheKeys.VISITS, `${CacheKeys.VISITS}_*`, 'visits_rep_*', CacheKeys.ALERTS], // Visits carry the region name
+  mergeRegions: () => [CacheKeys.REGIONS, CacheKeys.DOCTORS, 'doctors_region_*', CacheKeys.PHARMACIES, 'pharmacies_region_*', CacheKeys.VISITS, `${CacheKeys.VISITS}_*`, CacheKeys.ALERTS, CacheKeys.WEEKLY_PLAN, CacheKeys.REP_TERRITORIES, CacheKeys.STOCK_CHECKS, `${CacheKeys.STOCK_CHECKS}_*`],
+  setRepTerritory: () => [CacheKeys.REP_TERRITORIES],
+  addProduct: () => [CacheKeys.PRODUCTS],
+  updateProduct: () => [CacheKeys.PRODUCTS],
+  addDoctorVisit: (visit: { repId: string }) => [CacheKeys.VISITS, `${CacheKeys.VISITS}_*`, CacheKeys.VISITS_BY_REP(visit.repId), CacheKeys.ALERTS, CacheKeys.SAMPLE_BALANCES, `${CacheKeys.SAMPLE_BALANCES}_*`],
+  correctVisit: () => [CacheKeys.VISITS, `${CacheKeys.VISITS}_*`, 'visits_rep_*', CacheKeys.ALERTS, CacheKeys.SAMPLE_BALANCES, `${CacheKeys.SAMPLE_BALANCES}_*`, CacheKeys.STOCK_CHECKS, `${CacheKeys.STOCK_CHECKS}_*`],
+  allocateSamples: () => [CacheKeys.SAMPLE_BALANCES, `${CacheKeys.SAMPLE_BALANCES}_*`],
+  addPharmacyVisit: (visit: { repId: string }) => [CacheKeys.VISITS, `${CacheKeys.VISITS}_*`, CacheKeys.VISITS_BY_REP(visit.repId), CacheKeys.ALERTS, CacheKeys.STOCK_CHECKS, `${CacheKeys.STOCK_CHECKS}_*`],
+  mergeClients: () => [CacheKeys.DOCTORS, 'doctors_region_*', CacheKeys.PHARMACIES, 'pharmacies_region_*', CacheKeys.VISITS, `${CacheKeys.VISITS}_*`, CacheKeys.ALERTS, CacheKeys.WEEKLY_PLAN, CacheKeys.STOCK_CHECKS, `${CacheKeys.STOCK_CHECKS}_*`],
+  importClients: () => [CacheKeys.DOCTORS, 'doctors_region_*', CacheKeys.PHARMACIES, 'pharmacies_region_*', CacheKeys.REGIONS, CacheKeys.ALERTS],
+  updateClients: () => [CacheKeys.DOCTORS, 'doctors_region_*', CacheKeys.PHARMACIES, 'pharmacies_region_*', CacheKeys.ALERTS],
+  resetRepData: (repId: string) => [CacheKeys.VISITS, `${CacheKeys.VISITS}_*`, CacheKeys.VISITS_BY_REP(repId), CacheKeys.ALERTS, CacheKeys.WEEKLY_PLAN, CacheKeys.STOCK_CHECKS, `${CacheKeys.STOCK_CHECKS}_*`, CacheKeys.SAMPLE_BALANCES, `${CacheKeys.SAMPLE_BALANCES}_*`],
+  updateSystemSettings: () => [CacheKeys.SYSTEM_SETTINGS, CacheKeys.ALERTS],
+  updateRepPlan: () => [CacheKeys.WEEKLY_PLAN],
+  reviewRepPlan: () => [CacheKeys.WEEKLY_PLAN],
+  revokePlanApproval: () => [CacheKeys.WEEKLY_PLAN],
+} satisfies Record<string, (...args: any[]) => string[]>;
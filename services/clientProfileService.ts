@@ -0,0 +1,76 @@
+import { VisitReport, ClientAlert, ClientRef } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ClientVisitStatus {
+  lastVisitDate: string | null;
+  daysSinceLastVisit: number | null; // null if never visited
+  targetDays: number;
+  daysOverdue: number | null; // Positive when past the target, null if never visited
+}
+
+// Alert ids have the form 'doctor-1'
+export const alertClientRef = (alert: ClientAlert): ClientRef => ({
+  type: alert.type,
+  id: Number(alert.id.slice(alert.id.indexOf('-') + 1)),
+});
+
+// Visits must be sorted newest first, as in ClientProfile
+export const clientVisitStatus = (visits: VisitReport[], targetDays: number, now: Date = new Date()): ClientVisitStatus => {
+  const lastVisitDate = visits[0]?.date ?? null;
+  const daysSinceLastVisit = lastVisitDate === null ? null : Math.floor((now.getTime() - new Date(lastVisitDate).getTime()) / DAY_MS);
+  return {
+    lastVisitDate,
+    daysSinceLastVisit,
+    targetDays,
+    daysOverdue: daysSinceLastVisit === null ? null : daysSinceLastVisit - targetDays,
+  };
+};
+
+export interface ClientTrendSummary {
+  visitsPerMonth: { month: string; count: number }[]; // 'YYYY-MM', oldest first, quiet months included
+  products: { productName: string; count: number }[];
+  coachingCount: number;
+  singleCount: number;
+}
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Visits per month from the first visit up to the current month, products discussed and the coaching/single split
+export const clientTrendSummary = (visits: VisitReport[], now: Date = new Date()): ClientTrendSummary => {
+  const counts = new Map<string, number>();
+  visits.forEach(visit => {
+    const key = monthKey(new Date(visit.date));
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  const visitsPerMonth: ClientTrendSummary['visitsPerMonth'] = [];
+  if (visits.length > 0) {
+    const first = new Date(Math.min(...visits.map(v => new Date(v.date).getTime())));
+    const cursor = new Date(first.getFullYear(), first.getMonth(), 1);
+    const lastMonth = monthKey(now);
+    // YYYY-MM keys sort chronologically as strings
+    for (let key = monthKey(cursor); key <= lastMonth; cursor.setMonth(cursor.getMonth() + 1), key = monthKey(cursor)) {
+      visitsPerMonth.push({ month: key, count: counts.get(key) || 0 });
+    }
+  }
+
+  return {
+    visitsPerMonth,
+    products: productDiscussionCounts(visits),
+    coachingCount: visits.filter(v => v.visitType === 'Coaching').length,
+    singleCount: visits.filter(v => v.visitType === 'Single').length,
+  };
+};
+
+// How often each product was discussed, most discussed first. Reports list a visit's products comma separated.
+export const productDiscussionCounts = (visits: VisitReport[]): { productName: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  visits.forEach(visit => {
+    (visit.productName || '').split(',').map(name => name.trim()).filter(Boolean)
+      .forEach(name => counts.set(name, (counts.get(name) || 0) + 1));
+  });
+  return Array.from(counts.entries())
+    .map(([productName, count]) => ({ productName, count }))
+    .sort((a, b) => b.count - a.count || a.productName.localeCompare(b.productName));
+};
@@ -0,0 +1,6 @@
+import { ClientType, VisitReport } from '../types';
+
+// Doctor and pharmacy IDs overlap, so a client is only unique together with its type.
+// Keys have the same form as ClientAlert ids, e.g. 'doctor-1'.
+export const clientKey = (type: ClientType, id: number) => `${type}-${id}`;
+export const visitClientKey = (visit: VisitReport) => clientKey(visit.clientType, visit.clientId);
@@ -0,0 +1,53 @@
+import { CoachingCompetency, COACHING_COMPETENCIES, CoachingEvaluation, CoachingScore, RepCompetencySummary } from '../types';
+
+export const COACHING_SCORES = [1, 2, 3, 4, 5];
+
+// Score for one competency as picked in the evaluation form; empty until chosen
+export interface CoachingScoreDraft {
+  score: number | '';
+  comment: string;
+}
+
+export const EMPTY_COACHING_SCORE: CoachingScoreDraft = { score: '', comment: '' };
+
+// Scores for every competency, or null while any of them is still unscored
+export const completeCoachingScores = (drafts: Partial<Record<CoachingCompetency, CoachingScoreDraft>>): CoachingScore[] | null => {
+  const scores: CoachingScore[] = [];
+  for (const competency of COACHING_COMPETENCIES) {
+    const draft = drafts[competency] || EMPTY_COACHING_SCORE;
+    if (draft.score === '') return null;
+    scores.push({ competency, score: draft.score, comment: draft.comment.trim() });
+  }
+  return scores;
+};
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10 : null;
+
+export const evaluationAverage = (evaluation: CoachingEvaluation): number | null => mean(evaluation.scores.map(s => s.score));
+
+export const competencyAverages = (evaluations: CoachingEvaluation[]): Record<CoachingCompetency, number | null> =>
+  Object.fromEntries(COACHING_COMPETENCIES.map(competency => [
+    competency,
+    mean(evaluations.flatMap(e => e.scores.filter(s => s.competency === competency).map(s => s.score))),
+  ])) as Record<CoachingCompetency, number | null>;
+
+// Average score per competency for every evaluated rep, weakest overall first so coaching goes where it's needed
+export const summarizeRepCompetencies = (evaluations: CoachingEvaluation[]): RepCompetencySummary[] => {
+  const byRep = new Map<string, CoachingEvaluation[]>();
+  evaluations.forEach(evaluation => {
+    if (!byRep.has(evaluation.repId)) byRep.set(evaluation.repId, []);
+    byRep.get(evaluation.repId)!.push(evaluation);
+  });
+
+  return Array.from(byRep.entries())
+    .map(([repId, repEvaluations]): RepCompetencySummary => ({
+      repId,
+      repName: repEvaluations[0].repName,
+      evaluationCount: repEvaluations.length,
+      averages: competencyAverages(repEvaluations),
+      overall: mean(repEvaluations.flatMap(e => e.scores.map(s => s.score))),
+      lastEvaluatedAt: repEvaluations.reduce<string | null>((latest, e) => (latest === null || e.visitDate > latest ? e.visitDate : latest), null),
+    }))
+    .sort((a, b) => (a.overall ?? 0) - (b.overall ?? 0) || a.repName.localeCompare(b.repName));
+};
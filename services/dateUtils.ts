@@ -0,0 +1,48 @@
+// Date helpers shared by plans and reports. Work weeks run Saturday to Friday.
+
+// Format a date as YYYY-MM-DD using the local calendar day (toISOString would shift it to UTC)
+export const toDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Parse a YYYY-MM-DD key back into a local date at midnight
+export const fromDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// The Saturday on or before the given date
+export const getWeekStart = (date: Date): Date => {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const daysSinceSaturday = (d.getDay() + 1) % 7; // Sat(6)->0, Sun(0)->1 ... Fri(5)->6
+  d.setDate(d.getDate() - daysSinceSaturday);
+  return d;
+};
+
+export const getWeekStartKey = (date: Date = new Date()): string => toDateKey(getWeekStart(date));
+
+// Days from startKey to endKey, both inclusive, that are neither a weekend day nor a holiday
+export const countWorkingDays = (startKey: string, endKey: string, weekends: number[], holidays: string[]): number => {
+  let count = 0;
+  for (const d = fromDateKey(startKey); toDateKey(d) <= endKey; d.setDate(d.getDate() + 1)) {
+    if (!weekends.includes(d.getDay()) && !holidays.includes(toDateKey(d))) count++;
+  }
+  return count;
+};
+
+// Move a date key forwards (positive) or backwards (negative) by whole days
+export const addDays = (dateKey: string, days: number): string => {
+  const d = fromDateKey(dateKey);
+  d.setDate(d.getDate() + days);
+  return toDateKey(d);
+};
+
+// Move a week start key forwards (positive) or backwards (negative) by whole weeks
+export const addWeeks = (weekStartKey: string, weeks: number): string => {
+  const d = fromDateKey(weekStartKey);
+  d.setDate(d.getDate() + weeks * 7);
+  return toDateKey(d);
+};
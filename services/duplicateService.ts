@@ -0,0 +1,55 @@
+import { Doctor, Pharmacy } from '../types';
+import { normalizeClientName, nameSimilarity, DUPLICATE_SIMILARITY_THRESHOLD } from './textUtils';
+
+type ClientLike = Pick<Doctor | Pharmacy, 'id' | 'name' | 'regionId'>;
+
+export interface DuplicatePair<T extends ClientLike> {
+  a: T;
+  b: T;
+  similarity: number; // 1 when the normalized names are identical
+}
+
+// Upsert key of a client: the same normalized name in the same region is the same client.
+// A name that normalizes to nothing has no key, so it never matches another client.
+export const duplicateKey = (name: string, regionId: number): string | null => {
+  const normalized = normalizeClientName(name);
+  return normalized ? `${normalized}|${regionId}` : null;
+};
+
+// Cheap check before the edit distance, which can't reach the threshold when the lengths differ too much
+const lengthsTooFarApart = (a: string, b: string): boolean =>
+  Math.abs(a.length - b.length) > Math.max(a.length, b.length) * (1 - DUPLICATE_SIMILARITY_THRESHOLD);
+
+// Most similar client whose name is close enough to count as a possible duplicate. Clients in other regions count
+// too, since a client filed under the wrong region is still a duplicate; on equal similarity one in regionId wins.
+export const findSimilarClient = <T extends ClientLike>(name: string, regionId: number | null, clients: T[]): T | null => {
+  const normalized = normalizeClientName(name);
+  let best: { client: T; similarity: number } | null = null;
+  for (const client of clients) {
+    const other = normalizeClientName(client.name);
+    if (lengthsTooFarApart(normalized, other)) continue;
+    const similarity = nameSimilarity(normalized, other);
+    if (similarity < DUPLICATE_SIMILARITY_THRESHOLD) continue;
+    if (!best || similarity > best.similarity || (similarity === best.similarity && client.regionId === regionId && best.client.regionId !== regionId)) {
+      best = { client, similarity };
+    }
+  }
+  return best?.client ?? null;
+};
+
+// Pairs of clients that look like the same person or pharmacy, most similar first. Pairs across regions are
+// included, callers show the regions so a manager can tell a misfiled client from a namesake.
+export const findDuplicatePairs = <T extends ClientLike>(clients: T[]): DuplicatePair<T>[] => {
+  const list = clients.map(client => ({ client, normalized: normalizeClientName(client.name) }));
+  const pairs: DuplicatePair<T>[] = [];
+  for (let i = 0; i < list.length; i++) {
+    for (let j = i + 1; j < list.length; j++) {
+      if (lengthsTooFarApart(list[i].normalized, list[j].normalized)) continue;
+      const similarity = nameSimilarity(list[i].normalized, list[j].normalized);
+      if (similarity >= DUPLICATE_SIMILARITY_THRESHOLD) {
+        pairs.push({ a: list[i].client, b: list[j].client, similarity });
+      }
+    }
+  }
+  return pairs.sort((x, y) => y.similarity - x.similarity);
+};
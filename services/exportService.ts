@@ -1,5 +1,9 @@
-import { VisitReport, Doctor, Pharmacy, Region, User, Specialization } from "../types";
+import { VisitReport, Doctor, Pharmacy, Region, User, Specialization, RepWeekAdherence, ImportRow, ImportType, PharmacyStockLevel, StockSummary, ProductFeedbackRecord, ProductReceptionSummary, CoachingEvaluation, RepCompetencySummary, COACHING_COMPETENCIES, RepScorecard, KpiWindow, SCORECARD_METRICS, Product, SampleAllocation, SampleReconciliationRow, AuditLogEntry } from "../types";
 import { TranslationFunction } from "../hooks/useLanguage";
+import { fromDateKey } from "./dateUtils";
+import { describeAuditTarget, summarizeAuditPayload } from "./auditLogService";
+import { visitClientKey } from "./clientUtils";
+import { evaluationAverage } from "./coachingService";
 
 // These globals are defined by the scripts loaded in index.html
 declare const XLSX: any;
@@ -12,6 +16,7 @@ export const exportToExcel = (data: VisitReport[], fileName: string, t: Translat
     [t('rep_name')]: item.repName,
     [t('region')]: item.regionName,
     [t('client')]: item.targetName,
+    [t('client_id')]: visitClientKey(item), // Tells apart clients that share a name
     [t('product')]: item.productName || '-',
     [t('notes')]: item.notes,
   })));
@@ -80,6 +85,215 @@ export const exportUsersToExcel = (users: User[], fileName: string, t: Translati
   XLSX.writeFile(workbook, `${fileName}.xlsx`);
 };
 
+export const exportAdherenceToExcel = (adherence: RepWeekAdherence[], reps: User[], doctors: Doctor[], fileName: string, t: TranslationFunction) => {
+  const repMap = new Map(reps.map(r => [r.id, r.name]));
+  const doctorMap = new Map(doctors.map(d => [d.id, d.name]));
+  const doctorNames = (ids: number[]) => ids.map(id => doctorMap.get(id) || t('unknown_doctor')).join(', ') || '-';
+
+  const summaryData = adherence.map(a => ({
+    [t('rep_name')]: repMap.get(a.repId) || t('unknown'),
+    [t('plan_status')]: a.planStatus ? t(`plan_status_${a.planStatus}`) : t('no_plan_submitted'),
+    [t('planned_visits')]: a.plannedCount,
+    [t('planned_visited')]: a.visitedPlannedCount,
+    [t('planned_missed')]: a.missedCount,
+    [t('unplanned_visited')]: a.unplannedCount,
+    [t('adherence_score')]: a.score === null ? '-' : `${a.score}%`,
+  }));
+  const summaryWorksheet = XLSX.utils.json_to_sheet(summaryData);
+
+  const detailsData = adherence.flatMap(a => a.days.map(day => ({
+    [t('rep_name')]: repMap.get(a.repId) || t('unknown'),
+    [t('date')]: fromDateKey(day.date).toLocaleDateString(t('locale')),
+    [t('planned_visited')]: doctorNames(day.visitedPlannedIds),
+    [t('planned_missed')]: doctorNames(day.missedIds),
+    [t('unplanned_visited')]: doctorNames(day.unplannedVisitedIds),
+  })));
+  const detailsWorksheet = XLSX.utils.json_to_sheet(detailsData);
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, summaryWorksheet, t('adherence_summary'));
+  XLSX.utils.book_append_sheet(workbook, detailsWorksheet, t('adherence_daily_details'));
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
+
+// Every staged row with its outcome, so the manager can fix the sheet and upload it again
+export const exportImportReportToExcel = (rows: ImportRow[], type: ImportType, fileName: string, t: TranslationFunction) => {
+  const data = rows.map(row => ({
+    [t('row_number')]: row.rowNumber,
+    [t('name')]: row.name,
+    [t('region')]: row.regionName,
+    ...(type === 'doctors' ? { [t('specialization')]: row.specialization } : {}),
+    [t('rep_email')]: row.repEmail,
+    [t('tier')]: row.tier,
+    [t('status')]: row.excluded ? t('import_row_excluded') : row.errors.length > 0 ? t('import_row_invalid') : t('import_row_valid'),
+    [t('error_details')]: row.errors.map(error => t(error)).join(' | '),
+    [t('possible_duplicate')]: !row.similarTo ? ''
+      : row.similarTo.regionName !== null ? t('similar_to_existing_in_region', row.similarTo.name, row.similarTo.regionName || t('unknown'))
+      : row.similarTo.name,
+  }));
+
+  const worksheet = XLSX.utils.json_to_sheet(data);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, t('import_report'));
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
+
+// Product and region roll-ups plus every pharmacy whose latest check found a product low or out of stock
+export const exportStockReportToExcel = (levels: PharmacyStockLevel[], byProduct: StockSummary[], byRegion: StockSummary[], fileName: string, t: TranslationFunction) => {
+  const summaryRows = (summaries: StockSummary[], labelKey: string) => summaries.map(s => ({
+    [t(labelKey)]: s.label,
+    [t('pharmacies_checked')]: s.checkedCount,
+    [t('stock_in_stock')]: s.inStockCount,
+    [t('stock_low')]: s.lowCount,
+    [t('stock_out_of_stock')]: s.outOfStockCount,
+    [t('stock_out_rate')]: s.stockOutRate === null ? '-' : `${s.stockOutRate}%`,
+  }));
+
+  const detailsData = levels.filter(l => l.status !== 'in_stock').map(l => ({
+    [t('pharmacy')]: l.pharmacyName,
+    [t('region')]: l.regionName,
+    [t('rep_name')]: l.repName,
+    [t('product')]: l.productName,
+    [t('availability')]: t(`stock_${l.status}`),
+    [t('shelf_quantity')]: l.shelfQuantity ?? '-',
+    [t('order_quantity')]: l.orderQuantity ?? '-',
+    [t('last_checked')]: new Date(l.checkedAt).toLocaleDateString(t('locale')),
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryRows(byProduct, 'product')), t('stock_by_product'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryRows(byRegion, 'region')), t('stock_by_region'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(detailsData), t('stock_problems'));
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
+
+export const exportProductFeedbackToExcel = (records: ProductFeedbackRecord[], byProduct: ProductReceptionSummary[], bySpecialization: ProductReceptionSummary[], byRegion: ProductReceptionSummary[], fileName: string, t: TranslationFunction) => {
+  const summaryRows = (summaries: ProductReceptionSummary[], labelKey: string, translateLabel = false) => summaries.map(s => ({
+    [t(labelKey)]: translateLabel ? t(s.label) : s.label,
+    [t('feedback_count')]: s.feedbackCount,
+    [t('reaction_positive')]: s.positiveCount,
+    [t('reaction_neutral')]: s.neutralCount,
+    [t('reaction_negative')]: s.negativeCount,
+    [t('positive_rate')]: s.positiveRate === null ? '-' : `${s.positiveRate}%`,
+    [t('prescribe_rate')]: s.prescribeRate === null ? '-' : `${s.prescribeRate}%`,
+  }));
+
+  const detailsData = records.map(r => ({
+    [t('date')]: new Date(r.date).toLocaleDateString(t('locale')),
+    [t('product')]: r.productName,
+    [t('doctor')]: r.doctorName,
+    [t('specialization')]: t(r.specialization),
+    [t('region')]: r.regionName,
+    [t('rep_name')]: r.repName,
+    [t('doctor_reaction')]: t(`reaction_${r.reaction}`),
+    [t('prescription_intent')]: t(`intent_${r.prescriptionIntent}`),
+    [t('comment')]: r.comment,
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryRows(byProduct, 'product')), t('reception_by_product'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryRows(bySpecialization, 'specialization', true)), t('reception_by_specialization'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryRows(byRegion, 'region')), t('reception_by_region'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(detailsData), t('product_feedback'));
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
+
+// Competency averages per rep, then one row per evaluation with every score and comment
+export const exportCoachingEvaluationsToExcel = (summaries: RepCompetencySummary[], evaluations: CoachingEvaluation[], fileName: string, t: TranslationFunction) => {
+  const summaryData = summaries.map(s => ({
+    [t('rep_name')]: s.repName,
+    [t('evaluations_count')]: s.evaluationCount,
+    ...Object.fromEntries(COACHING_COMPETENCIES.map(c => [t(`competency_${c}`), s.averages[c] ?? '-'])),
+    [t('overall_score')]: s.overall ?? '-',
+    [t('last_evaluated')]: s.lastEvaluatedAt ? new Date(s.lastEvaluatedAt).toLocaleDateString(t('locale')) : '-',
+  }));
+
+  const evaluationsData = evaluations.map(e => ({
+    [t('date')]: new Date(e.visitDate).toLocaleDateString(t('locale')),
+    [t('rep_name')]: e.repName,
+    [t('coach')]: e.coachName,
+    [t('doctor')]: e.doctorName,
+    ...Object.fromEntries(COACHING_COMPETENCIES.flatMap(c => {
+      const score = e.scores.find(s => s.competency === c);
+      return [[t(`competency_${c}`), score?.score ?? '-'], [`${t(`competency_${c}`)} - ${t('comment')}`, score?.comment ?? '']];
+    })),
+    [t('overall_score')]: evaluationAverage(e) ?? '-',
+    [t('coaching_overall_comment')]: e.overallComment,
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryData), t('team_competency_report'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(evaluationsData), t('coaching_evaluations'));
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
+
+// The leaderboard with every KPI for both periods, then the clients behind each rep's coverage and frequency gaps
+export const exportScorecardsToExcel = (scorecards: RepScorecard[], previousByRep: Map<string, RepScorecard>, ranks: Map<string, number>, windows: { current: KpiWindow; previous: KpiWindow }, fileName: string, t: TranslationFunction) => {
+  const periodLabel = (window: KpiWindow) => `${fromDateKey(window.start).toLocaleDateString(t('locale'))} - ${fromDateKey(window.end).toLocaleDateString(t('locale'))}`;
+  const currentLabel = periodLabel(windows.current);
+  const previousLabel = periodLabel(windows.previous);
+
+  const leaderboardData = scorecards.map(s => {
+    const previous = previousByRep.get(s.repId);
+    return {
+      '#': ranks.get(s.repId) ?? '-',
+      [t('rep_name')]: s.repName,
+      [`${t('visits')} (${currentLabel})`]: s.visitCount,
+      [`${t('visits')} (${previousLabel})`]: previous?.visitCount ?? '-',
+      ...Object.fromEntries(SCORECARD_METRICS.flatMap(m => [
+        [`${t(`kpi_${m}`)} (${currentLabel})`, s[m] ?? '-'],
+        [`${t(`kpi_${m}`)} (${previousLabel})`, previous?.[m] ?? '-'],
+      ])),
+    };
+  });
+
+  const gapsData = scorecards.flatMap(s => [
+    ...s.uncoveredClients.map(c => ({ client: c, gap: t('clients_not_visited') })),
+    ...s.nonCompliantClients.map(c => ({ client: c, gap: t('clients_past_target') })),
+  ].map(({ client, gap }) => ({
+    [t('rep_name')]: s.repName,
+    [t('client')]: client.name,
+    [t('client_type')]: t(client.type),
+    [t('kpi_gap')]: gap,
+    [t('days_since_last_visit')]: client.daysSinceLastVisit ?? t('no_visit_within_target', client.targetDays),
+    [t('target_visit_days')]: client.targetDays,
+  })));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(leaderboardData), t('rep_scorecards'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(gapsData), t('kpi_gap'));
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
+
+// Balance per rep, product and kind next to every allocation, so stock on hand can be checked against the books
+export const exportSampleReconciliationToExcel = (rows: SampleReconciliationRow[], allocations: SampleAllocation[], reps: User[], products: Product[], fileName: string, t: TranslationFunction) => {
+  const repMap = new Map(reps.map(r => [r.id, r.name]));
+  const productMap = new Map(products.map(p => [p.id, p.name]));
+
+  const balancesData = rows.map(row => ({
+    [t('rep_name')]: row.repName || t('unknown'),
+    [t('product')]: row.productName || t('unknown'),
+    [t('sample_kind')]: t(`sample_kind_${row.kind}`),
+    [t('allocated')]: row.allocated,
+    [t('distributed')]: row.distributed,
+    [t('balance')]: row.balance,
+  }));
+
+  const allocationsData = allocations.map(a => ({
+    [t('date')]: new Date(a.date).toLocaleDateString(t('locale')),
+    [t('rep_name')]: repMap.get(a.repId) || t('unknown'),
+    [t('product')]: productMap.get(a.productId) || t('unknown'),
+    [t('sample_kind')]: t(`sample_kind_${a.kind}`),
+    [t('quantity')]: a.quantity,
+    [t('notes')]: a.note,
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(balancesData), t('sample_reconciliation'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(allocationsData), t('allocation_history'));
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
+
 export const exportToPdf = (data: VisitReport[], fileName:string, t: TranslationFunction) => {
   const { jsPDF } = jspdf;
   const doc = new jsPDF();
@@ -115,4 +329,20 @@ export const exportToPdf = (data: VisitReport[], fileName:string, t: Translation
   });
 
   doc.save(`${fileName}.pdf`);
-};
\ No newline at end of file
+};
+
+// The full payload is kept as JSON next to the summary so nothing recorded is lost in the export
+export const exportAuditLog = (entries: AuditLogEntry[], fileName: string, format: 'xlsx' | 'csv', t: TranslationFunction) => {
+  const data = entries.map(e => ({
+    [t('date')]: new Date(e.createdAt).toLocaleString(t('locale')),
+    [t('audit_actor')]: e.actorName || e.actorId,
+    [t('audit_action')]: t(`audit_action_${e.action}`),
+    [t('audit_target')]: describeAuditTarget(e, t),
+    [t('audit_details')]: summarizeAuditPayload(e, t),
+    [t('audit_payload')]: e.payload ? JSON.stringify(e.payload) : '',
+  }));
+  const worksheet = XLSX.utils.json_to_sheet(data);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, t('audit_log'));
+  XLSX.writeFile(workbook, `${fileName}.${format}`, { bookType: format });
+};
@@ -0,0 +1,46 @@
+import { GeoPoint, VisitLocation, VisitLocationStatus, VisitReport } from '../types';
+
+export const DEFAULT_MAX_VISIT_DISTANCE_METERS = 500;
+
+const LOCATION_TIMEOUT_MS = 10000;
+const EARTH_RADIUS_METERS = 6371000;
+
+// The device position, or null when geolocation is unsupported, denied or too slow; a visit is never blocked on it
+export const getCurrentLocation = (): Promise<VisitLocation | null> => {
+  if (!('geolocation' in navigator)) return Promise.resolve(null);
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: Number.isFinite(position.coords.accuracy) ? Math.round(position.coords.accuracy) : null,
+      }),
+      error => {
+        console.warn('Could not get the device location', error.message);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, timeout: LOCATION_TIMEOUT_MS, maximumAge: 60000 }
+    );
+  });
+};
+
+// Great-circle distance (haversine)
+export const distanceMeters = (a: GeoPoint, b: GeoPoint): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return Math.round(2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h)));
+};
+
+export const checkVisitLocation = (report: VisitReport, maxDistanceMeters: number): { status: VisitLocationStatus; distance: number | null } => {
+  if (report.visitLatitude == null || report.visitLongitude == null) return { status: 'no_gps', distance: null };
+  if (report.clientLatitude == null || report.clientLongitude == null) return { status: 'no_reference', distance: null };
+  const distance = distanceMeters(
+    { latitude: report.visitLatitude, longitude: report.visitLongitude },
+    { latitude: report.clientLatitude, longitude: report.clientLongitude }
+  );
+  return { status: distance > maxDistanceMeters ? 'far' : 'verified', distance };
+};
+
+export const formatDistance = (meters: number): string => (meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`);
@@ -0,0 +1,100 @@
+import { Doctor, ImportMode, ImportRow, ImportType, Pharmacy, Region, User, CLIENT_TIERS, ClientTier } from '../types';
+import { normalizeClientName } from './textUtils';
+import { duplicateKey, findSimilarClient } from './duplicateService';
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const cellText = (cell: any): string => (cell === null || cell === undefined ? '' : String(cell).trim());
+
+// Turn raw sheet rows (header row included) into staged import rows, skipping blank lines
+export const parseImportSheet = (sheetData: any[][], type: ImportType): ImportRow[] => {
+  return sheetData.slice(1).flatMap((row, index) => {
+    if (!row || row.every(cell => cellText(cell) === '')) return [];
+    const isDoctor = type === 'doctors';
+    return [{
+      rowNumber: index + 2,
+      name: cellText(row[0]),
+      regionName: cellText(row[1]),
+      specialization: isDoctor ? cellText(row[2]) : '',
+      repEmail: cellText(row[isDoctor ? 3 : 2]),
+      tier: cellText(row[isDoctor ? 4 : 3]),
+      excluded: false,
+      repId: null,
+      regionId: null,
+      existingId: null,
+      similarTo: null,
+      errors: [],
+    }];
+  });
+};
+
+// Resolve reps, regions and existing clients and collect every problem per row. Runs again after each edit in the grid.
+export const validateImportRows = (
+  rows: ImportRow[],
+  type: ImportType,
+  regions: Region[],
+  users: User[],
+  existingClients: (Doctor | Pharmacy)[],
+  mode: ImportMode
+): ImportRow[] => {
+  const regionMap = new Map(regions.map(r => [normalize(r.name), r.id]));
+  const regionNames = new Map(regions.map(r => [r.id, r.name]));
+  // Reps are referenced by their login email, stored in the username field
+  const userMap = new Map(users.map(u => [normalize(u.username), u.id]));
+  const existingByKey = new Map<string, Doctor | Pharmacy>();
+  existingClients.forEach(c => {
+    const key = duplicateKey(c.name, c.regionId);
+    if (key) existingByKey.set(key, c);
+  });
+  const seen = new Set<string>();
+
+  return rows.map(row => {
+    const errors: string[] = [];
+    if (!row.name) errors.push('import_error_missing_name');
+    if (!row.regionName) errors.push('import_error_missing_region');
+    if (type === 'doctors' && !row.specialization) errors.push('import_error_missing_specialization');
+
+    const repId = row.repEmail ? userMap.get(normalize(row.repEmail)) ?? null : null;
+    if (!row.repEmail) errors.push('import_error_missing_rep');
+    else if (!repId) errors.push('import_error_unknown_rep');
+
+    // Tier is optional, but when given it has to be one we know
+    if (row.tier && !CLIENT_TIERS.includes(row.tier.toUpperCase() as ClientTier)) errors.push('import_error_invalid_tier');
+
+    // The same client twice in one file is almost always a copy-paste mistake
+    const normalizedName = row.name ? normalizeClientName(row.name) : '';
+    if (!row.excluded && normalizedName && row.regionName) {
+      const key = `${normalizedName}|${normalize(row.regionName)}`;
+      if (seen.has(key)) errors.push('import_error_duplicate_row');
+      seen.add(key);
+    }
+
+    const regionId = row.regionName ? regionMap.get(normalize(row.regionName)) ?? null : null;
+    // A client can only already exist in a region that exists
+    const existingKey = row.name && regionId !== null ? duplicateKey(row.name, regionId) : null;
+    const existing = existingKey ? existingByKey.get(existingKey) : undefined;
+    if (existing && mode === 'insert') errors.push('import_error_already_exists');
+    // Near duplicates are looked up in every region, also for rows whose region is new
+    const similar = !existing && row.name ? findSimilarClient(row.name, regionId, existingClients) : null;
+
+    return {
+      ...row,
+      repId,
+      regionId,
+      existingId: existing?.id ?? null,
+      similarTo: similar
+        ? { name: similar.name, regionName: similar.regionId === regionId ? null : regionNames.get(similar.regionId) || '' }
+        : null,
+      errors,
+    };
+  });
+};
+
+// Distinct region names that the import will create
+export const getNewRegionNames = (rows: ImportRow[]): string[] => {
+  const names = new Map<string, string>();
+  rows
+    .filter(row => !row.excluded && row.regionName && row.regionId === null)
+    .forEach(row => names.set(normalize(row.regionName), row.regionName));
+  return Array.from(names.values());
+};
@@ -0,0 +1,258 @@
+import { OutboxEntry, OutboxState, NewDoctorVisit, NewPharmacyVisit } from '../types';
+import { api } from './api';
+
+// Outbox configuration
+const DB_NAME = 'sanivita_crm_outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'visits';
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 5 * 1000; // 5 seconds, doubled on every failed attempt
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+
+type OutboxListener = (state: OutboxState) => void;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+// Signed-in user whose visits are counted and replayed. Several reps may share a device, and a visit
+// must only ever be sent under the session of the rep who recorded it.
+let currentUserId: string | null = null;
+let state: OutboxState = { pending: 0, failed: 0, syncing: false, lastSyncAt: null };
+const listeners = new Set<OutboxListener>();
+
+// --- IndexedDB helpers ---
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          // Auto-incremented keys give us insertion order for free, which is the replay order.
+          db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// The current user's entries in replay order; other users' entries wait for them to sign in again
+const getAllEntries = async (): Promise<OutboxEntry[]> => {
+  if (!currentUserId) return [];
+  const entries = await runRequest<OutboxEntry[]>('readonly', store => store.getAll());
+  return entries
+    .filter(e => e.payload.repId === currentUserId)
+    .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+const putEntry = (entry: OutboxEntry) => runRequest('readwrite', store => store.put(entry));
+
+const deleteEntry = (id: number) => runRequest('readwrite', store => store.delete(id));
+
+// --- State helpers ---
+
+const setState = (updates: Partial<OutboxState>) => {
+  state = { ...state, ...updates };
+  listeners.forEach(listener => listener(state));
+};
+
+const refreshCounts = async () => {
+  const entries = await getAllEntries();
+  setState({
+    pending: entries.filter(e => e.status === 'pending').length,
+    failed: entries.filter(e => e.status === 'failed').length,
+  });
+};
+
+// Idempotency key of one visit, created before its first send attempt and kept through every retry
+export const generateRequestId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+// A network failure means "try again later", anything else is a real rejection from the server.
+export const isNetworkError = (error: any): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = String(error?.message || error || '');
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+};
+
+const clearRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+};
+
+const scheduleRetry = (attempts: number) => {
+  clearRetry();
+  const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    outboxService.flush();
+  }, delay);
+};
+
+const sendEntry = async (entry: OutboxEntry): Promise<void> => {
+  const meta = { date: entry.createdAt, clientRequestId: entry.clientRequestId };
+  if (entry.kind === 'doctor') {
+    await api.addDoctorVisit({ ...(entry.payload as NewDoctorVisit), ...meta });
+  } else {
+    await api.addPharmacyVisit({ ...(entry.payload as NewPharmacyVisit), ...meta });
+  }
+};
+
+const replay = async (): Promise<void> => {
+  setState({ syncing: true });
+  let synced = 0;
+  try {
+    const entries = (await getAllEntries()).filter(e => e.status === 'pending');
+
+    for (const entry of entries) {
+      try {
+        await sendEntry(entry);
+        await deleteEntry(entry.id!);
+        synced++;
+      } catch (error: any) {
+        if (error?.message === 'error_duplicate_visit') {
+          // Conflict: the server already has this visit (e.g. a previous replay succeeded
+          // but the response was lost). The server copy wins, so just drop ours.
+          await deleteEntry(entry.id!);
+          synced++;
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        const lastError = error?.message || 'error_unexpected';
+
+        if (isNetworkError(error)) {
+          // Still offline: keep the order intact and wait for the next chance.
+          await putEntry({ ...entry, attempts, lastError });
+          scheduleRetry(attempts);
+          break;
+        }
+
+        if (attempts >= MAX_ATTEMPTS) {
+          // Give up on this one so it doesn't block the visits queued after it.
+          console.error(`Outbox entry ${entry.id} failed ${attempts} times, marking as failed.`, error);
+          await putEntry({ ...entry, attempts, lastError, status: 'failed' });
+          continue;
+        }
+
+        await putEntry({ ...entry, attempts, lastError });
+        scheduleRetry(attempts);
+        break;
+      }
+    }
+  } finally {
+    await refreshCounts();
+    setState({ syncing: false, ...(synced > 0 ? { lastSyncAt: new Date().toISOString() } : {}) });
+  }
+};
+
+// Outbox API
+export const outboxService = {
+  // Queue a visit that could not be sent right away. Pass the key of a failed online attempt, so a send that
+  // did reach the server is recognised as a duplicate on replay instead of being saved twice.
+  enqueueDoctorVisit: async (visit: NewDoctorVisit, clientRequestId: string = generateRequestId()): Promise<void> => {
+    await putEntry({
+      kind: 'doctor',
+      payload: visit,
+      clientRequestId,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending',
+    });
+    await refreshCounts();
+    // The browser may report online while requests fail, so the 'online' event can't be relied on
+    scheduleRetry(0);
+  },
+
+  enqueuePharmacyVisit: async (visit: NewPharmacyVisit, clientRequestId: string = generateRequestId()): Promise<void> => {
+    await putEntry({
+      kind: 'pharmacy',
+      payload: visit,
+      clientRequestId,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending',
+    });
+    await refreshCounts();
+    scheduleRetry(0);
+  },
+
+  // Replay pending visits in the order they were recorded. Concurrent calls share one run.
+  flush: (): Promise<void> => {
+    if (!currentUserId || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+      return Promise.resolve();
+    }
+    if (!flushPromise) {
+      flushPromise = replay()
+        .catch(error => console.error('Failed to replay outbox', error))
+        .finally(() => { flushPromise = null; });
+    }
+    return flushPromise;
+  },
+
+  // Put failed entries back in the queue and try again
+  retryFailed: async (): Promise<void> => {
+    const entries = await getAllEntries();
+    await Promise.all(
+      entries
+        .filter(e => e.status === 'failed')
+        .map(e => putEntry({ ...e, attempts: 0, status: 'pending' }))
+    );
+    await refreshCounts();
+    await outboxService.flush();
+  },
+
+  getEntries: (): Promise<OutboxEntry[]> => getAllEntries(),
+
+  getState: (): OutboxState => state,
+
+  subscribe: (listener: OutboxListener): (() => void) => {
+    listeners.add(listener);
+    listener(state);
+    return () => { listeners.delete(listener); };
+  },
+
+  // Load the user's counts from IndexedDB and replay their visits whenever connectivity comes back or the
+  // app returns to the foreground. The returned cleanup runs on sign-out and stops all replay.
+  init: (userId: string): (() => void) => {
+    currentUserId = userId;
+    const handleOnline = () => { outboxService.flush(); };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') outboxService.flush();
+    };
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    refreshCounts()
+      .then(() => outboxService.flush())
+      .catch(error => console.error('Failed to open outbox', error));
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearRetry();
+      currentUserId = null;
+      setState({ pending: 0, failed: 0, syncing: false, lastSyncAt: null });
+    };
+  },
+};
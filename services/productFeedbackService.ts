@@ -0,0 +1,58 @@
+import { DoctorReaction, PrescriptionIntent, ProductFeedback, ProductFeedbackRecord, ProductReceptionSummary } from '../types';
+
+// Feedback on one product as typed in a visit form; the choices stay empty until picked
+export interface ProductFeedbackDraft {
+  reaction: DoctorReaction | '';
+  prescriptionIntent: PrescriptionIntent | '';
+  comment: string;
+}
+
+export const EMPTY_PRODUCT_FEEDBACK: ProductFeedbackDraft = { reaction: '', prescriptionIntent: '', comment: '' };
+
+export const feedbackDrafts = (feedback: ProductFeedback[]): Record<number, ProductFeedbackDraft> =>
+  Object.fromEntries(feedback.map(f => [f.productId, { reaction: f.reaction, prescriptionIntent: f.prescriptionIntent, comment: f.comment }]));
+
+// Feedback for the selected products, or null while any of them lacks a reaction or prescription intent.
+// Drafts of products that were unselected again are dropped.
+export const completeProductFeedback = (productIds: number[], drafts: Record<number, ProductFeedbackDraft>): ProductFeedback[] | null => {
+  const feedback: ProductFeedback[] = [];
+  for (const productId of productIds) {
+    const draft = drafts[productId] || EMPTY_PRODUCT_FEEDBACK;
+    if (!draft.reaction || !draft.prescriptionIntent) return null;
+    feedback.push({ productId, reaction: draft.reaction, prescriptionIntent: draft.prescriptionIntent, comment: draft.comment.trim() });
+  }
+  return feedback;
+};
+
+const percentage = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : null);
+
+// Roll feedback up per product, specialization or region, best received first
+export const summarizeProductFeedback = (records: ProductFeedbackRecord[], groupBy: 'product' | 'specialization' | 'region'): ProductReceptionSummary[] => {
+  const summaries = new Map<string, ProductReceptionSummary>();
+
+  records.forEach(record => {
+    const key = groupBy === 'product' ? String(record.productId) : groupBy === 'region' ? String(record.regionId) : record.specialization;
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = {
+        key,
+        label: groupBy === 'product' ? record.productName : groupBy === 'region' ? record.regionName : record.specialization,
+        feedbackCount: 0, positiveCount: 0, neutralCount: 0, negativeCount: 0, willPrescribeCount: 0, positiveRate: null, prescribeRate: null,
+      };
+      summaries.set(key, summary);
+    }
+    summary.feedbackCount++;
+    if (record.reaction === 'positive') summary.positiveCount++;
+    else if (record.reaction === 'neutral') summary.neutralCount++;
+    else summary.negativeCount++;
+    if (record.prescriptionIntent === 'will_prescribe') summary.willPrescribeCount++;
+  });
+
+  return Array.from(summaries.values())
+    .map(summary => ({
+      ...summary,
+      positiveRate: percentage(summary.positiveCount, summary.feedbackCount),
+      prescribeRate: percentage(summary.willPrescribeCount, summary.feedbackCount),
+    }))
+    .sort((a, b) => (b.positiveRate ?? 0) - (a.positiveRate ?? 0) || b.feedbackCount - a.feedbackCount || a.label.localeCompare(b.label));
+};
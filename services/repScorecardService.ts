@@ -0,0 +1,162 @@
+import { Doctor, Pharmacy, User, VisitReport, WeeklyPlan, SystemSettings, KpiWindow, RepScorecard, ScorecardClient, ScorecardMetric, ScorecardPeriod } from '../types';
+import { resolveTargetDays } from './visitTargetService';
+import { computeRepWeekAdherence } from './adherenceService';
+import { clientKey, visitClientKey } from './clientUtils';
+import { toDateKey, fromDateKey, getWeekStart, getWeekStartKey, addWeeks, countWorkingDays } from './dateUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const percentage = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : null);
+
+const periodStart = (period: ScorecardPeriod, date: Date): Date => {
+  if (period === 'week') return getWeekStart(date);
+  if (period === 'month') return new Date(date.getFullYear(), date.getMonth(), 1);
+  return new Date(date.getFullYear(), date.getMonth() - (date.getMonth() % 3), 1);
+};
+
+// The period so far, and the same number of days from the start of the period before it,
+// so a comparison early in a month isn't made against a whole previous month
+export const scorecardWindows = (period: ScorecardPeriod, today: Date = new Date()): { current: KpiWindow; previous: KpiWindow } => {
+  const currentStart = periodStart(period, today);
+  const previousStart = new Date(currentStart);
+  if (period === 'week') previousStart.setDate(previousStart.getDate() - 7);
+  else previousStart.setMonth(previousStart.getMonth() - (period === 'month' ? 1 : 3));
+
+  const elapsedDays = Math.round((fromDateKey(toDateKey(today)).getTime() - currentStart.getTime()) / DAY_MS);
+  const previousEnd = new Date(previousStart);
+  previousEnd.setDate(previousEnd.getDate() + elapsedDays);
+  const dayBeforeCurrent = new Date(currentStart);
+  dayBeforeCurrent.setDate(dayBeforeCurrent.getDate() - 1);
+
+  return {
+    current: { start: toDateKey(currentStart), end: toDateKey(today) },
+    previous: { start: toDateKey(previousStart), end: toDateKey(previousEnd < dayBeforeCurrent ? previousEnd : dayBeforeCurrent) },
+  };
+};
+
+// First day of visits the scorecards need: the previous window, plus the longest visit target before it,
+// so a client's last visit inside its target is always loaded. Older visits can't make a client compliant.
+export const scorecardVisitsStart = (
+  previous: KpiWindow,
+  settings: Pick<SystemSettings, 'visitTargets' | 'defaultVisitTargetDays'>
+): string => {
+  const longestTarget = Math.max(settings.defaultVisitTargetDays, ...settings.visitTargets.map(target => target.days));
+  const start = fromDateKey(previous.start);
+  start.setDate(start.getDate() - longestTarget);
+  return toDateKey(start);
+};
+
+// KPIs of every rep over one window. Clients count for the rep they are assigned to now; frequency compliance
+// looks at each client's last visit by anyone up to the end of the window, like the overdue alerts do.
+// reports needs every visit from scorecardVisitsStart on; a client without one there has no daysSinceLastVisit.
+export const computeRepScorecards = (
+  reps: User[],
+  doctors: Doctor[],
+  pharmacies: Pharmacy[],
+  reports: VisitReport[],
+  plans: WeeklyPlan[],
+  settings: Pick<SystemSettings, 'weekends' | 'holidays' | 'visitTargets' | 'defaultVisitTargetDays'>,
+  window: KpiWindow,
+  today: Date = new Date()
+): RepScorecard[] => {
+  const windowStart = fromDateKey(window.start).getTime();
+  const windowEndDate = fromDateKey(window.end);
+  windowEndDate.setDate(windowEndDate.getDate() + 1);
+  const windowEnd = windowEndDate.getTime(); // Exclusive
+  const workingDays = countWorkingDays(window.start, window.end, settings.weekends, settings.holidays);
+
+  const lastVisitAt = new Map<string, number>();
+  const reportsByRep = new Map<string, VisitReport[]>();
+  reports.forEach(report => {
+    const time = new Date(report.date).getTime();
+    if (time >= windowEnd) return;
+    const key = visitClientKey(report);
+    if (time > (lastVisitAt.get(key) ?? -Infinity)) lastVisitAt.set(key, time);
+    if (!reportsByRep.has(report.repId)) reportsByRep.set(report.repId, []);
+    reportsByRep.get(report.repId)!.push(report);
+  });
+
+  const clients = [
+    ...doctors.map(d => ({ client: d as Doctor | Pharmacy, type: 'doctor' as const })),
+    ...pharmacies.map(p => ({ client: p as Doctor | Pharmacy, type: 'pharmacy' as const })),
+  ].filter(({ client }) => !client.isArchived);
+
+  const plansByRepWeek = new Map(plans.map(plan => [`${plan.repId}_${plan.weekStart}`, plan]));
+  const weekStarts: string[] = [];
+  for (let week = getWeekStartKey(fromDateKey(window.start)); week <= window.end; week = addWeeks(week, 1)) weekStarts.push(week);
+  // Days after the window are left open so their plans aren't counted as missed
+  const adherenceAsOf = new Date(Math.min(today.getTime(), windowEnd));
+
+  return reps.map((rep): RepScorecard => {
+    const repReports = reportsByRep.get(rep.id) || [];
+    const windowVisits = repReports.filter(r => new Date(r.date).getTime() >= windowStart);
+    const visitedKeys = new Set(windowVisits.map(visitClientKey));
+
+    const assigned: ScorecardClient[] = clients
+      .filter(({ client }) => client.repId === rep.id)
+      .map(({ client, type }) => {
+        const lastVisit = lastVisitAt.get(clientKey(type, client.id));
+        return {
+          type,
+          id: client.id,
+          name: client.name,
+          daysSinceLastVisit: lastVisit === undefined ? null : Math.floor((windowEnd - lastVisit) / DAY_MS),
+          targetDays: resolveTargetDays(client.specialization, client.tier, settings),
+        };
+      });
+    const uncoveredClients = assigned.filter(c => !visitedKeys.has(clientKey(c.type, c.id)));
+    const nonCompliantClients = assigned
+      .filter(c => c.daysSinceLastVisit === null || c.daysSinceLastVisit > c.targetDays)
+      .sort((a, b) => (b.daysSinceLastVisit === null ? Infinity : b.daysSinceLastVisit - b.targetDays) - (a.daysSinceLastVisit === null ? Infinity : a.daysSinceLastVisit - a.targetDays));
+
+    let plannedCount = 0;
+    let visitedPlannedCount = 0;
+    weekStarts.forEach(weekStart => {
+      const adherence = computeRepWeekAdherence(rep, weekStart, plansByRepWeek.get(`${rep.id}_${weekStart}`) || null, repReports, adherenceAsOf);
+      adherence.days
+        .filter(day => day.date >= window.start && day.date <= window.end)
+        .forEach(day => {
+          visitedPlannedCount += day.visitedPlannedIds.length;
+          plannedCount += day.visitedPlannedIds.length + day.missedIds.length;
+        });
+    });
+
+    const coverage = percentage(assigned.length - uncoveredClients.length, assigned.length);
+    const frequencyCompliance = percentage(assigned.length - nonCompliantClients.length, assigned.length);
+    const planAdherence = percentage(visitedPlannedCount, plannedCount);
+    const rates = [coverage, frequencyCompliance, planAdherence].filter((rate): rate is number => rate !== null);
+
+    return {
+      repId: rep.id,
+      repName: rep.name,
+      visitCount: windowVisits.length,
+      workingDays,
+      callRate: workingDays > 0 ? Math.round((windowVisits.length / workingDays) * 10) / 10 : null,
+      assignedClients: assigned.length,
+      coveredClients: assigned.length - uncoveredClients.length,
+      coverage,
+      compliantClients: assigned.length - nonCompliantClients.length,
+      frequencyCompliance,
+      plannedCount,
+      visitedPlannedCount,
+      planAdherence,
+      coachingCount: windowVisits.filter(r => r.visitType === 'Coaching').length,
+      score: rates.length > 0 ? Math.round(rates.reduce((sum, rate) => sum + rate, 0) / rates.length) : null,
+      uncoveredClients,
+      nonCompliantClients,
+    };
+  });
+};
+
+// Competition ranking (1, 2, 2, 4) on one metric, highest first. Reps without a value for it get no rank.
+export const rankScorecards = (scorecards: RepScorecard[], metric: ScorecardMetric): Map<string, number> => {
+  const ranked = scorecards
+    .filter(s => s[metric] !== null)
+    .sort((a, b) => (b[metric] as number) - (a[metric] as number));
+  const ranks = new Map<string, number>();
+  ranked.forEach((s, index) => {
+    const previous = ranked[index - 1];
+    ranks.set(s.repId, previous && previous[metric] === s[metric] ? ranks.get(previous.repId)! : index + 1);
+  });
+  return ranks;
+};
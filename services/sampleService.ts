@@ -0,0 +1,19 @@
+import { Product, SampleBalance, SampleKind, SampleReconciliationRow, User } from '../types';
+
+export const SAMPLE_KINDS: SampleKind[] = ['sample', 'promo'];
+
+export const sampleBalanceKey = (productId: number, kind: SampleKind) => `${productId}-${kind}`;
+
+// Balances of one rep keyed by product and kind, for quick lookups while logging a visit
+export const indexRepBalances = (balances: SampleBalance[], repId: string): Map<string, number> => {
+  return new Map(balances.filter(b => b.repId === repId).map(b => [sampleBalanceKey(b.productId, b.kind), b.balance]));
+};
+
+// Balances with rep and product names, grouped by rep; negative balances mean more was logged than allocated
+export const buildSampleReconciliation = (balances: SampleBalance[], reps: User[], products: Product[]): SampleReconciliationRow[] => {
+  const repNames = new Map(reps.map(r => [r.id, r.name]));
+  const productNames = new Map(products.map(p => [p.id, p.name]));
+  return balances
+    .map(b => ({ ...b, repName: repNames.get(b.repId) || '', productName: productNames.get(b.productId) || '' }))
+    .sort((a, b) => a.repName.localeCompare(b.repName) || a.productName.localeCompare(b.productName) || a.kind.localeCompare(b.kind));
+};
@@ -0,0 +1,44 @@
+import { normalizeArabic } from './textUtils';
+
+// Client side of the full-text search over client names and visit notes; matching and ranking run in the
+// search_clients RPC. Text is folded with normalizeArabic, so diacritics, alef/yaa/taa marbuta variants,
+// Arabic-Indic digits and Latin case don't matter, and a query can mix Arabic and English words.
+
+// Words of a text after normalization; punctuation of either script separates words
+export const tokenize = (text: string): string[] =>
+  normalizeArabic(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export interface HighlightPart {
+  text: string;
+  highlight: boolean;
+}
+
+const SNIPPET_CONTEXT_WORDS = 8;
+
+// Splits a text into plain and highlighted parts around the words matching the query, as a snippet trimmed to a
+// short window around the first match unless full is set. Works on the original words so diacritics and
+// spelling are kept as typed.
+export const highlightMatches = (text: string, query: string, full: boolean = false): HighlightPart[] => {
+  const tokens = tokenize(query);
+  const pieces = text.split(/(\s+)/);
+  const isMatch = (piece: string) => {
+    const words = tokenize(piece);
+    return words.length > 0 && words.some(word => tokens.some(token => word.startsWith(token) || (token.length >= 3 && word.includes(token))));
+  };
+
+  // Whitespace runs are pieces too, so a word of context is two pieces
+  const firstMatch = pieces.findIndex(isMatch);
+  const windowStart = !full && firstMatch > SNIPPET_CONTEXT_WORDS * 2 ? firstMatch - SNIPPET_CONTEXT_WORDS * 2 : 0;
+  const windowEnd = full ? pieces.length : Math.min(pieces.length, Math.max(firstMatch, 0) + SNIPPET_CONTEXT_WORDS * 4);
+
+  const parts: HighlightPart[] = [];
+  if (windowStart > 0) parts.push({ text: '… ', highlight: false });
+  pieces.slice(windowStart, windowEnd).forEach(piece => {
+    const highlight = isMatch(piece);
+    const last = parts[parts.length - 1];
+    if (last && last.highlight === highlight) last.text += piece;
+    else parts.push({ text: piece, highlight });
+  });
+  if (windowEnd < pieces.length) parts.push({ text: ' …', highlight: false });
+  return parts;
+};
@@ -0,0 +1,27 @@
+import { PharmacyStockLevel, StockSummary } from '../types';
+
+// Roll the latest stock levels up per product or per region, worst stock-out rate first
+export const summarizeStock = (levels: PharmacyStockLevel[], groupBy: 'product' | 'region'): StockSummary[] => {
+  const summaries = new Map<string, StockSummary>();
+
+  levels.forEach(level => {
+    const key = groupBy === 'product' ? String(level.productId) : String(level.regionId);
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = {
+        key,
+        label: groupBy === 'product' ? level.productName : level.regionName,
+        checkedCount: 0, inStockCount: 0, lowCount: 0, outOfStockCount: 0, stockOutRate: null,
+      };
+      summaries.set(key, summary);
+    }
+    summary.checkedCount++;
+    if (level.status === 'in_stock') summary.inStockCount++;
+    else if (level.status === 'low') summary.lowCount++;
+    else summary.outOfStockCount++;
+  });
+
+  return Array.from(summaries.values())
+    .map(summary => ({ ...summary, stockOutRate: Math.round((summary.outOfStockCount / summary.checkedCount) * 100) }))
+    .sort((a, b) => (b.stockOutRate ?? 0) - (a.stockOutRate ?? 0) || a.label.localeCompare(b.label));
+};
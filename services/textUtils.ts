@@ -0,0 +1,66 @@
+// Text helpers for matching client names typed in Arabic and English by different people.
+
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670\u0640]/g; // Tashkeel, superscript alef and tatweel
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g;
+
+// Honorifics and shop words that people add or leave out when typing a client's name
+const NAME_TITLES = new Set([
+  'dr', 'doctor', 'prof', 'professor', 'pharmacy', 'pharm',
+  'د', 'دكتور', 'دكتوره', 'الدكتور', 'الدكتوره', 'اد', 'استاذ', 'صيدليه', 'صيدليات',
+]);
+// "أ.د." (professor) would otherwise split into two single letters at the dot
+const ARABIC_PROFESSOR_TITLE = /(^|\s)ا\.\s*د(?=[\s.]|$)/g;
+
+// Fold the spelling variants of Arabic letters and digits into one form and lowercase Latin text
+export const normalizeArabic = (text: string): string => {
+  return text
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(ARABIC_INDIC_DIGITS, d => String(d.charCodeAt(0) - 0x0660))
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Comparison key for a client name: normalized, without titles or punctuation, e.g. "د.أحمد  علي" -> "احمد علي".
+// A name that is nothing but titles (e.g. "Pharmacy") keeps them rather than becoming empty.
+// Only a name without any letters or digits gives an empty key.
+export const normalizeClientName = (name: string): string => {
+  const words = normalizeArabic(name)
+    .replace(ARABIC_PROFESSOR_TITLE, '$1 ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  const withoutTitles = words.filter(word => !NAME_TITLES.has(word));
+  return (withoutTitles.length > 0 ? withoutTitles : words).join(' ');
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 0..1 similarity of two already normalized names, 1 meaning identical. An empty name matches nothing.
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+// Names at least this similar are treated as possible duplicates of each other
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.85;
@@ -0,0 +1,57 @@
+import { CLIENT_TIERS, ClientTier, Doctor, Pharmacy, SystemSettings, TierKpi, VisitReport } from '../types';
+import { resolveTargetDays } from './visitTargetService';
+import { clientKey, visitClientKey } from './clientUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const percentage = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : null);
+
+// Coverage and call frequency per tier between periodStart and periodEnd, both inclusive.
+// Expected visits grow with the elapsed days, so the numbers are fair at any point in the month.
+export const computeTierKpis = (
+  doctors: Doctor[],
+  pharmacies: Pharmacy[],
+  reports: VisitReport[],
+  settings: Pick<SystemSettings, 'visitTargets' | 'defaultVisitTargetDays'>,
+  periodStart: Date,
+  periodEnd: Date
+): TierKpi[] => {
+  const elapsedDays = Math.max(1, Math.floor((periodEnd.getTime() - periodStart.getTime()) / DAY_MS) + 1);
+
+  const visitCounts = new Map<string, number>();
+  reports.forEach(report => {
+    const visitDate = new Date(report.date);
+    if (visitDate < periodStart || visitDate > periodEnd) return;
+    const key = visitClientKey(report);
+    visitCounts.set(key, (visitCounts.get(key) || 0) + 1);
+  });
+
+  const kpis = new Map<ClientTier | null, TierKpi>(
+    [...CLIENT_TIERS, null].map(tier => [tier, {
+      tier, clientCount: 0, coveredCount: 0, coverage: null, visitCount: 0, expectedVisits: 0, frequencyAttainment: null,
+    }])
+  );
+
+  const clients = [
+    ...doctors.map(d => ({ client: d, type: 'doctor' as const })),
+    ...pharmacies.map(p => ({ client: p, type: 'pharmacy' as const })),
+  ].filter(({ client }) => !client.isArchived);
+
+  clients.forEach(({ client, type }) => {
+    const kpi = kpis.get(client.tier)!;
+    const visits = visitCounts.get(clientKey(type, client.id)) || 0;
+    kpi.clientCount++;
+    kpi.visitCount += visits;
+    if (visits > 0) kpi.coveredCount++;
+    kpi.expectedVisits += elapsedDays / resolveTargetDays(client.specialization, client.tier, settings);
+  });
+
+  return Array.from(kpis.values())
+    .filter(kpi => kpi.tier !== null || kpi.clientCount > 0)
+    .map(kpi => ({
+      ...kpi,
+      expectedVisits: Math.round(kpi.expectedVisits * 10) / 10,
+      coverage: percentage(kpi.coveredCount, kpi.clientCount),
+      frequencyAttainment: percentage(kpi.visitCount, kpi.expectedVisits),
+    }));
+};
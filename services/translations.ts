@@ -137,6 +137,451 @@ export const translations: { [lang: string]: { [key: string]: string } } = {
     'error_details': 'تفاصيل الأخطاء',
     'file_processing_error': 'حدث خطأ أثناء معالجة الملف',
     'file_reading_error': 'حدث خطأ أثناء قراءة الملف',
+    // Offline Sync
+    'pending_sync_count': '{0} بانتظار المزامنة',
+    'sync_now': 'مزامنة الآن',
+    'syncing': 'جاري المزامنة...',
+    'sync_failed_items': 'فشلت مزامنة {0} زيارة. اضغط لإعادة المحاولة.',
+    'visit_saved_offline': 'لا يوجد اتصال بالإنترنت. تم حفظ الزيارة على الجهاز وستتم مزامنتها تلقائياً عند عودة الاتصال.',
+    'visits_waiting_for_sync': '{0} زيارة محفوظة على الجهاز بانتظار المزامنة.',
+    'error_duplicate_visit': 'تم تسجيل هذه الزيارة مسبقاً.',
+    // Plan History
+    'plan_history': 'سجل الخطط',
+    'no_plan_history': 'لا توجد خطط سابقة.',
+    'copy_last_week_plan': 'نسخ خطة الأسبوع الماضي',
+    'copy_to_this_week': 'نسخ إلى هذا الأسبوع',
+    'copy_plan_title': 'نسخ خطة سابقة',
+    'confirm_overwrite_plan': 'سيتم استبدال الخطة الحالية بخطة أسبوع {0}. هل تريد المتابعة؟',
+    'plan_copied_to_editor': 'تم نسخ خطة أسبوع {0} إلى المحرر. راجعها ثم أرسلها للموافقة.',
+    'week_of': 'أسبوع {0}',
+    'planned_days_count': '{0} أيام مخططة',
+    'plan_status': 'حالة الخطة',
+    'no_plan_submitted': 'لم يتم تقديم خطة لهذا الأسبوع.',
+    'plan_reviewed_by': 'راجعها {0} في {1}',
+    'plan_review_approved': 'وافق عليها {0} في {1}',
+    'plan_review_rejected': 'رفضها {0} في {1}',
+    'plan_review_revoked': 'ألغى {0} الموافقة في {1}',
+    // Plan Adherence
+    'plan_adherence': 'الالتزام بالخطة',
+    'plan_adherence_description': 'مقارنة الأطباء المخططين بالزيارات الفعلية لكل مندوب ويوم.',
+    'planned_visits': 'زيارات مخططة',
+    'planned_visited': 'مخطط وتمت زيارته',
+    'planned_missed': 'مخطط ولم تتم زيارته',
+    'unplanned_visited': 'زيارات غير مخططة',
+    'adherence_score': 'نسبة الالتزام',
+    'adherence_summary': 'ملخص الالتزام',
+    'adherence_daily_details': 'التفاصيل اليومية',
+    'adherence_day_open': 'اليوم لم ينته بعد، {0} متبقية',
+    'click_for_daily_details': 'اضغط لعرض التفاصيل اليومية',
+    // Teams
+    'supervisor': 'المشرف',
+    'no_supervisor': 'بدون مشرف',
+    // Products
+    'product_management': 'المنتجات',
+    'product_catalog': 'كتالوج المنتجات',
+    'add_product': 'إضافة منتج',
+    'edit_product': 'تعديل منتج',
+    'category': 'الفئة',
+    'all_categories': 'كل الفئات',
+    'uncategorized': 'بدون فئة',
+    'category_helper_text': 'اختر فئة موجودة أو اكتب فئة جديدة.',
+    'status': 'الحالة',
+    'product_active': 'نشط',
+    'product_status_discontinued': 'متوقف',
+    'show_discontinued': 'إظهار المنتجات المتوقفة',
+    'discontinue_product': 'إيقاف',
+    'reactivate_product': 'إعادة تفعيل',
+    'product_added_successfully': 'تمت إضافة المنتج {0} بنجاح.',
+    'product_updated_successfully': 'تم تحديث المنتج {0} بنجاح.',
+    'product_discontinued': 'تم إيقاف المنتج {0}. لن يظهر في نماذج الزيارات الجديدة.',
+    'product_reactivated': 'تمت إعادة تفعيل المنتج {0}.',
+    'error_product_exists': 'يوجد منتج بهذا الاسم بالفعل.',
+    'error_fetching_products': 'حدث خطأ أثناء جلب المنتجات.',
+    'error_all_fields_required': 'يرجى ملء جميع الحقول المطلوبة.',
+    'saving': 'جاري الحفظ...',
+    // Regions
+    'region_management': 'المناطق',
+    'regions': 'المناطق',
+    'region_management_description': 'أعد تسمية المناطق أو ادمج المناطق المكررة. الدمج ينقل الأطباء والصيدليات والزيارات وأيام الخطط إلى المنطقة المختارة.',
+    'choose_region': 'اختر المنطقة',
+    'assigned_reps': 'المندوبون المعينون',
+    'rename': 'إعادة تسمية',
+    'rename_region': 'إعادة تسمية المنطقة',
+    'merge': 'دمج',
+    'merge_into': 'دمج في...',
+    'merge_regions': 'دمج المناطق',
+    'merge_region_into': 'دمج منطقة {0} في:',
+    'merge_regions_warning': 'سيتم نقل {1} طبيب و {2} صيدلية وكل الزيارات وأيام الخطط من منطقة {0} ثم حذفها. لا يمكن التراجع عن هذا الإجراء.',
+    'region_renamed_successfully': 'تمت إعادة تسمية {0} إلى {1}.',
+    'regions_merged_successfully': 'تم دمج {0} في {1}.',
+    'error_region_exists': 'توجد منطقة بهذا الاسم بالفعل.',
+    'error_merge_same_region': 'لا يمكن دمج المنطقة في نفسها.',
+    'error_permission_denied': 'ليست لديك صلاحية لتنفيذ هذا الإجراء.',
+    'rep_territories': 'مناطق عمل المندوبين',
+    'rep_territories_description': 'حدد المناطق التي يمكن لكل مندوب تسجيل الزيارات فيها.',
+    'territory': 'منطقة العمل',
+    'territory_for': 'مناطق عمل {0}',
+    'territory_helper_text': 'اترك كل المناطق بدون تحديد للسماح للمندوب بكل المناطق.',
+    'all_regions_no_territory': 'كل المناطق (بدون تحديد)',
+    'assign_regions': 'تعيين المناطق',
+    'territory_saved_successfully': 'تم حفظ مناطق عمل {0}.',
+    // Client Management
+    'add_doctor': 'إضافة طبيب',
+    'edit_doctor': 'تعديل بيانات الطبيب',
+    'add_pharmacy': 'إضافة صيدلية',
+    'edit_pharmacy': 'تعديل بيانات الصيدلية',
+    'client_saved_successfully': 'تم حفظ {0} بنجاح.',
+    'archive': 'أرشفة',
+    'restore': 'استعادة',
+    'client_archived': 'تمت أرشفة {0}. لن يظهر للمندوب بعد الآن.',
+    'client_restored': 'تمت استعادة {0}.',
+    'show_archived': 'إظهار المؤرشف',
+    'select_all': 'تحديد الكل',
+    'select_rep': 'اختر المندوب',
+    'reassign': 'نقل',
+    'reassign_selected_to': 'نقل {0} عميل محدد إلى:',
+    'clients_reassigned_successfully': 'تم نقل {0} عميل إلى {1}.',
+    // Import Review
+    'validate_file': 'فحص الملف',
+    'validating': 'جاري الفحص...',
+    'step_3_review_rows': 'خطوة 3: مراجعة الصفوف وتصحيحها',
+    'rows_in_file': 'صفوف الملف',
+    'rows_ready': 'جاهزة للاستيراد',
+    'rows_with_errors': 'بها أخطاء',
+    'rows_excluded': 'مستبعدة',
+    'include': 'تضمين',
+    'row_number': 'رقم الصف',
+    'rep_email': 'بريد المندوب',
+    'import_row_valid': 'جاهز',
+    'import_row_invalid': 'به أخطاء',
+    'import_row_excluded': 'مستبعد',
+    'import_report': 'تقرير الاستيراد',
+    'import_new_regions_notice': 'سيتم إنشاء المناطق الجديدة التالية: {0}. تأكد من عدم وجود أخطاء إملائية.',
+    'new_region_will_be_created': 'منطقة جديدة',
+    'show_only_rows_with_errors': 'إظهار الصفوف التي بها أخطاء فقط',
+    'exclude_rows_with_errors': 'استبعاد كل الصفوف الخاطئة',
+    'download_error_report': 'تحميل تقرير الأخطاء',
+    'fix_or_exclude_rows_to_continue': 'صحح أو استبعد {0} صف به أخطاء للمتابعة.',
+    'import_ready_summary': '{0} صف جاهز. سيتم استيراد كل الصفوف معاً أو لا شيء.',
+    'import_n_rows': 'استيراد {0} صف',
+    'regions_created_count': 'تم إنشاء {0} منطقة جديدة',
+    'import_failed_nothing_saved': 'فشل الاستيراد ولم يتم حفظ أي صف. {0}',
+    'error_import_has_invalid_rows': 'توجد صفوف بها أخطاء.',
+    'import_error_missing_name': 'الاسم مفقود',
+    'import_error_missing_region': 'المنطقة مفقودة',
+    'import_error_missing_specialization': 'التخصص مفقود',
+    'import_error_missing_rep': 'بريد المندوب مفقود',
+    'import_error_unknown_rep': 'لا يوجد مستخدم بهذا البريد',
+    'import_error_duplicate_row': 'مكرر في الملف',
+    // Duplicates
+    'import_mode': 'طريقة الاستيراد',
+    'import_mode_insert': 'إضافة فقط',
+    'import_mode_insert_description': 'العملاء الموجودون بنفس الاسم والمنطقة يعتبرون أخطاء.',
+    'import_mode_upsert': 'إضافة وتحديث',
+    'import_mode_upsert_description': 'العملاء الموجودون يتم تحديث المندوب والتخصص لهم بدلاً من تكرارهم.',
+    'import_error_already_exists': 'العميل موجود بالفعل في هذه المنطقة',
+    'import_row_will_update': 'سيتم التحديث',
+    'import_similar_clients_notice': '{0} صف يشبه عملاء موجودين. راجعها قبل الاستيراد لتجنب التكرار.',
+    'similar_to_existing': 'يشبه: {0}',
+    'similar_to_existing_in_region': 'يشبه: {0} (في {1})',
+    'import_updates_summary': 'سيتم تحديث {0} عميل موجود.',
+    'records_updated_successfully': 'تم تحديث {0} سجل',
+    'possible_duplicate': 'تكرار محتمل',
+    'possible_duplicates': 'العملاء المكررون المحتملون',
+    'possible_duplicates_description': 'عملاء بأسماء متشابهة جداً، ويتم تمييز الأزواج الموجودة في مناطق مختلفة.',
+    'similarity': 'التشابه',
+    'different_regions': 'مناطق مختلفة',
+    'no_duplicates_found': 'لم يتم العثور على تكرارات.',
+    'merge_clients': 'دمج العملاء',
+    'choose_client_to_keep': 'اختر السجل الذي سيتم الاحتفاظ به:',
+    'merge_different_regions_warning': 'هذان العميلان في منطقتين مختلفتين. ادمجهما فقط إذا كانا نفس العميل فعلاً، وسيبقى السجل المحتفظ به في منطقته.',
+    'merge_clients_warning': 'سيتم نقل كل الزيارات وأيام الخطط إلى السجل المحتفظ به وحذف السجل الآخر. لا يمكن التراجع عن هذا الإجراء.',
+    'clients_merged_successfully': 'تم دمج {0} في {1}.',
+    'error_merge_same_client': 'لا يمكن دمج العميل في نفسه.',
+    'archived': 'مؤرشف',
+    // Visit Targets
+    'visit_frequency_targets': 'أهداف تكرار الزيارات',
+    'visit_frequency_targets_description': 'حدد عدد الأيام المسموح بها بين زيارتين لكل تخصص وفئة. القاعدة الأكثر تحديداً هي التي تطبق.',
+    'default_visit_target': 'الهدف الافتراضي: زيارة كل',
+    'days': 'يوم',
+    'visit_every': 'زيارة كل',
+    'any_specialization': 'كل التخصصات',
+    'tier': 'الفئة',
+    'any_tier': 'كل الفئات',
+    'tier_label': 'فئة {0}',
+    'add_visit_target': 'إضافة هدف',
+    'no_visit_targets': 'لا توجد أهداف خاصة، يطبق الهدف الافتراضي على كل العملاء.',
+    'days_past_target': 'متأخر {0} يوم عن الهدف',
+    'visit_target_every': 'الهدف: زيارة كل {0} يوم',
+    // Client Tiers
+    'no_tier': 'بدون فئة',
+    'import_error_invalid_tier': 'الفئة يجب أن تكون A أو B أو C',
+    'tier_kpis_monthly': 'مؤشرات الفئات (الشهر الحالي)',
+    'tier_kpis_hint': 'الزيارات المتوقعة محسوبة من أهداف تكرار الزيارات للأيام المنقضية من الشهر',
+    'clients': 'العملاء',
+    'covered_clients': 'عملاء تمت زيارتهم',
+    'coverage': 'التغطية',
+    'visits': 'الزيارات',
+    'expected_visits': 'الزيارات المتوقعة',
+    'frequency_attainment': 'تحقيق التكرار',
+    // Pharmacy Stock
+    'pharmacy': 'الصيدلية',
+    'all_regions': 'كل المناطق',
+    'all_products': 'كل المنتجات',
+    'stock_check': 'فحص المخزون',
+    'availability': 'التوفر',
+    'not_checked': 'لم يتم الفحص',
+    'stock_in_stock': 'متوفر',
+    'stock_low': 'مخزون منخفض',
+    'stock_out_of_stock': 'غير متوفر',
+    'shelf_quantity': 'الكمية على الرف',
+    'order_quantity': 'كمية الطلب',
+    'error_invalid_stock_quantity': 'الكميات يجب أن تكون أرقاماً صحيحة موجبة.',
+    'error_fetching_stock_checks': 'فشل تحميل بيانات المخزون.',
+    'stock_report': 'تقرير نقص المخزون',
+    'stock_report_description': 'آخر حالة مخزون مسجلة لكل منتج في كل صيدلية',
+    'pharmacies_checked': 'صيدليات تم فحصها',
+    'stock_out_rate': 'نسبة النقص',
+    'ordered_units': 'الوحدات المطلوبة',
+    'stock_by_product': 'حسب المنتج',
+    'stock_by_region': 'حسب المنطقة',
+    'stock_problems': 'صيدليات بها نقص',
+    'last_checked': 'آخر فحص',
+    'no_stock_problems': 'لا يوجد نقص في المخزون.',
+    // Samples
+    'all_reps': 'كل المندوبين',
+    'select_product': 'اختر المنتج',
+    'quantity': 'الكمية',
+    'balance': 'الرصيد',
+    'allocated': 'المخصص',
+    'distributed': 'الموزع',
+    'negative_balances': 'أرصدة سالبة',
+    'sample_kind': 'النوع',
+    'sample_kind_sample': 'عينات',
+    'sample_kind_promo': 'مواد دعائية',
+    'samples_given': 'العينات والمواد الموزعة',
+    'sample_available': 'المتاح: {0}',
+    'error_invalid_sample_quantity': 'كميات العينات يجب أن تكون أرقاماً صحيحة موجبة.',
+    'error_sample_exceeds_balance': 'الكمية تتجاوز رصيدك من {0} ({1}).',
+    'my_sample_inventory': 'رصيدي من العينات',
+    'sample_inventory': 'مخزون العينات',
+    'sample_inventory_description': 'ما تم تخصيصه لكل مندوب مقابل ما تم توزيعه في الزيارات',
+    'allocate_samples': 'تخصيص عينات',
+    'allocation_history': 'سجل التخصيص',
+    'allocation_quantity_hint': 'استخدم كمية سالبة لتسجيل المرتجعات أو التالف، مع ذكر السبب في الملاحظات.',
+    'error_invalid_allocation_quantity': 'أدخل كمية صحيحة غير صفرية، والكميات السالبة تحتاج إلى ملاحظة.',
+    'samples_allocated': 'تم تخصيص {0} من {1} إلى {2}.',
+    'error_fetching_samples': 'فشل تحميل مخزون العينات.',
+    'sample_reconciliation': 'مطابقة العينات',
+    // Visit Location
+    'share_visit_location': 'إرفاق موقعي الحالي مع الزيارة (تسجيل حضور GPS)',
+    'getting_location': 'جارٍ تحديد الموقع...',
+    'visit_location': 'الموقع',
+    'visit_location_verified': 'في الموقع ({0})',
+    'visit_far_from_client': 'بعيد عن العميل ({0})',
+    'visit_far_from_client_hint': 'تم تسجيل الزيارة على بعد أكثر من {0} من موقع العميل المسجل',
+    'visit_no_gps': 'بدون GPS',
+    'client_no_reference_location': 'لا يوجد موقع مرجعي للعميل',
+    'far_visits_today': '{0} زيارة مسجلة بعيداً عن موقع العميل',
+    'visit_location_check': 'التحقق من موقع الزيارة',
+    'visit_location_check_description': 'الزيارات المسجلة على مسافة أكبر من هذه من الموقع المرجعي للعميل يتم تمييزها في التقارير.',
+    'max_visit_distance': 'أقصى مسافة من العميل',
+    'meters': 'متر',
+    'client_location': 'الموقع المرجعي',
+    'client_location_hint': 'اختياري. إذا ترك فارغاً يُستخدم موقع أول زيارة مسجلة بـ GPS.',
+    'use_current_location': 'استخدام موقعي الحالي',
+    'latitude': 'خط العرض',
+    'longitude': 'خط الطول',
+    'error_invalid_coordinates': 'أدخل خط عرض (-90 إلى 90) وخط طول (-180 إلى 180) صحيحين.',
+    'error_location_unavailable': 'تعذر تحديد الموقع. تأكد من السماح بالوصول إلى الموقع.',
+    // Visit Corrections
+    'edit_visit': 'تعديل الزيارة: {0}',
+    'visit_history': 'سجل تعديلات الزيارة: {0}',
+    'delete_visit': 'حذف الزيارة',
+    'confirm_delete_visit': 'سيتم حذف الزيارة نهائياً مع الاحتفاظ بها في سجل التعديلات. هل أنت متأكد؟',
+    'change_reason': 'سبب التعديل',
+    'visit_type_fixed': 'لا يمكن تغيير نوع الزيارة بعد تسجيلها. احذف الزيارة وسجّلها من جديد إذا كان النوع خاطئًا.',
+    'change_history': 'سجل التعديلات',
+    'no_changes_recorded': 'لم يتم تعديل هذه الزيارة.',
+    'visit_audit_update': 'تعديل',
+    'visit_audit_delete': 'حذف',
+    'visit_field_productIds': 'المنتجات',
+    'visit_field_visitType': 'نوع الزيارة',
+    'visit_field_comment': 'الملاحظات',
+    'visit_edit_window_passed': 'انتهت مهلة تعديل هذه الزيارة ({0} ساعة من وقت التسجيل).',
+    'visit_edit_grace_hours': 'مهلة تعديل الزيارات (بالساعات)',
+    'visit_edit_grace_hours_hint': 'المدة التي يستطيع المندوب خلالها تعديل أو حذف زياراته. يمكن للمدير تعديل أي زيارة في أي وقت.',
+    'edit_or_view_history': 'تعديل / السجل',
+    'error_loading_visit': 'فشل تحميل بيانات الزيارة.',
+    'error_updating_visit': 'فشل تعديل الزيارة.',
+    'error_deleting_visit': 'فشل حذف الزيارة.',
+    'error_delete_reason_required': 'يرجى كتابة سبب الحذف.',
+    'error_visit_edit_window_closed': 'انتهت مهلة تعديل هذه الزيارة.',
+    // Audit Log
+    'audit_log': 'سجل العمليات الإدارية',
+    'audit_log_description': 'سجل دائم لكل عملية إدارية حساسة: من قام بها ومتى وعلى ماذا.',
+    'audit_actor': 'المنفذ',
+    'audit_action': 'العملية',
+    'audit_target': 'الهدف',
+    'audit_details': 'التفاصيل',
+    'audit_payload': 'البيانات الكاملة',
+    'audit_show_payload': 'عرض البيانات الكاملة',
+    'audit_all_actors': 'كل المنفذين',
+    'audit_all_actions': 'كل العمليات',
+    'audit_no_entries': 'لا توجد عمليات مسجلة تطابق الفلتر.',
+    'audit_action_delete_user': 'حذف مستخدم',
+    'audit_action_reset_rep_data': 'إعادة تعيين بيانات مندوب',
+    'audit_action_review_plan': 'مراجعة خطة',
+    'audit_action_revoke_plan_approval': 'إلغاء اعتماد خطة',
+    'audit_action_update_settings': 'تعديل الإعدادات',
+    'audit_action_import_clients': 'استيراد عملاء',
+    'audit_target_system_settings': 'إعدادات النظام',
+    'audit_settings_changed': 'تم تغيير: {0}',
+    'audit_settings_unchanged': 'لم تتغير أي قيمة',
+    'audit_setting_weekends': 'أيام العطلة الأسبوعية',
+    'audit_setting_holidays': 'العطلات الرسمية',
+    'audit_setting_visitTargets': 'أهداف تكرار الزيارات',
+    'audit_setting_defaultVisitTargetDays': 'الهدف الافتراضي للزيارات',
+    'audit_setting_maxVisitDistanceMeters': 'أقصى مسافة للزيارة',
+    'audit_setting_visitEditGraceHours': 'مهلة تعديل الزيارات',
+    'audit_import_summary': '{0}: {1} صف، {2} جديد، {3} محدث، {4} منطقة جديدة',
+    'error_fetching_audit_log': 'فشل تحميل سجل العمليات.',
+    // Visit Report Paging
+    'all_visit_types': 'كل أنواع الزيارات',
+    'all_specializations': 'كل التخصصات',
+    'showing_reports_range': 'عرض {0} - {1} من {2}',
+    'page_of': 'صفحة {0} من {1}',
+    'previous_page': 'الصفحة السابقة',
+    'next_page': 'الصفحة التالية',
+    // Full-text Search
+    'search_clients_and_notes_placeholder': 'ابحث باسم العميل أو في ملاحظات الزيارات...',
+    'more_matching_visits': '+{0} زيارات أخرى مطابقة',
+    // Client Profile
+    'client_profile': 'ملف العميل',
+    'open_client_profile': 'فتح ملف العميل',
+    'error_loading_client_profile': 'حدث خطأ أثناء تحميل ملف العميل.',
+    'error_client_not_found': 'لم يتم العثور على العميل.',
+    'error_adding_client_note': 'حدث خطأ أثناء إضافة الملاحظة.',
+    'days_since_last_visit': 'أيام منذ آخر زيارة',
+    'target_days_value': 'الهدف: كل {0} يوم',
+    'total_visits': 'إجمالي الزيارات',
+    'coaching_visits': 'زيارات التدريب',
+    'client_never_visited': 'لم تتم زيارة هذا العميل من قبل.',
+    'client_overdue_by': 'تجاوز هدف الزيارة بـ {0} يوم.',
+    'upcoming_plans': 'الخطط القادمة',
+    'not_in_upcoming_plans': 'العميل غير مدرج في أي خطة قادمة.',
+    'rep_history': 'سجل المندوبين',
+    'until_now': 'حتى الآن',
+    'no_rep_history': 'لا يوجد سجل للمندوبين.',
+    'products_discussed': 'المنتجات التي تمت مناقشتها',
+    'visit_timeline': 'الخط الزمني للزيارات',
+    'products_label': 'المنتجات:',
+    'no_visits_yet': 'لا توجد زيارات بعد.',
+    'client_notes': 'ملاحظات العميل',
+    'add_client_note_placeholder': 'أضف ملاحظة عن العميل...',
+    'add': 'إضافة',
+    'no_client_notes': 'لا توجد ملاحظات.',
+    // Client Identity
+    'client_id': 'رقم العميل',
+    // Client History Range
+    'visit_history_title': 'سجل الزيارات',
+    'history_range_days': 'آخر {0} يوم',
+    'history_range_all': 'الكل',
+    'no_visits_in_range': 'لا توجد زيارات في هذه الفترة.',
+    'visits_per_month': 'الزيارات شهرياً',
+    'coaching_vs_single': 'تدريب مقابل فردي',
+    // Product Feedback
+    'product_feedback': 'ردود الأطباء على المنتجات',
+    'doctor_reaction': 'رد فعل الطبيب',
+    'reaction_positive': 'إيجابي',
+    'reaction_neutral': 'محايد',
+    'reaction_negative': 'سلبي',
+    'prescription_intent': 'نية الوصف',
+    'intent_will_prescribe': 'سيصف المنتج',
+    'intent_undecided': 'لم يقرر',
+    'intent_will_not_prescribe': 'لن يصف المنتج',
+    'product_comment_placeholder': 'تعليق الطبيب على المنتج (اختياري)',
+    'error_product_feedback_incomplete': 'الرجاء اختيار رد فعل الطبيب ونية الوصف لكل منتج.',
+    'error_fetching_product_feedback': 'فشل في جلب ردود الأطباء على المنتجات.',
+    'product_reception_report': 'تقرير تقبل المنتجات',
+    'product_reception_report_description': 'كيف يتقبل الأطباء كل منتج حسب التخصص والمنطقة.',
+    'feedback_count': 'عدد الردود',
+    'positive_rate': 'نسبة الردود الإيجابية',
+    'prescribe_rate': 'نسبة نية الوصف',
+    'reception_by_product': 'التقبل حسب المنتج',
+    'reception_by_specialization': 'التقبل حسب التخصص',
+    'reception_by_region': 'التقبل حسب المنطقة',
+    'latest_product_comments': 'أحدث تعليقات الأطباء',
+    'no_product_comments': 'لا توجد تعليقات على المنتجات.',
+    'visit_field_productFeedback': 'ردود الطبيب على المنتجات',
+    'doctor': 'الطبيب',
+    'comment': 'التعليق',
+    // Coaching
+    'coaching': 'التدريب الميداني',
+    'coach': 'المدرب',
+    'select_coach': 'اختر المشرف أو المدير المرافق',
+    'error_select_coach': 'الرجاء اختيار المشرف أو المدير الذي رافقك في الزيارة التدريبية.',
+    'coached_by': 'بتدريب {0}',
+    'competency_opening': 'افتتاح الزيارة',
+    'competency_product_knowledge': 'المعرفة بالمنتج',
+    'competency_objection_handling': 'التعامل مع الاعتراضات',
+    'competency_closing': 'إغلاق الزيارة',
+    'competency_comment_placeholder': 'ملاحظة (اختياري)',
+    'coaching_score_scale': 'التقييم من 1 (يحتاج إلى تطوير) إلى 5 (ممتاز).',
+    'coaching_overall_comment': 'ملاحظات عامة',
+    'coaching_evaluation': 'تقييم الزيارة التدريبية',
+    'coaching_evaluations': 'تقييمات التدريب',
+    'submit_evaluation': 'حفظ التقييم',
+    'error_coaching_scores_incomplete': 'الرجاء تقييم جميع المهارات.',
+    'error_saving_coaching_evaluation': 'فشل في حفظ التقييم.',
+    'error_visit_already_evaluated': 'تم تقييم هذه الزيارة بالفعل.',
+    'error_fetching_coaching_evaluations': 'فشل في جلب تقييمات التدريب.',
+    'my_coaching': 'تقييماتي',
+    'no_coaching_evaluations': 'لا توجد تقييمات تدريب بعد.',
+    'average_of_evaluations': 'متوسط {0} تقييم',
+    'score_improved': 'تحسن بمقدار {0} عن التقييم السابق',
+    'score_declined': 'تراجع بمقدار {0} عن التقييم السابق',
+    'awaiting_your_evaluation': 'زيارات تدريبية بانتظار تقييمك ({0})',
+    'evaluate': 'تقييم',
+    'team_competency_report': 'مهارات الفريق',
+    'team_competency_report_description': 'متوسط تقييم كل مندوب في كل مهارة، الأضعف أولاً.',
+    'evaluations_count': 'عدد التقييمات',
+    'overall_score': 'المتوسط العام',
+    'last_evaluated': 'آخر تقييم',
+    'team_average': 'متوسط الفريق',
+    'latest_coaching_evaluations': 'أحدث التقييمات',
+    // Rep Scorecards
+    'rep_scorecards': 'بطاقات أداء المندوبين',
+    'rep_scorecards_description': 'مؤشرات أداء كل مندوب مرتبة، مع المقارنة بالفترة السابقة. اضغط على مندوب للتفاصيل.',
+    'comparing_periods': '{0} مقارنة بـ {1}',
+    'scorecard_period_week': 'هذا الأسبوع',
+    'scorecard_period_month': 'هذا الشهر',
+    'scorecard_period_quarter': 'هذا الربع',
+    'rank_by': 'الترتيب حسب',
+    'rank_by_metric': 'الترتيب حسب: {0}',
+    'kpi_score': 'التقييم العام',
+    'kpi_callRate': 'زيارات لكل يوم عمل',
+    'kpi_coverage': 'تغطية العملاء',
+    'kpi_frequencyCompliance': 'الالتزام بتكرار الزيارات',
+    'kpi_planAdherence': 'الالتزام بالخطة',
+    'kpi_coachingCount': 'زيارات تدريبية',
+    'kpi_gap': 'فجوات التغطية',
+    'previous_rank': 'الترتيب في الفترة السابقة: {0}',
+    'never_visited': 'لم تتم زيارته',
+    'days_since_target': '{0} يوم (الهدف {1})',
+    'and_n_more': 'و{0} آخرين',
+    'working_days_count': '{0} يوم عمل',
+    'current_period': 'الفترة الحالية',
+    'previous_period': 'الفترة السابقة',
+    'clients_not_visited': 'عملاء لم تتم زيارتهم',
+    'clients_past_target': 'عملاء تجاوزوا هدف الزيارة',
+    'click_for_scorecard_details': 'اضغط لعرض التفاصيل',
+    'client_type': 'نوع العميل',
+    'target_visit_days': 'هدف الزيارة (أيام)',
+    // Rep Scorecards
+    'no_visit_within_target': 'لا توجد زيارة خلال آخر {0} يوم',
+    // Full-text Search
+    'searching_clients': 'جارٍ البحث...',
   },
   en: {
     'hello': 'Hello, {0}',
@@ -272,5 +717,450 @@ export const translations: { [lang: string]: { [key: string]: string } } = {
     'error_details': 'Error Details',
     'file_processing_error': 'Error processing file',
     'file_reading_error': 'Error reading file',
+    // Offline Sync
+    'pending_sync_count': '{0} pending sync',
+    'sync_now': 'Sync now',
+    'syncing': 'Syncing...',
+    'sync_failed_items': '{0} visits failed to sync. Click to retry.',
+    'visit_saved_offline': 'You are offline. The visit was saved on this device and will sync automatically when you are back online.',
+    'visits_waiting_for_sync': '{0} visits saved on this device are waiting to sync.',
+    'error_duplicate_visit': 'This visit has already been recorded.',
+    // Plan History
+    'plan_history': 'Plan History',
+    'no_plan_history': 'No previous plans.',
+    'copy_last_week_plan': 'Copy Last Week\'s Plan',
+    'copy_to_this_week': 'Copy to This Week',
+    'copy_plan_title': 'Copy a Previous Plan',
+    'confirm_overwrite_plan': 'The current plan will be replaced with the plan for the week of {0}. Continue?',
+    'plan_copied_to_editor': 'The plan for the week of {0} was copied into the editor. Review it, then submit it for approval.',
+    'week_of': 'Week of {0}',
+    'planned_days_count': '{0} planned days',
+    'plan_status': 'Plan Status',
+    'no_plan_submitted': 'No plan submitted for this week.',
+    'plan_reviewed_by': 'Reviewed by {0} on {1}',
+    'plan_review_approved': 'Approved by {0} on {1}',
+    'plan_review_rejected': 'Rejected by {0} on {1}',
+    'plan_review_revoked': 'Approval revoked by {0} on {1}',
+    // Plan Adherence
+    'plan_adherence': 'Plan Adherence',
+    'plan_adherence_description': 'Planned doctors compared with actual visits for each rep and day.',
+    'planned_visits': 'Planned Visits',
+    'planned_visited': 'Planned & Visited',
+    'planned_missed': 'Planned & Missed',
+    'unplanned_visited': 'Unplanned Visits',
+    'adherence_score': 'Adherence Score',
+    'adherence_summary': 'Adherence Summary',
+    'adherence_daily_details': 'Daily Details',
+    'adherence_day_open': 'Day still open, {0} remaining',
+    'click_for_daily_details': 'Click to see daily details',
+    // Teams
+    'supervisor': 'Supervisor',
+    'no_supervisor': 'No supervisor',
+    // Products
+    'product_management': 'Products',
+    'product_catalog': 'Product Catalog',
+    'add_product': 'Add Product',
+    'edit_product': 'Edit Product',
+    'category': 'Category',
+    'all_categories': 'All categories',
+    'uncategorized': 'Uncategorized',
+    'category_helper_text': 'Pick an existing category or type a new one.',
+    'status': 'Status',
+    'product_active': 'Active',
+    'product_status_discontinued': 'Discontinued',
+    'show_discontinued': 'Show discontinued products',
+    'discontinue_product': 'Discontinue',
+    'reactivate_product': 'Reactivate',
+    'product_added_successfully': 'Product {0} added successfully.',
+    'product_updated_successfully': 'Product {0} updated successfully.',
+    'product_discontinued': 'Product {0} discontinued. It will no longer appear in new visit forms.',
+    'product_reactivated': 'Product {0} reactivated.',
+    'error_product_exists': 'A product with this name already exists.',
+    'error_fetching_products': 'Error fetching products.',
+    'error_all_fields_required': 'Please fill in all required fields.',
+    'saving': 'Saving...',
+    // Regions
+    'region_management': 'Regions',
+    'regions': 'Regions',
+    'region_management_description': 'Rename regions or merge duplicates. Merging moves doctors, pharmacies, visits and plan days to the chosen region.',
+    'choose_region': 'Choose a region',
+    'assigned_reps': 'Assigned Reps',
+    'rename': 'Rename',
+    'rename_region': 'Rename Region',
+    'merge': 'Merge',
+    'merge_into': 'Merge into...',
+    'merge_regions': 'Merge Regions',
+    'merge_region_into': 'Merge {0} into:',
+    'merge_regions_warning': '{1} doctors, {2} pharmacies and all visits and plan days will be moved out of {0}, which will then be deleted. This cannot be undone.',
+    'region_renamed_successfully': 'Renamed {0} to {1}.',
+    'regions_merged_successfully': 'Merged {0} into {1}.',
+    'error_region_exists': 'A region with this name already exists.',
+    'error_merge_same_region': 'A region cannot be merged into itself.',
+    'error_permission_denied': 'You do not have permission to perform this action.',
+    'rep_territories': 'Rep Territories',
+    'rep_territories_description': 'Choose the regions each rep can log visits in.',
+    'territory': 'Territory',
+    'territory_for': 'Territory for {0}',
+    'territory_helper_text': 'Leave every region unchecked to allow the rep all regions.',
+    'all_regions_no_territory': 'All regions (no territory)',
+    'assign_regions': 'Assign Regions',
+    'territory_saved_successfully': 'Territory saved for {0}.',
+    // Client Management
+    'add_doctor': 'Add Doctor',
+    'edit_doctor': 'Edit Doctor',
+    'add_pharmacy': 'Add Pharmacy',
+    'edit_pharmacy': 'Edit Pharmacy',
+    'client_saved_successfully': '{0} saved successfully.',
+    'archive': 'Archive',
+    'restore': 'Restore',
+    'client_archived': '{0} archived. The rep will no longer see it.',
+    'client_restored': '{0} restored.',
+    'show_archived': 'Show archived',
+    'select_all': 'Select all',
+    'select_rep': 'Select a rep',
+    'reassign': 'Reassign',
+    'reassign_selected_to': 'Reassign {0} selected clients to:',
+    'clients_reassigned_successfully': '{0} clients reassigned to {1}.',
+    // Import Review
+    'validate_file': 'Validate File',
+    'validating': 'Validating...',
+    'step_3_review_rows': 'Step 3: Review and Fix Rows',
+    'rows_in_file': 'Rows in File',
+    'rows_ready': 'Ready to Import',
+    'rows_with_errors': 'With Errors',
+    'rows_excluded': 'Excluded',
+    'include': 'Include',
+    'row_number': 'Row',
+    'rep_email': 'Rep Email',
+    'import_row_valid': 'Ready',
+    'import_row_invalid': 'Has errors',
+    'import_row_excluded': 'Excluded',
+    'import_report': 'Import Report',
+    'import_new_regions_notice': 'These new regions will be created: {0}. Check them for typos.',
+    'new_region_will_be_created': 'New region',
+    'show_only_rows_with_errors': 'Show only rows with errors',
+    'exclude_rows_with_errors': 'Exclude all rows with errors',
+    'download_error_report': 'Download Error Report',
+    'fix_or_exclude_rows_to_continue': 'Fix or exclude {0} rows with errors to continue.',
+    'import_ready_summary': '{0} rows are ready. They will be imported all together or not at all.',
+    'import_n_rows': 'Import {0} Rows',
+    'regions_created_count': '{0} new regions created',
+    'import_failed_nothing_saved': 'The import failed and no rows were saved. {0}',
+    'error_import_has_invalid_rows': 'Some rows still have errors.',
+    'import_error_missing_name': 'Name is missing',
+    'import_error_missing_region': 'Region is missing',
+    'import_error_missing_specialization': 'Specialization is missing',
+    'import_error_missing_rep': 'Rep email is missing',
+    'import_error_unknown_rep': 'No user with this email',
+    'import_error_duplicate_row': 'Duplicate row in the file',
+    // Duplicates
+    'import_mode': 'Import Mode',
+    'import_mode_insert': 'Add new only',
+    'import_mode_insert_description': 'Clients that already exist with the same name and region are flagged as errors.',
+    'import_mode_upsert': 'Add and update',
+    'import_mode_upsert_description': 'Existing clients get their rep and specialization updated instead of being duplicated.',
+    'import_error_already_exists': 'Client already exists in this region',
+    'import_row_will_update': 'Will update',
+    'import_similar_clients_notice': '{0} rows look similar to existing clients. Review them before importing to avoid duplicates.',
+    'similar_to_existing': 'Similar to: {0}',
+    'similar_to_existing_in_region': 'Similar to: {0} (in {1})',
+    'import_updates_summary': '{0} existing clients will be updated.',
+    'records_updated_successfully': '{0} records updated',
+    'possible_duplicate': 'Possible Duplicate',
+    'possible_duplicates': 'Possible Duplicate Clients',
+    'possible_duplicates_description': 'Clients with very similar names. Pairs in different regions are marked.',
+    'similarity': 'Similarity',
+    'different_regions': 'Different regions',
+    'no_duplicates_found': 'No duplicates found.',
+    'merge_clients': 'Merge Clients',
+    'choose_client_to_keep': 'Choose the record to keep:',
+    'merge_different_regions_warning': 'These clients are in different regions. Only merge them if they really are the same client; the kept record stays in its region.',
+    'merge_clients_warning': 'All visits and plan days will move to the kept record and the other record will be deleted. This cannot be undone.',
+    'clients_merged_successfully': 'Merged {0} into {1}.',
+    'error_merge_same_client': 'A client cannot be merged into itself.',
+    'archived': 'Archived',
+    // Visit Targets
+    'visit_frequency_targets': 'Visit Frequency Targets',
+    'visit_frequency_targets_description': 'Set how many days may pass between visits per specialization and tier. The most specific rule applies.',
+    'default_visit_target': 'Default target: visit every',
+    'days': 'days',
+    'visit_every': 'visit every',
+    'any_specialization': 'Any specialization',
+    'tier': 'Tier',
+    'any_tier': 'Any tier',
+    'tier_label': 'Tier {0}',
+    'add_visit_target': 'Add Target',
+    'no_visit_targets': 'No specific targets, the default applies to every client.',
+    'days_past_target': '{0} days past target',
+    'visit_target_every': 'Target: visit every {0} days',
+    // Client Tiers
+    'no_tier': 'No tier',
+    'import_error_invalid_tier': 'Tier must be A, B or C',
+    'tier_kpis_monthly': 'Tier KPIs (this month)',
+    'tier_kpis_hint': 'Expected visits follow the visit frequency targets for the days elapsed this month',
+    'clients': 'Clients',
+    'covered_clients': 'Visited clients',
+    'coverage': 'Coverage',
+    'visits': 'Visits',
+    'expected_visits': 'Expected visits',
+    'frequency_attainment': 'Frequency attainment',
+    // Pharmacy Stock
+    'pharmacy': 'Pharmacy',
+    'all_regions': 'All Regions',
+    'all_products': 'All Products',
+    'stock_check': 'Stock check',
+    'availability': 'Availability',
+    'not_checked': 'Not checked',
+    'stock_in_stock': 'In stock',
+    'stock_low': 'Low',
+    'stock_out_of_stock': 'Out of stock',
+    'shelf_quantity': 'Shelf qty',
+    'order_quantity': 'Order qty',
+    'error_invalid_stock_quantity': 'Quantities must be whole numbers of zero or more.',
+    'error_fetching_stock_checks': 'Failed to load stock checks.',
+    'stock_report': 'Stock-out Report',
+    'stock_report_description': 'Latest recorded stock status of each product at each pharmacy',
+    'pharmacies_checked': 'Pharmacies checked',
+    'stock_out_rate': 'Stock-out rate',
+    'ordered_units': 'Units ordered',
+    'stock_by_product': 'By product',
+    'stock_by_region': 'By region',
+    'stock_problems': 'Pharmacies with shortages',
+    'last_checked': 'Last checked',
+    'no_stock_problems': 'No shortages recorded.',
+    // Samples
+    'all_reps': 'All Reps',
+    'select_product': 'Select product',
+    'quantity': 'Quantity',
+    'balance': 'Balance',
+    'allocated': 'Allocated',
+    'distributed': 'Distributed',
+    'negative_balances': 'Negative balances',
+    'sample_kind': 'Type',
+    'sample_kind_sample': 'Samples',
+    'sample_kind_promo': 'Promo material',
+    'samples_given': 'Samples and material handed out',
+    'sample_available': 'Available: {0}',
+    'error_invalid_sample_quantity': 'Sample quantities must be whole numbers of zero or more.',
+    'error_sample_exceeds_balance': 'Quantity exceeds your balance of {0} ({1}).',
+    'my_sample_inventory': 'My Sample Inventory',
+    'sample_inventory': 'Sample Inventory',
+    'sample_inventory_description': 'What each rep was allocated against what they handed out on visits',
+    'allocate_samples': 'Allocate Samples',
+    'allocation_history': 'Allocation history',
+    'allocation_quantity_hint': 'Use a negative quantity to record returns or write-offs, with the reason in the notes.',
+    'error_invalid_allocation_quantity': 'Enter a whole, non-zero quantity; negative quantities need a note.',
+    'samples_allocated': 'Allocated {0} of {1} to {2}.',
+    'error_fetching_samples': 'Failed to load the sample inventory.',
+    'sample_reconciliation': 'Sample reconciliation',
+    // Visit Location
+    'share_visit_location': 'Attach my current location to this visit (GPS check-in)',
+    'getting_location': 'Getting location...',
+    'visit_location': 'Location',
+    'visit_location_verified': 'On site ({0})',
+    'visit_far_from_client': 'Far from client ({0})',
+    'visit_far_from_client_hint': 'Logged more than {0} from the client\'s recorded position',
+    'visit_no_gps': 'No GPS',
+    'client_no_reference_location': 'Client has no reference position',
+    'far_visits_today': '{0} visit(s) logged away from the client\'s position',
+    'visit_location_check': 'Visit location check',
+    'visit_location_check_description': 'Visits logged further than this from the client\'s reference position are flagged in reports.',
+    'max_visit_distance': 'Maximum distance from client',
+    'meters': 'meters',
+    'client_location': 'Reference position',
+    'client_location_hint': 'Optional. When empty, the first visit logged with GPS sets it.',
+    'use_current_location': 'Use my current location',
+    'latitude': 'Latitude',
+    'longitude': 'Longitude',
+    'error_invalid_coordinates': 'Enter a valid latitude (-90 to 90) and longitude (-180 to 180).',
+    'error_location_unavailable': 'Couldn\'t get the location. Check that location access is allowed.',
+    // Visit Corrections
+    'edit_visit': 'Edit Visit: {0}',
+    'visit_history': 'Visit History: {0}',
+    'delete_visit': 'Delete visit',
+    'confirm_delete_visit': 'The visit will be removed and kept only in the change history. Are you sure?',
+    'change_reason': 'Reason for change',
+    'visit_type_fixed': 'The visit type can\'t be changed after recording. Delete the visit and record it again if the type is wrong.',
+    'change_history': 'Change History',
+    'no_changes_recorded': 'This visit has not been changed.',
+    'visit_audit_update': 'Edited',
+    'visit_audit_delete': 'Deleted',
+    'visit_field_productIds': 'Products',
+    'visit_field_visitType': 'Visit type',
+    'visit_field_comment': 'Notes',
+    'visit_edit_window_passed': 'The edit window for this visit has passed ({0} hours after it was logged).',
+    'visit_edit_grace_hours': 'Visit edit window (hours)',
+    'visit_edit_grace_hours_hint': 'How long reps can edit or delete their own visits. Managers can correct any visit at any time.',
+    'edit_or_view_history': 'Edit / History',
+    'error_loading_visit': 'Failed to load the visit.',
+    'error_updating_visit': 'Failed to update the visit.',
+    'error_deleting_visit': 'Failed to delete the visit.',
+    'error_delete_reason_required': 'Please enter a reason for deleting the visit.',
+    'error_visit_edit_window_closed': 'The edit window for this visit has closed.',
+    // Audit Log
+    'audit_log': 'Audit Log',
+    'audit_log_description': 'A permanent record of every sensitive administrative action: who did it, when and to what.',
+    'audit_actor': 'Actor',
+    'audit_action': 'Action',
+    'audit_target': 'Target',
+    'audit_details': 'Details',
+    'audit_payload': 'Payload',
+    'audit_show_payload': 'Show payload',
+    'audit_all_actors': 'All actors',
+    'audit_all_actions': 'All actions',
+    'audit_no_entries': 'No recorded actions match the filter.',
+    'audit_action_delete_user': 'User deleted',
+    'audit_action_reset_rep_data': 'Rep data reset',
+    'audit_action_review_plan': 'Plan reviewed',
+    'audit_action_revoke_plan_approval': 'Plan approval revoked',
+    'audit_action_update_settings': 'Settings updated',
+    'audit_action_import_clients': 'Clients imported',
+    'audit_target_system_settings': 'System settings',
+    'audit_settings_changed': 'Changed: {0}',
+    'audit_settings_unchanged': 'No values changed',
+    'audit_setting_weekends': 'Weekends',
+    'audit_setting_holidays': 'Holidays',
+    'audit_setting_visitTargets': 'Visit frequency targets',
+    'audit_setting_defaultVisitTargetDays': 'Default visit target',
+    'audit_setting_maxVisitDistanceMeters': 'Max visit distance',
+    'audit_setting_visitEditGraceHours': 'Visit edit window',
+    'audit_import_summary': '{0}: {1} rows, {2} new, {3} updated, {4} new regions',
+    'error_fetching_audit_log': 'Failed to load the audit log.',
+    // Visit Report Paging
+    'all_visit_types': 'All visit types',
+    'all_specializations': 'All specializations',
+    'showing_reports_range': 'Showing {0}-{1} of {2}',
+    'page_of': 'Page {0} of {1}',
+    'previous_page': 'Previous page',
+    'next_page': 'Next page',
+    // Full-text Search
+    'search_clients_and_notes_placeholder': 'Search client names or visit notes...',
+    'more_matching_visits': '+{0} more matching visits',
+    // Client Profile
+    'client_profile': 'Client Profile',
+    'open_client_profile': 'Open client profile',
+    'error_loading_client_profile': 'Error loading the client profile.',
+    'error_client_not_found': 'Client not found.',
+    'error_adding_client_note': 'Error adding the note.',
+    'days_since_last_visit': 'Days since last visit',
+    'target_days_value': 'Target: every {0} days',
+    'total_visits': 'Total visits',
+    'coaching_visits': 'Coaching visits',
+    'client_never_visited': 'This client has never been visited.',
+    'client_overdue_by': 'Past the visit target by {0} days.',
+    'upcoming_plans': 'Upcoming plans',
+    'not_in_upcoming_plans': 'The client is not in any upcoming plan.',
+    'rep_history': 'Rep history',
+    'until_now': 'present',
+    'no_rep_history': 'No rep history.',
+    'products_discussed': 'Products discussed',
+    'visit_timeline': 'Visit timeline',
+    'products_label': 'Products:',
+    'no_visits_yet': 'No visits yet.',
+    'client_notes': 'Client notes',
+    'add_client_note_placeholder': 'Add a note about the client...',
+    'add': 'Add',
+    'no_client_notes': 'No notes.',
+    // Client Identity
+    'client_id': 'Client ID',
+    // Client History Range
+    'visit_history_title': 'Visit history',
+    'history_range_days': 'Last {0} days',
+    'history_range_all': 'All time',
+    'no_visits_in_range': 'No visits in this period.',
+    'visits_per_month': 'Visits per month',
+    'coaching_vs_single': 'Coaching vs single',
+    // Product Feedback
+    'product_feedback': 'Product feedback',
+    'doctor_reaction': 'Doctor reaction',
+    'reaction_positive': 'Positive',
+    'reaction_neutral': 'Neutral',
+    'reaction_negative': 'Negative',
+    'prescription_intent': 'Prescription intent',
+    'intent_will_prescribe': 'Will prescribe',
+    'intent_undecided': 'Undecided',
+    'intent_will_not_prescribe': 'Will not prescribe',
+    'product_comment_placeholder': 'Doctor\'s comment on the product (optional)',
+    'error_product_feedback_incomplete': 'Please choose the doctor\'s reaction and prescription intent for every product.',
+    'error_fetching_product_feedback': 'Failed to fetch product feedback.',
+    'product_reception_report': 'Product Reception',
+    'product_reception_report_description': 'How doctors receive each product, by specialization and region.',
+    'feedback_count': 'Feedback',
+    'positive_rate': 'Positive rate',
+    'prescribe_rate': 'Prescribe rate',
+    'reception_by_product': 'Reception by product',
+    'reception_by_specialization': 'Reception by specialization',
+    'reception_by_region': 'Reception by region',
+    'latest_product_comments': 'Latest doctor comments',
+    'no_product_comments': 'No product comments.',
+    'visit_field_productFeedback': 'Product feedback',
+    'doctor': 'Doctor',
+    'comment': 'Comment',
+    // Coaching
+    'coaching': 'Coaching',
+    'coach': 'Coach',
+    'select_coach': 'Select the supervisor or manager who joined',
+    'error_select_coach': 'Please select the supervisor or manager who joined the coaching visit.',
+    'coached_by': 'Coached by {0}',
+    'competency_opening': 'Opening',
+    'competency_product_knowledge': 'Product knowledge',
+    'competency_objection_handling': 'Objection handling',
+    'competency_closing': 'Closing',
+    'competency_comment_placeholder': 'Comment (optional)',
+    'coaching_score_scale': 'Scores run from 1 (needs work) to 5 (excellent).',
+    'coaching_overall_comment': 'Overall feedback',
+    'coaching_evaluation': 'Coaching Evaluation',
+    'coaching_evaluations': 'Coaching evaluations',
+    'submit_evaluation': 'Submit evaluation',
+    'error_coaching_scores_incomplete': 'Please score every competency.',
+    'error_saving_coaching_evaluation': 'Failed to save the evaluation.',
+    'error_visit_already_evaluated': 'This visit has already been evaluated.',
+    'error_fetching_coaching_evaluations': 'Failed to fetch coaching evaluations.',
+    'my_coaching': 'My Coaching',
+    'no_coaching_evaluations': 'No coaching evaluations yet.',
+    'average_of_evaluations': 'Average of {0} evaluations',
+    'score_improved': 'Up {0} since the previous evaluation',
+    'score_declined': 'Down {0} since the previous evaluation',
+    'awaiting_your_evaluation': 'Coaching visits awaiting your evaluation ({0})',
+    'evaluate': 'Evaluate',
+    'team_competency_report': 'Team Competencies',
+    'team_competency_report_description': 'Each rep\'s average score per competency, weakest first.',
+    'evaluations_count': 'Evaluations',
+    'overall_score': 'Overall',
+    'last_evaluated': 'Last evaluated',
+    'team_average': 'Team average',
+    'latest_coaching_evaluations': 'Latest evaluations',
+    // Rep Scorecards
+    'rep_scorecards': 'Rep Scorecards',
+    'rep_scorecards_description': 'Each rep\'s KPIs ranked and compared with the previous period. Click a rep for details.',
+    'comparing_periods': '{0} compared with {1}',
+    'scorecard_period_week': 'This week',
+    'scorecard_period_month': 'This month',
+    'scorecard_period_quarter': 'This quarter',
+    'rank_by': 'Rank by',
+    'rank_by_metric': 'Rank by: {0}',
+    'kpi_score': 'Overall score',
+    'kpi_callRate': 'Calls per working day',
+    'kpi_coverage': 'Client coverage',
+    'kpi_frequencyCompliance': 'Frequency compliance',
+    'kpi_planAdherence': 'Plan adherence',
+    'kpi_coachingCount': 'Coaching visits',
+    'kpi_gap': 'Coverage gaps',
+    'previous_rank': 'Previous period rank: {0}',
+    'never_visited': 'Never visited',
+    'days_since_target': '{0} days (target {1})',
+    'and_n_more': 'and {0} more',
+    'working_days_count': '{0} working days',
+    'current_period': 'Current period',
+    'previous_period': 'Previous period',
+    'clients_not_visited': 'Clients not visited',
+    'clients_past_target': 'Clients past their visit target',
+    'click_for_scorecard_details': 'Click for details',
+    'client_type': 'Client type',
+    'target_visit_days': 'Visit target (days)',
+    // Rep Scorecards
+    'no_visit_within_target': 'No visit in the last {0} days',
+    // Full-text Search
+    'searching_clients': 'Searching...',
   }
 };
@@ -0,0 +1,30 @@
+import { User, UserRole, VisitAuditEntry, VisitEdit, VisitReport } from '../types';
+
+export const DEFAULT_VISIT_EDIT_GRACE_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const visitKind = (report: VisitReport): 'doctor' | 'pharmacy' => (report.type === 'DOCTOR_VISIT' ? 'doctor' : 'pharmacy');
+
+// Managers may correct any visit at any time; reps only their own, and only within the grace window
+export const canModifyVisit = (report: VisitReport, user: User, graceHours: number, now: Date = new Date()): boolean => {
+  if (user.role === UserRole.Manager) return true;
+  if (user.role !== UserRole.Rep || report.repId !== user.id) return false;
+  return now.getTime() - new Date(report.date).getTime() <= graceHours * HOUR_MS;
+};
+
+export interface AuditFieldChange {
+  field: keyof VisitEdit;
+  before: VisitEdit[keyof VisitEdit] | undefined;
+  after: VisitEdit[keyof VisitEdit] | undefined;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Fields an audit entry touched; for a deletion every recorded field is listed with no after value
+export const auditFieldChanges = (entry: VisitAuditEntry): AuditFieldChange[] => {
+  const fields = Object.keys({ ...entry.before, ...entry.after }) as (keyof VisitEdit)[];
+  return fields
+    .map(field => ({ field, before: entry.before[field], after: entry.after ? entry.after[field] : undefined }))
+    .filter(change => !entry.after || !sameValue(change.before, change.after));
+};
@@ -0,0 +1,41 @@
+import { ClientAlert, ClientTier, SystemSettings, VisitFrequencyTarget } from '../types';
+
+export const DEFAULT_VISIT_TARGET_DAYS = 30;
+
+// A client's last visit as returned by the get_client_visit_recency RPC, before targets are applied
+export type ClientVisitRecency = Omit<ClientAlert, 'targetDays' | 'daysOverdue'>;
+
+// Specialization and tier both matching beats a specialization match, which beats a tier match
+const specificity = (target: VisitFrequencyTarget) => (target.specialization ? 2 : 0) + (target.tier ? 1 : 0);
+
+export const resolveTargetDays = (
+  specialization: string,
+  tier: ClientTier | null,
+  settings: Pick<SystemSettings, 'visitTargets' | 'defaultVisitTargetDays'>
+): number => {
+  const matching = settings.visitTargets.filter(target =>
+    (!target.specialization || target.specialization === specialization) &&
+    (!target.tier || target.tier === tier)
+  );
+  if (matching.length === 0) return settings.defaultVisitTargetDays;
+  // Among equally specific rules the stricter one wins
+  return matching.reduce((best, target) => {
+    const diff = specificity(target) - specificity(best);
+    return diff > 0 || (diff === 0 && target.days < best.days) ? target : best;
+  }).days;
+};
+
+// Clients that were never visited or whose last visit is older than their own target, most overdue first
+export const findOverdueClients = (clients: ClientVisitRecency[], settings: SystemSettings): ClientAlert[] => {
+  return clients
+    .map(client => {
+      const targetDays = resolveTargetDays(client.specialization, client.tier, settings);
+      return {
+        ...client,
+        targetDays,
+        daysOverdue: client.daysSinceLastVisit === null ? null : client.daysSinceLastVisit - targetDays,
+      };
+    })
+    .filter(alert => alert.daysOverdue === null || alert.daysOverdue > 0)
+    .sort((a, b) => (b.daysOverdue ?? Infinity) - (a.daysOverdue ?? Infinity));
+};
@@ -16,6 +16,7 @@ export interface User {
   username: string;
   password?: string; // Should not be passed to frontend in a real app
   role: UserRole;
+  supervisorId?: string | null; // Reps only: the supervisor whose team the rep belongs to
 }
 
 export interface Region {
@@ -29,6 +30,9 @@ export interface Doctor {
   regionId: number;
   repId: string; // Changed from number for UUID
   specialization: string; // Changed to string to allow dynamic specializations from import
+  isArchived: boolean; // Archived clients are hidden from reps but kept for visit history
+  tier: ClientTier | null; // Potential segment, A being the most valuable
+  location: GeoPoint | null; // Reference position visits are checked against
 }
 
 export interface Pharmacy {
@@ -37,13 +41,36 @@ export interface Pharmacy {
   regionId: number;
   repId: string; // Changed from number for UUID
   specialization: Specialization.Pharmacy;
+  isArchived: boolean;
+  tier: ClientTier | null;
+  location: GeoPoint | null;
 }
 
+export type DoctorInput = Pick<Doctor, 'name' | 'regionId' | 'repId' | 'specialization' | 'tier' | 'location'>;
+export type PharmacyInput = Pick<Pharmacy, 'name' | 'regionId' | 'repId' | 'tier' | 'location'>;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Where the device was when a visit was submitted
+export interface VisitLocation extends GeoPoint {
+  accuracy: number | null; // Meters, as reported by the browser
+}
+
+// How a visit's position compares with its client's reference position
+export type VisitLocationStatus = 'verified' | 'far' | 'no_gps' | 'no_reference';
+
 export interface Product {
   id: number;
   name: string;
+  category: string | null;
+  isActive: boolean; // Discontinued products stay in the catalog so past visits still resolve
 }
 
+export type ProductInput = Pick<Product, 'name' | 'category'>;
+
 export interface DoctorVisit {
   id: number;
   doctorId: number;
@@ -51,34 +78,336 @@ export interface DoctorVisit {
   productIds: number[];
   regionId: number;
   visitType: 'Coaching' | 'Single';
-  doctorComment: string;
+  coachId: string | null; // Supervisor or manager who joined a coaching visit
+  doctorComment: string; // About the visit as a whole
+  productFeedback: ProductFeedback[]; // One entry per detailed product
+  samples: SampleDistribution[];
+  location: VisitLocation | null;
+  date: string;
+}
+
+export type DoctorReaction = 'positive' | 'neutral' | 'negative';
+export const DOCTOR_REACTIONS: DoctorReaction[] = ['positive', 'neutral', 'negative'];
+
+export type PrescriptionIntent = 'will_prescribe' | 'undecided' | 'will_not_prescribe';
+export const PRESCRIPTION_INTENTS: PrescriptionIntent[] = ['will_prescribe', 'undecided', 'will_not_prescribe'];
+
+// How the doctor received one product detailed on a visit
+export interface ProductFeedback {
+  productId: number;
+  reaction: DoctorReaction;
+  prescriptionIntent: PrescriptionIntent;
+  comment: string;
+}
+
+export interface ProductFeedbackWithName extends ProductFeedback {
+  productName: string;
+}
+
+// One product's feedback with the visit's context, as returned by the get_product_feedback RPC
+export interface ProductFeedbackRecord extends ProductFeedbackWithName {
+  visitId: string;
+  date: string;
+  doctorId: number;
+  doctorName: string;
+  repId: string;
+  repName: string;
+  regionId: number;
+  regionName: string;
+  specialization: string;
+}
+
+// Feedback rolled up per product, specialization or region for the product reception report
+export interface ProductReceptionSummary {
+  key: string;
+  label: string;
+  feedbackCount: number;
+  positiveCount: number;
+  neutralCount: number;
+  negativeCount: number;
+  willPrescribeCount: number;
+  positiveRate: number | null; // positiveCount / feedbackCount as a percentage
+  prescribeRate: number | null; // willPrescribeCount / feedbackCount as a percentage
+}
+
+export type CoachingCompetency = 'opening' | 'product_knowledge' | 'objection_handling' | 'closing';
+export const COACHING_COMPETENCIES: CoachingCompetency[] = ['opening', 'product_knowledge', 'objection_handling', 'closing'];
+
+export interface CoachingScore {
+  competency: CoachingCompetency;
+  score: number; // 1 (needs work) to 5 (excellent)
+  comment: string;
+}
+
+// A coaching visit its coach hasn't evaluated yet
+export interface PendingCoachingVisit {
+  visitId: string;
+  visitDate: string;
+  repId: string;
+  repName: string;
+  doctorName: string;
+}
+
+export interface CoachingEvaluation extends PendingCoachingVisit {
+  id: number;
+  coachId: string;
+  coachName: string;
+  scores: CoachingScore[]; // One per competency
+  overallComment: string;
+  createdAt: string;
+}
+
+export type NewCoachingEvaluation = Pick<CoachingEvaluation, 'visitId' | 'scores' | 'overallComment'>;
+
+export interface RepCompetencySummary {
+  repId: string;
+  repName: string;
+  evaluationCount: number;
+  averages: Record<CoachingCompetency, number | null>; // Rounded to one decimal
+  overall: number | null; // Mean of all scores
+  lastEvaluatedAt: string | null;
+}
+
+export type SampleKind = 'sample' | 'promo';
+
+// Samples or promotional material for one product handed out on a doctor visit
+export interface SampleDistribution {
+  productId: number;
+  kind: SampleKind;
+  quantity: number;
+}
+
+// Stock handed to a rep by a manager; negative quantities record returns and write-offs
+export interface SampleAllocation {
+  id: number;
+  repId: string;
+  productId: number;
+  kind: SampleKind;
+  quantity: number;
+  note: string;
+  allocatedBy: string;
   date: string;
 }
 
+export type NewSampleAllocation = Pick<SampleAllocation, 'repId' | 'productId' | 'kind' | 'quantity' | 'note'>;
+
+// What a rep holds of one product and kind: everything allocated minus everything handed out
+export interface SampleBalance {
+  repId: string;
+  productId: number;
+  kind: SampleKind;
+  allocated: number;
+  distributed: number;
+  balance: number;
+}
+
+export interface SampleReconciliationRow extends SampleBalance {
+  repName: string;
+  productName: string;
+}
+
 export interface PharmacyVisit {
   id: number;
   pharmacyId: number;
   repId: string; // Changed from number for UUID
   regionId: number;
   visitNotes: string;
+  stockChecks: PharmacyStockCheck[];
+  location: VisitLocation | null;
   date: string;
 }
 
+export type StockStatus = 'in_stock' | 'low' | 'out_of_stock';
+
+// One product checked on the shelf during a pharmacy visit
+export interface PharmacyStockCheck {
+  productId: number;
+  status: StockStatus;
+  shelfQuantity: number | null;
+  orderQuantity: number | null; // Units ordered through the rep on this visit, if any
+}
+
+// Most recent stock check of a product at a pharmacy, as returned by the get_latest_stock_checks RPC
+export interface PharmacyStockLevel extends PharmacyStockCheck {
+  pharmacyId: number;
+  pharmacyName: string;
+  regionId: number;
+  regionName: string;
+  repId: string;
+  repName: string;
+  productName: string;
+  checkedAt: string;
+}
+
+// Stock levels rolled up per product or per region for the stock-out report
+export interface StockSummary {
+  key: string;
+  label: string;
+  checkedCount: number; // Pharmacy/product pairs with a stock check
+  inStockCount: number;
+  lowCount: number;
+  outOfStockCount: number;
+  stockOutRate: number | null; // outOfStockCount / checkedCount as a percentage
+}
+
+// Payloads accepted by api.addDoctorVisit / api.addPharmacyVisit
+export type NewDoctorVisit = Omit<DoctorVisit, 'id' | 'date'>;
+export type NewPharmacyVisit = Omit<PharmacyVisit, 'id' | 'date'>;
+
+// Optional metadata sent along with a visit when it is replayed from the offline outbox
+export interface VisitSyncMeta {
+  date?: string; // When the visit was actually recorded on the device
+  clientRequestId?: string; // Idempotency key, lets the server reject duplicates
+}
+
 export type Visit = (DoctorVisit & { type: 'doctor' }) | (PharmacyVisit & { type: 'pharmacy' });
 
+export type ClientType = 'doctor' | 'pharmacy';
+
 export type VisitReport = {
     id: string;
     type: 'DOCTOR_VISIT' | 'PHARMACY_VISIT';
+    // Visits are joined to clients, reps, regions and products on these IDs; the names are for display only
+    clientId: number;
+    clientType: ClientType;
+    repId: string;
+    regionId: number;
+    productIds: number[]; // Empty for pharmacy visits
     repName: string;
     regionName: string;
     targetName: string;
     targetSpecialization?: string; // Changed to string to match Doctor specialization
     productName?: string;
+    productFeedback?: ProductFeedbackWithName[]; // Doctor visits recorded with per-product feedback
     visitType?: 'Coaching' | 'Single';
     notes: string;
     date: string;
+    // Visit and client positions, null when either wasn't captured
+    visitLatitude?: number | null;
+    visitLongitude?: number | null;
+    clientLatitude?: number | null;
+    clientLongitude?: number | null;
 };
 
+// Identifies one client wherever a profile can be opened from
+export interface ClientRef {
+  type: ClientType;
+  id: number;
+}
+
+// A client found by the full-text search over client names and visit notes, ranked on the server
+export interface ClientSearchHit {
+  client: ClientRef;
+  name: string;
+  score: number;
+  nameMatched: boolean;
+  noteMatches: { visitId: string; date: string; snippet: string }[]; // Newest first, a few per client
+  noteMatchCount: number; // Every matching visit, including those without a snippet
+}
+
+// How many days back a client's visit history goes
+export type ClientHistoryRange = 30 | 90 | 365 | 'all';
+export const CLIENT_HISTORY_RANGES: ClientHistoryRange[] = [30, 90, 365, 'all'];
+
+// A period during which a rep was responsible for a client; unassignedAt is null for the current rep
+export interface ClientRepAssignment {
+  repId: string;
+  repName: string;
+  assignedAt: string;
+  unassignedAt: string | null;
+}
+
+// A day in a weekly plan from the current week on that includes the client
+export interface ClientPlanEntry {
+  weekStart: string;
+  dayIndex: number; // 0 = Sunday ... 6 = Saturday, same as WeeklyPlan.plan
+  repId: string;
+  status: WeeklyPlan['status'];
+}
+
+export interface ClientNote {
+  id: number;
+  authorId: string;
+  authorName: string | null;
+  body: string;
+  createdAt: string;
+}
+
+// Everything the client profile shows, loaded in one round trip
+export interface ClientProfile {
+  type: ClientType;
+  client: Doctor | Pharmacy;
+  regionName: string;
+  repName: string;
+  repHistory: ClientRepAssignment[]; // Newest first
+  visits: VisitReport[]; // Newest first
+  upcomingPlans: ClientPlanEntry[]; // Soonest first
+}
+
+// Server-side filters for visit reports; every field is optional and combined with AND
+export interface VisitReportFilter {
+  repIds?: string[]; // A selected rep, or a supervisor's team
+  regionId?: number;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  visitType?: VisitReport['type'];
+  productId?: number;
+  specialization?: string;
+}
+
+export type VisitReportSortField = 'date' | 'rep' | 'region' | 'client';
+
+export interface VisitReportQuery extends VisitReportFilter {
+  page: number; // 1-based
+  pageSize: number;
+  sortBy: VisitReportSortField;
+  sortDirection: 'asc' | 'desc';
+}
+
+export interface VisitReportPage {
+  reports: VisitReport[];
+  totalCount: number; // Matching reports across all pages
+}
+
+// Aggregates over every report matching a filter, for the charts
+export interface VisitReportStats {
+  total: number;
+  doctorVisits: number;
+  pharmacyVisits: number;
+  uniqueClients: number;
+  firstVisitAt: string | null; // Null when nothing matches
+  lastVisitAt: string | null;
+  byRep: { repName: string; count: number }[];
+}
+
+// The correctable part of a logged visit, as loaded for editing
+export interface VisitDetails {
+  kind: 'doctor' | 'pharmacy';
+  id: string;
+  repId: string;
+  date: string;
+  productIds: number[]; // Doctor visits only
+  productFeedback: ProductFeedback[]; // Doctor visits only
+  visitType: 'Coaching' | 'Single' | null; // Doctor visits only
+  comment: string; // doctorComment or visitNotes
+}
+
+export type VisitEdit = Pick<VisitDetails, 'productIds' | 'productFeedback' | 'visitType' | 'comment'>;
+
+// One change to a visit with the values before and after it; after is null for deletions
+export interface VisitAuditEntry {
+  id: number;
+  visitKind: 'doctor' | 'pharmacy';
+  visitId: string;
+  action: 'update' | 'delete';
+  changedBy: string;
+  changedByName: string;
+  changedAt: string;
+  before: Partial<VisitEdit>;
+  after: Partial<VisitEdit> | null;
+  reason: string;
+}
+
 export interface ClientAlert {
   id: string; // e.g., 'doctor-1'
   name: string;
@@ -87,11 +416,30 @@ export interface ClientAlert {
   repName: string;
   regionName: string;
   daysSinceLastVisit: number | null; // null if never visited
+  specialization: string; // Specialization.Pharmacy for pharmacies
+  tier: ClientTier | null;
+  targetDays: number; // Visit frequency target that applies to this client
+  daysOverdue: number | null; // Days past targetDays, null if never visited
+}
+
+export type ClientTier = 'A' | 'B' | 'C';
+
+export const CLIENT_TIERS: ClientTier[] = ['A', 'B', 'C'];
+
+// How often a client segment should be visited. A null field matches every client, the most specific rule wins.
+export interface VisitFrequencyTarget {
+  specialization: string | null; // Doctor specialization, or Specialization.Pharmacy for pharmacies
+  tier: ClientTier | null;
+  days: number;
 }
 
 export interface SystemSettings {
   weekends: number[]; // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
   holidays: string[]; // YYYY-MM-DD
+  visitTargets: VisitFrequencyTarget[];
+  defaultVisitTargetDays: number; // Used for clients no target matches
+  maxVisitDistanceMeters: number; // Visits logged further than this from the client are flagged
+  visitEditGraceHours: number; // How long after logging a visit its rep may still edit or delete it
 }
 
 // New interface for the details of a day's plan
@@ -101,8 +449,164 @@ export interface DayPlanDetails {
 }
 
 export interface WeeklyPlan {
+  id?: number;
+  repId: string;
+  weekStart: string; // YYYY-MM-DD of the Saturday the plan week starts on
   plan: {
     [dayIndex: number]: DayPlanDetails | null;
   };
   status: 'draft' | 'pending' | 'approved' | 'rejected';
-}
\ No newline at end of file
+  reviewedBy?: string | null;
+  reviewerName?: string | null;
+  reviewedAt?: string | null;
+}
+
+// One row per review decision on a week's plan, so approvals stay auditable after later changes
+export interface PlanReview {
+  id: number;
+  repId: string;
+  weekStart: string;
+  action: 'approved' | 'rejected' | 'revoked';
+  reviewedBy: string;
+  reviewerName?: string | null;
+  createdAt: string;
+}
+// Plan vs. actual for one rep on one day. Only doctor visits count, matched on the same calendar day.
+export interface DayAdherence {
+  dayIndex: number; // 0 = Sunday ... 6 = Saturday, same as WeeklyPlan.plan
+  date: string; // YYYY-MM-DD
+  isUpcoming: boolean; // Day hasn't ended yet, so planned doctors aren't counted as missed
+  plannedDoctorIds: number[];
+  visitedPlannedIds: number[];
+  missedIds: number[];
+  unplannedVisitedIds: number[];
+}
+
+export interface RepWeekAdherence {
+  repId: string;
+  weekStart: string;
+  planStatus: WeeklyPlan['status'] | null; // null when the rep has no plan for the week
+  days: DayAdherence[]; // Saturday to Friday
+  plannedCount: number; // Planned doctors on days that have already passed
+  visitedPlannedCount: number;
+  missedCount: number;
+  unplannedCount: number;
+  score: number | null; // visitedPlannedCount / plannedCount as a percentage, null when nothing was due
+}
+
+// A visit recorded while offline, waiting in the IndexedDB outbox
+export interface OutboxEntry {
+  id?: number; // Auto-incremented by IndexedDB, defines replay order
+  kind: 'doctor' | 'pharmacy';
+  payload: NewDoctorVisit | NewPharmacyVisit;
+  clientRequestId: string;
+  createdAt: string;
+  attempts: number;
+  status: 'pending' | 'failed';
+  lastError?: string;
+}
+
+export interface OutboxState {
+  pending: number;
+  failed: number;
+  syncing: boolean;
+  lastSyncAt: string | null;
+}
+
+export type ImportType = 'doctors' | 'pharmacies';
+
+// One row of an uploaded client sheet while it is staged for review in DataImport
+export interface ImportRow {
+  rowNumber: number; // Row in the uploaded sheet, the header is row 1
+  name: string;
+  regionName: string;
+  specialization: string; // Always empty for pharmacies
+  repEmail: string;
+  tier: string; // Optional A, B or C as typed in the sheet
+  excluded: boolean; // Excluded rows are skipped on commit and never block it
+  repId: string | null; // Resolved from repEmail during validation
+  regionId: number | null; // null when the region does not exist yet and will be created
+  existingId: number | null; // Client with the same name and region already in the system
+  // Existing client that looks like a near duplicate, a warning only. regionName is set when it is in another region.
+  similarTo: { name: string; regionName: string | null } | null;
+  errors: string[]; // Translation keys, the row can only be imported when this is empty
+}
+
+// 'insert' only adds new clients, 'upsert' updates the rep and specialization of clients that already exist
+export type ImportMode = 'insert' | 'upsert';
+
+// Coverage and call frequency of one client tier over a period, null tier meaning clients without a tier
+export interface TierKpi {
+  tier: ClientTier | null;
+  clientCount: number;
+  coveredCount: number; // Clients visited at least once in the period
+  coverage: number | null; // coveredCount / clientCount as a percentage
+  visitCount: number;
+  expectedVisits: number; // What the visit frequency targets ask for over the elapsed part of the period
+  frequencyAttainment: number | null; // visitCount / expectedVisits as a percentage
+}
+
+export type ScorecardPeriod = 'week' | 'month' | 'quarter';
+export const SCORECARD_PERIODS: ScorecardPeriod[] = ['week', 'month', 'quarter'];
+
+// Inclusive YYYY-MM-DD range a scorecard covers
+export interface KpiWindow {
+  start: string;
+  end: string;
+}
+
+// An assigned client behind a coverage or frequency gap, for drill-down
+export interface ScorecardClient extends ClientRef {
+  name: string;
+  daysSinceLastVisit: number | null; // At the end of the window, null if never visited
+  targetDays: number;
+}
+
+export interface RepScorecard {
+  repId: string;
+  repName: string;
+  visitCount: number;
+  workingDays: number; // Elapsed days in the window that aren't weekends or holidays
+  callRate: number | null; // Visits per working day, one decimal
+  assignedClients: number;
+  coveredClients: number; // Assigned clients the rep visited in the window
+  coverage: number | null; // As a percentage
+  compliantClients: number; // Assigned clients whose last visit is within their frequency target at the end of the window
+  frequencyCompliance: number | null; // As a percentage
+  plannedCount: number; // Planned doctor visits that were due in the window
+  visitedPlannedCount: number;
+  planAdherence: number | null; // As a percentage
+  coachingCount: number; // Coaching visits in the window
+  score: number | null; // Mean of coverage, frequency compliance and plan adherence
+  uncoveredClients: ScorecardClient[];
+  nonCompliantClients: ScorecardClient[]; // Most overdue first
+}
+
+export type ScorecardMetric = 'score' | 'callRate' | 'coverage' | 'frequencyCompliance' | 'planAdherence' | 'coachingCount';
+export const SCORECARD_METRICS: ScorecardMetric[] = ['score', 'callRate', 'coverage', 'frequencyCompliance', 'planAdherence', 'coachingCount'];
+
+// Administrative actions recorded in the append-only audit log
+export type AuditAction = 'delete_user' | 'reset_rep_data' | 'review_plan' | 'revoke_plan_approval' | 'update_settings' | 'import_clients';
+
+export const AUDIT_ACTIONS: AuditAction[] = ['delete_user', 'reset_rep_data', 'review_plan', 'revoke_plan_approval', 'update_settings', 'import_clients'];
+
+export type AuditTargetType = 'user' | 'weekly_plan' | 'system_settings' | 'clients';
+
+export interface AuditLogEntry {
+  id: number;
+  actorId: string;
+  actorName: string | null;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  targetLabel: string | null; // Captured when the action ran, so it survives e.g. the user being deleted
+  payload: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilter {
+  actorId?: string;
+  action?: AuditAction;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}